@@ -1,124 +1,369 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Item, Transaction } from './types';
+import type { Item, Transaction, CostingMethod, OrderedPart, Customer, Supplier, Rma, RmaOutcome, Stocktake, StocktakeLine, Reservation, ReleaseOrder, ReleaseOrderStatus, User, Role, Permission, AuditEntry, TrashedItem } from './types';
 import AddItemModal from './components/AddItemModal';
 import ItemDetailModal from './components/ItemDetailModal';
+import AddOrderedPartModal from './components/AddOrderedPartModal';
+import EditOrderedPartModal, { ORDER_STATUS_LABELS } from './components/EditOrderedPartModal';
+import SyncConflictModal from './components/SyncConflictModal';
+import UserManagementModal from './components/UserManagementModal';
+import AuditLogModal from './components/AuditLogModal';
+import TrashModal from './components/TrashModal';
+import SerialLookupModal from './components/SerialLookupModal';
+import CustomerModal from './components/CustomerModal';
+import SupplierModal from './components/SupplierModal';
+import type { SupplierFormData } from './components/SupplierModal';
+import RmaModal from './components/RmaModal';
+import StocktakeModal from './components/StocktakeModal';
+import ReservationModal from './components/ReservationModal';
+import type { ReservationFormData } from './components/ReservationModal';
+import ReleaseOrderModal from './components/ReleaseOrderModal';
+import type { ReleaseOrderFormData } from './components/ReleaseOrderModal';
+import ScanStationModal from './components/ScanStationModal';
+import type { ScanCommitOptions } from './components/ScanStationModal';
+import LabelPrintModal from './components/LabelPrintModal';
+import ValuationReportModal from './components/ValuationReportModal';
+import LedgerModal from './components/LedgerModal';
+import LotTraceModal from './components/LotTraceModal';
+import ReportsModal from './components/ReportsModal';
+import ExcelImportModal from './components/ExcelImportModal';
+import BackupImportModal from './components/BackupImportModal';
+import HistoryModal from './components/HistoryModal';
+import { createKvClient, syncDocument, mergeDocuments, isSameDocument, applyConflictAlternative, reassignDuplicateIds, emptyDocument } from './services/sync';
+import { generateId } from './services/ids';
+import type { SyncDocument, SyncConflict } from './services/sync';
+import { computeOutbox, retryDelay } from './services/outbox';
+import type { OutboxEntry } from './services/outbox';
+import { createAuditEntry, diffFields } from './services/audit';
+import { bomRequirements, bomShortageMessage, consumptionReleases } from './services/bom';
+import { buildSerialRegistry, isSerialAvailable } from './services/serials';
+import { migrateCustomers, findCustomer } from './services/customers';
+import { defaultSupplierFor } from './services/suppliers';
+import { appendTransactions } from './services/lots';
+import { calculateStock, calculateQuarantineStock, calculateLocationStock, itemAsOf, endOfDate, TRANSACTION_TYPE_LABELS } from './services/stock';
+import { LOCATIONS, MAIN_LOCATION_ID, locationName } from './services/locations';
+import { isBelowSafetyStock, reorderSuggestions, lastUnitPrice } from './services/reorder';
+import { valuateItem, formatCost, COSTING_METHOD_LABELS } from './services/valuation';
+import { downloadWorkbook, inventorySheet, historySheet, summarySheet, ITEM_TYPE_LABELS } from './services/excel';
+import { importRecords } from './services/excelImport';
+import type { ImportPlan } from './services/excelImport';
+import { createBackupFile, IMPORT_MODE_LABELS } from './services/backup';
+import type { CollectionDiff, ImportMode } from './services/backup';
+import { checkWarranty, RMA_OUTCOME_LABELS } from './services/rma';
+import { nextStocktakeReference, stocktakeVariances, stocktakeAdjustments } from './services/stocktake';
+import { availableLocationStock, isReservationExpired, isReservationHolding, reservationReleases } from './services/reservations';
+import { nextReleaseOrderNumber, releaseOrderErrors, RELEASE_ORDER_STATUS_LABELS, shipmentTransactions } from './services/releaseOrders';
+import { pickHistoryState, isSameState, applyHistoryStep, MAX_HISTORY } from './services/history';
+import type { HistoryEntry, HistoryState } from './services/history';
+import { DEFAULT_LABEL_LAYOUT } from './services/labels';
+import { scanTransactions } from './services/scan';
+import type { ScanLine, ScanMode } from './services/scan';
+import type { LabelLayout } from './services/labels';
+import { ADMIN_ROLE_ID, DEFAULT_ROLES, createSalt, hashPassword, verifyPassword, permissionsOf, hasActiveAdmin } from './services/auth';
+import { errorMessage } from './services/errors';
 import { PlusIcon, BoxIcon, SearchIcon, TrashIcon, DownloadIcon, CloudIcon, ServerIcon } from './components/icons';
 
 const STORAGE_KEY = 'inventory_system_data_v2';
-const ADMIN_PASSWORD = '0000';
-const PRODUCT_ONLY_PASSWORD = '1111';
+const ORDERED_STORAGE_KEY = 'inventory_ordered_parts_v2';
+const CUSTOMERS_STORAGE_KEY = 'inventory_customers_v2';
+const SUPPLIERS_STORAGE_KEY = 'inventory_suppliers_v2';
+const RMAS_STORAGE_KEY = 'inventory_rmas_v2';
+const STOCKTAKES_STORAGE_KEY = 'inventory_stocktakes_v2';
+const RESERVATIONS_STORAGE_KEY = 'inventory_reservations_v2';
+const RELEASE_ORDERS_STORAGE_KEY = 'inventory_release_orders_v2';
+const USERS_STORAGE_KEY = 'inventory_users_v2';
+const ROLES_STORAGE_KEY = 'inventory_roles_v2';
+const AUDIT_STORAGE_KEY = 'inventory_audit_log_v2';
+const TRASH_STORAGE_KEY = 'inventory_trash_v2';
+const SYNC_BASE_KEY = 'inventory_sync_base_v2';
+const OUTBOX_KEY = 'inventory_sync_outbox_v2';
+const COSTING_METHOD_KEY = 'inventory_costing_method_v2';
+const LABEL_LAYOUT_KEY = 'inventory_label_layout_v2';
 const DB_KEY = 'inventory_master_data';
+const SYNC_INTERVAL_MS = 30000;
 
 // Upstash 설정 (환경변수 사용)
 const KV_URL = process.env.KV_REST_API_URL;
 const KV_TOKEN = process.env.KV_REST_API_TOKEN;
+const kvClient = KV_URL && KV_TOKEN ? createKvClient(KV_URL, KV_TOKEN) : null;
 
-const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+const readLocal = <T,>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (err) {
+    return fallback;
+  }
+};
+
+// 저장된 데이터를 읽으면서 예전 ID 생성 방식으로 겹친 ID 를 정리 (병합 시 한쪽이 사라지지 않도록)
+const readLocalDocument = (): SyncDocument => reassignDuplicateIds({
+  items: readLocal<Item[]>(STORAGE_KEY, []),
+  orderedParts: readLocal<OrderedPart[]>(ORDERED_STORAGE_KEY, []),
+  customers: readLocal<Customer[]>(CUSTOMERS_STORAGE_KEY, []),
+  suppliers: readLocal<Supplier[]>(SUPPLIERS_STORAGE_KEY, []),
+  rmas: readLocal<Rma[]>(RMAS_STORAGE_KEY, []),
+  stocktakes: readLocal<Stocktake[]>(STOCKTAKES_STORAGE_KEY, []),
+  reservations: readLocal<Reservation[]>(RESERVATIONS_STORAGE_KEY, []),
+  releaseOrders: readLocal<ReleaseOrder[]>(RELEASE_ORDERS_STORAGE_KEY, []),
+  users: readLocal<User[]>(USERS_STORAGE_KEY, []),
+  roles: readLocal<Role[]>(ROLES_STORAGE_KEY, []),
+  auditLog: readLocal<AuditEntry[]>(AUDIT_STORAGE_KEY, []),
+  trash: readLocal<TrashedItem[]>(TRASH_STORAGE_KEY, []),
+});
+
+const readSyncBase = (): SyncDocument | null => {
+  const base = readLocal<SyncDocument | null>(SYNC_BASE_KEY, null);
+  return base && reassignDuplicateIds({ ...emptyDocument(), ...base });
+};
+
+const isTextField = (el: EventTarget | null) => el instanceof HTMLElement && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
 
-const calculateStock = (item: Item): number => {
-  return item.transactions.reduce((acc, t) => {
-    return t.type === 'purchase' ? acc + t.quantity : acc - t.quantity;
-  }, 0);
+const ORDER_STATUS_STYLES: Record<OrderedPart['status'], string> = {
+  ordered: 'bg-indigo-50 text-indigo-600',
+  partial: 'bg-amber-50 text-amber-600',
+  received: 'bg-emerald-50 text-emerald-600',
+  cancelled: 'bg-slate-100 text-slate-400',
 };
 
 const App: React.FC = () => {
-  const [authRole, setAuthRole] = useState<'admin' | 'product_only' | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loginUsername, setLoginUsername] = useState('');
   const [loginPassword, setLoginPassword] = useState('');
-  const [activeTab, setActiveTab] = useState<'part' | 'product'>('part');
+  const [setupForm, setSetupForm] = useState({ username: '', displayName: '', password: '', confirm: '' });
+  const [showUserManagement, setShowUserManagement] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showSerialLookup, setShowSerialLookup] = useState(false);
+  const [showValuation, setShowValuation] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+  const [showLotTrace, setShowLotTrace] = useState(false);
+  const [showReports, setShowReports] = useState(false);
+  const [showExcelImport, setShowExcelImport] = useState(false);
+  const [backupImport, setBackupImport] = useState<{ fileName: string; raw: unknown } | null>(null);
+  // 재고 평가 방법은 기기별 보기 설정 (기록에는 입고 단가만 저장)
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(() => readLocal<CostingMethod>(COSTING_METHOD_KEY, 'fifo'));
+  // 라벨 용지 설정도 기기(프린터)별
+  const [labelLayout, setLabelLayout] = useState<LabelLayout>(() => ({ ...DEFAULT_LABEL_LAYOUT, ...readLocal<Partial<LabelLayout>>(LABEL_LAYOUT_KEY, {}) }));
+  const [labelItemIds, setLabelItemIds] = useState<string[]>([]);
+  const [showLabels, setShowLabels] = useState(false);
+  const [showCustomers, setShowCustomers] = useState(false);
+  const [showSuppliers, setShowSuppliers] = useState(false);
+  const [showRmas, setShowRmas] = useState(false);
+  const [showStocktake, setShowStocktake] = useState(false);
+  const [showReservations, setShowReservations] = useState(false);
+  const [showReleaseOrders, setShowReleaseOrders] = useState(false);
+  const [showScanStation, setShowScanStation] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeTab, setActiveTab] = useState<'part' | 'product' | 'ordered' | 'reorder'>('part');
   
-  const [items, setItems] = useState<Item[]>([]);
+  const [initialDocument] = useState(readLocalDocument);
+  const [items, setItems] = useState<Item[]>(initialDocument.items);
+  const [orderedParts, setOrderedParts] = useState<OrderedPart[]>(initialDocument.orderedParts);
+  const [customers, setCustomers] = useState<Customer[]>(initialDocument.customers);
+  const [suppliers, setSuppliers] = useState<Supplier[]>(initialDocument.suppliers);
+  const [rmas, setRmas] = useState<Rma[]>(initialDocument.rmas);
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>(initialDocument.stocktakes);
+  const [reservations, setReservations] = useState<Reservation[]>(initialDocument.reservations);
+  const [releaseOrders, setReleaseOrders] = useState<ReleaseOrder[]>(initialDocument.releaseOrders);
+  const [users, setUsers] = useState<User[]>(initialDocument.users);
+  const [roles, setRoles] = useState<Role[]>(initialDocument.roles);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(initialDocument.auditLog);
+  const [trash, setTrash] = useState<TrashedItem[]>(initialDocument.trash);
   const [showAddItemModal, setShowAddItemModal] = useState(false);
+  const [showAddOrderedPartModal, setShowAddOrderedPartModal] = useState(false);
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [selectedOrderedPartId, setSelectedOrderedPartId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [itemToDelete, setItemToDelete] = useState<{id: string, type: 'inventory'} | null>(null);
+  const [asOfDate, setAsOfDate] = useState(''); // 비어 있으면 현재 재고
+  const [itemToDelete, setItemToDelete] = useState<{id: string, type: 'inventory' | 'ordered'} | null>(null);
   const [deletePassword, setDeletePassword] = useState('');
+  const [deleteReason, setDeleteReason] = useState('');
 
   const [syncStatus, setSyncStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  // 이번 실행에서 원격 문서를 한 번이라도 읽었는지 (최초 관리자 생성은 원격에도 사용자가 없다고 확인된 뒤에만)
+  const [remoteLoaded, setRemoteLoaded] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(() => readLocal<OutboxEntry[]>(OUTBOX_KEY, []));
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [nextRetryAt, setNextRetryAt] = useState<number | null>(null);
+  // 세션 작업 이력 (position 까지가 적용된 작업, 그 뒤는 다시 실행 가능)
+  const [history, setHistory] = useState<{ entries: HistoryEntry[]; position: number }>({ entries: [], position: 0 });
+  const [historyTick, setHistoryTick] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Upstash 클라우드에서 데이터 가져오기
-  const fetchFromServer = async () => {
-    if (!KV_URL || !KV_TOKEN) {
-      console.warn('KV 설정이 없습니다. 로컬 데이터를 사용합니다.');
-      const savedItems = localStorage.getItem(STORAGE_KEY);
-      if (savedItems) setItems(JSON.parse(savedItems));
-      return;
-    }
+  // 마지막으로 클라우드와 일치했던 상태 (3-way 병합의 기준)
+  const [initialSyncBase] = useState(readSyncBase);
+  const syncBaseRef = useRef<SyncDocument | null>(initialSyncBase);
+  const latestDocRef = useRef<SyncDocument>({ items, orderedParts, customers, suppliers, rmas, stocktakes, reservations, releaseOrders, users, roles, auditLog, trash });
+  latestDocRef.current = { items, orderedParts, customers, suppliers, rmas, stocktakes, reservations, releaseOrders, users, roles, auditLog, trash };
+  // 기록 중인 작업의 직전 상태 (상태가 바뀌면 이력 항목으로 확정)
+  const pendingHistoryRef = useRef<{ label: string; before: HistoryState } | null>(null);
+  const syncingRef = useRef(false);
+  const resyncRef = useRef(false);
+  const retryAttemptRef = useRef(0);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-    setSyncStatus('loading');
-    try {
-      const response = await fetch(`${KV_URL}/get/${DB_KEY}`, {
-        headers: { Authorization: `Bearer ${KV_TOKEN}` },
-      });
-      const data = await response.json();
-      if (data.result) {
-        const parsed = JSON.parse(data.result);
-        setItems(parsed.items || []);
-        setSyncStatus('success');
-      } else {
-        const savedItems = localStorage.getItem(STORAGE_KEY);
-        if (savedItems) setItems(JSON.parse(savedItems));
-        setSyncStatus('idle');
-      }
-    } catch (err) {
-      console.warn('DB 연결 실패. 로컬 데이터를 사용합니다.');
-      const savedItems = localStorage.getItem(STORAGE_KEY);
-      if (savedItems) setItems(JSON.parse(savedItems));
-      setSyncStatus('error');
-    }
+  const refreshOutbox = (doc: SyncDocument) => {
+    if (!kvClient) return;
+    setOutbox(prev => computeOutbox(syncBaseRef.current, doc, prev));
+  };
+
+  const clearRetry = () => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    setNextRetryAt(null);
+  };
+
+  // 실패 시 지수 백오프로 재시도 예약 (오프라인이면 online 이벤트를 기다림)
+  const scheduleRetry = () => {
+    clearRetry();
+    if (!navigator.onLine) return;
+    const delay = retryDelay(retryAttemptRef.current);
+    retryAttemptRef.current += 1;
+    setNextRetryAt(Date.now() + delay);
+    retryTimerRef.current = setTimeout(() => { retryTimerRef.current = null; syncWithServer(); }, delay);
+  };
+
+  const applyDocument = (doc: SyncDocument) => {
+    setItems(doc.items);
+    setOrderedParts(doc.orderedParts);
+    setCustomers(doc.customers);
+    setSuppliers(doc.suppliers);
+    setRmas(doc.rmas);
+    setStocktakes(doc.stocktakes);
+    setReservations(doc.reservations);
+    setReleaseOrders(doc.releaseOrders);
+    setUsers(doc.users);
+    setRoles(doc.roles);
+    setAuditLog(doc.auditLog);
+    setTrash(doc.trash);
   };
 
-  // Upstash 클라우드에 데이터 저장하기
-  const saveToServer = async (data: Item[]) => {
-    if (!KV_URL || !KV_TOKEN) return;
-    
+  // Upstash 클라우드와 동기화: 원격 문서를 받아 품목/거래 단위로 병합한 뒤 저장
+  const syncWithServer = async () => {
+    if (!kvClient) return;
+    if (!navigator.onLine) { setSyncStatus('error'); return; }
+    if (syncingRef.current) { resyncRef.current = true; return; }
+    syncingRef.current = true;
     setSyncStatus('loading');
+    const snapshot = latestDocRef.current;
     try {
-      const payload = JSON.stringify({ items: data, updatedAt: new Date().toISOString() });
-      const response = await fetch(`${KV_URL}/set/${DB_KEY}`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${KV_TOKEN}` },
-        body: payload, // REST API set 명령어는 body에 값을 직접 넣음
-      });
-      if (response.ok) setSyncStatus('success');
-      else throw new Error('Cloud Save Failed');
+      const { merged, conflicts } = await syncDocument(kvClient, DB_KEY, syncBaseRef.current, snapshot);
+      syncBaseRef.current = merged;
+      localStorage.setItem(SYNC_BASE_KEY, JSON.stringify(merged));
+      // 요청 중에 생긴 로컬 변경분은 유지하면서 병합 결과를 반영
+      const current = latestDocRef.current;
+      const next = current === snapshot ? merged : mergeDocuments(snapshot, current, merged).merged;
+      // 동기화로 받은 변경은 작업 이력에 남기지 않음
+      pendingHistoryRef.current = null;
+      if (!isSameDocument(next, current)) applyDocument(next);
+      refreshOutbox(next);
+      if (conflicts.length > 0) setSyncConflicts(prev => [...conflicts, ...prev]);
+      retryAttemptRef.current = 0;
+      clearRetry();
+      setRemoteLoaded(true);
+      setSyncStatus('success');
     } catch (err) {
+      console.warn('DB 동기화 실패. 변경 내용은 대기열에 보관됩니다.', err);
       setSyncStatus('error');
+      scheduleRetry();
+    } finally {
+      syncingRef.current = false;
+      if (resyncRef.current) { resyncRef.current = false; syncWithServer(); }
     }
   };
 
   useEffect(() => {
-    fetchFromServer();
+    if (!kvClient) {
+      console.warn('KV 설정이 없습니다. 로컬 데이터를 사용합니다.');
+      return;
+    }
+    syncWithServer();
+    // 다른 사용자의 변경분을 주기적으로 가져옴
+    const interval = setInterval(syncWithServer, SYNC_INTERVAL_MS);
+    // 연결이 돌아오면 대기 중인 변경을 즉시 재전송
+    const handleOnline = () => { setIsOnline(true); retryAttemptRef.current = 0; clearRetry(); syncWithServer(); };
+    const handleOffline = () => { setIsOnline(false); clearRetry(); setSyncStatus('error'); };
+    window.addEventListener('focus', syncWithServer);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      clearInterval(interval);
+      clearRetry();
+      window.removeEventListener('focus', syncWithServer);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
   }, []);
 
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-    if (items.length > 0) {
-      const timer = setTimeout(() => saveToServer(items), 2000);
-      return () => clearTimeout(timer);
-    }
-  }, [items]);
+    localStorage.setItem(ORDERED_STORAGE_KEY, JSON.stringify(orderedParts));
+    localStorage.setItem(CUSTOMERS_STORAGE_KEY, JSON.stringify(customers));
+    localStorage.setItem(SUPPLIERS_STORAGE_KEY, JSON.stringify(suppliers));
+    localStorage.setItem(RMAS_STORAGE_KEY, JSON.stringify(rmas));
+    localStorage.setItem(STOCKTAKES_STORAGE_KEY, JSON.stringify(stocktakes));
+    localStorage.setItem(RESERVATIONS_STORAGE_KEY, JSON.stringify(reservations));
+    localStorage.setItem(RELEASE_ORDERS_STORAGE_KEY, JSON.stringify(releaseOrders));
+    localStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(users));
+    localStorage.setItem(ROLES_STORAGE_KEY, JSON.stringify(roles));
+    localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(auditLog));
+    localStorage.setItem(TRASH_STORAGE_KEY, JSON.stringify(trash));
+    refreshOutbox(latestDocRef.current);
+    if (!kvClient || (syncBaseRef.current && isSameDocument(latestDocRef.current, syncBaseRef.current))) return;
+    // 재시도가 예약되어 있으면 백오프 일정을 따름
+    if (retryTimerRef.current) return;
+    const timer = setTimeout(syncWithServer, 2000);
+    return () => clearTimeout(timer);
+  }, [items, orderedParts, customers, suppliers, rmas, stocktakes, reservations, releaseOrders, users, roles, auditLog, trash]);
+
+  useEffect(() => {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+  }, [outbox]);
+
+  useEffect(() => {
+    localStorage.setItem(COSTING_METHOD_KEY, JSON.stringify(costingMethod));
+  }, [costingMethod]);
+
+  useEffect(() => {
+    localStorage.setItem(LABEL_LAYOUT_KEY, JSON.stringify(labelLayout));
+  }, [labelLayout]);
+
+  const handleRetrySync = () => {
+    retryAttemptRef.current = 0;
+    clearRetry();
+    syncWithServer();
+  };
+
+  const handleApplyConflictAlternative = (conflict: SyncConflict) => {
+    recordHistory(`충돌 대안 적용 ${conflict.label}`);
+    applyDocument(applyConflictAlternative(latestDocRef.current, conflict));
+    setSyncConflicts(prev => prev.filter(c => c.id !== conflict.id));
+  };
 
   const stats = useMemo(() => {
     return {
       partCount: items.filter(i => i.type === 'part').length,
       productCount: items.filter(i => i.type === 'product').length,
+      openOrderCount: orderedParts.filter(o => o.status === 'ordered' || o.status === 'partial').length,
     };
-  }, [items]);
+  }, [items, orderedParts]);
 
-  const allUsedSerials = useMemo(() => {
-    const serials: string[] = [];
-    items.forEach(item => {
-      item.transactions.forEach(t => {
-        if (t.serialNumber) serials.push(t.serialNumber.toUpperCase());
-      });
-    });
-    return Array.from(new Set(serials));
-  }, [items]);
+  const serialRegistry = useMemo(() => buildSerialRegistry(items), [items]);
+  const allUsedSerials = useMemo(() => [...serialRegistry.keys()], [serialRegistry]);
+  const valuations = useMemo(() => new Map(items.map(i => [i.id, valuateItem(i, costingMethod)])), [items, costingMethod]);
+  // 품목별 유효한 예약 수량 (가용 재고 = 현재 재고 - 예약)
+  const reservedTotals = useMemo(() => {
+    const totals = new Map<string, number>();
+    reservations.filter(r => isReservationHolding(r)).forEach(r => totals.set(r.itemId, (totals.get(r.itemId) || 0) + r.quantity));
+    return totals;
+  }, [reservations]);
+
+  const currentDocument = useMemo((): SyncDocument => ({ items, orderedParts, customers, suppliers, rmas, stocktakes, reservations, releaseOrders, users, roles, auditLog, trash }), [items, orderedParts, customers, suppliers, rmas, stocktakes, reservations, releaseOrders, users, roles, auditLog, trash]);
 
   const handleLocalExport = async () => {
-    const dataObj = { items, version: '2.0', exportDate: new Date().toISOString() };
-    const jsonStr = JSON.stringify(dataObj, null, 2);
+    const jsonStr = JSON.stringify(createBackupFile(currentDocument), null, 2);
     const blob = new Blob([jsonStr], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -128,78 +373,648 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  // 파일 검사 / 변환 / 미리보기는 BackupImportModal 에서 처리
   const handleLocalImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (json.items && Array.isArray(json.items)) {
-          if (confirm('데이터를 복구하시겠습니까? 현재 데이터가 덮어씌워집니다.')) {
-            setItems(json.items);
-            alert('복구가 완료되었습니다.');
-          }
-        }
-      } catch (err) { alert('파일 오류'); }
+        setBackupImport({ fileName: file.name, raw: JSON.parse(event.target?.result as string) });
+      } catch (err) { alert('파일 오류: JSON 형식이 아닙니다.'); }
     };
     reader.readAsText(file);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleApplyBackup = (doc: SyncDocument, mode: ImportMode, diffs: CollectionDiff[]) => {
+    if (!backupImport) return;
+    recordHistory(`백업 복구 ${backupImport.fileName}`);
+    applyDocument(doc);
+    appendAudit({
+      action: 'import', entity: 'backup', entityId: backupImport.fileName, label: backupImport.fileName,
+      before: { items: items.length, orderedParts: orderedParts.length },
+      after: Object.fromEntries(diffs.filter(d => d.added.length + d.changed.length + d.removed.length > 0).map(d => [d.entity, { added: d.added.length, changed: d.changed.length, removed: d.removed.length }])),
+      reason: `백업 파일 복구 (${IMPORT_MODE_LABELS[mode]})`,
+    });
+    alert('복구가 완료되었습니다.');
+  };
+
+  const effectiveRoles = roles.length > 0 ? roles : DEFAULT_ROLES;
+  const currentUser = useMemo(() => users.find(u => u.id === currentUserId && u.active) || null, [users, currentUserId]);
+  const permissions = useMemo(() => permissionsOf(currentUser, effectiveRoles), [currentUser, effectiveRoles]);
+  const can = (permission: Permission) => permissions.includes(permission);
+  const reorderList = useMemo(() => reorderSuggestions(items.filter(i => permissions.includes(i.type === 'part' ? 'view_parts' : 'view_products')), orderedParts, reservations), [items, orderedParts, reservations, permissions]);
+
+  const verifyCurrentPassword = async (password: string) => !!currentUser && verifyPassword(currentUser, password);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (loginPassword === ADMIN_PASSWORD) setAuthRole('admin');
-    else if (loginPassword === PRODUCT_ONLY_PASSWORD) setAuthRole('product_only');
-    else alert('비밀번호가 틀렸습니다.');
+    const user = users.find(u => u.active && u.username.toLowerCase() === loginUsername.trim().toLowerCase());
+    const isValid = !!user && await verifyPassword(user, loginPassword);
     setLoginPassword('');
+    if (!user || !isValid) { alert('아이디 또는 비밀번호가 틀렸습니다.'); return; }
+    setCurrentUserId(user.id);
+    setActiveTab(permissionsOf(user, effectiveRoles).includes('view_parts') ? 'part' : 'product');
+    setLoginUsername('');
+  };
+
+  // 최초 실행: 사용자가 한 명도 없으면 관리자 계정을 만들고 기본 역할을 등록
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const username = setupForm.username.trim();
+    if (users.length > 0 || (kvClient && !remoteLoaded)) return;
+    if (!username || !setupForm.password) { alert('아이디와 비밀번호를 입력하세요.'); return; }
+    if (setupForm.password !== setupForm.confirm) { alert('비밀번호 확인이 일치하지 않습니다.'); return; }
+    const now = new Date().toISOString();
+    const salt = createSalt();
+    const admin: User = {
+      id: generateId('user'), username, displayName: setupForm.displayName.trim() || username, roleId: ADMIN_ROLE_ID,
+      passwordHash: await hashPassword(setupForm.password, salt), salt, active: true, createdAt: now, updatedAt: now,
+    };
+    if (roles.length === 0) setRoles(DEFAULT_ROLES.map(r => ({ ...r, updatedAt: now })));
+    setUsers(prev => [...prev, admin]);
+    setSetupForm({ username: '', displayName: '', password: '', confirm: '' });
+    setCurrentUserId(admin.id);
+    setActiveTab('part');
   };
 
-  const handleLogout = () => { setAuthRole(null); setSearchTerm(''); };
+  const handleLogout = () => { setCurrentUserId(null); setSearchTerm(''); setShowUserManagement(false); setShowHistory(false); setHistory({ entries: [], position: 0 }); };
+
+  const handleSaveUser = async (userId: string | null, data: Pick<User, 'username' | 'displayName' | 'roleId' | 'active'>, password: string) => {
+    if (!can('manage_users')) { alert('권한이 없습니다.'); return; }
+    if (userId && hasActiveAdmin(users) && !hasActiveAdmin(users.map(u => u.id === userId ? { ...u, ...data } : u))) { alert('활성 관리자가 최소 한 명은 있어야 합니다.'); return; }
+    const now = new Date().toISOString();
+    const credentials = password ? await (async () => { const salt = createSalt(); return { salt, passwordHash: await hashPassword(password, salt) }; })() : null;
+    if (userId) {
+      setUsers(prev => prev.map(u => u.id === userId ? { ...u, ...data, ...(credentials || {}), updatedAt: now } : u));
+    } else if (credentials) {
+      setUsers(prev => [...prev, { ...data, ...credentials, id: generateId('user'), createdAt: now, updatedAt: now }]);
+    }
+  };
+
+  const handleDeleteUser = (userId: string) => {
+    if (!can('manage_users')) { alert('권한이 없습니다.'); return; }
+    if (hasActiveAdmin(users) && !hasActiveAdmin(users.filter(u => u.id !== userId))) { alert('활성 관리자가 최소 한 명은 있어야 합니다.'); return; }
+    setUsers(prev => prev.filter(u => u.id !== userId));
+  };
+
+  const handleSaveRole = (role: Role) => {
+    if (!can('manage_users')) { alert('권한이 없습니다.'); return; }
+    const stamped = { ...role, updatedAt: new Date().toISOString() };
+    setRoles(prev => {
+      const base = prev.length > 0 ? prev : DEFAULT_ROLES;
+      return base.some(r => r.id === role.id) ? base.map(r => r.id === role.id ? stamped : r) : [...base, stamped];
+    });
+  };
+
+  const handleDeleteRole = (roleId: string) => {
+    if (!can('manage_users')) { alert('권한이 없습니다.'); return; }
+    setRoles(prev => (prev.length > 0 ? prev : DEFAULT_ROLES).filter(r => r.id !== roleId));
+  };
 
   const handleAddItem = (itemData: Omit<Item, 'id' | 'transactions'>, initialQuantity: number) => {
-    const newItem: Item = { ...itemData, id: generateId('item'), transactions: [] };
+    const now = new Date().toISOString();
+    const newItem: Item = { ...itemData, id: generateId('item'), transactions: [], updatedAt: now };
     if (initialQuantity > 0) {
       newItem.transactions.push({
         id: generateId('t'), type: 'purchase', quantity: initialQuantity,
-        date: new Date().toISOString(), remarks: '초기 수량 등록',
+        date: now, remarks: '초기 수량 등록', userId: currentUser?.username, updatedAt: now,
       });
     }
+    recordHistory(`품목 등록 ${newItem.code} ${newItem.name}`);
     setItems(prev => [newItem, ...prev]);
+    appendAudit({ action: 'create', entity: 'item', entityId: newItem.id, label: `${newItem.code} ${newItem.name}`, before: null, after: { ...itemData, initialQuantity }, reason: '' });
   };
 
-  const handleDeleteItemConfirm = () => {
-    const correctPassword = authRole === 'admin' ? ADMIN_PASSWORD : PRODUCT_ONLY_PASSWORD;
-    if (deletePassword !== correctPassword) {
+  // 감사 로그는 추가만 가능 (수정/삭제 경로 없음)
+  const appendAudit = (entry: Omit<AuditEntry, 'id' | 'at' | 'userId'>) => {
+    setAuditLog(prev => [createAuditEntry({ ...entry, userId: currentUser?.username || '' }), ...prev]);
+  };
+
+  // 되돌릴 수 있는 작업의 시작: 직전 상태를 잡아 두고 상태가 바뀌면 이력에 추가 (안쪽 핸들러 호출은 바깥 작업 하나로 묶음)
+  // historyTick 으로 렌더를 예약해 아무것도 바뀌지 않은 작업도 같은 렌더 뒤에 정리됨
+  const recordHistory = (label: string) => {
+    if (pendingHistoryRef.current) return;
+    pendingHistoryRef.current = { label, before: pickHistoryState(latestDocRef.current) };
+    setHistoryTick(n => n + 1);
+  };
+
+  useEffect(() => {
+    const pending = pendingHistoryRef.current;
+    if (!pending) return;
+    pendingHistoryRef.current = null;
+    const after = pickHistoryState(latestDocRef.current);
+    if (isSameState(pending.before, after)) return;
+    const entry: HistoryEntry = { id: generateId('hist'), label: pending.label, at: new Date().toISOString(), userId: currentUser?.username || '', before: pending.before, after };
+    setHistory(prev => {
+      const entries = [...prev.entries.slice(0, prev.position), entry].slice(-MAX_HISTORY);
+      return { entries, position: entries.length };
+    });
+  }, [historyTick, items, orderedParts, customers, suppliers, rmas, stocktakes, reservations, releaseOrders, trash]);
+
+  // 이력의 position 을 target 으로 옮김 (앞으로면 되돌리기, 뒤로면 다시 실행). 그 사이 다른 변경은 유지
+  const handleMoveHistory = (target: number) => {
+    const { entries, position } = history;
+    if (target === position || target < 0 || target > entries.length) return;
+    const undo = target < position;
+    const moved = undo ? entries.slice(target, position).reverse() : entries.slice(position, target);
+    let doc = latestDocRef.current;
+    const conflicts: SyncConflict[] = [];
+    moved.forEach(entry => {
+      const step = undo ? applyHistoryStep(doc, entry.after, entry.before) : applyHistoryStep(doc, entry.before, entry.after);
+      doc = step.doc;
+      conflicts.push(...step.conflicts);
+    });
+    pendingHistoryRef.current = null;
+    applyDocument(doc);
+    setHistory({ entries, position: target });
+    appendAudit({
+      action: undo ? 'undo' : 'redo', entity: 'history', entityId: moved[0].id,
+      label: moved.length > 1 ? `${moved[0].label} 외 ${moved.length - 1}건` : moved[0].label,
+      before: null, after: { steps: moved.map(e => e.label) }, reason: '',
+    });
+    if (conflicts.length > 0) alert(`그 뒤에 다시 바뀐 기록 ${conflicts.length}건은 수정 시각이 최근인 값을 유지했습니다.\n${conflicts.map(c => c.label).join('\n')}`);
+  };
+
+  const isModalOpen = !!(itemToDelete || showAddItemModal || showUserManagement || showAuditLog || backupImport || showExcelImport || showValuation
+    || showLedger || showLotTrace || showReports || showSerialLookup || showCustomers || showSuppliers || showRmas || showLabels || showScanStation
+    || showHistory || showReleaseOrders || showReservations || showStocktake || showTrash || showConflicts || showAddOrderedPartModal
+    || selectedOrderedPartId || selectedItemId);
+
+  // Ctrl+Z 되돌리기, Ctrl+Shift+Z / Ctrl+Y 다시 실행 (입력란 안에서는 브라우저 기본 동작, 창이 열려 있으면 무시)
+  useEffect(() => {
+    if (!currentUser || isModalOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target) || isTextField(document.activeElement)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); handleMoveHistory(history.position - 1); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); handleMoveHistory(history.position + 1); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, currentUser, isModalOpen]);
+
+  const handleDeleteItemConfirm = async () => {
+    if (!can('delete') || !(await verifyCurrentPassword(deletePassword))) {
       alert('비밀번호가 틀렸습니다.');
       return;
     }
+    if (!deleteReason.trim()) { alert('삭제 사유를 입력하세요.'); return; }
     if (itemToDelete) {
-      setItems(prev => prev.filter(i => i.id !== itemToDelete.id));
+      const reason = deleteReason.trim();
+      if (itemToDelete.type === 'ordered') {
+        const order = orderedParts.find(o => o.id === itemToDelete.id);
+        recordHistory(`발주 삭제 ${order?.code || ''}`);
+        setOrderedParts(prev => prev.filter(o => o.id !== itemToDelete.id));
+        if (order) appendAudit({ action: 'delete', entity: 'orderedPart', entityId: order.id, label: `${order.code} ${order.name}`, before: { ...order }, after: null, reason });
+      } else {
+        // 품목은 휴지통으로 이동 (복구 가능)
+        const target = items.find(i => i.id === itemToDelete.id);
+        recordHistory(`품목 삭제 ${target?.code || ''} ${target?.name || ''}`);
+        setItems(prev => prev.filter(i => i.id !== itemToDelete.id));
+        if (target) {
+          const now = new Date().toISOString();
+          setTrash(prev => [{ id: target.id, item: target, deletedAt: now, deletedBy: currentUser?.username || '', reason, updatedAt: now }, ...prev]);
+          const { transactions, ...fields } = target;
+          appendAudit({ action: 'delete', entity: 'item', entityId: target.id, label: `${target.code} ${target.name}`, before: { ...fields, transactionCount: transactions.length, stock: calculateStock(target) }, after: null, reason });
+        }
+      }
       setItemToDelete(null);
       setDeletePassword('');
+      setDeleteReason('');
+    }
+  };
+
+  const handleRestoreItem = (trashId: string) => {
+    const entry = trash.find(t => t.id === trashId);
+    if (!entry) return;
+    if (items.some(i => i.code.toUpperCase() === entry.item.code.toUpperCase())) {
+      alert(`코드 ${entry.item.code} 가 이미 사용 중입니다. 기존 품목의 코드를 변경한 뒤 복구하세요.`);
+      return;
+    }
+    recordHistory(`휴지통 복구 ${entry.item.code} ${entry.item.name}`);
+    setItems(prev => [{ ...entry.item, updatedAt: new Date().toISOString() }, ...prev]);
+    setTrash(prev => prev.filter(t => t.id !== trashId));
+    appendAudit({ action: 'restore', entity: 'item', entityId: entry.item.id, label: `${entry.item.code} ${entry.item.name}`, before: null, after: { code: entry.item.code, name: entry.item.name }, reason: '휴지통에서 복구' });
+  };
+
+  const handlePurgeItem = (trashId: string, reason: string) => {
+    const entry = trash.find(t => t.id === trashId);
+    if (!entry) return;
+    recordHistory(`영구 삭제 ${entry.item.code} ${entry.item.name}`);
+    setTrash(prev => prev.filter(t => t.id !== trashId));
+    appendAudit({ action: 'purge', entity: 'item', entityId: entry.item.id, label: `${entry.item.code} ${entry.item.name}`, before: { code: entry.item.code, name: entry.item.name, transactionCount: entry.item.transactions.length }, after: null, reason });
+  };
+
+  const handleUpdateItem = (itemId: string, updatedData: Partial<Item>, reason = '') => {
+    const target = items.find(i => i.id === itemId);
+    recordHistory(`품목 수정 ${target?.code || ''}`);
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...updatedData, updatedAt: new Date().toISOString() } : item));
+    if (target) {
+      const diff = diffFields(target, { ...target, ...updatedData });
+      if (diff.changed) appendAudit({ action: 'update', entity: 'item', entityId: itemId, label: `${target.code} ${target.name}`, before: diff.before, after: diff.after, reason });
+    }
+  };
+
+  // 일련번호 범위 / 선택처럼 한 품목의 여러 기록을 한 번에 추가 (생산 입고는 기록마다 BOM 차감)
+  const handleAddTransactions = (itemId: string, transactions: Omit<Transaction, 'id'>[], consumeBom = false) => {
+    const product = items.find(i => i.id === itemId);
+    if (!product || transactions.length === 0) return;
+    const now = new Date().toISOString();
+    const created: Transaction[] = transactions.map(t => ({ location: MAIN_LOCATION_ID, ...t, id: generateId('t'), userId: currentUser?.username, updatedAt: now }));
+    const productions = consumeBom ? created.filter(t => t.type === 'purchase') : [];
+    const quantity = created.reduce((acc, t) => acc + t.quantity, 0);
+    const built = productions.reduce((acc, t) => acc + t.quantity, 0);
+    const shortage = built > 0 ? bomShortageMessage(bomRequirements(product, built, items, productions[0].location)) : '';
+    if (shortage) { alert(shortage); return; }
+    const consumption = consumptionReleases(product, productions, items);
+    recordHistory(`${TRANSACTION_TYPE_LABELS[created[0].type]} 등록 ${product.code} ${quantity}`);
+    setItems(prev => prev.map(item => {
+      if (item.id === itemId) return appendTransactions(item, created);
+      const releases = consumption.get(item.id);
+      return releases ? appendTransactions(item, releases) : item;
+    }));
+  };
+
+  const handleAddTransaction = (itemId: string, transaction: Omit<Transaction, 'id'>) => handleAddTransactions(itemId, [transaction]);
+
+  const handleUpdateTransaction = (itemId: string, transactionId: string, updatedData: Partial<Transaction>, reason = '') => {
+    const target = items.find(i => i.id === itemId);
+    const transaction = target?.transactions.find(t => t.id === transactionId);
+    recordHistory(`입출고 수정 ${target?.code || ''}`);
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, transactions: item.transactions.map(t => t.id === transactionId ? { ...t, ...updatedData, updatedAt: new Date().toISOString() } : t) } : item));
+    if (target && transaction) {
+      const diff = diffFields(transaction, { ...transaction, ...updatedData });
+      if (diff.changed) appendAudit({ action: 'update', entity: 'transaction', entityId: transactionId, itemId, label: `${target.code} ${new Date(transaction.date).toLocaleDateString()} ${TRANSACTION_TYPE_LABELS[transaction.type]}`, before: diff.before, after: diff.after, reason });
+    }
+  };
+
+  const handleDeleteTransaction = (itemId: string, transactionId: string, reason = '') => {
+    const target = items.find(i => i.id === itemId);
+    const transaction = target?.transactions.find(t => t.id === transactionId);
+    // 생산 입고를 지우면 함께 차감된 부품 출고도 되돌림
+    const consumed = items.flatMap(i => i.transactions.filter(t => t.productionId === transactionId).map(t => ({ item: i, transaction: t })));
+    recordHistory(`입출고 삭제 ${target?.code || ''}`);
+    setItems(prev => prev.map(item => {
+      const remaining = item.transactions.filter(t => t.id !== transactionId && t.productionId !== transactionId);
+      return remaining.length === item.transactions.length ? item : { ...item, transactions: remaining };
+    }));
+    if (target && transaction) {
+      appendAudit({ action: 'delete', entity: 'transaction', entityId: transactionId, itemId, label: `${target.code} ${new Date(transaction.date).toLocaleDateString()} ${TRANSACTION_TYPE_LABELS[transaction.type]}`, before: { ...transaction }, after: null, reason });
+      consumed.forEach(c => appendAudit({ action: 'delete', entity: 'transaction', entityId: c.transaction.id, itemId: c.item.id, label: `${c.item.code} ${new Date(c.transaction.date).toLocaleDateString()} 생산 소요`, before: { ...c.transaction }, after: null, reason: `${target.code} 생산 입고 삭제: ${reason}` }));
+    }
+  };
+
+  const handleSaveCustomer = (customerId: string | null, data: Pick<Customer, 'name' | 'phoneNumber' | 'address' | 'remarks'>): Customer => {
+    const now = new Date().toISOString();
+    const existing = customerId ? customers.find(c => c.id === customerId) : undefined;
+    if (existing) {
+      const updated = { ...existing, ...data, updatedAt: now };
+      recordHistory(`고객 수정 ${existing.name}`);
+      setCustomers(prev => prev.map(c => c.id === existing.id ? updated : c));
+      const diff = diffFields(existing, updated);
+      if (diff.changed) appendAudit({ action: 'update', entity: 'customer', entityId: existing.id, label: existing.name, before: diff.before, after: diff.after, reason: '' });
+      return updated;
     }
+    const created: Customer = { ...data, id: generateId('cust'), createdAt: now, updatedAt: now };
+    recordHistory(`고객 등록 ${created.name}`);
+    setCustomers(prev => [...prev, created]);
+    appendAudit({ action: 'create', entity: 'customer', entityId: created.id, label: created.name, before: null, after: { ...data }, reason: '' });
+    return created;
   };
 
-  const handleUpdateItem = (itemId: string, updatedData: Partial<Item>) => {
-    setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...updatedData } : item));
+  const handleDeleteCustomer = (customerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) return;
+    if (items.some(i => i.transactions.some(t => t.customerId === customerId))) { alert('출고 기록이 연결된 고객은 삭제할 수 없습니다.'); return; }
+    recordHistory(`고객 삭제 ${customer.name}`);
+    setCustomers(prev => prev.filter(c => c.id !== customerId));
+    appendAudit({ action: 'delete', entity: 'customer', entityId: customerId, label: customer.name, before: { name: customer.name, phoneNumber: customer.phoneNumber, address: customer.address }, after: null, reason: '' });
   };
 
-  const handleAddTransaction = (itemId: string, transaction: Omit<Transaction, 'id'>) => {
-    const newTransaction: Transaction = { ...transaction, id: generateId('t') };
-    setItems(prev => prev.map(item => item.id === itemId ? { ...item, transactions: [...item.transactions, newTransaction] } : item));
+  const handleSaveSupplier = (supplierId: string | null, data: SupplierFormData): Supplier => {
+    const now = new Date().toISOString();
+    const existing = supplierId ? suppliers.find(s => s.id === supplierId) : undefined;
+    if (existing) {
+      const updated = { ...existing, ...data, updatedAt: now };
+      recordHistory(`공급처 수정 ${existing.name}`);
+      setSuppliers(prev => prev.map(s => s.id === existing.id ? updated : s));
+      const diff = diffFields(existing, updated);
+      if (diff.changed) appendAudit({ action: 'update', entity: 'supplier', entityId: existing.id, label: existing.name, before: diff.before, after: diff.after, reason: '' });
+      return updated;
+    }
+    const created: Supplier = { ...data, id: generateId('supp'), createdAt: now, updatedAt: now };
+    recordHistory(`공급처 등록 ${created.name}`);
+    setSuppliers(prev => [...prev, created]);
+    appendAudit({ action: 'create', entity: 'supplier', entityId: created.id, label: created.name, before: null, after: { ...data }, reason: '' });
+    return created;
+  };
+
+  const handleDeleteSupplier = (supplierId: string) => {
+    const supplier = suppliers.find(s => s.id === supplierId);
+    if (!supplier) return;
+    if (items.some(i => i.transactions.some(t => t.supplierId === supplierId)) || orderedParts.some(o => o.supplierId === supplierId)) { alert('입고 / 발주 기록이 연결된 공급처는 삭제할 수 없습니다.'); return; }
+    recordHistory(`공급처 삭제 ${supplier.name}`);
+    setSuppliers(prev => prev.filter(s => s.id !== supplierId));
+    appendAudit({ action: 'delete', entity: 'supplier', entityId: supplierId, label: supplier.name, before: { name: supplier.name, contactName: supplier.contactName, phoneNumber: supplier.phoneNumber, partCodes: supplier.partCodes }, after: null, reason: '' });
+  };
+
+  // 자유 입력된 고객 정보를 고객 목록으로 정리하고 기존 기록에 고객 ID를 연결
+  const handleMigrateCustomers = () => {
+    const { created, links } = migrateCustomers(items, customers);
+    const linkedCount = Object.keys(links).length;
+    if (linkedCount === 0) { alert('정리할 기록이 없습니다.'); return; }
+    if (!confirm(`출고 기록 ${linkedCount}건을 고객과 연결합니다 (신규 고객 ${created.length}명). 진행하시겠습니까?`)) return;
+    const now = new Date().toISOString();
+    recordHistory('기존 출고 기록 고객 정리');
+    setCustomers(prev => [...prev, ...created]);
+    setItems(prev => prev.map(item => item.transactions.some(t => links[t.id])
+      ? { ...item, transactions: item.transactions.map(t => links[t.id] ? { ...t, customerId: links[t.id], updatedAt: now } : t) }
+      : item));
+    appendAudit({ action: 'import', entity: 'customer', entityId: 'migration', label: '기존 출고 기록 고객 정리', before: null, after: { created: created.length, linked: linkedCount }, reason: '' });
   };
 
-  const handleUpdateTransaction = (itemId: string, transactionId: string, updatedData: Partial<Transaction>) => {
-    setItems(prev => prev.map(item => item.id === itemId ? { ...item, transactions: item.transactions.map(t => t.id === transactionId ? { ...t, ...updatedData } : t) } : item));
+  // 반품 접수: 출고된 일련번호를 격리 재고로 입고하고 원 출고일 기준으로 보증 여부를 기록
+  const handleReceiveRma = (data: Pick<Rma, 'itemId' | 'serialNumber' | 'reason'>) => {
+    const product = items.find(i => i.id === data.itemId);
+    const unit = serialRegistry.get(data.serialNumber);
+    if (!product || !unit || unit.itemId !== product.id || unit.status !== 'released') { alert('출고 상태인 일련번호만 반품 접수할 수 있습니다.'); return; }
+    const now = new Date().toISOString();
+    const warranty = checkWarranty(unit, product, now);
+    const rma: Rma = {
+      ...data, id: generateId('rma'), customerId: warranty.customerId, customerName: warranty.customerName, receivedAt: now,
+      releasedAt: warranty.releasedAt, warrantyExpiresAt: warranty.expiresAt, underWarranty: warranty.underWarranty,
+      status: 'received', inspectionNotes: '', updatedAt: now,
+    };
+    recordHistory(`반품 접수 ${product.code} ${rma.serialNumber}`);
+    setRmas(prev => [rma, ...prev]);
+    handleAddTransaction(product.id, {
+      type: 'purchase', quantity: 1, date: now, remarks: `반품 접수: ${data.reason}`, serialNumber: data.serialNumber,
+      serialAction: 'return', bucket: 'quarantine', rmaId: rma.id, customerId: rma.customerId, customerName: rma.customerName,
+    });
+    appendAudit({ action: 'create', entity: 'rma', entityId: rma.id, label: `${product.code} ${rma.serialNumber}`, before: null, after: { underWarranty: rma.underWarranty, releasedAt: rma.releasedAt || null }, reason: data.reason });
   };
 
-  const handleDeleteTransaction = (itemId: string, transactionId: string) => {
-    setItems(prev => prev.map(item => item.id === itemId ? { ...item, transactions: item.transactions.filter(t => t.id !== transactionId) } : item));
+  // 검사 결과에 따라 격리 재고에서 빼고 양품 입고 / 고객 반환 / 폐기 처리
+  const handleInspectRma = (rmaId: string, outcome: RmaOutcome, notes: string) => {
+    const rma = rmas.find(r => r.id === rmaId);
+    const product = rma && items.find(i => i.id === rma.itemId);
+    if (!rma || !product || rma.status !== 'received') return;
+    const now = new Date().toISOString();
+    const customer = customers.find(c => c.id === rma.customerId);
+    const base = { quantity: 1, date: now, serialNumber: rma.serialNumber, rmaId, location: MAIN_LOCATION_ID, userId: currentUser?.username, updatedAt: now };
+    const fromQuarantine: Transaction = {
+      ...base, id: generateId('t'), type: 'release', bucket: 'quarantine', serialAction: outcome, remarks: `반품 검사: ${RMA_OUTCOME_LABELS[outcome]}`,
+      ...(outcome === 'repair' ? { customerId: rma.customerId, customerName: rma.customerName, phoneNumber: customer?.phoneNumber || '', address: customer?.address || '' } : {}),
+    };
+    const added: Transaction[] = outcome === 'restock'
+      ? [fromQuarantine, { ...base, id: generateId('t'), type: 'purchase', serialAction: 'restock', remarks: fromQuarantine.remarks }]
+      : [fromQuarantine];
+    recordHistory(`반품 검사 ${product.code} ${rma.serialNumber}`);
+    setItems(prev => prev.map(item => item.id === product.id ? { ...item, transactions: [...item.transactions, ...added] } : item));
+    setRmas(prev => prev.map(r => r.id === rmaId ? { ...r, status: 'closed', outcome, inspectionNotes: notes, closedAt: now, updatedAt: now } : r));
+    appendAudit({ action: 'update', entity: 'rma', entityId: rmaId, label: `${product.code} ${rma.serialNumber}`, before: { status: rma.status }, after: { status: 'closed', outcome }, reason: notes });
+  };
+
+  const handleCreateStocktake = (itemType: Item['type'] | '', location: string) => {
+    const now = new Date().toISOString();
+    const stocktake: Stocktake = {
+      id: generateId('st'), reference: nextStocktakeReference(stocktakes, now), itemType, location, status: 'draft',
+      lines: [], remarks: '', createdAt: now, createdBy: currentUser?.username || '', updatedAt: now,
+    };
+    recordHistory(`재고 실사 생성 ${stocktake.reference}`);
+    setStocktakes(prev => [stocktake, ...prev]);
+    appendAudit({ action: 'create', entity: 'stocktake', entityId: stocktake.id, label: stocktake.reference, before: null, after: { itemType, location }, reason: '' });
+    return stocktake.id;
+  };
+
+  const handleSaveStocktake = (stocktakeId: string, lines: StocktakeLine[], remarks: string) => {
+    const now = new Date().toISOString();
+    recordHistory('재고 실사 임시 저장');
+    setStocktakes(prev => prev.map(s => s.id === stocktakeId && s.status === 'draft' ? { ...s, lines, remarks, updatedAt: now } : s));
+  };
+
+  // 승인 시점의 위치별 재고와 비교해 차이가 있는 품목마다 조정 기록을 남김
+  const handleApproveStocktake = (stocktakeId: string, lines: StocktakeLine[], remarks: string) => {
+    const stocktake = stocktakes.find(s => s.id === stocktakeId);
+    if (!stocktake || stocktake.status !== 'draft' || !can('approve_stocktake')) return;
+    const now = new Date().toISOString();
+    const variances = stocktakeVariances({ ...stocktake, lines }, items);
+    const adjustments = stocktakeAdjustments(stocktake, variances, currentUser?.username, now);
+    recordHistory(`재고 실사 승인 ${stocktake.reference}`);
+    setItems(prev => prev.map(item => adjustments.has(item.id) ? appendTransactions(item, [adjustments.get(item.id)!]) : item));
+    setStocktakes(prev => prev.map(s => s.id === stocktakeId ? {
+      ...s, status: 'approved', remarks, lines: variances.map(v => ({ itemId: v.item.id, counted: v.counted, expected: v.expected })),
+      approvedAt: now, approvedBy: currentUser?.username || '', updatedAt: now,
+    } : s));
+    appendAudit({
+      action: 'update', entity: 'stocktake', entityId: stocktakeId, label: stocktake.reference, before: { status: stocktake.status },
+      after: { status: 'approved', counted: variances.length, adjusted: adjustments.size, net: variances.reduce((acc, v) => acc + v.variance, 0) }, reason: remarks,
+    });
+  };
+
+  const handleCancelStocktake = (stocktakeId: string) => {
+    const stocktake = stocktakes.find(s => s.id === stocktakeId);
+    if (!stocktake || stocktake.status !== 'draft') return;
+    recordHistory(`재고 실사 취소 ${stocktake.reference}`);
+    setStocktakes(prev => prev.map(s => s.id === stocktakeId ? { ...s, status: 'cancelled', updatedAt: new Date().toISOString() } : s));
+    appendAudit({ action: 'update', entity: 'stocktake', entityId: stocktakeId, label: stocktake.reference, before: { status: stocktake.status }, after: { status: 'cancelled' }, reason: '' });
+  };
+
+  const reservationLabel = (reservation: Reservation) => `${items.find(i => i.id === reservation.itemId)?.code || '(삭제된 품목)'} ${reservation.holder}`;
+
+  // 예약은 가용 재고(양품 재고 - 유효한 예약) 안에서만 등록
+  const handleCreateReservation = (data: ReservationFormData) => {
+    const item = items.find(i => i.id === data.itemId);
+    if (!item || !can('release')) return false;
+    const available = availableLocationStock(item, reservations)[data.location] || 0;
+    if (data.quantity > available) { alert(`가용 재고 부족! (${locationName(data.location)} 가용 ${available.toLocaleString()} EA)`); return false; }
+    const now = new Date().toISOString();
+    const reservation: Reservation = { ...data, id: generateId('rsv'), status: 'active', createdAt: now, createdBy: currentUser?.username || '', updatedAt: now };
+    recordHistory(`재고 예약 ${reservationLabel(reservation)}`);
+    setReservations(prev => [reservation, ...prev]);
+    appendAudit({ action: 'create', entity: 'reservation', entityId: reservation.id, itemId: item.id, label: reservationLabel(reservation), before: null, after: { ...data }, reason: '' });
+    return true;
+  };
+
+  // 만료일 변경 (만료된 예약을 연장하면 그 사이 줄어든 가용 재고를 다시 확인)
+  const handleExtendReservation = (reservationId: string, expiresAt: string) => {
+    const reservation = reservations.find(r => r.id === reservationId);
+    const item = reservation && items.find(i => i.id === reservation.itemId);
+    if (!reservation || !item || reservation.status !== 'active' || !can('release')) return false;
+    if (isReservationExpired(reservation)) {
+      const available = availableLocationStock(item, reservations, new Date(), reservation.id)[reservation.location] || 0;
+      if (reservation.quantity > available) { alert(`가용 재고 부족! (${locationName(reservation.location)} 가용 ${available.toLocaleString()} EA)`); return false; }
+    }
+    recordHistory(`예약 만료일 변경 ${reservationLabel(reservation)}`);
+    setReservations(prev => prev.map(r => r.id === reservationId ? { ...r, expiresAt, updatedAt: new Date().toISOString() } : r));
+    appendAudit({ action: 'update', entity: 'reservation', entityId: reservationId, itemId: item.id, label: reservationLabel(reservation), before: { expiresAt: reservation.expiresAt }, after: { expiresAt }, reason: '' });
+    return true;
+  };
+
+  const handleCancelReservation = (reservationId: string) => {
+    const reservation = reservations.find(r => r.id === reservationId);
+    if (!reservation || reservation.status !== 'active' || !can('release')) return;
+    const now = new Date().toISOString();
+    recordHistory(`예약 취소 ${reservationLabel(reservation)}`);
+    setReservations(prev => prev.map(r => r.id === reservationId ? { ...r, status: 'cancelled', closedAt: now, closedBy: currentUser?.username || '', updatedAt: now } : r));
+    appendAudit({ action: 'update', entity: 'reservation', entityId: reservationId, itemId: reservation.itemId, label: reservationLabel(reservation), before: { status: reservation.status }, after: { status: 'cancelled' }, reason: '' });
+  };
+
+  // 예약을 출고 기록으로 전환 (재고 일련번호가 있는 제품은 예약 수량만큼 번호를 골라 1건씩)
+  const handleConvertReservation = (reservationId: string, serials: string[]) => {
+    const reservation = reservations.find(r => r.id === reservationId);
+    const item = reservation && items.find(i => i.id === reservation.itemId);
+    if (!reservation || !item || reservation.status !== 'active' || !can('release')) return false;
+    const available = availableLocationStock(item, reservations, new Date(), reservation.id)[reservation.location] || 0;
+    if (reservation.quantity > available) { alert(`가용 재고 부족! (${locationName(reservation.location)} 가용 ${available.toLocaleString()} EA)`); return false; }
+    const stockSerials = [...serialRegistry.values()].filter(u => u.itemId === item.id && isSerialAvailable(u) && u.location === reservation.location).map(u => u.serial);
+    if (stockSerials.length > 0 && (serials.length !== reservation.quantity || serials.some(s => !stockSerials.includes(s)))) { alert(`출고할 일련번호 ${reservation.quantity}개를 선택하세요.`); return false; }
+    const now = new Date().toISOString();
+    const releases = reservationReleases(reservation, item, serials, customers.find(c => c.id === reservation.customerId), currentUser?.username, now);
+    recordHistory(`예약 출고 전환 ${reservationLabel(reservation)}`);
+    setItems(prev => prev.map(i => i.id === item.id ? appendTransactions(i, releases) : i));
+    setReservations(prev => prev.map(r => r.id === reservationId ? { ...r, status: 'released', closedAt: now, closedBy: currentUser?.username || '', updatedAt: now } : r));
+    appendAudit({ action: 'update', entity: 'reservation', entityId: reservationId, itemId: item.id, label: reservationLabel(reservation), before: { status: reservation.status }, after: { status: 'released', transactionIds: releases.map(t => t.id) }, reason: '' });
+    return true;
+  };
+
+  // 출고 주문 저장 (작성 중인 주문만 수정, pick 이면 재고 / 일련번호를 확인하고 피킹 완료로)
+  const handleSaveReleaseOrder = (orderId: string | null, data: ReleaseOrderFormData, pick = false): ReleaseOrder | null => {
+    const existing = orderId ? releaseOrders.find(o => o.id === orderId) : undefined;
+    if (!can('release') || (existing && existing.status !== 'draft')) return null;
+    if (pick) {
+      const errors = releaseOrderErrors(data, items, serialRegistry, reservations);
+      if (errors.length > 0) { alert(`피킹할 수 없습니다.\n${errors.join('\n')}`); return null; }
+    }
+    recordHistory(`출고 주문 ${pick ? '피킹 완료' : '저장'} ${existing ? existing.orderNumber : '신규'}`);
+    const now = new Date().toISOString();
+    // 고객 목록과 연결 (목록에 없는 고객은 새로 등록)
+    const customer = !data.customerName.trim() ? undefined : customers.find(c => c.id === data.customerId) || findCustomer(customers, data.customerName, data.phoneNumber)
+      || handleSaveCustomer(null, { name: data.customerName.trim(), phoneNumber: data.phoneNumber.trim(), address: data.address.trim(), remarks: '' });
+    const fields = {
+      ...data, customerId: customer?.id, updatedAt: now,
+      ...(pick ? { status: 'picked' as const, pickedAt: now, pickedBy: currentUser?.username || '' } : {}),
+    };
+    if (existing) {
+      const updated: ReleaseOrder = { ...existing, ...fields };
+      setReleaseOrders(prev => prev.map(o => o.id === existing.id ? updated : o));
+      const diff = diffFields(existing, updated);
+      if (diff.changed) appendAudit({ action: 'update', entity: 'releaseOrder', entityId: existing.id, label: existing.orderNumber, before: diff.before, after: diff.after, reason: '' });
+      return updated;
+    }
+    const created: ReleaseOrder = {
+      status: 'draft', ...fields, id: generateId('ro'), orderNumber: nextReleaseOrderNumber(releaseOrders, now), createdAt: now, createdBy: currentUser?.username || '',
+    };
+    setReleaseOrders(prev => [created, ...prev]);
+    appendAudit({ action: 'create', entity: 'releaseOrder', entityId: created.id, label: created.orderNumber, before: null, after: { customerName: created.customerName, location: created.location, lines: created.lines.length, status: created.status }, reason: '' });
+    return created;
+  };
+
+  // 출하: 주문의 모든 출고 기록을 한 번에 추가 (하나라도 재고가 모자라면 아무것도 기록하지 않음)
+  const handleShipReleaseOrder = (orderId: string) => {
+    const order = releaseOrders.find(o => o.id === orderId);
+    if (!order || order.status !== 'picked' || !can('release')) return false;
+    const errors = releaseOrderErrors(order, items, serialRegistry, reservations);
+    if (errors.length > 0) { alert(`출하할 수 없습니다.\n${errors.join('\n')}`); return false; }
+    const now = new Date().toISOString();
+    const added = shipmentTransactions(order, items, customers.find(c => c.id === order.customerId), currentUser?.username, now);
+    recordHistory(`출고 주문 출하 ${order.orderNumber}`);
+    setItems(prev => prev.map(item => {
+      const transactions = added.get(item.id);
+      return transactions ? appendTransactions(item, transactions) : item;
+    }));
+    setReleaseOrders(prev => prev.map(o => o.id === orderId ? { ...o, status: 'shipped', shippedAt: now, shippedBy: currentUser?.username || '', updatedAt: now } : o));
+    appendAudit({ action: 'update', entity: 'releaseOrder', entityId: orderId, label: order.orderNumber, before: { status: order.status }, after: { status: 'shipped', transactions: [...added.values()].reduce((acc, ts) => acc + ts.length, 0) }, reason: '' });
+    return true;
+  };
+
+  // 피킹 완료 → 작성 중 되돌리기, 작성 중 / 피킹 완료 → 취소
+  const handleChangeReleaseOrderStatus = (orderId: string, status: Extract<ReleaseOrderStatus, 'draft' | 'cancelled'>) => {
+    const order = releaseOrders.find(o => o.id === orderId);
+    if (!order || !can('release') || order.status === 'shipped' || order.status === 'cancelled' || order.status === status) return;
+    recordHistory(`출고 주문 ${RELEASE_ORDER_STATUS_LABELS[status]} ${order.orderNumber}`);
+    setReleaseOrders(prev => prev.map(o => o.id === orderId ? { ...o, status, updatedAt: new Date().toISOString() } : o));
+    appendAudit({ action: 'update', entity: 'releaseOrder', entityId: orderId, label: order.orderNumber, before: { status: order.status }, after: { status }, reason: '' });
+  };
+
+  // 스캔 대기열을 한 번에 기록 (일련번호 줄은 1건씩, 생산 입고는 줄마다 BOM 차감)
+  const handleCommitScan = (mode: ScanMode, location: string, lines: ScanLine[], options: ScanCommitOptions) => {
+    if (!can(mode)) return;
+    const added = scanTransactions(mode, location, lines, items, {
+      remarks: options.remarks, customer: customers.find(c => c.id === options.customerId), supplierId: options.supplierId,
+      consumeBom: options.consumeBom, userId: currentUser?.username, at: new Date().toISOString(),
+    });
+    recordHistory(`스캔 ${TRANSACTION_TYPE_LABELS[mode]} ${lines.length}줄`);
+    setItems(prev => prev.map(item => {
+      const transactions = added.get(item.id);
+      return transactions ? appendTransactions(item, transactions) : item;
+    }));
+  };
+
+  const handleAddOrderedPart = (orderData: Omit<OrderedPart, 'id' | 'receivedQuantity' | 'status'>) => {
+    const newOrder: OrderedPart = { ...orderData, id: generateId('po'), receivedQuantity: 0, status: 'ordered', updatedAt: new Date().toISOString() };
+    recordHistory(`발주 등록 ${newOrder.code}`);
+    appendAudit({ action: 'create', entity: 'orderedPart', entityId: newOrder.id, label: `${newOrder.code} ${newOrder.name}`, before: null, after: { ...orderData }, reason: '' });
+    setOrderedParts(prev => [newOrder, ...prev]);
+  };
+
+  // 안전 재고 미달 품목 중 진행 중인 발주로 채워지지 않는 품목을 한 번에 발주 등록
+  const handleDraftReorders = () => {
+    const targets = reorderList.filter(r => r.suggestedQuantity > 0);
+    if (targets.length === 0) { alert('추가로 발주할 품목이 없습니다. (진행 중인 발주로 충분)'); return; }
+    if (!confirm(`${targets.length}개 품목의 발주를 등록하시겠습니까?`)) return;
+    const today = new Date().toISOString().split('T')[0];
+    recordHistory(`자동 발주 ${targets.length}건`);
+    targets.forEach(({ item, suggestedQuantity }) => handleAddOrderedPart({
+      registrationDate: today, code: item.code, drawingNumber: item.drawingNumber || '', name: item.name, spec: item.spec || '',
+      unitPrice: lastUnitPrice(item.code, orderedParts), quantity: suggestedQuantity, supplierId: defaultSupplierFor(item.code, suppliers)?.id, remarks: '안전 재고 부족 자동 발주',
+    }));
+    setActiveTab('ordered');
+  };
+
+  const handleUpdateOrderedPart = (orderId: string, updatedData: Partial<OrderedPart>, reason = '') => {
+    const order = orderedParts.find(o => o.id === orderId);
+    if (order) {
+      const diff = diffFields(order, { ...order, ...updatedData });
+      if (diff.changed) appendAudit({ action: 'update', entity: 'orderedPart', entityId: orderId, label: `${order.code} ${order.name}`, before: diff.before, after: diff.after, reason });
+    }
+    recordHistory(`발주 수정 ${order?.code || ''}`);
+    setOrderedParts(prev => prev.map(o => {
+      if (o.id !== orderId) return o;
+      const next = { ...o, ...updatedData, updatedAt: new Date().toISOString() };
+      if (next.status !== 'cancelled') {
+        next.status = next.receivedQuantity >= next.quantity ? 'received' : next.receivedQuantity > 0 ? 'partial' : 'ordered';
+      }
+      return next;
+    }));
+  };
+
+  // 발주 입고: 같은 코드의 부품에 purchase 거래를 남기고 발주의 입고 수량/상태를 함께 갱신
+  const handleReceiveOrderedPart = (orderId: string, quantity: number, remarks: string, lot: Pick<Transaction, 'lotNumber' | 'expiryDate'> = {}) => {
+    const order = orderedParts.find(o => o.id === orderId);
+    if (!order) return;
+    const target = items.find(i => i.code.toUpperCase() === order.code.toUpperCase());
+    if (!target) { alert(`코드 ${order.code} 와 일치하는 품목이 없습니다.`); return; }
+    recordHistory(`발주 입고 ${order.code} ${quantity}`);
+    handleAddTransaction(target.id, {
+      type: 'purchase', quantity, date: new Date().toISOString(),
+      remarks: remarks || `발주 입고 (${order.registrationDate})`, orderedPartId: order.id, unitCost: order.unitPrice, supplierId: order.supplierId, ...lot,
+    });
+    handleUpdateOrderedPart(orderId, { receivedQuantity: order.receivedQuantity + quantity }, '발주 입고');
   };
 
   const selectedItem = useMemo(() => items.find(i => i.id === selectedItemId), [items, selectedItemId]);
 
+  const selectedOrderedPart = useMemo(() => orderedParts.find(o => o.id === selectedOrderedPartId), [orderedParts, selectedOrderedPartId]);
+  const partItems = useMemo(() => items.filter(i => i.type === 'part'), [items]);
+
+  const filteredOrderedParts = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return orderedParts.filter(o => o.name.toLowerCase().includes(term) || o.code.toLowerCase().includes(term));
+  }, [orderedParts, searchTerm]);
+
   const filteredInventory = useMemo(() => {
     const term = searchTerm.toLowerCase().trim();
     return items.filter(item => {
@@ -209,19 +1024,79 @@ const App: React.FC = () => {
     });
   }, [items, searchTerm, activeTab]);
 
-  const exportToExcel = () => {
-    let csvContent = "\ufeff코드,품명,도번,적용,현재재고\r\n";
-    filteredInventory.forEach(item => {
-      csvContent += `"${item.code}","${item.name}","${item.drawingNumber || ''}","${item.application || ''}",${calculateStock(item)}\r\n`;
+  // 기준일을 고르면 그날까지의 기록만으로 재고 / 금액을 다시 계산
+  const asOf = asOfDate ? endOfDate(asOfDate) : undefined;
+  const inventorySnapshot = useMemo(() => filteredInventory.map(item => itemAsOf(item, asOf)), [filteredInventory, asOf]);
+  const snapshotValuations = useMemo(() => asOf ? new Map(inventorySnapshot.map(i => [i.id, valuateItem(i, costingMethod)])) : valuations, [asOf, inventorySnapshot, valuations, costingMethod]);
+
+  const exportOrderedPartsToExcel = () => downloadWorkbook([{
+    name: '발주 현황',
+    columns: [
+      { header: '발주일', key: 'registrationDate', width: 12 }, { header: '코드', key: 'code', width: 16 }, { header: '품명', key: 'name', width: 28 },
+      { header: '도번', key: 'drawingNumber', width: 18 }, { header: '규격', key: 'spec', width: 18 }, { header: '단가', key: 'unitPrice', numFmt: '#,##0' },
+      { header: '발주수량', key: 'quantity' }, { header: '입고수량', key: 'receivedQuantity' }, { header: '금액', key: 'amount', width: 14, numFmt: '#,##0' },
+      { header: '상태', key: 'status' }, { header: '공급처', key: 'supplier', width: 20 }, { header: '비고', key: 'remarks', width: 30 },
+    ],
+    rows: filteredOrderedParts.map(o => ({ ...o, amount: o.unitPrice * o.quantity, status: ORDER_STATUS_LABELS[o.status], supplier: suppliers.find(s => s.id === o.supplierId)?.name || '' })),
+  }], `발주현황_${new Date().toISOString().split('T')[0]}.xlsx`);
+
+  const filteredReorderList = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return reorderList.filter(r => r.item.name.toLowerCase().includes(term) || r.item.code.toLowerCase().includes(term));
+  }, [reorderList, searchTerm]);
+
+  const exportReorderListToExcel = () => downloadWorkbook([{
+    name: '발주 요청',
+    columns: [
+      { header: '구분', key: 'type', width: 8 }, { header: '코드', key: 'code', width: 16 }, { header: '품명', key: 'name', width: 28 },
+      { header: '도번', key: 'drawingNumber', width: 18 }, { header: '규격', key: 'spec', width: 18 }, { header: '가용재고', key: 'stock' },
+      { header: '안전재고', key: 'safetyStock' }, { header: '발주중', key: 'onOrder' }, { header: '요청수량', key: 'suggestedQuantity' },
+    ],
+    rows: filteredReorderList.map(({ item, ...r }) => ({ ...r, type: ITEM_TYPE_LABELS[item.type], code: item.code, name: item.name, drawingNumber: item.drawingNumber, spec: item.spec })),
+  }], `발주요청_${new Date().toISOString().split('T')[0]}.xlsx`);
+
+  // 재고 현황 / 전체 입출고 내역 / 요약 3개 시트
+  const exportToExcel = async () => {
+    try {
+      if (activeTab === 'ordered') await exportOrderedPartsToExcel();
+      else if (activeTab === 'reorder') await exportReorderListToExcel();
+      else {
+        const costs = can('view_costs') ? snapshotValuations : undefined;
+        const extra: [string, unknown][] = [['구분', activeTab === 'part' ? '부품' : '제품'], ['작성자', currentUser?.displayName || ''], ...(asOfDate ? [['기준일', asOfDate] as [string, unknown]] : []), ...(costs ? [['평가 방법', COSTING_METHOD_LABELS[costingMethod]] as [string, unknown]] : [])];
+        await downloadWorkbook([inventorySheet(inventorySnapshot, costs), historySheet(inventorySnapshot, !!costs), summarySheet(inventorySnapshot, costs, extra)], asOfDate ? `재고현황_${asOfDate}기준.xlsx` : `재고현황_${new Date().toISOString().split('T')[0]}.xlsx`);
+      }
+    } catch (err) {
+      alert(`엑셀 파일을 만들 수 없습니다: ${errorMessage(err)}`);
+    }
+  };
+
+  // 엑셀 가져오기: 미리보기에서 오류가 없는 경우에만 호출됨
+  const handleApplyExcelImport = (plan: ImportPlan, fileName: string) => {
+    const now = new Date().toISOString();
+    const reason = `엑셀 가져오기: ${fileName}`;
+    const { created, added } = importRecords(plan, items, customers, currentUser?.username, now);
+    recordHistory(`엑셀 가져오기 ${fileName}`);
+    setItems(prev => [...created, ...prev].map(item => {
+      const update = plan.updates.find(u => u.itemId === item.id);
+      const transactions = added.get(item.id);
+      if (!update && !transactions) return item;
+      const next = { ...item, ...update?.data, updatedAt: now };
+      return transactions ? appendTransactions(next, transactions) : next;
+    }));
+    created.forEach(item => appendAudit({ action: 'create', entity: 'item', entityId: item.id, label: `${item.code} ${item.name}`, before: null, after: plan.creates.find(c => c.code === item.code) || null, reason }));
+    plan.updates.forEach(({ itemId, data }) => {
+      const target = items.find(i => i.id === itemId);
+      if (!target) return;
+      const diff = diffFields(target, { ...target, ...data });
+      if (diff.changed) appendAudit({ action: 'update', entity: 'item', entityId: itemId, label: `${target.code} ${target.name}`, before: diff.before, after: diff.after, reason });
     });
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `재고현황_${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
+    if (plan.transactions.length > 0) appendAudit({ action: 'import', entity: 'transaction', entityId: fileName, label: fileName, before: null, after: { transactions: plan.transactions.length, items: added.size }, reason });
+    alert(`품목 생성 ${created.length}건, 수정 ${plan.updates.length}건, 기록 추가 ${plan.transactions.length}건 반영 완료.`);
   };
 
-  if (!authRole) {
+  if (!currentUser) {
+    // 클라우드 사용 시 서버에 사용자가 없다고 확인되기 전에는 관리자를 만들 수 없음 (오프라인 / 새 브라우저에서 계정이 따로 생기지 않도록)
+    const awaitingCloudUsers = !!kvClient && users.length === 0 && !remoteLoaded;
     return (
       <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
         <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-sm p-10 border border-slate-100">
@@ -230,16 +1105,41 @@ const App: React.FC = () => {
               <BoxIcon className="w-10 h-10 text-white" />
             </div>
             <h1 className="text-2xl font-black text-slate-800 tracking-tight uppercase text-center">재고 관리 시스템</h1>
+            {users.length === 0 && !awaitingCloudUsers && <p className="text-xs font-black text-slate-400 uppercase tracking-widest mt-2">최초 관리자 계정 생성</p>}
           </div>
-          <form onSubmit={handleLogin} className="space-y-6">
-            <input 
-              type="password" autoFocus value={loginPassword}
-              onChange={(e) => setLoginPassword(e.target.value)}
-              placeholder="PASSWORD"
-              className="w-full px-5 py-4 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none text-center text-3xl font-black tracking-[0.4em] transition-all"
-            />
-            <button type="submit" className="w-full py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all text-sm uppercase tracking-widest">로그인</button>
-          </form>
+          {awaitingCloudUsers && syncStatus === 'error' ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm font-black text-rose-600 uppercase tracking-widest">서버에 연결할 수 없습니다</p>
+              <p className="text-xs font-bold text-slate-400">사용자 정보를 확인한 뒤에 로그인하거나 관리자 계정을 만들 수 있습니다. 연결되면 자동으로 다시 시도합니다.</p>
+              <button type="button" onClick={handleRetrySync} className="w-full py-4 bg-slate-100 text-slate-600 font-black rounded-xl hover:bg-slate-200 transition-all text-sm uppercase tracking-widest">다시 연결</button>
+            </div>
+          ) : awaitingCloudUsers ? (
+            <p className="text-center text-sm font-black text-slate-400 uppercase tracking-widest animate-pulse">사용자 정보를 불러오는 중...</p>
+          ) : users.length === 0 ? (
+            <form onSubmit={handleSetup} className="space-y-4">
+              <input type="text" autoFocus value={setupForm.username} onChange={(e) => setSetupForm({ ...setupForm, username: e.target.value })} placeholder="아이디" className="w-full px-5 py-3 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none font-black text-lg" />
+              <input type="text" value={setupForm.displayName} onChange={(e) => setSetupForm({ ...setupForm, displayName: e.target.value })} placeholder="이름" className="w-full px-5 py-3 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none font-bold text-lg" />
+              <input type="password" value={setupForm.password} onChange={(e) => setSetupForm({ ...setupForm, password: e.target.value })} placeholder="비밀번호" className="w-full px-5 py-3 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none font-black text-lg" />
+              <input type="password" value={setupForm.confirm} onChange={(e) => setSetupForm({ ...setupForm, confirm: e.target.value })} placeholder="비밀번호 확인" className="w-full px-5 py-3 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none font-black text-lg" />
+              <button type="submit" className="w-full py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all text-sm uppercase tracking-widest">관리자 계정 만들기</button>
+            </form>
+          ) : (
+            <form onSubmit={handleLogin} className="space-y-4">
+              <input
+                type="text" autoFocus value={loginUsername}
+                onChange={(e) => setLoginUsername(e.target.value)}
+                placeholder="ID"
+                className="w-full px-5 py-4 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none text-center text-xl font-black tracking-widest transition-all"
+              />
+              <input 
+                type="password" value={loginPassword}
+                onChange={(e) => setLoginPassword(e.target.value)}
+                placeholder="PASSWORD"
+                className="w-full px-5 py-4 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none text-center text-3xl font-black tracking-[0.4em] transition-all"
+              />
+              <button type="submit" className="w-full py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all text-sm uppercase tracking-widest">로그인</button>
+            </form>
+          )}
         </div>
       </div>
     );
@@ -256,32 +1156,118 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="flex items-center space-x-4">
-                    <div className={`flex items-center space-x-2 px-3 py-1.5 rounded-full border transition-all ${syncStatus === 'success' ? 'bg-emerald-50 border-emerald-100' : 'bg-slate-50 border-slate-100'}`}>
-                      <div className={`w-2 h-2 rounded-full ${syncStatus === 'success' ? 'bg-emerald-500' : syncStatus === 'loading' ? 'bg-amber-500 animate-pulse' : 'bg-slate-300'}`}></div>
-                      <span className={`text-[10px] font-black uppercase tracking-widest ${syncStatus === 'success' ? 'text-emerald-600' : 'text-slate-400'}`}>
-                          {syncStatus === 'success' ? 'Synced Cloud' : syncStatus === 'loading' ? 'Syncing...' : 'Local Mode'}
+                    <button
+                      onClick={handleRetrySync} disabled={!kvClient}
+                      title={kvClient ? `대기 중인 변경 ${outbox.length}건${nextRetryAt ? ` · 다음 재시도 ${new Date(nextRetryAt).toLocaleTimeString()}` : ''}` : '클라우드 설정 없음'}
+                      className={`flex items-center space-x-2 px-3 py-1.5 rounded-full border transition-all ${!kvClient ? 'bg-slate-50 border-slate-100' : outbox.length > 0 ? 'bg-amber-50 border-amber-100' : syncStatus === 'success' ? 'bg-emerald-50 border-emerald-100' : 'bg-slate-50 border-slate-100'}`}
+                    >
+                      <div className={`w-2 h-2 rounded-full ${syncStatus === 'loading' ? 'bg-amber-500 animate-pulse' : !kvClient ? 'bg-slate-300' : outbox.length > 0 || syncStatus === 'error' ? 'bg-amber-500' : syncStatus === 'success' ? 'bg-emerald-500' : 'bg-slate-300'}`}></div>
+                      <span className={`text-[10px] font-black uppercase tracking-widest ${!kvClient ? 'text-slate-400' : outbox.length > 0 ? 'text-amber-600' : syncStatus === 'success' ? 'text-emerald-600' : 'text-slate-400'}`}>
+                          {!kvClient ? 'Local Mode'
+                            : syncStatus === 'loading' ? 'Syncing...'
+                            : !isOnline ? `Offline · ${outbox.length} Pending`
+                            : outbox.length > 0 ? `${outbox.length} Pending`
+                            : syncStatus === 'error' ? 'Sync Error'
+                            : 'Synced Cloud'}
                       </span>
-                    </div>
-                    <button onClick={handleLocalExport} className="p-2 text-slate-400 hover:text-slate-600 transition-all" title="로컬 백업 내보내기">
-                        <DownloadIcon />
                     </button>
-                    <label className="p-2 text-slate-400 hover:text-slate-600 transition-all cursor-pointer" title="로컬 백업 가져오기">
-                        <CloudIcon />
-                        <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleLocalImport} />
-                    </label>
+                    {syncConflicts.length > 0 && (
+                      <button onClick={() => setShowConflicts(true)} className="px-3 py-1.5 bg-rose-50 text-rose-600 rounded-full border border-rose-100 font-black text-[10px] uppercase tracking-widest hover:bg-rose-100 transition-all">
+                        충돌 {syncConflicts.length}건
+                      </button>
+                    )}
+                    {reorderList.length > 0 && (
+                      <button onClick={() => setActiveTab('reorder')} className="px-3 py-1.5 bg-amber-50 text-amber-600 rounded-full border border-amber-100 font-black text-[10px] uppercase tracking-widest hover:bg-amber-100 transition-all">
+                        재고 부족 {reorderList.length}건
+                      </button>
+                    )}
+                    {can('backup') && (
+                      <>
+                        <button onClick={handleLocalExport} className="p-2 text-slate-400 hover:text-slate-600 transition-all" title="로컬 백업 내보내기">
+                            <DownloadIcon />
+                        </button>
+                        <label className="p-2 text-slate-400 hover:text-slate-600 transition-all cursor-pointer" title="로컬 백업 가져오기">
+                            <CloudIcon />
+                            <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleLocalImport} />
+                        </label>
+                      </>
+                    )}
+                    {can('view_products') && (
+                      <button onClick={() => setShowSerialLookup(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">일련번호 조회</button>
+                    )}
+                    {can('view_products') && (
+                      <button onClick={() => setShowCustomers(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">고객 관리</button>
+                    )}
+                    {(can('view_parts') || can('manage_orders')) && (
+                      <button onClick={() => setShowSuppliers(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">공급처 관리</button>
+                    )}
+                    {can('manage_rma') && (
+                      <button onClick={() => setShowRmas(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">반품 ({rmas.filter(r => r.status === 'received').length})</button>
+                    )}
+                    {can('view_parts') && (
+                      <button onClick={() => setShowLotTrace(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">로트 추적</button>
+                    )}
+                    {(can('view_parts') || can('view_products')) && (
+                      <button onClick={() => setShowLedger(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">입출고 장부</button>
+                    )}
+                    {(can('view_parts') || can('view_products')) && (
+                      <button onClick={() => setShowReports(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">보고서</button>
+                    )}
+                    {can('view_products') && (
+                      <button onClick={() => setShowReleaseOrders(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">출고 주문 ({releaseOrders.filter(o => o.status === 'draft' || o.status === 'picked').length})</button>
+                    )}
+                    {(can('view_parts') || can('view_products')) && (
+                      <button onClick={() => setShowReservations(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">재고 예약 ({reservations.filter(r => isReservationHolding(r)).length})</button>
+                    )}
+                    {(can('purchase') || can('release')) && (
+                      <button onClick={() => setShowScanStation(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">스캔 입출고</button>
+                    )}
+                    {(can('stocktake') || can('approve_stocktake')) && (
+                      <button onClick={() => setShowStocktake(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">재고 실사 ({stocktakes.filter(s => s.status === 'draft').length})</button>
+                    )}
+                    {can('view_costs') && (
+                      <button onClick={() => setShowValuation(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">재고 평가</button>
+                    )}
+                    <div className="flex items-center">
+                      <button onClick={() => handleMoveHistory(history.position - 1)} disabled={history.position === 0} title="되돌리기 (Ctrl+Z)" className="px-3 py-1.5 bg-slate-100 text-slate-500 rounded-l-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase disabled:opacity-40">되돌리기</button>
+                      <button onClick={() => setShowHistory(true)} title="작업 이력" className="px-3 py-1.5 bg-slate-100 text-slate-500 border-y border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">이력 {history.position}/{history.entries.length}</button>
+                      <button onClick={() => handleMoveHistory(history.position + 1)} disabled={history.position === history.entries.length} title="다시 실행 (Ctrl+Shift+Z / Ctrl+Y)" className="px-3 py-1.5 bg-slate-100 text-slate-500 rounded-r-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase disabled:opacity-40">다시 실행</button>
+                    </div>
+                    {can('view_audit') && (
+                      <button onClick={() => setShowAuditLog(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">감사 로그</button>
+                    )}
+                    {can('delete') && (
+                      <button onClick={() => setShowTrash(true)} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">휴지통 ({trash.length})</button>
+                    )}
+                    {can('manage_users') && (
+                      <button onClick={() => setShowUserManagement(true)} className="px-4 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg border border-indigo-100 hover:bg-indigo-100 transition-colors font-black text-[10px] uppercase">사용자 관리</button>
+                    )}
+                    <span className="text-xs font-black text-slate-500" title={currentUser.username}>{currentUser.displayName}</span>
                     <button onClick={handleLogout} className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-lg border border-slate-200 hover:bg-slate-200 transition-colors font-black text-[10px] uppercase">Logout</button>
                 </div>
             </div>
             
             <div className="flex space-x-8 -mb-px">
-                {authRole === 'admin' && (
+                {can('view_parts') && (
                   <button onClick={() => setActiveTab('part')} className={`pb-4 px-2 text-sm font-black uppercase tracking-widest transition-all border-b-2 ${activeTab === 'part' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
                     부품 관리 ({stats.partCount})
                   </button>
                 )}
-                <button onClick={() => setActiveTab('product')} className={`pb-4 px-2 text-sm font-black uppercase tracking-widest transition-all border-b-2 ${activeTab === 'product' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
-                  제품 관리 ({stats.productCount})
-                </button>
+                {can('view_products') && (
+                  <button onClick={() => setActiveTab('product')} className={`pb-4 px-2 text-sm font-black uppercase tracking-widest transition-all border-b-2 ${activeTab === 'product' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
+                    제품 관리 ({stats.productCount})
+                  </button>
+                )}
+                {can('manage_orders') && (
+                  <button onClick={() => setActiveTab('ordered')} className={`pb-4 px-2 text-sm font-black uppercase tracking-widest transition-all border-b-2 ${activeTab === 'ordered' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
+                    발주 관리 ({stats.openOrderCount})
+                  </button>
+                )}
+                {(can('view_parts') || can('view_products')) && (
+                  <button onClick={() => setActiveTab('reorder')} className={`pb-4 px-2 text-sm font-black uppercase tracking-widest transition-all border-b-2 ${activeTab === 'reorder' ? 'border-amber-500 text-amber-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
+                    발주 필요 ({reorderList.length})
+                  </button>
+                )}
             </div>
         </div>
       </header>
@@ -297,34 +1283,155 @@ const App: React.FC = () => {
               />
           </div>
           <div className="flex gap-3">
+            {(activeTab === 'part' || activeTab === 'product') && (
+              <div className={`flex items-center gap-2 px-4 py-2 border-2 rounded-xl font-black text-xs uppercase tracking-widest ${asOfDate ? 'border-amber-200 bg-amber-50 text-amber-600' : 'border-slate-100 bg-white text-slate-400'}`} title="선택한 날짜까지의 기록으로 재고를 계산합니다">
+                기준일
+                <input type="date" value={asOfDate} max={new Date().toISOString().split('T')[0]} onChange={(e) => setAsOfDate(e.target.value)} className="bg-transparent font-black text-sm text-slate-700 outline-none" />
+                {asOfDate && <button onClick={() => setAsOfDate('')} className="text-[10px] underline">현재</button>}
+              </div>
+            )}
             <button onClick={exportToExcel} className="flex items-center gap-2 px-6 py-4 bg-emerald-600 text-white font-black rounded-xl shadow-lg hover:bg-emerald-700 transition-all text-xs uppercase tracking-widest">
                 <ServerIcon className="w-5 h-5" />
                 <span>엑셀 파일 저장</span>
             </button>
-            <button onClick={() => setShowAddItemModal(true)} className="flex items-center gap-2 px-8 py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all text-xs uppercase tracking-widest">
-                <PlusIcon className="w-5 h-5" />
-                <span>신규 등록</span>
-            </button>
+            {can('edit_master') && activeTab !== 'ordered' && activeTab !== 'reorder' && (
+              <button onClick={() => setShowExcelImport(true)} className="flex items-center gap-2 px-6 py-4 bg-white text-emerald-600 border-2 border-emerald-100 font-black rounded-xl shadow-lg hover:bg-emerald-50 transition-all text-xs uppercase tracking-widest">
+                  <CloudIcon className="w-5 h-5" />
+                  <span>엑셀 가져오기</span>
+              </button>
+            )}
+            {(activeTab === 'part' || activeTab === 'product') && (
+              <button onClick={() => setShowLabels(true)} className="flex items-center gap-2 px-6 py-4 bg-white text-slate-600 border-2 border-slate-100 font-black rounded-xl shadow-lg hover:bg-slate-50 transition-all text-xs uppercase tracking-widest">
+                  <span>라벨 인쇄{labelItemIds.length > 0 && ` (${labelItemIds.length})`}</span>
+              </button>
+            )}
+            {activeTab === 'reorder' ? can('manage_orders') && (
+              <button onClick={handleDraftReorders} className="flex items-center gap-2 px-8 py-4 bg-amber-500 text-white font-black rounded-xl shadow-lg hover:bg-amber-600 transition-all text-xs uppercase tracking-widest">
+                  <PlusIcon className="w-5 h-5" />
+                  <span>일괄 발주 등록</span>
+              </button>
+            ) : can(activeTab === 'ordered' ? 'manage_orders' : 'edit_master') && (
+              <button onClick={() => activeTab === 'ordered' ? setShowAddOrderedPartModal(true) : setShowAddItemModal(true)} className="flex items-center gap-2 px-8 py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all text-xs uppercase tracking-widest">
+                  <PlusIcon className="w-5 h-5" />
+                  <span>신규 등록</span>
+              </button>
+            )}
           </div>
         </div>
 
         <div className="bg-white shadow-xl border border-slate-100 rounded-[2rem] overflow-hidden">
           <div className="overflow-x-auto">
+            {activeTab === 'ordered' ? (
+            <table className="w-full text-left">
+              <thead className="text-[11px] text-slate-400 uppercase bg-slate-50/50 border-b border-slate-100 font-black tracking-[0.2em]">
+                <tr>
+                  <th className="px-8 py-5">발주일</th>
+                  <th className="px-8 py-5">코드</th>
+                  <th className="px-8 py-5">품명 / 도번</th>
+                  <th className="px-8 py-5 text-right">단가</th>
+                  <th className="px-8 py-5 text-right">입고 / 발주</th>
+                  <th className="px-8 py-5 text-right">금액</th>
+                  <th className="px-8 py-5 text-center">상태</th>
+                  <th className="px-8 py-5 text-center">관리</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {filteredOrderedParts.map(order => (
+                  <tr key={order.id} className="hover:bg-indigo-50/20 transition-colors group">
+                    <td className="px-8 py-5 font-bold text-slate-500">{order.registrationDate}</td>
+                    <td className="px-8 py-5 font-mono text-indigo-600 font-black text-lg">{order.code}</td>
+                    <td className="px-8 py-5">
+                      <p className="font-black text-slate-800 text-lg">{order.name}</p>
+                      <p className="text-slate-400 text-xs font-bold uppercase">{order.drawingNumber || '-'} · {order.spec || '-'}</p>
+                      {order.supplierId && <p className="text-indigo-400 text-xs font-black">{suppliers.find(s => s.id === order.supplierId)?.name || '삭제된 공급처'}</p>}
+                    </td>
+                    <td className="px-8 py-5 text-right font-bold text-slate-600">{order.unitPrice.toLocaleString()}</td>
+                    <td className="px-8 py-5 text-right">
+                      <span className="text-2xl font-black text-slate-900">{order.receivedQuantity.toLocaleString()}</span>
+                      <span className="text-slate-300 font-black"> / {order.quantity.toLocaleString()}</span>
+                    </td>
+                    <td className="px-8 py-5 text-right font-black text-slate-800">{(order.unitPrice * order.quantity).toLocaleString()}</td>
+                    <td className="px-8 py-5 text-center">
+                      <span className={`px-3 py-1.5 rounded-full text-[11px] font-black uppercase tracking-widest ${ORDER_STATUS_STYLES[order.status]}`}>{ORDER_STATUS_LABELS[order.status]}</span>
+                    </td>
+                    <td className="px-8 py-5">
+                      <div className="flex justify-center gap-3">
+                        <button onClick={() => setSelectedOrderedPartId(order.id)} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-black text-[11px] uppercase hover:bg-indigo-600 hover:text-white transition-all shadow-sm">상세 / 입고</button>
+                        {can('delete') && <button onClick={() => setItemToDelete({id: order.id, type: 'ordered'})} className="p-2 text-slate-300 hover:text-rose-600 transition-all"><TrashIcon className="w-6 h-6" /></button>}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            ) : activeTab === 'reorder' ? (
             <table className="w-full text-left">
               <thead className="text-[11px] text-slate-400 uppercase bg-slate-50/50 border-b border-slate-100 font-black tracking-[0.2em]">
                 <tr>
+                  <th className="px-8 py-5">코드</th>
+                  <th className="px-8 py-5">품명 / 제품명</th>
+                  <th className="px-8 py-5 text-right">가용 / 안전 재고</th>
+                  <th className="px-8 py-5 text-right">발주 중</th>
+                  <th className="px-8 py-5 text-right">발주 제안</th>
+                  <th className="px-8 py-5 text-center">관리</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {filteredReorderList.length === 0 && (
+                  <tr><td colSpan={6} className="px-8 py-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">안전 재고 미달 품목이 없습니다</td></tr>
+                )}
+                {filteredReorderList.map(({ item, stock, safetyStock, onOrder, suggestedQuantity }) => (
+                  <tr key={item.id} className="hover:bg-amber-50/20 transition-colors group">
+                    <td className="px-8 py-5 font-mono text-indigo-600 font-black text-lg">{item.code}</td>
+                    <td className="px-8 py-5">
+                      <p className="font-black text-slate-800 text-lg">{item.name}</p>
+                      <p className="text-slate-400 text-xs font-bold uppercase">{item.type === 'part' ? '부품' : '제품'}{item.reorderQuantity ? ` · 기본 발주 ${item.reorderQuantity.toLocaleString()}` : ''}</p>
+                    </td>
+                    <td className="px-8 py-5 text-right">
+                      <span className={`text-2xl font-black ${stock > 0 ? 'text-amber-500' : 'text-rose-500'}`}>{stock.toLocaleString()}</span>
+                      <span className="text-slate-300 font-black"> / {safetyStock.toLocaleString()}</span>
+                    </td>
+                    <td className="px-8 py-5 text-right font-bold text-slate-600">{onOrder.toLocaleString()}</td>
+                    <td className="px-8 py-5 text-right">
+                      {suggestedQuantity > 0 ? <span className="text-2xl font-black text-slate-900">{suggestedQuantity.toLocaleString()}</span> : <span className="text-[11px] font-black text-emerald-600 uppercase tracking-widest">발주 진행 중</span>}
+                    </td>
+                    <td className="px-8 py-5">
+                      <div className="flex justify-center">
+                        <button onClick={() => setSelectedItemId(item.id)} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-black text-[11px] uppercase hover:bg-indigo-600 hover:text-white transition-all shadow-sm">상세내역</button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            ) : (
+            <table className="w-full text-left">
+              <thead className="text-[11px] text-slate-400 uppercase bg-slate-50/50 border-b border-slate-100 font-black tracking-[0.2em]">
+                <tr>
+                  <th className="pl-8 py-5 w-4">
+                    <input type="checkbox" checked={filteredInventory.length > 0 && filteredInventory.every(i => labelItemIds.includes(i.id))} onChange={(e) => setLabelItemIds(prev => e.target.checked ? [...new Set([...prev, ...filteredInventory.map(i => i.id)])] : prev.filter(id => !filteredInventory.some(i => i.id === id)))} className="w-4 h-4 accent-indigo-600" title="라벨 인쇄할 품목 선택" />
+                  </th>
                   <th className="px-8 py-5">코드</th>
                   <th className="px-8 py-5">품명 / 제품명</th>
                   {activeTab === 'part' && <th className="px-8 py-5">도번 / 규격</th>}
-                  <th className="px-8 py-5 text-right">현재 재고</th>
+                  {LOCATIONS.map(l => <th key={l.id} className="px-6 py-5 text-right">{l.name}</th>)}
+                  <th className="px-8 py-5 text-right">{asOfDate ? `${asOfDate} 재고` : '현재 재고'}</th>
+                  {!asOfDate && <th className="px-8 py-5 text-right">가용 재고</th>}
+                  {can('view_costs') && <th className="px-8 py-5 text-right">재고 금액</th>}
                   <th className="px-8 py-5 text-center">관리</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-50">
-                {filteredInventory.map(item => {
+                {inventorySnapshot.map(item => {
                   const stock = calculateStock(item);
+                  const quarantine = calculateQuarantineStock(item);
+                  const locationStock = calculateLocationStock(item);
+                  const reserved = reservedTotals.get(item.id) || 0;
                   return (
                     <tr key={item.id} className="hover:bg-indigo-50/20 transition-colors group">
+                      <td className="pl-8 py-5">
+                        <input type="checkbox" checked={labelItemIds.includes(item.id)} onChange={(e) => setLabelItemIds(prev => e.target.checked ? [...prev, item.id] : prev.filter(id => id !== item.id))} className="w-4 h-4 accent-indigo-600" />
+                      </td>
                       <td className="px-8 py-5 font-mono text-indigo-600 font-black text-lg">{item.code}</td>
                       <td className="px-8 py-5 font-black text-slate-800 text-lg">{item.name}</td>
                       {activeTab === 'part' && (
@@ -333,15 +1440,32 @@ const App: React.FC = () => {
                           <p className="text-slate-400 text-xs">{item.spec || '-'}</p>
                         </td>
                       )}
+                      {LOCATIONS.map(l => (
+                        <td key={l.id} className={`px-6 py-5 text-right font-black text-lg ${(locationStock[l.id] || 0) > 0 ? 'text-slate-600' : 'text-slate-300'}`}>{(locationStock[l.id] || 0).toLocaleString()}</td>
+                      ))}
                       <td className="px-8 py-5 text-right">
-                          <span className={`text-3xl font-black ${stock > 0 ? 'text-slate-900' : 'text-rose-500'}`}>
+                          <span className={`text-3xl font-black ${stock <= 0 ? 'text-rose-500' : isBelowSafetyStock(item, stock) ? 'text-amber-500' : 'text-slate-900'}`}>
                               {stock.toLocaleString()}
                           </span>
+                          {(item.safetyStock || 0) > 0 && <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">안전 {item.safetyStock!.toLocaleString()}</p>}
+                          {quarantine > 0 && <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest">격리 {quarantine.toLocaleString()}</p>}
                       </td>
+                      {!asOfDate && (
+                        <td className="px-8 py-5 text-right">
+                          <span className={`text-2xl font-black ${stock - reserved <= 0 ? 'text-rose-500' : reserved > 0 ? 'text-indigo-600' : 'text-slate-400'}`}>{(stock - reserved).toLocaleString()}</span>
+                          {reserved > 0 && <p className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">예약 {reserved.toLocaleString()}</p>}
+                        </td>
+                      )}
+                      {can('view_costs') && (
+                        <td className="px-8 py-5 text-right">
+                          <p className="font-black text-slate-800 text-lg">{formatCost(snapshotValuations.get(item.id)?.value || 0)}</p>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">@ {formatCost(snapshotValuations.get(item.id)?.unitCost || 0)}</p>
+                        </td>
+                      )}
                       <td className="px-8 py-5">
                         <div className="flex justify-center gap-3">
                           <button onClick={() => setSelectedItemId(item.id)} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-black text-[11px] uppercase hover:bg-indigo-600 hover:text-white transition-all shadow-sm">상세내역</button>
-                          <button onClick={() => setItemToDelete({id: item.id, type: 'inventory'})} className="p-2 text-slate-300 hover:text-rose-600 transition-all"><TrashIcon className="w-6 h-6" /></button>
+                          {can('delete') && <button onClick={() => setItemToDelete({id: item.id, type: 'inventory'})} className="p-2 text-slate-300 hover:text-rose-600 transition-all"><TrashIcon className="w-6 h-6" /></button>}
                         </div>
                       </td>
                     </tr>
@@ -349,6 +1473,7 @@ const App: React.FC = () => {
                 })}
               </tbody>
             </table>
+            )}
           </div>
         </div>
       </main>
@@ -356,11 +1481,12 @@ const App: React.FC = () => {
       {itemToDelete && (
         <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
             <div className="bg-white rounded-[2rem] p-10 max-w-sm w-full shadow-2xl border border-slate-100 text-center">
-                <h4 className="text-xl font-black text-slate-800 mb-2 uppercase tracking-tight">품목 삭제</h4>
-                <p className="text-sm text-slate-400 mb-6 font-bold uppercase tracking-widest">관리자 비밀번호를 입력하세요</p>
-                <input type="password" autoFocus value={deletePassword} onChange={(e) => setDeletePassword(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleDeleteItemConfirm()} placeholder="PASSWORD" className="w-full px-5 py-4 border-2 border-slate-100 rounded-xl focus:border-rose-500 outline-none mb-6 text-center text-3xl font-black tracking-widest" />
+                <h4 className="text-xl font-black text-slate-800 mb-2 uppercase tracking-tight">{itemToDelete.type === 'ordered' ? '발주 삭제' : '품목 삭제'}</h4>
+                <p className="text-sm text-slate-400 mb-6 font-bold uppercase tracking-widest">{itemToDelete.type === 'inventory' ? '삭제한 품목은 휴지통에서 복구할 수 있습니다' : '본인 비밀번호를 입력하세요'}</p>
+                <input type="text" autoFocus value={deleteReason} onChange={(e) => setDeleteReason(e.target.value)} placeholder="삭제 사유 *" className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl focus:border-rose-500 outline-none mb-4 text-center text-lg font-bold" />
+                <input type="password" value={deletePassword} onChange={(e) => setDeletePassword(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleDeleteItemConfirm()} placeholder="PASSWORD" className="w-full px-5 py-4 border-2 border-slate-100 rounded-xl focus:border-rose-500 outline-none mb-6 text-center text-3xl font-black tracking-widest" />
                 <div className="grid grid-cols-2 gap-4">
-                    <button onClick={() => setItemToDelete(null)} className="py-3.5 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-xs tracking-widest">취소</button>
+                    <button onClick={() => { setItemToDelete(null); setDeletePassword(''); setDeleteReason(''); }} className="py-3.5 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-xs tracking-widest">취소</button>
                     <button onClick={handleDeleteItemConfirm} className="py-3.5 bg-rose-600 text-white rounded-xl font-black uppercase text-xs tracking-widest shadow-lg shadow-rose-100">삭제 확인</button>
                 </div>
             </div>
@@ -370,13 +1496,205 @@ const App: React.FC = () => {
       {showAddItemModal && (
         <AddItemModal onAddItem={handleAddItem} onClose={() => setShowAddItemModal(false)} existingCodes={items.map(i => i.code)} defaultType={activeTab === 'product' ? 'product' : 'part'} />
       )}
+      {showUserManagement && (
+        <UserManagementModal
+          users={users}
+          roles={effectiveRoles}
+          currentUserId={currentUser.id}
+          onSaveUser={handleSaveUser}
+          onDeleteUser={handleDeleteUser}
+          onSaveRole={handleSaveRole}
+          onDeleteRole={handleDeleteRole}
+          onClose={() => setShowUserManagement(false)}
+        />
+      )}
+      {showAuditLog && (
+        <AuditLogModal entries={auditLog} onClose={() => setShowAuditLog(false)} />
+      )}
+      {backupImport && (
+        <BackupImportModal fileName={backupImport.fileName} raw={backupImport.raw} current={currentDocument} isAdmin={currentUser?.roleId === ADMIN_ROLE_ID} onApply={handleApplyBackup} onClose={() => setBackupImport(null)} />
+      )}
+      {showExcelImport && (
+        <ExcelImportModal
+          items={items}
+          options={{ allowedTypes: (['purchase', 'release', 'transfer'] as const).filter(t => can(t)), usedSerials: new Set(allUsedSerials) }}
+          onApply={handleApplyExcelImport}
+          onClose={() => setShowExcelImport(false)}
+        />
+      )}
+      {showValuation && (
+        <ValuationReportModal items={items} valuations={valuations} costingMethod={costingMethod} onChangeCostingMethod={setCostingMethod} onClose={() => setShowValuation(false)} />
+      )}
+      {showLedger && (
+        <LedgerModal
+          items={items.filter(i => can(i.type === 'part' ? 'view_parts' : 'view_products'))}
+          permissions={permissions}
+          onSelectItem={setSelectedItemId}
+          onClose={() => setShowLedger(false)}
+        />
+      )}
+      {showLotTrace && (
+        <LotTraceModal
+          items={items.filter(i => can(i.type === 'part' ? 'view_parts' : 'view_products'))}
+          suppliers={suppliers}
+          onSelectItem={setSelectedItemId}
+          onClose={() => setShowLotTrace(false)}
+        />
+      )}
+      {showReports && (
+        <ReportsModal
+          items={items.filter(i => can(i.type === 'part' ? 'view_parts' : 'view_products'))}
+          valuations={can('view_costs') ? valuations : undefined}
+          onClose={() => setShowReports(false)}
+        />
+      )}
+      {showSerialLookup && (
+        <SerialLookupModal registry={serialRegistry} items={items} onClose={() => setShowSerialLookup(false)} />
+      )}
+      {showCustomers && (
+        <CustomerModal
+          customers={customers}
+          items={items}
+          permissions={permissions}
+          onSaveCustomer={handleSaveCustomer}
+          onDeleteCustomer={handleDeleteCustomer}
+          onMigrate={handleMigrateCustomers}
+          onClose={() => setShowCustomers(false)}
+        />
+      )}
+      {showSuppliers && (
+        <SupplierModal
+          suppliers={suppliers}
+          items={items}
+          orderedParts={orderedParts}
+          permissions={permissions}
+          onSaveSupplier={handleSaveSupplier}
+          onDeleteSupplier={handleDeleteSupplier}
+          onClose={() => setShowSuppliers(false)}
+        />
+      )}
+      {showRmas && (
+        <RmaModal
+          rmas={rmas}
+          products={items.filter(i => i.type === 'product')}
+          serialRegistry={serialRegistry}
+          onReceive={handleReceiveRma}
+          onInspect={handleInspectRma}
+          onClose={() => setShowRmas(false)}
+        />
+      )}
+      {showLabels && (
+        <LabelPrintModal
+          items={items.filter(i => labelItemIds.includes(i.id))}
+          products={items.filter(i => i.type === 'product' && can('view_products'))}
+          layout={labelLayout}
+          onChangeLayout={setLabelLayout}
+          onClose={() => setShowLabels(false)}
+        />
+      )}
+      {showScanStation && (
+        <ScanStationModal
+          items={items.filter(i => can(i.type === 'part' ? 'view_parts' : 'view_products'))}
+          serialRegistry={serialRegistry}
+          reservations={reservations}
+          customers={customers}
+          suppliers={suppliers}
+          permissions={permissions}
+          onCommit={handleCommitScan}
+          onClose={() => setShowScanStation(false)}
+        />
+      )}
+      {showHistory && (
+        <HistoryModal
+          entries={history.entries}
+          position={history.position}
+          onMove={handleMoveHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+      {showReleaseOrders && (
+        <ReleaseOrderModal
+          releaseOrders={releaseOrders}
+          items={items.filter(i => can(i.type === 'part' ? 'view_parts' : 'view_products'))}
+          customers={customers}
+          serialRegistry={serialRegistry}
+          reservations={reservations}
+          permissions={permissions}
+          onSave={handleSaveReleaseOrder}
+          onShip={handleShipReleaseOrder}
+          onChangeStatus={handleChangeReleaseOrderStatus}
+          onClose={() => setShowReleaseOrders(false)}
+        />
+      )}
+      {showReservations && (
+        <ReservationModal
+          reservations={reservations}
+          items={items.filter(i => can(i.type === 'part' ? 'view_parts' : 'view_products'))}
+          customers={customers}
+          serialRegistry={serialRegistry}
+          permissions={permissions}
+          onCreate={handleCreateReservation}
+          onExtend={handleExtendReservation}
+          onCancel={handleCancelReservation}
+          onConvert={handleConvertReservation}
+          onClose={() => setShowReservations(false)}
+        />
+      )}
+      {showStocktake && (
+        <StocktakeModal
+          stocktakes={stocktakes}
+          items={items.filter(i => can(i.type === 'part' ? 'view_parts' : 'view_products'))}
+          permissions={permissions}
+          defaultItemType={activeTab === 'part' || activeTab === 'product' ? activeTab : ''}
+          onCreate={handleCreateStocktake}
+          onSave={handleSaveStocktake}
+          onApprove={handleApproveStocktake}
+          onCancel={handleCancelStocktake}
+          onClose={() => setShowStocktake(false)}
+        />
+      )}
+      {showTrash && (
+        <TrashModal trash={trash} onRestore={handleRestoreItem} onPurge={handlePurgeItem} onClose={() => setShowTrash(false)} />
+      )}
+      {showConflicts && (
+        <SyncConflictModal
+          conflicts={syncConflicts}
+          onApplyAlternative={handleApplyConflictAlternative}
+          onDismiss={(id) => setSyncConflicts(prev => prev.filter(c => c.id !== id))}
+          onDismissAll={() => { setSyncConflicts([]); setShowConflicts(false); }}
+          onClose={() => setShowConflicts(false)}
+        />
+      )}
+      {showAddOrderedPartModal && (
+        <AddOrderedPartModal onAddOrderedPart={handleAddOrderedPart} onClose={() => setShowAddOrderedPartModal(false)} partItems={partItems} suppliers={suppliers} />
+      )}
+      {selectedOrderedPartId && selectedOrderedPart && (
+        <EditOrderedPartModal
+          orderedPart={selectedOrderedPart}
+          partItems={partItems}
+          suppliers={suppliers}
+          onUpdateOrderedPart={handleUpdateOrderedPart}
+          onReceive={handleReceiveOrderedPart}
+          onClose={() => setSelectedOrderedPartId(null)}
+        />
+      )}
       {selectedItemId && selectedItem && (
         <ItemDetailModal 
           item={selectedItem} 
-          authRole={authRole as any} 
+          permissions={permissions}
+          onVerifyPassword={verifyCurrentPassword} 
           allUsedSerials={allUsedSerials} 
+          serialRegistry={serialRegistry}
           existingCodes={items.map(i => i.code)}
-          onAddTransaction={handleAddTransaction} 
+          partItems={partItems}
+          customers={customers}
+          suppliers={suppliers}
+          reservations={reservations}
+          valuation={valuations.get(selectedItem.id)}
+          costingMethod={costingMethod}
+          initialAsOfDate={asOfDate}
+          onSaveCustomer={handleSaveCustomer}
+          onAddTransactions={handleAddTransactions} 
           onUpdateTransaction={handleUpdateTransaction} 
           onDeleteTransaction={handleDeleteTransaction} 
           onUpdateItem={handleUpdateItem} 
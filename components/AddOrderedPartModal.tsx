@@ -0,0 +1,148 @@
+
+import React, { useState } from 'react';
+import type { Item, OrderedPart, Supplier } from '../types';
+import { CloseIcon } from './icons';
+import { defaultSupplierFor, expectedArrival } from '../services/suppliers';
+
+interface AddOrderedPartModalProps {
+  onAddOrderedPart: (order: Omit<OrderedPart, 'id' | 'receivedQuantity' | 'status'>) => void;
+  onClose: () => void;
+  partItems: Item[];
+  suppliers: Supplier[];
+}
+
+const AddOrderedPartModal: React.FC<AddOrderedPartModalProps> = ({ onAddOrderedPart, onClose, partItems, suppliers }) => {
+  const [formData, setFormData] = useState({
+    registrationDate: new Date().toISOString().split('T')[0],
+    code: '',
+    name: '',
+    drawingNumber: '',
+    spec: '',
+    unitPrice: '0',
+    quantity: '',
+    supplierId: '',
+    remarks: ''
+  });
+
+  const matchedItem = partItems.find(i => i.code.toUpperCase() === formData.code.trim().toUpperCase());
+
+  const arrival = expectedArrival(formData, suppliers.find(s => s.id === formData.supplierId));
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    const upperOnlyFields = ['code', 'name'];
+    const processedValue = upperOnlyFields.includes(name) ? value.toUpperCase() : value;
+    setFormData(prev => ({ ...prev, [name]: processedValue }));
+  };
+
+  // 등록된 부품 코드를 입력하면 품명/도번/규격/공급처를 자동으로 채움
+  const handleCodeBlur = () => {
+    if (!matchedItem) return;
+    setFormData(prev => ({
+      ...prev,
+      name: prev.name || matchedItem.name,
+      drawingNumber: prev.drawingNumber || matchedItem.drawingNumber,
+      spec: prev.spec || matchedItem.spec || '',
+      supplierId: prev.supplierId || defaultSupplierFor(matchedItem.code, suppliers)?.id || ''
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseInt(formData.quantity, 10) || 0;
+    const unitPrice = parseFloat(formData.unitPrice) || 0;
+    if (!formData.code || !formData.name) {
+      alert('품명과 코드는 필수 항목입니다.');
+      return;
+    }
+    if (quantity <= 0) {
+      alert('발주 수량을 확인하세요.');
+      return;
+    }
+    if (unitPrice < 0) {
+      alert('단가를 확인하세요.');
+      return;
+    }
+    if (!matchedItem && !confirm('등록되지 않은 부품 코드입니다. 입고 전에 부품을 먼저 등록해야 합니다. 계속하시겠습니까?')) return;
+    onAddOrderedPart({ ...formData, code: formData.code.trim(), quantity, unitPrice, supplierId: formData.supplierId || undefined });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-xl animate-fade-in-up overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">신규 발주 등록</h2>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors">
+            <CloseIcon className="w-8 h-8" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-8 space-y-6 max-h-[75vh] overflow-y-auto">
+            <div className="grid grid-cols-2 gap-6">
+                <div>
+                    <label htmlFor="registrationDate" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">발주일</label>
+                    <input type="date" name="registrationDate" id="registrationDate" value={formData.registrationDate} onChange={handleChange} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold" />
+                </div>
+                <div>
+                    <label htmlFor="code" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">부품 코드 <span className="text-rose-500">*</span></label>
+                    <input type="text" name="code" id="code" list="ordered-part-codes" value={formData.code} onChange={handleChange} onBlur={handleCodeBlur} className={`w-full px-4 py-3 border-2 rounded-xl text-lg font-mono font-black outline-none focus:ring-2 focus:ring-indigo-500 ${formData.code && !matchedItem ? 'border-amber-300 bg-amber-50' : 'border-slate-100'}`} />
+                    <datalist id="ordered-part-codes">
+                      {partItems.map(i => <option key={i.id} value={i.code}>{i.name}</option>)}
+                    </datalist>
+                    {formData.code && !matchedItem && <p className="text-xs text-amber-600 font-black mt-2 uppercase">미등록 부품 코드</p>}
+                </div>
+            </div>
+            <div>
+              <label htmlFor="name" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">부품명 <span className="text-rose-500">*</span></label>
+              <input type="text" name="name" id="name" value={formData.name} onChange={handleChange} required className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+            </div>
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                  <label htmlFor="drawingNumber" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">도번</label>
+                  <input type="text" name="drawingNumber" id="drawingNumber" value={formData.drawingNumber} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-mono font-bold" placeholder="도번" />
+              </div>
+              <div>
+                  <label htmlFor="spec" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">규격</label>
+                  <input type="text" name="spec" id="spec" value={formData.spec} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold" placeholder="규격" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="unitPrice" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">단가 (원)</label>
+                <input type="number" name="unitPrice" id="unitPrice" min="0" step="any" value={formData.unitPrice} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+              <div>
+                <label htmlFor="quantity" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">발주 수량 <span className="text-rose-500">*</span></label>
+                <input type="number" name="quantity" id="quantity" min="1" required value={formData.quantity} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="supplierId" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">공급처</label>
+              <select name="supplierId" id="supplierId" value={formData.supplierId} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold bg-white">
+                <option value="">공급처 미지정</option>
+                {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+              {arrival && <p className="text-xs text-slate-400 font-black mt-2 uppercase tracking-widest">입고 예정 {arrival}</p>}
+            </div>
+            <div className="flex justify-between items-center px-5 py-4 bg-slate-50 rounded-xl border-2 border-slate-100">
+              <span className="text-sm uppercase font-black text-slate-400 tracking-widest">발주 금액</span>
+              <span className="text-2xl font-black text-slate-800">{((parseFloat(formData.unitPrice) || 0) * (parseInt(formData.quantity, 10) || 0)).toLocaleString()} 원</span>
+            </div>
+            <div>
+              <label htmlFor="remarks" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
+              <textarea name="remarks" id="remarks" value={formData.remarks} onChange={handleChange} rows={3} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold"></textarea>
+            </div>
+          </div>
+          <div className="p-8 bg-slate-50 border-t border-slate-100">
+            <button type="submit" className="w-full px-8 py-5 bg-indigo-600 text-white font-black rounded-2xl shadow-xl hover:bg-indigo-700 transition-all active:scale-95 uppercase tracking-widest text-lg">
+              발주 등록하기
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddOrderedPartModal;
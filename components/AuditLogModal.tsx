@@ -0,0 +1,122 @@
+
+import React, { useState, useMemo } from 'react';
+import type { AuditEntry, AuditAction, AuditEntity } from '../types';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, auditLogToCsv, formatAuditValue } from '../services/audit';
+import { CloseIcon, DownloadIcon, SearchIcon } from './icons';
+
+interface AuditLogModalProps {
+  entries: AuditEntry[];
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-indigo-50 text-indigo-600',
+  update: 'bg-amber-50 text-amber-600',
+  delete: 'bg-rose-50 text-rose-600',
+  restore: 'bg-emerald-50 text-emerald-600',
+  purge: 'bg-rose-100 text-rose-700',
+  import: 'bg-slate-100 text-slate-600',
+  undo: 'bg-violet-50 text-violet-600',
+  redo: 'bg-violet-50 text-violet-600',
+};
+
+const AuditLogModal: React.FC<AuditLogModalProps> = ({ entries, onClose }) => {
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [entityFilter, setEntityFilter] = useState<AuditEntity | ''>('');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const userIds = useMemo(() => Array.from(new Set(entries.map(e => e.userId).filter(Boolean))).sort(), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return entries
+      .filter(e => {
+        const day = e.at.split('T')[0];
+        if (fromDate && day < fromDate) return false;
+        if (toDate && day > toDate) return false;
+        if (userFilter && e.userId !== userFilter) return false;
+        if (actionFilter && e.action !== actionFilter) return false;
+        if (entityFilter && e.entity !== entityFilter) return false;
+        if (term && !`${e.label} ${e.reason} ${e.entityId}`.toLowerCase().includes(term)) return false;
+        return true;
+      })
+      .sort((a, b) => b.at.localeCompare(a.at));
+  }, [entries, fromDate, toDate, userFilter, actionFilter, entityFilter, searchTerm]);
+
+  const handleExport = () => {
+    if (filteredEntries.length === 0) { alert('내역 없음.'); return; }
+    const blob = new Blob([auditLogToCsv(filteredEntries)], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `감사로그_${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">감사 로그</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">{filteredEntries.length.toLocaleString()} / {entries.length.toLocaleString()} 건</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button onClick={handleExport} className="flex items-center gap-2 px-5 py-3 bg-emerald-50 text-emerald-600 border-2 border-emerald-100 rounded-2xl text-sm font-black hover:bg-emerald-600 hover:text-white transition-all uppercase shadow-md">
+              <DownloadIcon className="w-5 h-5" /><span>내보내기</span>
+            </button>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="px-8 py-5 border-b border-slate-100 grid grid-cols-2 md:grid-cols-6 gap-3">
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none" title="시작일" />
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none" title="종료일" />
+          <select value={userFilter} onChange={(e) => setUserFilter(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+            <option value="">전체 사용자</option>
+            {userIds.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+          <select value={actionFilter} onChange={(e) => setActionFilter(e.target.value as AuditAction | '')} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+            <option value="">전체 작업</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+          </select>
+          <select value={entityFilter} onChange={(e) => setEntityFilter(e.target.value as AuditEntity | '')} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+            <option value="">전체 대상</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map(a => <option key={a} value={a}>{AUDIT_ENTITY_LABELS[a]}</option>)}
+          </select>
+          <div className="relative">
+            <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-4 h-4" /></span>
+            <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="대상 / 사유 검색" className="w-full pl-9 pr-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none" />
+          </div>
+        </div>
+        <div className="overflow-y-auto">
+          {filteredEntries.length === 0 ? (
+            <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">기록이 없습니다</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                <tr><th className="px-6 py-4">일시</th><th className="px-6 py-4">사용자</th><th className="px-6 py-4">작업</th><th className="px-6 py-4">대상</th><th className="px-6 py-4">변경 전</th><th className="px-6 py-4">변경 후</th><th className="px-6 py-4">사유</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {filteredEntries.map(e => (
+                  <tr key={e.id} className="hover:bg-indigo-50/20 transition-colors align-top">
+                    <td className="px-6 py-4 font-bold text-slate-600 whitespace-nowrap">{new Date(e.at).toLocaleString()}</td>
+                    <td className="px-6 py-4 font-mono font-black text-indigo-600">{e.userId || '-'}</td>
+                    <td className="px-6 py-4"><span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${ACTION_STYLES[e.action]}`}>{AUDIT_ACTION_LABELS[e.action]}</span></td>
+                    <td className="px-6 py-4"><p className="text-[10px] font-black text-slate-400 uppercase">{AUDIT_ENTITY_LABELS[e.entity]}</p><p className="font-black text-slate-800">{e.label}</p></td>
+                    <td className="px-6 py-4 text-xs font-bold text-rose-500 max-w-[280px] break-all">{formatAuditValue(e.before) || '-'}</td>
+                    <td className="px-6 py-4 text-xs font-bold text-emerald-600 max-w-[280px] break-all">{formatAuditValue(e.after) || '-'}</td>
+                    <td className="px-6 py-4 font-bold text-slate-500">{e.reason || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogModal;
@@ -0,0 +1,135 @@
+
+import React, { useState, useMemo } from 'react';
+import { readBackup, planImport, diffDocuments, IMPORT_MODE_LABELS, BACKUP_VERSION } from '../services/backup';
+import type { BackupAnalysis, CollectionDiff, ImportMode } from '../services/backup';
+import { ENTITY_LABELS } from '../services/sync';
+import type { SyncDocument } from '../services/sync';
+import { errorMessage } from '../services/errors';
+import { CloseIcon, CheckIcon } from './icons';
+
+interface BackupImportModalProps {
+  fileName: string;
+  raw: unknown; // JSON.parse 결과
+  current: SyncDocument;
+  isAdmin: boolean; // 관리자만 백업의 사용자 / 권한을 반영
+  onApply: (doc: SyncDocument, mode: ImportMode, diffs: CollectionDiff[]) => void;
+  onClose: () => void;
+}
+
+const MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  merge: '백업에만 있는 항목을 추가하고, 양쪽에 모두 있으면 최근에 수정된 쪽을 유지합니다. 현재 데이터는 삭제되지 않습니다.',
+  replace: '현재 데이터를 백업 내용으로 덮어씁니다. 사용자 / 권한이 없는 예전 백업은 현재 계정을 유지하고, 감사 로그는 추가만 됩니다.',
+};
+
+const MAX_ERRORS = 100;
+
+const BackupImportModal: React.FC<BackupImportModalProps> = ({ fileName, raw, current, isAdmin, onApply, onClose }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const analysis = useMemo((): BackupAnalysis | { failure: string } => {
+    try { return readBackup(raw); } catch (err) { return { failure: errorMessage(err) }; }
+  }, [raw]);
+  const backup = 'failure' in analysis ? null : analysis;
+
+  const next = useMemo(() => backup && backup.errors.length === 0 ? planImport(current, backup, mode, isAdmin) : null, [backup, current, mode, isAdmin]);
+  const diffs = useMemo(() => next ? diffDocuments(current, next) : [], [current, next]);
+  const changeCount = diffs.reduce((acc, d) => acc + d.added.length + d.changed.length + d.removed.length, 0);
+  const removedCount = diffs.reduce((acc, d) => acc + d.removed.length, 0);
+
+  const handleApply = () => {
+    if (!next || changeCount === 0) return;
+    const message = removedCount > 0
+      ? `${IMPORT_MODE_LABELS[mode]} 방식으로 복구하면 ${removedCount.toLocaleString()}건이 삭제됩니다. 계속하시겠습니까?`
+      : `${IMPORT_MODE_LABELS[mode]} 방식으로 ${changeCount.toLocaleString()}건을 반영하시겠습니까?`;
+    if (!confirm(message)) return;
+    onApply(next, mode, diffs);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">백업 복구</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">
+              {fileName}
+              {backup && <> · 파일 버전 {backup.sourceVersion} → {BACKUP_VERSION}{backup.exportDate && <> · 백업일 {new Date(backup.exportDate).toLocaleString()}</>}</>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+        {backup && backup.errors.length === 0 && (
+          <div className="px-8 py-5 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="flex p-1 bg-slate-100 rounded-xl">
+                {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(m => (
+                  <button key={m} onClick={() => setMode(m)} className={`px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{IMPORT_MODE_LABELS[m]}</button>
+                ))}
+              </div>
+              <p className="text-xs font-bold text-slate-500 max-w-xl">{MODE_DESCRIPTIONS[mode]}{!isAdmin && ' 관리자가 아니므로 사용자 / 권한은 현재 상태를 유지합니다.'}</p>
+            </div>
+            <button onClick={handleApply} disabled={changeCount === 0} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100 disabled:bg-slate-200 disabled:text-slate-400 disabled:shadow-none">
+              <CheckIcon className="w-5 h-5" /> {changeCount === 0 ? '변경 없음' : '반영'}
+            </button>
+          </div>
+        )}
+        <div className="overflow-y-auto">
+          {!backup ? (
+            <p className="p-16 text-center text-sm font-black text-rose-500 uppercase tracking-widest">{'failure' in analysis && analysis.failure}</p>
+          ) : (
+            <>
+              {backup.migrations.length > 0 && (
+                <div className="px-8 py-4 border-b border-slate-100 flex flex-wrap items-center gap-2">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 mr-2">변환</span>
+                  {backup.migrations.map(label => <span key={label} className="px-3 py-1 bg-amber-50 text-amber-600 rounded-full text-[10px] font-black uppercase tracking-widest">{label}</span>)}
+                </div>
+              )}
+              {backup.errors.length > 0 ? (
+                <div className="p-8">
+                  <p className="text-sm font-black text-rose-600 uppercase tracking-widest mb-4">검사 오류 {backup.errors.length.toLocaleString()}건 · 파일을 고친 뒤 다시 선택하세요</p>
+                  <ul className="space-y-1 text-sm font-bold text-rose-600">
+                    {backup.errors.slice(0, MAX_ERRORS).map((e, i) => <li key={i} className="px-4 py-2 bg-rose-50/60 rounded-lg">{e}</li>)}
+                    {backup.errors.length > MAX_ERRORS && <li className="px-4 py-2 text-slate-400">외 {(backup.errors.length - MAX_ERRORS).toLocaleString()}건</li>}
+                  </ul>
+                </div>
+              ) : (
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                    <tr><th className="px-6 py-4">구분</th><th className="px-6 py-4 text-right">추가</th><th className="px-6 py-4 text-right">변경</th><th className="px-6 py-4 text-right">삭제</th><th className="px-6 py-4">내용</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {diffs.map(d => {
+                      const total = d.added.length + d.changed.length + d.removed.length;
+                      const isOpen = expanded === d.entity;
+                      return (
+                        <tr key={d.entity} onClick={() => total > 0 && setExpanded(isOpen ? null : d.entity)} className={total > 0 ? 'cursor-pointer hover:bg-indigo-50/20 transition-colors align-top' : 'align-top'}>
+                          <td className="px-6 py-3 font-black text-slate-800 whitespace-nowrap">{ENTITY_LABELS[d.entity]}</td>
+                          <td className={`px-6 py-3 text-right font-black ${d.added.length ? 'text-indigo-600' : 'text-slate-300'}`}>{d.added.length.toLocaleString()}</td>
+                          <td className={`px-6 py-3 text-right font-black ${d.changed.length ? 'text-amber-600' : 'text-slate-300'}`}>{d.changed.length.toLocaleString()}</td>
+                          <td className={`px-6 py-3 text-right font-black ${d.removed.length ? 'text-rose-600' : 'text-slate-300'}`}>{d.removed.length.toLocaleString()}</td>
+                          <td className="px-6 py-3 text-xs font-bold text-slate-500">
+                            {total === 0 ? '-' : !isOpen ? <span className="text-slate-400">눌러서 목록 보기</span> : (
+                              <div className="space-y-1">
+                                {d.added.map((label, i) => <p key={`a${i}`}><span className="text-indigo-600 font-black">추가</span> {label}</p>)}
+                                {d.changed.map((label, i) => <p key={`c${i}`}><span className="text-amber-600 font-black">변경</span> {label}</p>)}
+                                {d.removed.map((label, i) => <p key={`r${i}`}><span className="text-rose-600 font-black">삭제</span> {label}</p>)}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupImportModal;
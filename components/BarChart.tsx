@@ -0,0 +1,65 @@
+
+import React from 'react';
+
+export interface ChartSeries {
+  name: string;
+  className: string; // SVG fill 색 (Tailwind fill-*)
+  values: number[];
+}
+
+interface BarChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  height?: number;
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 800;
+const PAD_LEFT = 56;
+const PAD_BOTTOM = 28;
+const PAD_TOP = 12;
+
+// 외부 라이브러리 없이 그리는 묶음 막대 그래프 (가로 폭은 부모에 맞춤)
+const BarChart: React.FC<BarChartProps> = ({ labels, series, height = 240, formatValue = v => v.toLocaleString() }) => {
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+  const plotHeight = height - PAD_BOTTOM - PAD_TOP;
+  const slot = (WIDTH - PAD_LEFT) / Math.max(1, labels.length);
+  const barWidth = Math.min(36, (slot * 0.7) / Math.max(1, series.length));
+  const y = (value: number) => PAD_TOP + plotHeight - (Math.max(0, value) / max) * plotHeight;
+
+  return (
+    <div>
+      <div className="flex gap-4 mb-2">
+        {series.map(s => (
+          <span key={s.name} className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-500">
+            <svg className="w-3 h-3"><rect width="12" height="12" rx="2" className={s.className} /></svg>{s.name}
+          </span>
+        ))}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        {[0, 0.5, 1].map(ratio => (
+          <g key={ratio}>
+            <line x1={PAD_LEFT} x2={WIDTH} y1={y(max * ratio)} y2={y(max * ratio)} className="stroke-slate-100" strokeWidth={1} />
+            <text x={PAD_LEFT - 8} y={y(max * ratio) + 4} textAnchor="end" className="fill-slate-400 text-[11px] font-bold">{formatValue(Math.round(max * ratio))}</text>
+          </g>
+        ))}
+        {labels.map((label, i) => {
+          const center = PAD_LEFT + slot * i + slot / 2;
+          const start = center - (barWidth * series.length) / 2;
+          return (
+            <g key={label}>
+              {series.map((s, j) => (
+                <rect key={s.name} x={start + barWidth * j} y={y(s.values[i] || 0)} width={barWidth - 2} height={Math.max(0, PAD_TOP + plotHeight - y(s.values[i] || 0))} rx={3} className={s.className}>
+                  <title>{`${label} ${s.name}: ${formatValue(s.values[i] || 0)}`}</title>
+                </rect>
+              ))}
+              <text x={center} y={height - 8} textAnchor="middle" className="fill-slate-500 text-[11px] font-bold">{label.length > 12 ? `${label.slice(0, 11)}…` : label}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,178 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Customer, Item, Permission } from '../types';
+import { CloseIcon, SearchIcon, PlusIcon, CheckIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon } from './icons';
+
+interface CustomerModalProps {
+  customers: Customer[];
+  items: Item[];
+  permissions: Permission[];
+  onSaveCustomer: (customerId: string | null, data: Pick<Customer, 'name' | 'phoneNumber' | 'address' | 'remarks'>) => Customer;
+  onDeleteCustomer: (customerId: string) => void;
+  onMigrate: () => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { name: '', phoneNumber: '', address: '', remarks: '' };
+
+const CustomerModal: React.FC<CustomerModalProps> = ({ customers, items, permissions, onSaveCustomer, onDeleteCustomer, onMigrate, onClose }) => {
+  const can = (permission: Permission) => permissions.includes(permission);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const selected = customers.find(c => c.id === selectedId);
+
+  useEffect(() => {
+    setFormData(selected ? { name: selected.name, phoneNumber: selected.phoneNumber, address: selected.address, remarks: selected.remarks } : EMPTY_FORM);
+  }, [selected]);
+
+  const filteredCustomers = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return customers
+      .filter(c => !term || `${c.name} ${c.phoneNumber} ${c.address}`.toLowerCase().includes(term))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [customers, searchTerm]);
+
+  const unlinkedCount = useMemo(() => items.reduce((acc, i) => acc + i.transactions.filter(t => !t.customerId && t.customerName?.trim()).length, 0), [items]);
+
+  const shipments = useMemo(() => {
+    if (!selectedId) return [];
+    return items
+      .flatMap(item => item.transactions.filter(t => t.customerId === selectedId).map(t => ({ item, transaction: t })))
+      .sort((a, b) => b.transaction.date.localeCompare(a.transaction.date));
+  }, [items, selectedId]);
+
+  const unitsHeld = shipments.reduce((acc, { transaction: t }) => t.type === 'release' ? acc + t.quantity : acc - t.quantity, 0);
+
+  const handleSelect = (customerId: string) => {
+    setIsNew(false);
+    setSelectedId(customerId);
+  };
+
+  const handleNew = () => {
+    setSelectedId(null);
+    setIsNew(true);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    if (!formData.name.trim()) { alert('고객명을 입력하세요.'); return; }
+    const saved = onSaveCustomer(selected ? selected.id : null, { ...formData, name: formData.name.trim() });
+    setIsNew(false);
+    setSelectedId(saved.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`${selected.name} 고객을 삭제하시겠습니까?`)) return;
+    onDeleteCustomer(selected.id);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">고객 관리</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">{customers.length.toLocaleString()} 명 · 미연결 기록 {unlinkedCount.toLocaleString()} 건</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {can('edit_master') && unlinkedCount > 0 && (
+              <button onClick={onMigrate} className="px-5 py-3 bg-amber-50 text-amber-600 border-2 border-amber-100 rounded-2xl text-sm font-black hover:bg-amber-500 hover:text-white transition-all uppercase">기존 기록 정리</button>
+            )}
+            {can('edit_master') && (
+              <button onClick={handleNew} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-2xl text-sm font-black hover:bg-indigo-700 transition-all uppercase shadow-md"><PlusIcon className="w-5 h-5" /> 신규 고객</button>
+            )}
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 min-h-0 flex-grow">
+          <div className="border-r border-slate-100 flex flex-col min-h-0">
+            <div className="p-5 border-b border-slate-100">
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-5 h-5" /></span>
+                <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="이름 / 연락처 / 주소 검색" className="w-full pl-10 pr-3 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none" />
+              </div>
+            </div>
+            <ul className="overflow-y-auto divide-y divide-slate-50">
+              {filteredCustomers.length === 0 && <li className="p-10 text-center text-sm font-black text-slate-300 uppercase tracking-widest">등록된 고객이 없습니다</li>}
+              {filteredCustomers.map(c => (
+                <li key={c.id}>
+                  <button onClick={() => handleSelect(c.id)} className={`w-full px-5 py-3 text-left hover:bg-indigo-50/30 transition-colors ${selectedId === c.id ? 'bg-indigo-50/60' : ''}`}>
+                    <p className="font-black text-slate-800">{c.name}</p>
+                    <p className="text-xs font-bold text-slate-400">{c.phoneNumber || '-'}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="lg:col-span-2 overflow-y-auto p-8">
+            {!selected && !isNew ? (
+              <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">고객을 선택하세요</p>
+            ) : (
+              <div className="space-y-8">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">고객명 *</label>
+                    <input type="text" value={formData.name} disabled={!can('edit_master')} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">연락처</label>
+                    <input type="text" value={formData.phoneNumber} disabled={!can('edit_master')} onChange={(e) => setFormData({ ...formData, phoneNumber: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">주소</label>
+                    <input type="text" value={formData.address} disabled={!can('edit_master')} onChange={(e) => setFormData({ ...formData, address: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
+                    <textarea value={formData.remarks} disabled={!can('edit_master')} onChange={(e) => setFormData({ ...formData, remarks: e.target.value })} rows={2} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                </div>
+                {can('edit_master') && (
+                  <div className="flex justify-end gap-3">
+                    {selected && can('delete') && <button onClick={handleDelete} className="flex items-center gap-2 px-6 py-3 bg-rose-50 text-rose-600 rounded-xl font-black uppercase text-sm tracking-widest hover:bg-rose-100 transition-all"><TrashIcon className="w-5 h-5" /> 삭제</button>}
+                    <button onClick={handleSave} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100"><CheckIcon className="w-5 h-5" /> 저장</button>
+                  </div>
+                )}
+                {selected && (
+                  <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-hidden bg-slate-50/50">
+                    <div className="px-6 py-4 bg-white border-b-2 border-slate-100 flex justify-between items-center">
+                      <span className="text-sm font-black uppercase text-slate-400 tracking-widest">출고 내역</span>
+                      <span className="text-sm font-black text-indigo-600">보유 {unitsHeld.toLocaleString()} EA</span>
+                    </div>
+                    {shipments.length === 0 ? (
+                      <p className="p-6 text-center text-sm font-black text-slate-300 uppercase tracking-widest">출고 내역이 없습니다</p>
+                    ) : (
+                      <table className="w-full text-left text-sm">
+                        <thead className="bg-white text-xs font-black uppercase text-slate-400 tracking-widest">
+                          <tr><th className="px-6 py-3">일시</th><th className="px-6 py-3">구분</th><th className="px-6 py-3">제품</th><th className="px-6 py-3">일련번호</th><th className="px-6 py-3 text-right">수량</th><th className="px-6 py-3">배송 주소</th></tr>
+                        </thead>
+                        <tbody className="divide-y-2 divide-white">
+                          {shipments.map(({ item, transaction: t }) => (
+                            <tr key={t.id}>
+                              <td className="px-6 py-3 font-bold text-slate-600 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
+                              <td className="px-6 py-3"><span className={`inline-flex items-center gap-1 font-black ${t.type === 'release' ? 'text-rose-600' : 'text-emerald-600'}`}>{t.type === 'release' ? <ArrowDownIcon className="w-4 h-4" /> : <ArrowUpIcon className="w-4 h-4" />}{t.type === 'release' ? '출고' : '반품'}</span></td>
+                              <td className="px-6 py-3"><p className="font-mono font-black text-indigo-600">{item.code}</p><p className="text-xs font-bold text-slate-400">{item.name}</p></td>
+                              <td className="px-6 py-3 font-mono font-black text-slate-700">{t.serialNumber || '-'}</td>
+                              <td className="px-6 py-3 text-right font-black text-slate-800">{t.quantity.toLocaleString()}</td>
+                              <td className="px-6 py-3 font-bold text-slate-500 max-w-[240px] truncate" title={t.address}>{t.address || '-'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerModal;
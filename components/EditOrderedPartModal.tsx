@@ -0,0 +1,185 @@
+
+import React, { useState, useMemo } from 'react';
+import type { Item, OrderedPart, Supplier, Transaction } from '../types';
+import { CloseIcon, CheckIcon, ArrowUpIcon } from './icons';
+import { expectedArrival } from '../services/suppliers';
+
+interface EditOrderedPartModalProps {
+  orderedPart: OrderedPart;
+  partItems: Item[];
+  suppliers: Supplier[];
+  onUpdateOrderedPart: (orderId: string, updatedData: Partial<OrderedPart>, reason: string) => void;
+  onReceive: (orderId: string, quantity: number, remarks: string, lot: Pick<Transaction, 'lotNumber' | 'expiryDate'>) => void;
+  onClose: () => void;
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderedPart['status'], string> = {
+  ordered: '발주',
+  partial: '부분입고',
+  received: '입고완료',
+  cancelled: '취소',
+};
+
+const EditOrderedPartModal: React.FC<EditOrderedPartModalProps> = ({ orderedPart, partItems, suppliers, onUpdateOrderedPart, onReceive, onClose }) => {
+  const [formData, setFormData] = useState({
+    registrationDate: orderedPart.registrationDate,
+    code: orderedPart.code,
+    name: orderedPart.name,
+    drawingNumber: orderedPart.drawingNumber,
+    spec: orderedPart.spec,
+    unitPrice: String(orderedPart.unitPrice),
+    quantity: String(orderedPart.quantity),
+    supplierId: orderedPart.supplierId || '',
+    remarks: orderedPart.remarks
+  });
+  const [receiveQuantity, setReceiveQuantity] = useState('');
+  const [receiveRemarks, setReceiveRemarks] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+
+  const remaining = orderedPart.quantity - orderedPart.receivedQuantity;
+  const isOpen = orderedPart.status === 'ordered' || orderedPart.status === 'partial';
+  const matchedItem = partItems.find(i => i.code.toUpperCase() === orderedPart.code.toUpperCase());
+  const receipts = useMemo(() => matchedItem ? matchedItem.transactions.filter(t => t.orderedPartId === orderedPart.id) : [], [matchedItem, orderedPart.id]);
+
+  const arrival = expectedArrival(formData, suppliers.find(s => s.id === formData.supplierId));
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    const upperOnlyFields = ['code', 'name'];
+    const processedValue = upperOnlyFields.includes(name) ? value.toUpperCase() : value;
+    setFormData(prev => ({ ...prev, [name]: processedValue }));
+  };
+
+  const handleSave = () => {
+    const quantity = parseInt(formData.quantity, 10) || 0;
+    const unitPrice = parseFloat(formData.unitPrice) || 0;
+    if (!formData.code || !formData.name) { alert('품명과 코드는 필수 항목입니다.'); return; }
+    if (quantity < orderedPart.receivedQuantity || quantity <= 0) { alert(`발주 수량은 입고된 수량(${orderedPart.receivedQuantity}) 이상이어야 합니다.`); return; }
+    if (unitPrice < 0) { alert('단가를 확인하세요.'); return; }
+    const reason = prompt('변경 사유를 입력하세요.');
+    if (!reason || !reason.trim()) return;
+    onUpdateOrderedPart(orderedPart.id, { ...formData, code: formData.code.trim(), quantity, unitPrice, supplierId: formData.supplierId || undefined }, reason.trim());
+    onClose();
+  };
+
+  const handleReceive = (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseInt(receiveQuantity, 10) || 0;
+    if (quantity <= 0) { alert('수량을 확인하세요.'); return; }
+    if (quantity > remaining) { alert(`잔여 발주 수량(${remaining})을 초과합니다.`); return; }
+    if (!matchedItem) { alert(`코드 ${orderedPart.code} 와 일치하는 부품이 없습니다. 부품을 먼저 등록하세요.`); return; }
+    onReceive(orderedPart.id, quantity, receiveRemarks, lotNumber.trim() ? { lotNumber: lotNumber.trim(), ...(expiryDate ? { expiryDate } : {}) } : {});
+    setReceiveQuantity('');
+    setReceiveRemarks('');
+    setLotNumber('');
+    setExpiryDate('');
+  };
+
+  const handleCancelOrder = () => {
+    const reason = prompt('이 발주를 취소합니다. 이미 입고된 수량은 유지됩니다. 취소 사유를 입력하세요.');
+    if (!reason || !reason.trim()) return;
+    onUpdateOrderedPart(orderedPart.id, { status: 'cancelled' }, reason.trim());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-4xl animate-fade-in-up overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">발주 상세</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">{ORDER_STATUS_LABELS[orderedPart.status]} · 입고 {orderedPart.receivedQuantity.toLocaleString()} / {orderedPart.quantity.toLocaleString()}</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors">
+            <CloseIcon className="w-8 h-8" />
+          </button>
+        </div>
+        <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8 max-h-[75vh] overflow-y-auto">
+          <div className="space-y-5">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">발주일</label>
+                <input type="date" name="registrationDate" value={formData.registrationDate} onChange={handleChange} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg outline-none font-bold" />
+              </div>
+              <div>
+                <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">코드</label>
+                <input type="text" name="code" value={formData.code} onChange={handleChange} disabled={orderedPart.receivedQuantity > 0} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-mono font-black outline-none disabled:bg-slate-50 disabled:text-slate-400" />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">부품명</label>
+              <input type="text" name="name" value={formData.name} onChange={handleChange} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <input type="text" name="drawingNumber" value={formData.drawingNumber} onChange={handleChange} placeholder="도번" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-mono font-bold outline-none" />
+              <input type="text" name="spec" value={formData.spec} onChange={handleChange} placeholder="규격" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">단가 (원)</label>
+                <input type="number" name="unitPrice" min="0" step="any" value={formData.unitPrice} onChange={handleChange} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none" />
+              </div>
+              <div>
+                <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">발주 수량</label>
+                <input type="number" name="quantity" min={Math.max(1, orderedPart.receivedQuantity)} value={formData.quantity} onChange={handleChange} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none" />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">공급처</label>
+              <select name="supplierId" value={formData.supplierId} onChange={handleChange} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none bg-white">
+                <option value="">공급처 미지정</option>
+                {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+              {arrival && isOpen && <p className="text-xs text-slate-400 font-black mt-2 uppercase tracking-widest">입고 예정 {arrival}</p>}
+            </div>
+            <textarea name="remarks" value={formData.remarks} onChange={handleChange} rows={2} placeholder="비고" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none" />
+            <div className="grid grid-cols-2 gap-4">
+              <button type="button" onClick={handleCancelOrder} disabled={!isOpen} className="py-4 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-sm tracking-widest disabled:opacity-40">발주 취소</button>
+              <button type="button" onClick={handleSave} className="flex items-center justify-center gap-2 py-4 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100"><CheckIcon className="w-5 h-5" /> 정보 저장</button>
+            </div>
+          </div>
+          <div className="space-y-6">
+            {isOpen && (
+              <form onSubmit={handleReceive} className="bg-white p-6 rounded-[1.5rem] border border-slate-100 shadow-xl space-y-4">
+                <h3 className="text-base font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><ArrowUpIcon className="w-5 h-5" /> 입고 처리</h3>
+                <p className="text-xs font-black text-slate-400 uppercase tracking-widest">잔여 수량 {remaining.toLocaleString()} EA</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <input type="number" value={receiveQuantity} onChange={(e) => setReceiveQuantity(e.target.value)} min="1" max={remaining} placeholder="입고 수량 *" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-black outline-none" />
+                  <button type="button" onClick={() => setReceiveQuantity(String(remaining))} className="py-3 bg-slate-100 text-slate-600 rounded-xl font-black text-xs uppercase tracking-widest">잔량 전체</button>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <input type="text" value={lotNumber} onChange={(e) => setLotNumber(e.target.value.toUpperCase())} placeholder="로트 번호" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-mono font-black outline-none" />
+                  <input type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} title="유효기한" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                </div>
+                <input type="text" value={receiveRemarks} onChange={(e) => setReceiveRemarks(e.target.value)} placeholder="비고" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                <button type="submit" className="w-full py-4 bg-emerald-600 text-white font-black rounded-xl shadow-lg hover:bg-emerald-700 transition-all uppercase tracking-widest text-sm">입고 등록</button>
+              </form>
+            )}
+            <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-hidden bg-slate-50/50">
+              <div className="px-6 py-4 bg-white border-b-2 border-slate-100 text-sm font-black uppercase text-slate-400 tracking-widest">입고 내역</div>
+              {receipts.length === 0 ? (
+                <p className="p-6 text-center text-sm font-black text-slate-300 uppercase tracking-widest">입고 내역이 없습니다</p>
+              ) : (
+                <table className="w-full text-left text-sm">
+                  <tbody className="divide-y-2 divide-white">
+                    {[...receipts].reverse().map(t => (
+                      <tr key={t.id}>
+                        <td className="px-6 py-3 font-bold text-slate-600">{new Date(t.date).toLocaleDateString()}</td>
+                        <td className="px-6 py-3 font-black text-emerald-600 text-lg">+{t.quantity.toLocaleString()}</td>
+                        <td className="px-6 py-3 font-mono font-black text-slate-500">{t.lotNumber || '-'}</td>
+                        <td className="px-6 py-3 text-slate-400 font-bold truncate max-w-[160px]">{t.remarks || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditOrderedPartModal;
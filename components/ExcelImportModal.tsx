@@ -0,0 +1,119 @@
+
+import React, { useState } from 'react';
+import type { Item } from '../types';
+import { parseInventoryWorkbook, IMPORT_ACTION_LABELS } from '../services/excelImport';
+import type { ImportPlan, ImportOptions, ImportAction } from '../services/excelImport';
+import { INVENTORY_SHEET, HISTORY_SHEET } from '../services/excel';
+import { errorMessage } from '../services/errors';
+import { CloseIcon, CheckIcon, CloudIcon } from './icons';
+
+interface ExcelImportModalProps {
+  items: Item[];
+  options: ImportOptions;
+  onApply: (plan: ImportPlan, fileName: string) => void;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-indigo-50 text-indigo-600',
+  update: 'bg-amber-50 text-amber-600',
+  add: 'bg-emerald-50 text-emerald-600',
+  skip: 'bg-slate-100 text-slate-400',
+};
+
+const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ items, options, onApply, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name); setPlan(null); setIsParsing(true);
+    try {
+      setPlan(await parseInventoryWorkbook(await file.arrayBuffer(), items, options));
+    } catch (err) {
+      alert(`파일을 읽을 수 없습니다: ${errorMessage(err)}`);
+      setFileName('');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const changeCount = plan ? plan.creates.length + plan.updates.length + plan.transactions.length : 0;
+  const visibleRows = plan ? plan.rows.filter(r => !errorsOnly || r.errors.length > 0) : [];
+
+  const handleApply = () => {
+    if (!plan || plan.errorCount > 0 || changeCount === 0) return;
+    if (!confirm(`품목 생성 ${plan.creates.length}건, 수정 ${plan.updates.length}건, 기록 추가 ${plan.transactions.length}건을 반영하시겠습니까?`)) return;
+    onApply(plan, fileName);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">엑셀 가져오기</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">'{INVENTORY_SHEET}' · '{HISTORY_SHEET}' 시트 (엑셀 파일 저장과 같은 양식) · 반영 전에 모든 행을 검사합니다</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 px-5 py-3 bg-indigo-50 text-indigo-600 border-2 border-indigo-100 rounded-2xl text-sm font-black hover:bg-indigo-600 hover:text-white transition-all uppercase shadow-md cursor-pointer">
+              <CloudIcon className="w-5 h-5" /><span>파일 선택</span>
+              <input type="file" className="hidden" accept=".xlsx" onChange={handleFile} />
+            </label>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        {plan && (
+          <div className="px-8 py-5 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-3 text-xs font-black uppercase tracking-widest">
+              <span className="text-slate-800">{fileName}</span>
+              <span className="text-indigo-600">생성 {plan.creates.length}</span>
+              <span className="text-amber-600">수정 {plan.updates.length}</span>
+              <span className="text-emerald-600">기록 {plan.transactions.length}</span>
+              <span className={plan.errorCount > 0 ? 'text-rose-600' : 'text-slate-400'}>오류 {plan.errorCount}</span>
+              <label className="flex items-center gap-2 text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} className="w-4 h-4 accent-rose-600" /> 오류만 보기
+              </label>
+            </div>
+            <button onClick={handleApply} disabled={plan.errorCount > 0 || changeCount === 0} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100 disabled:bg-slate-200 disabled:text-slate-400 disabled:shadow-none">
+              <CheckIcon className="w-5 h-5" /> {plan.errorCount > 0 ? '오류 수정 후 다시 선택' : '반영'}
+            </button>
+          </div>
+        )}
+        <div className="overflow-y-auto">
+          {isParsing ? (
+            <p className="p-16 text-center text-sm font-black text-slate-400 uppercase tracking-widest animate-pulse">파일 검사 중...</p>
+          ) : !plan ? (
+            <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">가져올 .xlsx 파일을 선택하세요</p>
+          ) : visibleRows.length === 0 ? (
+            <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">표시할 행이 없습니다</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                <tr><th className="px-6 py-4">시트</th><th className="px-6 py-4 text-right">행</th><th className="px-6 py-4">대상</th><th className="px-6 py-4">처리</th><th className="px-6 py-4">오류</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {visibleRows.map(r => (
+                  <tr key={`${r.sheet}-${r.row}`} className={r.errors.length > 0 ? 'bg-rose-50/40' : ''}>
+                    <td className="px-6 py-3 font-bold text-slate-500 whitespace-nowrap">{r.sheet}</td>
+                    <td className="px-6 py-3 text-right font-mono font-black text-slate-400">{r.row}</td>
+                    <td className="px-6 py-3 font-black text-slate-800">{r.label || '-'}</td>
+                    <td className="px-6 py-3"><span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${ACTION_STYLES[r.action]}`}>{IMPORT_ACTION_LABELS[r.action]}</span></td>
+                    <td className="px-6 py-3 font-bold text-rose-600">{r.errors.join(' · ') || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExcelImportModal;
@@ -0,0 +1,95 @@
+import React, { useState, useMemo } from 'react';
+import { historyChanges } from '../services/history';
+import type { HistoryEntry } from '../services/history';
+import { ENTITY_LABELS } from '../services/sync';
+import { CloseIcon, SyncIcon } from './icons';
+
+interface HistoryModalProps {
+  entries: HistoryEntry[];
+  position: number; // 적용된 작업 수 (이후 작업은 되돌린 상태)
+  onMove: (position: number) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 5;
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ entries, position, onMove, onClose }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const expanded = entries.find(e => e.id === expandedId);
+  const changes = useMemo(() => expanded ? historyChanges(expanded) : [], [expanded]);
+
+  // target 직후 상태로 이동 (여러 작업을 한 번에 옮길 때만 확인)
+  const handleMove = (target: number, label: string) => {
+    const steps = Math.abs(target - position);
+    if (steps === 0) return;
+    if (steps > 1 && !confirm(`${label} 시점으로 이동합니다. 작업 ${steps}건을 ${target < position ? '되돌립니다' : '다시 실행합니다'}.`)) return;
+    onMove(target);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-4xl animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">작업 이력</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">이번 세션의 작업 · 창을 닫은 뒤 되돌리기 Ctrl+Z · 다시 실행 Ctrl+Shift+Z / Ctrl+Y</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+        <div className="overflow-y-auto">
+          {entries.length === 0 ? (
+            <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">아직 작업이 없습니다</p>
+          ) : (
+            <ul className="divide-y divide-slate-50">
+              {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => {
+                const applied = index < position;
+                const isCurrent = index === position - 1;
+                return (
+                  <li key={entry.id} className={`px-8 py-4 ${applied ? '' : 'bg-slate-50/60'}`}>
+                    <div className="flex items-center justify-between gap-4">
+                      <button onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className="text-left min-w-0">
+                        <p className={`font-black truncate ${applied ? 'text-slate-800' : 'text-slate-400 line-through'}`}>{entry.label}</p>
+                        <p className="text-xs font-bold text-slate-400">{new Date(entry.at).toLocaleTimeString()} · {entry.userId || '-'}</p>
+                      </button>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {isCurrent && <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600">현재</span>}
+                        {!applied && <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-400">되돌림</span>}
+                        {!isCurrent && (
+                          <button onClick={() => handleMove(index + 1, entry.label)} className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-500 rounded-xl font-black text-[11px] uppercase hover:bg-slate-200 transition-all">
+                            <SyncIcon className="w-4 h-4" /> 이 시점으로
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {expandedId === entry.id && (
+                      <div className="mt-3 p-4 rounded-2xl border-2 border-slate-100 bg-white space-y-2">
+                        {changes.length === 0 && <p className="text-xs font-black text-slate-300 uppercase tracking-widest">변경 없음</p>}
+                        {changes.map(d => (
+                          <div key={d.entity} className="text-xs">
+                            <p className="font-black text-slate-500 uppercase tracking-widest">{ENTITY_LABELS[d.entity]} · 추가 {d.added.length} / 변경 {d.changed.length} / 삭제 {d.removed.length}</p>
+                            {[...d.added.map(l => `+ ${l}`), ...d.changed.map(l => `~ ${l}`), ...d.removed.map(l => `- ${l}`)].slice(0, PREVIEW_LIMIT).map((line, i) => (
+                              <p key={i} className="font-mono font-bold text-slate-600 truncate">{line}</p>
+                            ))}
+                            {d.added.length + d.changed.length + d.removed.length > PREVIEW_LIMIT && <p className="font-bold text-slate-400">외 {d.added.length + d.changed.length + d.removed.length - PREVIEW_LIMIT}건</p>}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+              <li className="px-8 py-4 flex items-center justify-between">
+                <p className="font-black text-slate-400">세션 시작</p>
+                {position === 0
+                  ? <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600">현재</span>
+                  : <button onClick={() => handleMove(0, '세션 시작')} className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-500 rounded-xl font-black text-[11px] uppercase hover:bg-slate-200 transition-all"><SyncIcon className="w-4 h-4" /> 이 시점으로</button>}
+              </li>
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
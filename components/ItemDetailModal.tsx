@@ -1,24 +1,48 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import type { Item, Transaction } from '../types';
+import type { Item, Transaction, TransactionType, Permission, BomLine, Customer, Supplier, Reservation, CostingMethod } from '../types';
+import { bomRequirements, bomShortageMessage } from '../services/bom';
+import { isSerialAvailable, parseSerialRange, SERIAL_ACTION_LABELS } from '../services/serials';
+import { calculateStock, calculateQuarantineStock, calculateLocationStock, stockDelta, locationOf, itemAsOf, endOfDate, runningBalances, TRANSACTION_TYPE_LABELS } from '../services/stock';
+import { LOCATIONS, MAIN_LOCATION_ID, locationName } from '../services/locations';
+import { DEFAULT_WARRANTY_MONTHS } from '../services/rma';
+import { isBelowSafetyStock } from '../services/reorder';
+import { formatCost, valuateItem } from '../services/valuation';
+import type { ItemValuation } from '../services/valuation';
+import { downloadWorkbook, historySheet, summarySheet } from '../services/excel';
+import { findCustomer } from '../services/customers';
+import { defaultSupplierFor } from '../services/suppliers';
+import { lotBalances, allocateLots, expiryStatus, formatLots } from '../services/lots';
+import { reservedStock, availableLocationStock, sumLocations } from '../services/reservations';
+import { TRANSACTION_PERMISSIONS } from '../services/auth';
+import type { ExpiryStatus } from '../services/lots';
+import type { SerialUnit } from '../services/serials';
+import { errorMessage } from '../services/errors';
 // Fix: Added PlusIcon to imports
-import { CloseIcon, ArrowUpIcon, ArrowDownIcon, EditIcon, CheckIcon, BoxIcon, TrashIcon, DownloadIcon, PlusIcon } from './icons';
+import { CloseIcon, ArrowUpIcon, ArrowDownIcon, EditIcon, CheckIcon, BoxIcon, TrashIcon, DownloadIcon, PlusIcon, TransferIcon } from './icons';
 
 interface ItemDetailModalProps {
   item: Item;
-  authRole: 'admin' | 'product_only';
+  permissions: Permission[];
+  onVerifyPassword: (password: string) => Promise<boolean>;
   allUsedSerials: string[];
+  serialRegistry: Map<string, SerialUnit>;
   existingCodes: string[];
-  onAddTransaction: (itemId: string, transaction: Omit<Transaction, 'id'>) => void;
-  onUpdateTransaction: (itemId: string, transactionId: string, updatedData: Partial<Transaction>) => void;
-  onDeleteTransaction: (itemId: string, transactionId: string) => void;
-  onUpdateItem: (itemId: string, updatedData: Partial<Item>) => void;
+  partItems: Item[];
+  customers: Customer[];
+  suppliers: Supplier[];
+  reservations: Reservation[];
+  valuation?: ItemValuation;
+  costingMethod: CostingMethod;
+  initialAsOfDate?: string; // 메인 화면에서 고른 기준일
+  onSaveCustomer: (customerId: string | null, data: Pick<Customer, 'name' | 'phoneNumber' | 'address' | 'remarks'>) => Customer;
+  onAddTransactions: (itemId: string, transactions: Omit<Transaction, 'id'>[], consumeBom?: boolean) => void;
+  onUpdateTransaction: (itemId: string, transactionId: string, updatedData: Partial<Transaction>, reason: string) => void;
+  onDeleteTransaction: (itemId: string, transactionId: string, reason: string) => void;
+  onUpdateItem: (itemId: string, updatedData: Partial<Item>, reason: string) => void;
   onClose: () => void;
 }
 
-const ADMIN_PASSWORD = '0000';
-const PRODUCT_ONLY_PASSWORD = '1111';
-
 const suggestNextSerial = (usedSerials: string[]): string => {
   if (usedSerials.length === 0) return 'SN00001';
   const regex = /^([a-zA-Z]+)(\d+)$/;
@@ -37,43 +61,62 @@ const suggestNextSerial = (usedSerials: string[]): string => {
   return `${currentPrefix}${nextNum.toString().padStart(padLength, '0')}`;
 };
 
-const parseSerialRange = (input: string): string[] => {
-  const rangeMatch = input.match(/^(.+?)(\d+)\s*~\s*(.+?)?(\d+)$/);
-  if (!rangeMatch) return [input.trim()];
-  const prefix = rangeMatch[1];
-  const startNumStr = rangeMatch[2];
-  const endNumStr = rangeMatch[4];
-  const startNum = parseInt(startNumStr, 10);
-  const endNum = parseInt(endNumStr, 10);
-  if (isNaN(startNum) || isNaN(endNum) || startNum > endNum) return [input.trim()];
-  if (endNum - startNum >= 100) throw new Error('범위는 최대 100개까지 가능합니다.');
-  const results: string[] = [];
-  const padLength = startNumStr.length;
-  for (let i = startNum; i <= endNum; i++) {
-    const paddedNum = i.toString().padStart(padLength, '0');
-    results.push(`${prefix}${paddedNum}`);
-  }
-  return results;
+const TRANSACTION_STYLES: Record<TransactionType, string> = {
+  purchase: 'bg-emerald-100 text-emerald-600',
+  release: 'bg-rose-100 text-rose-600',
+  transfer: 'bg-sky-100 text-sky-600',
+  adjustment: 'bg-amber-100 text-amber-600',
+};
+
+export const EXPIRY_STYLES: Record<ExpiryStatus, string> = {
+  expired: 'bg-rose-100 text-rose-600',
+  soon: 'bg-amber-100 text-amber-600',
+  ok: 'bg-slate-100 text-slate-500',
+};
+
+const transactionLocationLabel = (t: Transaction) => t.type === 'transfer' ? `${locationName(t.location)} → ${locationName(t.toLocation)}` : locationName(t.location);
+
+// 입고는 입력한 단가, 출고는 평가 방법에 따른 출고 원가
+const transactionCostLabel = (t: Transaction, valuation?: ItemValuation) => {
+  if (t.type === 'purchase') return t.unitCost !== undefined ? `@ ${formatCost(t.unitCost)}` : '';
+  const cost = t.type === 'release' ? valuation?.releaseCosts.get(t.id) : undefined;
+  return cost !== undefined ? `원가 ${formatCost(cost)}` : '';
 };
 
 const ItemDetailModal: React.FC<ItemDetailModalProps> = ({ 
-  item, authRole, allUsedSerials, existingCodes, onAddTransaction, onUpdateTransaction, onDeleteTransaction, onUpdateItem, onClose 
+  item, permissions, onVerifyPassword, allUsedSerials, serialRegistry, existingCodes, partItems, customers, suppliers, reservations, valuation, costingMethod, initialAsOfDate, onSaveCustomer, onAddTransactions, onUpdateTransaction, onDeleteTransaction, onUpdateItem, onClose 
 }) => {
-  const [transactionType, setTransactionType] = useState<'purchase' | 'release'>('purchase');
+  const can = (permission: Permission) => permissions.includes(permission);
+  const [transactionType, setTransactionType] = useState<TransactionType>(permissions.includes('purchase') ? 'purchase' : permissions.includes('release') ? 'release' : 'transfer');
+  const [location, setLocation] = useState(MAIN_LOCATION_ID);
+  const [toLocation, setToLocation] = useState(LOCATIONS[1]?.id || MAIN_LOCATION_ID);
   const [quantity, setQuantity] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [supplierId, setSupplierId] = useState(() => defaultSupplierFor(item.code, suppliers)?.id || '');
+  const [lotNumber, setLotNumber] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [lotChoice, setLotChoice] = useState(''); // 비어 있으면 선입선출 자동 배정
   const [transRemarks, setTransRemarks] = useState('');
   const [transModelName, setTransModelName] = useState('');
-  const [transUserId, setTransUserId] = useState('');
   const [serialNumber, setSerialNumber] = useState('');
   const [customerName, setCustomerName] = useState('');
+  const [customerId, setCustomerId] = useState<string | null>(null);
   const [address, setAddress] = useState('');
   const [phoneNumber, setPhoneNumber] = useState('');
   const [isEditing, setIsEditing] = useState(false);
   const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null);
   const [transEditData, setTransEditData] = useState<Partial<Transaction>>({});
-  const [showPasswordInput, setShowPasswordInput] = useState<{ type: 'item' | 'trans_save' | 'trans_delete'; targetId?: string; } | null>(null);
+  const [showPasswordInput, setShowPasswordInput] = useState<{ type: 'item' | 'bom' | 'trans_save' | 'trans_delete'; targetId?: string; } | null>(null);
   const [password, setPassword] = useState('');
+  const [reason, setReason] = useState('');
   const [editFormData, setEditFormData] = useState<Partial<Item>>({});
+  const [serialAction, setSerialAction] = useState<'' | 'scrap'>('');
+  const [selectedSerials, setSelectedSerials] = useState<string[]>([]);
+  const [consumeBom, setConsumeBom] = useState(true);
+  const [bomDraft, setBomDraft] = useState<BomLine[] | null>(null);
+  const [bomPartId, setBomPartId] = useState('');
+  const [bomQuantity, setBomQuantity] = useState('1');
+  const [asOfDate, setAsOfDate] = useState(initialAsOfDate || '');
 
   useEffect(() => {
     if (item.type === 'product' && !serialNumber) setSerialNumber(suggestNextSerial(allUsedSerials));
@@ -82,42 +125,157 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
   useEffect(() => {
     setEditFormData({
       name: item.name, code: item.code, modelName: item.modelName, application: item.application,
-      drawingNumber: item.drawingNumber, spec: item.spec || '', remarks: item.remarks, registrationDate: item.registrationDate
+      drawingNumber: item.drawingNumber, spec: item.spec || '', remarks: item.remarks, registrationDate: item.registrationDate,
+      safetyStock: item.safetyStock || 0, reorderQuantity: item.reorderQuantity || 0,
+      ...(item.type === 'product' ? { warrantyMonths: item.warrantyMonths ?? DEFAULT_WARRANTY_MONTHS } : {})
     });
   }, [item]);
 
-  const currentStock = useMemo(() => item.transactions.reduce((acc, t) => t.type === 'purchase' ? acc + t.quantity : acc - t.quantity, 0), [item.transactions]);
-  const isSerialDuplicate = useMemo(() => (!serialNumber.trim() || serialNumber.includes('~')) ? false : allUsedSerials.includes(serialNumber.toUpperCase()), [serialNumber, allUsedSerials]);
+  // 재고 표시는 기준일 시점, 입출고 검사는 항상 현재 재고 기준
+  const asOf = asOfDate ? endOfDate(asOfDate) : undefined;
+  const snapshot = useMemo(() => itemAsOf(item, asOf), [item, asOf]);
+  const currentStock = useMemo(() => calculateStock(snapshot), [snapshot]);
+  const quarantineStock = useMemo(() => calculateQuarantineStock(snapshot), [snapshot]);
+  const snapshotLocationStock = useMemo(() => calculateLocationStock(snapshot), [snapshot]);
+  const snapshotValuation = useMemo(() => asOf ? valuateItem(snapshot, costingMethod) : valuation, [asOf, snapshot, costingMethod, valuation]);
+  const locationStock = useMemo(() => calculateLocationStock(item), [item]);
+  const reserved = useMemo(() => reservedStock(reservations, item.id), [reservations, item.id]);
+  const reservedTotal = sumLocations(reserved);
+  const availableStock = useMemo(() => availableLocationStock(item, reservations), [item, reservations]);
+  const lots = useMemo(() => item.type === 'part' ? lotBalances(item) : [], [item]);
+  const snapshotLots = useMemo(() => asOf ? lotBalances(snapshot) : lots, [asOf, snapshot, lots]);
+  const availableLots = lots.filter(l => (l.locations[location] || 0) > 0);
+  const lotPreview = useMemo(() => item.type === 'part' && transactionType !== 'purchase' && !lotChoice ? allocateLots(item, location, parseInt(quantity, 10) || 0) : [], [item, transactionType, lotChoice, location, quantity]);
+  const balances = useMemo(() => runningBalances(item.transactions), [item]);
+  // 최근 기록이 위로 (같은 시각이면 나중에 추가된 기록이 위로)
+  const historyRows = useMemo(() => item.transactions.map((t, index) => ({ t, index })).sort((a, b) => b.t.date.localeCompare(a.t.date) || b.index - a.index).map(r => r.t), [item]);
+  const itemSerials = useMemo(() => [...serialRegistry.values()].filter(u => u.itemId === item.id), [serialRegistry, item.id]);
+  const availableSerials = useMemo(() => itemSerials.filter(u => isSerialAvailable(u) && u.location === location).map(u => u.serial).sort(), [itemSerials, location]);
+  const isTransfer = transactionType === 'transfer';
+  // 재고 일련번호가 있는 제품은 출고 / 이동할 번호를 선택한 위치의 목록에서 고름
+  const pickSerials = item.type === 'product' && transactionType !== 'purchase' && availableSerials.length > 0;
+  // 입고되지 않은 번호로 출고 / 이동하면 일련번호 이력이 어긋나므로 재고 일련번호가 없으면 막음
+  const noStockSerials = item.type === 'product' && transactionType !== 'purchase' && availableSerials.length === 0;
+  const showCustomer = !isTransfer && serialAction !== 'scrap';
+  const isSerialDuplicate = useMemo(() => (!serialNumber.trim() || serialNumber.includes('~')) ? false : serialRegistry.has(serialNumber.toUpperCase().trim()), [serialNumber, serialRegistry]);
+  const hasBom = item.type === 'product' && (item.bom || []).length > 0;
+  const buildCount = useMemo(() => {
+    if (serialNumber.includes('~')) {
+      try { return parseSerialRange(serialNumber.toUpperCase()).length; } catch (err) { return 0; }
+    }
+    return parseInt(quantity, 10) || 0;
+  }, [serialNumber, quantity]);
+  const willConsumeBom = hasBom && consumeBom && transactionType === 'purchase' && serialAction === '';
+  const requirements = useMemo(() => willConsumeBom ? bomRequirements(item, Math.max(1, buildCount), partItems, location) : [], [willConsumeBom, item, buildCount, partItems, location]);
+  // 이 제품의 생산 입고 중 BOM 부품을 차감한 기록
+  const productionIds = useMemo(() => new Set(partItems.flatMap(p => p.transactions.flatMap(t => t.productionId ? [t.productionId] : []))), [partItems]);
   const isCodeDuplicate = useMemo(() => (!editFormData.code || editFormData.code === item.code) ? false : existingCodes.some(c => c.toUpperCase() === editFormData.code?.toUpperCase()), [editFormData.code, existingCodes, item.code]);
 
+  const handleSelectType = (type: TransactionType) => {
+    setTransactionType(type); setSerialAction(''); setSelectedSerials([]);
+  };
+
+  const toggleSerial = (serial: string) => {
+    setSelectedSerials(prev => prev.includes(serial) ? prev.filter(s => s !== serial) : [...prev, serial]);
+  };
+
+  const handleCustomerNameChange = (value: string) => {
+    setCustomerName(value);
+    const match = customers.find(c => c.name === value);
+    setCustomerId(match ? match.id : null);
+    if (match) { setPhoneNumber(match.phoneNumber); setAddress(match.address); }
+  };
+
+  // 고객 목록과 연결 (목록에 없는 고객은 새로 등록)
+  const customerFields = (): Pick<Transaction, 'customerName' | 'address' | 'phoneNumber' | 'customerId'> => {
+    if (item.type !== 'product' || !showCustomer) return { customerName: '', address: '', phoneNumber: '' };
+    if (!customerName.trim()) return { customerName, address, phoneNumber };
+    const linked = customers.find(c => c.id === customerId) || findCustomer(customers, customerName, phoneNumber)
+      || onSaveCustomer(null, { name: customerName.trim(), phoneNumber: phoneNumber.trim(), address: address.trim(), remarks: '' });
+    return { customerName, address, phoneNumber, customerId: linked.id };
+  };
+
+  // 부품 입고는 로트 번호 / 유효기한, 출고 / 이동은 고른 로트 (자동이면 저장할 때 선입선출 배정)
+  const lotFields = (count: number): Pick<Transaction, 'lotNumber' | 'expiryDate' | 'lots'> | null => {
+    if (item.type !== 'part') return {};
+    if (transactionType === 'purchase') return lotNumber.trim() ? { lotNumber: lotNumber.trim().toUpperCase(), ...(expiryDate ? { expiryDate } : {}) } : {};
+    if (!lotChoice) return {};
+    const available = availableLots.find(l => l.lotNumber === lotChoice)?.locations[location] || 0;
+    if (count > available) { alert(`로트 ${lotChoice} 재고 부족! (${locationName(location)} ${available.toLocaleString()} EA)`); return null; }
+    return { lots: [{ lotNumber: lotChoice, quantity: count }] };
+  };
+
+  // 출고 / 이동은 예약을 뺀 가용 재고 안에서만
+  const checkAvailable = (count: number) => {
+    const available = availableStock[location] || 0;
+    if (count <= available) return true;
+    alert(`가용 재고 부족! (${locationName(location)} 가용 ${available.toLocaleString()} EA${reserved[location] ? ` · 예약 ${reserved[location].toLocaleString()} EA` : ''})`);
+    return false;
+  };
+
   const handleAddTransaction = (e: React.FormEvent) => {
     e.preventDefault();
+    const action = serialAction ? { serialAction } : {};
+    const locations = isTransfer ? { location, toLocation } : { location };
+    if (isTransfer && location === toLocation) { alert('출발 위치와 도착 위치가 같습니다.'); return; }
+    if (pickSerials) {
+      if (!can(TRANSACTION_PERMISSIONS[transactionType])) { alert('권한이 없습니다.'); return; }
+      if (selectedSerials.length === 0) { alert(`${TRANSACTION_TYPE_LABELS[transactionType]}할 일련번호를 선택하세요.`); return; }
+      if (!checkAvailable(selectedSerials.length)) return;
+      const customer = customerFields();
+      onAddTransactions(item.id, selectedSerials.map(s => ({ type: transactionType, quantity: 1, date: new Date().toISOString(), remarks: transRemarks, serialNumber: s, ...customer, ...action, ...locations })));
+      setSelectedSerials([]); setTransRemarks(''); setCustomerName(''); setCustomerId(null); setAddress(''); setPhoneNumber('');
+      return;
+    }
+    if (noStockSerials) { alert(`${locationName(location)}에 ${TRANSACTION_TYPE_LABELS[transactionType]}할 재고 일련번호가 없습니다.`); return; }
+    if (isTransfer) {
+      const count = parseInt(quantity, 10) || 0;
+      if (count <= 0) { alert('수량을 확인하세요.'); return; }
+      if (!can('transfer')) { alert('권한이 없습니다.'); return; }
+      if (!checkAvailable(count)) return;
+      const lot = lotFields(count);
+      if (!lot) return;
+      onAddTransactions(item.id, [{ type: 'transfer', quantity: count, date: new Date().toISOString(), remarks: transRemarks, modelName: transModelName, ...locations, ...lot }]);
+      setQuantity(''); setTransRemarks(''); setTransModelName(''); setLotChoice('');
+      return;
+    }
     let targetSerials: string[] = [serialNumber.toUpperCase().trim()];
     let isRange = false;
     if (item.type === 'product' && serialNumber.includes('~')) {
-      try { targetSerials = parseSerialRange(serialNumber.toUpperCase()); isRange = true; } catch (err: any) { alert(err.message); return; }
+      try { targetSerials = parseSerialRange(serialNumber.toUpperCase()); isRange = true; } catch (err) { alert(errorMessage(err)); return; }
     }
-    const duplicates = targetSerials.filter(s => !!s && allUsedSerials.includes(s));
+    const duplicates = targetSerials.filter(s => !!s && serialRegistry.has(s));
     if (duplicates.length > 0) { alert(`중복 번호 존재: ${duplicates.slice(0, 5).join(', ')}...`); return; }
     const count = isRange ? targetSerials.length : (parseInt(quantity, 10) || 0);
     if (count <= 0) { alert('수량을 확인하세요.'); return; }
-    if (transactionType === 'release' && count > currentStock) { alert('재고 부족!'); return; }
+    if (!can(TRANSACTION_PERMISSIONS[transactionType])) { alert('권한이 없습니다.'); return; }
+    if (transactionType === 'release' && !checkAvailable(count)) return;
+    if (willConsumeBom) {
+      const shortage = bomShortageMessage(bomRequirements(item, count, partItems, location));
+      if (shortage) { alert(shortage); return; }
+    }
+    const lot = lotFields(count);
+    if (!lot) return;
+    const customer = customerFields();
+    const cost = transactionType === 'purchase' ? { ...(unitCost.trim() ? { unitCost: parseFloat(unitCost) || 0 } : {}), ...(supplierId ? { supplierId } : {}) } : {};
     if (isRange) {
-      targetSerials.forEach(s => onAddTransaction(item.id, { type: transactionType, quantity: 1, date: new Date().toISOString(), remarks: transRemarks, modelName: transModelName, userId: transUserId, serialNumber: s, customerName, address, phoneNumber }));
+      onAddTransactions(item.id, targetSerials.map(s => ({ type: transactionType, quantity: 1, date: new Date().toISOString(), remarks: transRemarks, modelName: transModelName, serialNumber: s, ...customer, ...action, ...locations, ...cost })), willConsumeBom);
       alert(`${targetSerials.length}건 등록 완료.`);
     } else {
-      onAddTransaction(item.id, { type: transactionType, quantity: count, date: new Date().toISOString(), remarks: transRemarks, modelName: transModelName, userId: transUserId, serialNumber: item.type === 'product' ? serialNumber.toUpperCase() : '', customerName: item.type === 'product' ? customerName : '', address: item.type === 'product' ? address : '', phoneNumber: item.type === 'product' ? phoneNumber : '' });
+      onAddTransactions(item.id, [{ type: transactionType, quantity: count, date: new Date().toISOString(), remarks: transRemarks, modelName: transModelName, serialNumber: item.type === 'product' ? serialNumber.toUpperCase() : '', ...customer, ...action, ...locations, ...cost, ...lot }], willConsumeBom);
     }
-    setQuantity(''); setTransRemarks(''); setTransModelName(''); setTransUserId(''); setSerialNumber(suggestNextSerial([...allUsedSerials, ...targetSerials])); setCustomerName(''); setAddress(''); setPhoneNumber('');
+    setLotNumber(''); setExpiryDate(''); setLotChoice('');
+    setQuantity(''); setUnitCost(''); setTransRemarks(''); setTransModelName(''); setSerialNumber(suggestNextSerial([...allUsedSerials, ...targetSerials])); setCustomerName(''); setCustomerId(null); setAddress(''); setPhoneNumber('');
   };
   
-  const handleActionConfirm = () => {
-    const requiredPass = authRole === 'admin' ? ADMIN_PASSWORD : PRODUCT_ONLY_PASSWORD;
-    if (password !== requiredPass) { alert('비밀번호 오류.'); return; }
-    const currentAction = showPasswordInput; setPassword(''); setShowPasswordInput(null);
-    if (currentAction?.type === 'item') onUpdateItem(item.id, editFormData), setIsEditing(false);
-    else if (currentAction?.type === 'trans_save' && currentAction.targetId) onUpdateTransaction(item.id, currentAction.targetId, transEditData), setEditingTransactionId(null);
-    else if (currentAction?.type === 'trans_delete' && currentAction.targetId) onDeleteTransaction(item.id, currentAction.targetId);
+  const handleActionConfirm = async () => {
+    if (!reason.trim()) { alert('변경 사유를 입력하세요.'); return; }
+    if (!(await onVerifyPassword(password))) { alert('비밀번호 오류.'); return; }
+    const currentAction = showPasswordInput; const trimmedReason = reason.trim(); setPassword(''); setReason(''); setShowPasswordInput(null);
+    if (currentAction?.type === 'item') onUpdateItem(item.id, editFormData, trimmedReason), setIsEditing(false);
+    else if (currentAction?.type === 'bom' && bomDraft) onUpdateItem(item.id, { bom: bomDraft }, trimmedReason), setBomDraft(null);
+    else if (currentAction?.type === 'trans_save' && currentAction.targetId) onUpdateTransaction(item.id, currentAction.targetId, transEditData, trimmedReason), setEditingTransactionId(null);
+    else if (currentAction?.type === 'trans_delete' && currentAction.targetId) onDeleteTransaction(item.id, currentAction.targetId, trimmedReason);
   };
 
   const handleToggleEdit = () => {
@@ -128,9 +286,19 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
     } else setIsEditing(true);
   };
 
-  const handleTransEditChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAddBomLine = () => {
+    const qty = parseInt(bomQuantity, 10) || 0;
+    if (!bomPartId || qty <= 0) { alert('부품과 수량을 확인하세요.'); return; }
+    setBomDraft(prev => {
+      const lines = prev || [];
+      return lines.some(l => l.partId === bomPartId) ? lines.map(l => l.partId === bomPartId ? { ...l, quantity: qty } : l) : [...lines, { partId: bomPartId, quantity: qty }];
+    });
+    setBomPartId(''); setBomQuantity('1');
+  };
+
+  const handleTransEditChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    const processedValue = (name === 'quantity') ? (parseInt(value, 10) || 0) : (['code', 'name', 'serialNumber'].includes(name) ? value.toUpperCase() : value);
+    const processedValue = (name === 'quantity') ? (parseInt(value, 10) || 0) : name === 'unitCost' ? (value === '' ? undefined : parseFloat(value) || 0) : name === 'supplierId' ? (value || undefined) : (['code', 'name'].includes(name) ? value.toUpperCase() : value);
     setTransEditData(prev => ({ ...prev, [name]: processedValue }));
   };
 
@@ -140,31 +308,43 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
     setTransEditData(t);
   };
 
-  const handleSaveTransEdit = (id: string) => {
-    setShowPasswordInput({ type: 'trans_save', targetId: id });
+  // 일련번호 / 로트 배정 / BOM 차감이 딸린 기록은 수량을 바꾸면 연결된 기록과 어긋나므로 삭제 후 다시 등록
+  const isQuantityLocked = (t: Transaction) => !!t.serialNumber || !!t.lots || productionIds.has(t.id);
+
+  // 수량 수정도 등록할 때처럼 가용 재고 안에서만: 출고 / 이동을 늘리거나 입고를 줄이면 그 위치에서, 이동을 줄이면 도착 위치에서 빠짐
+  const editShortage = (t: Transaction, count: number) => {
+    const change = count - t.quantity;
+    const from = t.type === 'purchase' ? (change < 0 ? locationOf(t) : null)
+      : t.type === 'transfer' && change < 0 ? t.toLocation || MAIN_LOCATION_ID
+      : change > 0 ? locationOf(t) : null;
+    if (!from) return '';
+    const available = availableStock[from] || 0;
+    return Math.abs(change) > available ? `가용 재고 부족! (${locationName(from)} 가용 ${available.toLocaleString()} EA)` : '';
+  };
+
+  const handleSaveTransEdit = (t: Transaction) => {
+    const count = isQuantityLocked(t) ? t.quantity : transEditData.quantity ?? t.quantity;
+    if (count <= 0) { alert('수량을 확인하세요.'); return; }
+    const shortage = editShortage(t, count);
+    if (shortage) { alert(shortage); return; }
+    setTransEditData(prev => ({ ...prev, quantity: count, serialNumber: t.serialNumber }));
+    setShowPasswordInput({ type: 'trans_save', targetId: t.id });
   };
 
   const handleDeleteTrans = (id: string) => {
     setShowPasswordInput({ type: 'trans_delete', targetId: id });
   };
 
-  const exportHistoryToExcel = () => {
-    if (item.transactions.length === 0) { alert('내역 없음.'); return; }
-    let csvContent = "\ufeff";
-    const headers = item.type === 'part' ? ['날짜', '시간', '구분', '수량', '기종', '비고'] : ['날짜', '시간', '구분', '수량', '아이디', '일련번호', '고객명', '연락처', '주소', '비고'];
-    csvContent += headers.join(',') + '\r\n';
-    [...item.transactions].reverse().forEach(t => {
-      const d = new Date(t.date);
-      const row = [d.toLocaleDateString(), d.toLocaleTimeString(), t.type === 'purchase' ? '입고' : '출고', t.quantity];
-      if (item.type === 'part') row.push(t.modelName || '', t.remarks || '');
-      else row.push(t.userId || '', t.serialNumber || '', t.customerName || '', t.phoneNumber || '', t.address || '', t.remarks || '');
-      csvContent += row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\r\n';
-    });
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `${item.name}_내역_${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
+  // 기준일을 고르면 그날까지의 기록과 그 시점 재고만 내보냄
+  const exportHistoryToExcel = async () => {
+    if (snapshot.transactions.length === 0) { alert('내역 없음.'); return; }
+    const costs = can('view_costs') && snapshotValuation ? new Map([[item.id, snapshotValuation]]) : undefined;
+    const extra: [string, unknown][] = [['코드', item.code], ['품명', item.name], ...(asOfDate ? [['기준일', asOfDate] as [string, unknown]] : [])];
+    try {
+      await downloadWorkbook([historySheet([snapshot], !!costs), summarySheet([snapshot], costs, extra)], `${item.name}_내역_${asOfDate ? `${asOfDate}기준` : new Date().toISOString().split('T')[0]}.xlsx`);
+    } catch (err) {
+      alert(`엑셀 파일을 만들 수 없습니다: ${errorMessage(err)}`);
+    }
   };
 
   return (
@@ -174,9 +354,10 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
             <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-md z-[60] flex items-center justify-center p-4">
                 <div className="bg-white rounded-[2.5rem] p-12 max-w-md w-full shadow-2xl border border-slate-100 animate-fade-in-up">
                     <h4 className="text-2xl font-black text-slate-800 mb-4 tracking-tight uppercase">권한 인증</h4>
-                    <input type="password" autoFocus value={password} onChange={(e) => setPassword(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleActionConfirm()} placeholder="PASSWORD" className="w-full px-6 py-5 border-2 border-slate-100 rounded-2xl focus:border-indigo-500 outline-none mb-6 text-center text-3xl font-black tracking-widest" />
+                    <input type="text" autoFocus value={reason} onChange={(e) => setReason(e.target.value)} placeholder="변경 사유 *" className="w-full px-6 py-4 border-2 border-slate-100 rounded-2xl focus:border-indigo-500 outline-none mb-4 text-lg font-bold" />
+                    <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleActionConfirm()} placeholder="PASSWORD" className="w-full px-6 py-5 border-2 border-slate-100 rounded-2xl focus:border-indigo-500 outline-none mb-6 text-center text-3xl font-black tracking-widest" />
                     <div className="grid grid-cols-2 gap-4">
-                        <button onClick={() => { setShowPasswordInput(null); setPassword(''); }} className="py-4 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-sm tracking-widest">취소</button>
+                        <button onClick={() => { setShowPasswordInput(null); setPassword(''); setReason(''); }} className="py-4 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-sm tracking-widest">취소</button>
                         <button onClick={handleActionConfirm} className="py-4 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100">확인</button>
                     </div>
                 </div>
@@ -185,10 +366,10 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
         <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
           <div><h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">{item.type === 'part' ? '부품' : '제품'} 상세 및 수불관리</h2></div>
           <div className="flex gap-4">
-              <button onClick={handleToggleEdit} className={`flex items-center gap-2 px-6 py-3 rounded-2xl text-base font-black transition-all shadow-sm ${isEditing ? 'bg-emerald-500 text-white' : 'bg-white text-indigo-600 border-2 border-indigo-50'}`}>
+              {can('edit_master') && <button onClick={handleToggleEdit} className={`flex items-center gap-2 px-6 py-3 rounded-2xl text-base font-black transition-all shadow-sm ${isEditing ? 'bg-emerald-500 text-white' : 'bg-white text-indigo-600 border-2 border-indigo-50'}`}>
                 {isEditing ? <CheckIcon className="w-5 h-5" /> : <EditIcon className="w-5 h-5" />}
                 <span>{isEditing ? '정보 저장' : '수정 모드'}</span>
-              </button>
+              </button>}
               {isEditing && <button onClick={() => setIsEditing(false)} className="px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl text-base font-black uppercase">취소</button>}
               <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors ml-4"><CloseIcon className="w-10 h-10" /></button>
           </div>
@@ -210,6 +391,16 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                         <input name="spec" value={editFormData.spec || ''} onChange={(e) => setEditFormData({...editFormData, spec: e.target.value})} className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-bold" /></div>
                       </>
                     )}
+                    {item.type === 'product' && (
+                      <div><label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">보증 기간 (개월)</label>
+                      <input type="number" min="0" value={editFormData.warrantyMonths ?? ''} onChange={(e) => setEditFormData({...editFormData, warrantyMonths: parseInt(e.target.value, 10) || 0})} className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-bold" /></div>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div><label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">안전 재고</label>
+                      <input type="number" min="0" value={editFormData.safetyStock ?? ''} onChange={(e) => setEditFormData({...editFormData, safetyStock: parseInt(e.target.value, 10) || 0})} className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-bold" /></div>
+                      <div><label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">기본 발주 수량</label>
+                      <input type="number" min="0" value={editFormData.reorderQuantity ?? ''} onChange={(e) => setEditFormData({...editFormData, reorderQuantity: parseInt(e.target.value, 10) || 0})} className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-bold" /></div>
+                    </div>
                     <div><label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
                     <textarea name="remarks" value={editFormData.remarks || ''} onChange={(e) => setEditFormData({...editFormData, remarks: e.target.value})} rows={3} className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-bold" /></div>
                 </div>
@@ -224,40 +415,157 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                         <div className="flex justify-between border-b-2 border-slate-100 pb-3"><span className="text-slate-400 font-black uppercase text-xs">Spec</span><span className="font-bold text-slate-500">{item.spec || '-'}</span></div>
                       </>
                     )}
+                    {item.type === 'product' && <div className="flex justify-between border-b-2 border-slate-100 pb-3"><span className="text-slate-400 font-black uppercase text-xs">Warranty</span><span className="font-bold text-slate-500">{item.warrantyMonths ?? DEFAULT_WARRANTY_MONTHS} 개월</span></div>}
+                    <div className="flex justify-between border-b-2 border-slate-100 pb-3"><span className="text-slate-400 font-black uppercase text-xs">Reorder</span><span className="font-bold text-slate-500">{item.safetyStock ? `안전 ${item.safetyStock.toLocaleString()} · 발주 ${(item.reorderQuantity || 0).toLocaleString()} EA` : '-'}</span></div>
                     <div className="flex justify-between pb-3"><span className="text-slate-400 font-black uppercase text-xs">Reg Date</span><span className="font-bold text-slate-500">{item.registrationDate}</span></div>
                     {item.remarks && (<div className="mt-6 p-5 bg-white rounded-2xl border border-slate-100 text-slate-600 font-bold leading-relaxed italic text-base">"{item.remarks}"</div>)}
                   </div>
                 </>
               )}
               <div className="mt-10 pt-8 border-t-2 border-slate-200">
-                <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-3">Total Stock</p>
-                <p className="text-7xl font-black text-slate-900 leading-none">{currentStock.toLocaleString()} <span className="text-2xl text-slate-300 font-black uppercase">EA</span></p>
+                <div className="flex items-center justify-between mb-3">
+                  <p className={`text-xs font-black uppercase tracking-[0.2em] ${asOfDate ? 'text-amber-600' : 'text-slate-400'}`}>{asOfDate ? `${asOfDate} 기준 재고` : 'Total Stock'}</p>
+                  <div className="flex items-center gap-2">
+                    <input type="date" value={asOfDate} max={new Date().toISOString().split('T')[0]} onChange={(e) => setAsOfDate(e.target.value)} title="기준일" className="px-2 py-1 border-2 border-slate-100 rounded-lg text-xs font-black text-slate-600 outline-none bg-white" />
+                    {asOfDate && <button onClick={() => setAsOfDate('')} className="text-[10px] font-black text-indigo-600 underline">현재</button>}
+                  </div>
+                </div>
+                <p className={`text-7xl font-black leading-none ${isBelowSafetyStock(item, currentStock) ? 'text-amber-500' : 'text-slate-900'}`}>{currentStock.toLocaleString()} <span className="text-2xl text-slate-300 font-black uppercase">EA</span></p>
+                <div className="mt-5 space-y-2">
+                  {LOCATIONS.map(l => (
+                    <div key={l.id} className="flex justify-between text-sm font-bold"><span className="text-slate-400 uppercase tracking-widest">{l.name}</span><span className="font-black text-slate-700">{(snapshotLocationStock[l.id] || 0).toLocaleString()} EA</span></div>
+                  ))}
+                </div>
+                {!asOf && reservedTotal > 0 && <p className="mt-4 text-sm font-black text-indigo-600 uppercase tracking-widest">예약 {reservedTotal.toLocaleString()} EA · 가용 {(currentStock - reservedTotal).toLocaleString()} EA</p>}
+                {can('view_costs') && snapshotValuation && <p className="mt-4 text-sm font-black text-slate-500 uppercase tracking-widest">재고 금액 {formatCost(snapshotValuation.value)} 원 · 평균 단가 {formatCost(snapshotValuation.unitCost)}</p>}
+                {quarantineStock > 0 && <p className="mt-3 text-sm font-black text-amber-600 uppercase tracking-widest">격리 재고 {quarantineStock.toLocaleString()} EA (반품 검사 대기)</p>}
+                {snapshotLots.some(l => l.total > 0) && (
+                  <div className="mt-5 pt-4 border-t border-slate-200 space-y-2">
+                    <p className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">로트 재고</p>
+                    {snapshotLots.filter(l => l.total > 0).map(l => (
+                      <div key={l.lotNumber} className="flex justify-between items-center text-sm font-bold gap-2">
+                        <span className="font-mono font-black text-slate-600 truncate">{l.lotNumber}</span>
+                        {l.expiryDate && <span className={`px-2 py-0.5 rounded-full text-[10px] font-black ${EXPIRY_STYLES[expiryStatus(l.expiryDate)!]}`}>~{l.expiryDate}</span>}
+                        <span className="ml-auto font-black text-slate-700 whitespace-nowrap">{l.total.toLocaleString()} EA</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
-            {!isEditing && (
+            {item.type === 'product' && (
+              <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl space-y-5">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-base font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><BoxIcon className="w-5 h-5"/> BOM 구성</h3>
+                  {can('edit_master') && (bomDraft ? (
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => setBomDraft(null)} className="px-3 py-1.5 bg-slate-100 text-slate-500 rounded-lg font-black text-[10px] uppercase">취소</button>
+                      <button type="button" onClick={() => setShowPasswordInput({ type: 'bom' })} className="px-3 py-1.5 bg-emerald-500 text-white rounded-lg font-black text-[10px] uppercase">저장</button>
+                    </div>
+                  ) : (
+                    <button type="button" onClick={() => setBomDraft(item.bom || [])} className="px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg font-black text-[10px] uppercase">편집</button>
+                  ))}
+                </div>
+                {(bomDraft || item.bom || []).length === 0 ? (
+                  <p className="text-center text-xs font-black text-slate-300 uppercase tracking-widest py-4">등록된 구성 부품이 없습니다</p>
+                ) : (
+                  <ul className="divide-y divide-slate-50">
+                    {(bomDraft || item.bom || []).map(line => {
+                      const part = partItems.find(p => p.id === line.partId);
+                      return (
+                        <li key={line.partId} className="flex items-center justify-between gap-3 py-3">
+                          <div className="min-w-0"><p className="font-mono font-black text-indigo-600 text-sm">{part?.code || '(삭제된 부품)'}</p><p className="font-bold text-slate-500 text-xs truncate">{part?.name || line.partId}</p></div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-black text-slate-800 whitespace-nowrap">× {line.quantity}</span>
+                            {bomDraft && <button type="button" onClick={() => setBomDraft(bomDraft.filter(l => l.partId !== line.partId))} className="p-1.5 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-all"><TrashIcon className="w-4 h-4" /></button>}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {bomDraft && (
+                  <div className="grid grid-cols-4 gap-2">
+                    <select value={bomPartId} onChange={(e) => setBomPartId(e.target.value)} className="col-span-2 px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white text-sm">
+                      <option value="">부품 선택</option>
+                      {partItems.map(p => <option key={p.id} value={p.id}>{p.code} {p.name}</option>)}
+                    </select>
+                    <input type="number" min="1" value={bomQuantity} onChange={(e) => setBomQuantity(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-black outline-none text-sm" />
+                    <button type="button" onClick={handleAddBomLine} className="bg-indigo-600 text-white rounded-xl font-black text-xs uppercase">추가</button>
+                  </div>
+                )}
+              </div>
+            )}
+            {!isEditing && (can('purchase') || can('release') || can('transfer')) && (
               <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl space-y-6">
                   <h3 className="text-base font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><PlusIcon className="w-5 h-5"/> 신규 입출고 기록</h3>
                   <form onSubmit={handleAddTransaction} className="space-y-5">
                       <div className="flex p-1.5 bg-slate-100 rounded-2xl">
-                          <button type="button" onClick={() => setTransactionType('purchase')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'purchase' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>입고</button>
-                          <button type="button" onClick={() => setTransactionType('release')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'release' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-400'}`}>출고</button>
+                          <button type="button" disabled={!can('purchase')} onClick={() => handleSelectType('purchase')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'purchase' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>입고</button>
+                          <button type="button" disabled={!can('release')} onClick={() => handleSelectType('release')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'release' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-400'}`}>출고</button>
+                          <button type="button" disabled={!can('transfer')} onClick={() => handleSelectType('transfer')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'transfer' ? 'bg-white text-sky-600 shadow-sm' : 'text-slate-400'}`}>이동</button>
+                      </div>
+                      <div className={`grid gap-4 ${isTransfer ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                        <select value={location} onChange={(e) => { setLocation(e.target.value); setSelectedSerials([]); setLotChoice(''); }} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                          {LOCATIONS.map(l => <option key={l.id} value={l.id}>{isTransfer ? '출발: ' : ''}{l.name} ({(locationStock[l.id] || 0).toLocaleString()}{transactionType !== 'purchase' && reserved[l.id] ? ` · 가용 ${(availableStock[l.id] || 0).toLocaleString()}` : ''})</option>)}
+                        </select>
+                        {isTransfer && (
+                          <select value={toLocation} onChange={(e) => setToLocation(e.target.value)} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                            {LOCATIONS.map(l => <option key={l.id} value={l.id}>도착: {l.name}</option>)}
+                          </select>
+                        )}
                       </div>
+                      {item.type === 'product' && transactionType === 'release' && (
+                        <div className="flex gap-2">
+                          {([['', '고객 출고'], ['scrap', '폐기']] as const).map(([value, label]) => (
+                            <button key={value} type="button" onClick={() => { setSerialAction(value); setSelectedSerials([]); }} className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${serialAction === value ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-400'}`}>{label}</button>
+                          ))}
+                        </div>
+                      )}
                       <div className="space-y-4">
                         {item.type === 'product' ? (
                           <>
-                            <div className="relative">
+                            {pickSerials ? (
+                              <div>
                                 <div className="flex justify-between items-center mb-2">
-                                  <label className="text-xs font-black uppercase text-slate-400 tracking-widest">일련번호</label>
-                                  <button type="button" onClick={() => setSerialNumber(suggestNextSerial(allUsedSerials))} className="text-[10px] font-black text-indigo-600 underline">다음번호 제안</button>
+                                  <label className="text-xs font-black uppercase text-slate-400 tracking-widest">재고 일련번호 ({selectedSerials.length} / {availableSerials.length})</label>
+                                  <button type="button" onClick={() => setSelectedSerials(selectedSerials.length === availableSerials.length ? [] : availableSerials)} className="text-[10px] font-black text-indigo-600 underline">전체 선택</button>
                                 </div>
-                                <input type="text" value={serialNumber} onChange={(e) => setSerialNumber(e.target.value.toUpperCase())} placeholder="SN-00000" className={`w-full px-4 py-3 text-lg border-2 rounded-xl font-black outline-none focus:ring-4 ${isSerialDuplicate ? 'border-rose-400 bg-rose-50' : 'border-slate-100'}`} />
-                            </div>
+                                <div className="max-h-48 overflow-y-auto border-2 border-slate-100 rounded-xl divide-y divide-slate-50">
+                                  {availableSerials.map(s => (
+                                    <label key={s} className="flex items-center gap-3 px-4 py-2 cursor-pointer hover:bg-slate-50">
+                                      <input type="checkbox" checked={selectedSerials.includes(s)} onChange={() => toggleSerial(s)} className="w-4 h-4 accent-indigo-600" />
+                                      <span className="font-mono font-black text-slate-700">{s}</span>
+                                    </label>
+                                  ))}
+                                </div>
+                              </div>
+                            ) : noStockSerials ? (
+                              <p className="px-4 py-3 rounded-xl bg-rose-50 text-rose-600 text-sm font-black">{locationName(location)}에 {TRANSACTION_TYPE_LABELS[transactionType]}할 재고 일련번호가 없습니다.</p>
+                            ) : (
+                              <div className="relative">
+                                  <div className="flex justify-between items-center mb-2">
+                                    <label className="text-xs font-black uppercase text-slate-400 tracking-widest">일련번호</label>
+                                    <button type="button" onClick={() => setSerialNumber(suggestNextSerial(allUsedSerials))} className="text-[10px] font-black text-indigo-600 underline">다음번호 제안</button>
+                                  </div>
+                                  <input type="text" value={serialNumber} onChange={(e) => setSerialNumber(e.target.value.toUpperCase())} placeholder="SN-00000" className={`w-full px-4 py-3 text-lg border-2 rounded-xl font-black outline-none focus:ring-4 ${isSerialDuplicate ? 'border-rose-400 bg-rose-50' : 'border-slate-100'}`} />
+                              </div>
+                            )}
                             <div className="grid grid-cols-2 gap-4">
-                                <input type="number" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="수량 *" min="1" required className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-black outline-none" />
-                                <input type="text" value={customerName} onChange={(e) => setCustomerName(e.target.value)} placeholder="고객명" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                                {transactionType === 'purchase' && <input type="number" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="수량 *" min="1" required className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-black outline-none" />}
+                                {showCustomer && (
+                                  <>
+                                    <input type="text" list={`customers-${item.id}`} value={customerName} onChange={(e) => handleCustomerNameChange(e.target.value)} placeholder="고객명" className={`w-full px-4 py-3 text-lg border-2 rounded-xl font-bold outline-none ${customerId ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100'}`} />
+                                    <datalist id={`customers-${item.id}`}>{customers.map(c => <option key={c.id} value={c.name}>{c.phoneNumber}</option>)}</datalist>
+                                  </>
+                                )}
                             </div>
-                            <input type="text" value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} placeholder="연락처" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
-                            <input type="text" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="배송 주소" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                            {showCustomer && (
+                              <>
+                                <input type="text" value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} placeholder="연락처" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                                <input type="text" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="배송 주소" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                              </>
+                            )}
                           </>
                         ) : (
                           <div className="grid grid-cols-2 gap-4">
@@ -265,9 +573,47 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                             <input type="text" value={transModelName} onChange={(e) => setTransModelName(e.target.value)} placeholder="기종" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
                           </div>
                         )}
+                        {item.type === 'part' && transactionType === 'purchase' && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <input type="text" value={lotNumber} onChange={(e) => setLotNumber(e.target.value.toUpperCase())} placeholder="로트 번호" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-mono font-black outline-none" />
+                            <input type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} title="유효기한" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                          </div>
+                        )}
+                        {item.type === 'part' && transactionType !== 'purchase' && availableLots.length > 0 && (
+                          <div>
+                            <select value={lotChoice} onChange={(e) => setLotChoice(e.target.value)} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                              <option value="">로트 자동 배정 (선입선출)</option>
+                              {availableLots.map(l => <option key={l.lotNumber} value={l.lotNumber}>{l.lotNumber} ({(l.locations[location] || 0).toLocaleString()}){l.expiryDate ? ` ~${l.expiryDate}` : ''}{expiryStatus(l.expiryDate) === 'expired' ? ' 만료' : ''}</option>)}
+                            </select>
+                            {lotPreview.length > 0 && <p className="mt-2 text-xs font-black text-slate-400 uppercase tracking-widest">배정 예정: {formatLots(lotPreview)}</p>}
+                          </div>
+                        )}
+                        {transactionType === 'purchase' && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <input type="number" min="0" step="any" value={unitCost} onChange={(e) => setUnitCost(e.target.value)} placeholder="입고 단가 (원)" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                            <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                              <option value="">공급처 미지정</option>
+                              {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                          </div>
+                        )}
                         <input type="text" value={transRemarks} onChange={(e) => setTransRemarks(e.target.value)} placeholder="사유 / 비고" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none" />
                       </div>
-                      <button type="submit" className={`w-full py-5 text-white text-lg font-black rounded-2xl shadow-xl transition-all active:scale-95 ${transactionType === 'purchase' ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-rose-600 hover:bg-rose-700'} uppercase tracking-widest`}>데이터 저장</button>
+                      {hasBom && transactionType === 'purchase' && (
+                        <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                          <label className="flex items-center gap-3 text-sm font-black text-slate-600 cursor-pointer">
+                            <input type="checkbox" checked={consumeBom} onChange={(e) => setConsumeBom(e.target.checked)} className="w-5 h-5 accent-indigo-600" />
+                            BOM 부품 자동 출고 (생산)
+                          </label>
+                          {willConsumeBom && requirements.map(r => (
+                            <div key={r.partId} className="flex justify-between text-xs font-bold">
+                              <span className="text-slate-500 truncate">{r.part ? `${r.part.code} ${r.part.name}` : '(삭제된 부품)'}</span>
+                              <span className={r.shortage > 0 ? 'text-rose-600 font-black' : 'text-slate-400'}>{r.required.toLocaleString()} / {r.available.toLocaleString()}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <button type="submit" className={`w-full py-5 text-white text-lg font-black rounded-2xl shadow-xl transition-all active:scale-95 ${transactionType === 'purchase' ? 'bg-indigo-600 hover:bg-indigo-700' : isTransfer ? 'bg-sky-600 hover:bg-sky-700' : 'bg-rose-600 hover:bg-rose-700'} uppercase tracking-widest`}>데이터 저장</button>
                   </form>
               </div>
             )}
@@ -282,16 +628,17 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                 <div className="h-full max-h-[calc(90vh-220px)] overflow-y-auto">
                     {item.transactions.length === 0 ? (<div className="flex flex-col items-center justify-center h-full p-20 opacity-20"><BoxIcon className="w-24 h-24 mb-4" /><p className="text-xl font-black uppercase tracking-widest">기록된 내역이 없습니다</p></div>) : (
                         <div className="overflow-x-auto"><table className="w-full text-left text-base">
-                            <thead className="bg-white border-b-2 border-slate-100 text-sm font-black uppercase text-slate-400 sticky top-0 z-10"><tr><th className="px-6 py-5">날짜 / 구분</th><th className="px-6 py-5">수량</th>{item.type === 'part' && <th className="px-6 py-5">기종</th>}{item.type === 'product' && (<><th className="px-6 py-5">일련번호</th><th className="px-6 py-5">대상자</th><th className="px-6 py-5">주소</th></>)}<th className="px-6 py-5">비고</th><th className="px-6 py-5 text-center">작업</th></tr></thead>
+                            <thead className="bg-white border-b-2 border-slate-100 text-sm font-black uppercase text-slate-400 sticky top-0 z-10"><tr><th className="px-6 py-5">날짜 / 구분</th><th className="px-6 py-5">수량</th><th className="px-6 py-5 text-right">잔고</th>{item.type === 'part' && <th className="px-6 py-5">기종</th>}{item.type === 'product' && (<><th className="px-6 py-5">일련번호</th><th className="px-6 py-5">대상자</th><th className="px-6 py-5">주소</th></>)}<th className="px-6 py-5">비고</th><th className="px-6 py-5 text-center">작업</th></tr></thead>
                             <tbody className="divide-y-2 divide-white">
-                                {[...item.transactions].reverse().map(t => (
-                                    <tr key={t.id} className={`hover:bg-white transition-all group ${editingTransactionId === t.id ? 'bg-indigo-50/50' : ''}`}><td className="px-6 py-6"><div className="flex items-center gap-4"><div className={`p-2 rounded-xl ${t.type === 'purchase' ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'}`}>{t.type === 'purchase' ? <ArrowUpIcon className="w-5 h-5"/> : <ArrowDownIcon className="w-5 h-5"/>}</div><div><p className="font-black text-slate-700 text-lg">{new Date(t.date).toLocaleDateString()}</p><p className="text-xs text-slate-400 font-bold">{new Date(t.date).toLocaleTimeString()}</p></div></div></td>
-                                        <td className="px-6 py-6">{editingTransactionId === t.id ? (<input name="quantity" type="number" value={transEditData.quantity} onChange={handleTransEditChange} className="w-24 px-3 py-2 border-2 rounded-xl bg-white font-black text-lg" />) : (<span className={`font-black text-2xl ${t.type === 'purchase' ? 'text-emerald-600' : 'text-rose-600'}`}>{t.type === 'purchase' ? '+' : '-'}{t.quantity.toLocaleString()}</span>)}</td>
-                                        {item.type === 'part' && (<td className="px-6 py-6">{editingTransactionId === t.id ? (<input name="modelName" value={transEditData.modelName || ''} onChange={handleTransEditChange} className="w-32 px-3 py-2 border-2 rounded-xl bg-white" />) : (<span className="font-black text-slate-600">{t.modelName || '-'}</span>)}</td>)}
-                                        {item.type === 'product' && (<><td className="px-6 py-6">{editingTransactionId === t.id ? (<input name="serialNumber" value={transEditData.serialNumber || ''} onChange={handleTransEditChange} className="w-32 px-3 py-2 border-2 rounded-xl bg-white font-black uppercase" />) : (<span className="font-mono font-black text-indigo-600 text-lg">{t.serialNumber || '-'}</span>)}</td><td className="px-6 py-6">{editingTransactionId === t.id ? (<div className="space-y-2"><input name="customerName" value={transEditData.customerName || ''} onChange={handleTransEditChange} placeholder="이름" className="w-full px-3 py-2 border-2 rounded-xl bg-white" /><input name="phoneNumber" value={transEditData.phoneNumber || ''} onChange={handleTransEditChange} placeholder="번호" className="w-full px-3 py-2 border-2 rounded-xl bg-white" /></div>) : (<><p className="font-black text-slate-800 text-lg">{t.customerName || '-'}</p><p className="text-slate-400 font-bold text-sm">{t.phoneNumber || '-'}</p></>)}</td><td className="px-6 py-6">{editingTransactionId === t.id ? (<input name="address" value={transEditData.address || ''} onChange={handleTransEditChange} placeholder="주소" className="w-full px-3 py-2 border-2 rounded-xl bg-white" />) : (<p className="text-slate-500 font-bold truncate max-w-[200px]" title={t.address}>{t.address || '-'}</p>)}</td></>)}
-                                        <td className="px-6 py-6">{editingTransactionId === t.id ? (<input name="remarks" value={transEditData.remarks || ''} onChange={handleTransEditChange} placeholder="비고" className="w-full px-3 py-2 border-2 rounded-xl bg-white" />) : (<p className="text-sm text-slate-400 font-black truncate max-w-[250px]">{t.remarks || '-'}</p>)}</td>
+                                {historyRows.map(t => (
+                                    <tr key={t.id} className={`hover:bg-white transition-all group ${editingTransactionId === t.id ? 'bg-indigo-50/50' : ''} ${asOf && t.date > asOf ? 'opacity-40' : ''}`}><td className="px-6 py-6"><div className="flex items-center gap-4"><div className={`p-2 rounded-xl ${TRANSACTION_STYLES[t.type]}`}>{t.type === 'transfer' ? <TransferIcon className="w-5 h-5"/> : stockDelta(t) > 0 ? <ArrowUpIcon className="w-5 h-5"/> : <ArrowDownIcon className="w-5 h-5"/>}</div><div><p className="font-black text-slate-700 text-lg">{new Date(t.date).toLocaleDateString()}</p><p className="text-xs text-slate-400 font-bold">{new Date(t.date).toLocaleTimeString()}{t.userId && ` · ${t.userId}`}</p><p className="text-xs text-sky-600 font-black">{transactionLocationLabel(t)}</p></div></div></td>
+                                        <td className="px-6 py-6">{editingTransactionId === t.id ? (<div className="space-y-2">{isQuantityLocked(t) ? <p className="font-black text-slate-400 text-lg" title="일련번호 / 로트 / BOM 차감이 연결된 기록은 삭제 후 다시 등록하세요.">{t.quantity.toLocaleString()}</p> : <input name="quantity" type="number" value={transEditData.quantity} onChange={handleTransEditChange} className="w-24 px-3 py-2 border-2 rounded-xl bg-white font-black text-lg" />}{t.type === 'purchase' && <input name="unitCost" type="number" value={transEditData.unitCost ?? ''} onChange={handleTransEditChange} placeholder="단가" className="w-24 px-3 py-2 border-2 rounded-xl bg-white font-bold" />}</div>) : (<><span className={`font-black text-2xl ${t.type === 'transfer' ? 'text-sky-600' : t.type === 'adjustment' ? 'text-amber-600' : stockDelta(t) > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{t.type === 'transfer' ? t.quantity.toLocaleString() : `${stockDelta(t) > 0 ? '+' : ''}${stockDelta(t).toLocaleString()}`}</span>{t.type === 'adjustment' && <p className="text-[10px] font-black text-amber-600 uppercase">{TRANSACTION_TYPE_LABELS.adjustment}</p>}{can('view_costs') && <p className="text-xs text-slate-400 font-bold">{transactionCostLabel(t, valuation)}</p>}</>)}</td>
+                                        <td className={`px-6 py-6 text-right font-black text-lg ${t.bucket === 'quarantine' ? 'text-slate-300' : 'text-slate-500'}`} title={t.bucket === 'quarantine' ? '격리 기록은 양품 잔고에 영향 없음' : undefined}>{(balances.get(t.id) || 0).toLocaleString()}</td>
+                                        {item.type === 'part' && (<td className="px-6 py-6">{editingTransactionId === t.id ? (<input name="modelName" value={transEditData.modelName || ''} onChange={handleTransEditChange} className="w-32 px-3 py-2 border-2 rounded-xl bg-white" />) : (<><span className="font-black text-slate-600">{t.modelName || '-'}</span>{t.lotNumber && <p className="text-xs font-mono font-black text-indigo-400">LOT {t.lotNumber}{t.expiryDate ? ` ~${t.expiryDate}` : ''}</p>}{t.lots && <p className="text-xs font-mono font-black text-slate-400">LOT {formatLots(t.lots)}</p>}</>)}</td>)}
+                                        {item.type === 'product' && (<><td className="px-6 py-6"><span className="font-mono font-black text-indigo-600 text-lg">{t.serialNumber || '-'}</span>{t.serialAction && <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-50 text-amber-600 text-[10px] font-black uppercase">{SERIAL_ACTION_LABELS[t.serialAction]}</span>}{t.bucket === 'quarantine' && <span className="ml-1 px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-[10px] font-black uppercase">격리</span>}</td><td className="px-6 py-6">{editingTransactionId === t.id ? (<div className="space-y-2"><input name="customerName" value={transEditData.customerName || ''} onChange={handleTransEditChange} placeholder="이름" className="w-full px-3 py-2 border-2 rounded-xl bg-white" /><input name="phoneNumber" value={transEditData.phoneNumber || ''} onChange={handleTransEditChange} placeholder="번호" className="w-full px-3 py-2 border-2 rounded-xl bg-white" /></div>) : (<><p className="font-black text-slate-800 text-lg">{t.customerName || '-'}</p><p className="text-slate-400 font-bold text-sm">{t.phoneNumber || '-'}</p></>)}</td><td className="px-6 py-6">{editingTransactionId === t.id ? (<input name="address" value={transEditData.address || ''} onChange={handleTransEditChange} placeholder="주소" className="w-full px-3 py-2 border-2 rounded-xl bg-white" />) : (<p className="text-slate-500 font-bold truncate max-w-[200px]" title={t.address}>{t.address || '-'}</p>)}</td></>)}
+                                        <td className="px-6 py-6">{editingTransactionId === t.id ? (<div className="space-y-2"><input name="remarks" value={transEditData.remarks || ''} onChange={handleTransEditChange} placeholder="비고" className="w-full px-3 py-2 border-2 rounded-xl bg-white" />{t.type === 'purchase' && <select name="supplierId" value={transEditData.supplierId || ''} onChange={handleTransEditChange} className="w-full px-3 py-2 border-2 rounded-xl bg-white"><option value="">공급처 미지정</option>{suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select>}</div>) : (<><p className="text-sm text-slate-400 font-black truncate max-w-[250px]">{t.remarks || '-'}</p>{t.supplierId && <p className="text-xs text-indigo-400 font-black">{suppliers.find(s => s.id === t.supplierId)?.name || '삭제된 공급처'}</p>}</>)}</td>
                                         <td className="px-6 py-6 text-center"><div className="flex items-center justify-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                            {editingTransactionId === t.id ? (<><button onClick={() => handleSaveTransEdit(t.id)} className="p-3 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"><CheckIcon className="w-6 h-6" /></button><button onClick={() => setEditingTransactionId(null)} className="p-3 text-slate-400 hover:bg-slate-50 rounded-xl transition-all"><CloseIcon className="w-6 h-6" /></button></>) : (<><button onClick={() => handleEditTransaction(t)} className="p-3 text-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"><EditIcon className="w-6 h-6" /></button><button onClick={() => handleDeleteTrans(t.id)} className="p-3 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-6 h-6" /></button></>)}
+                                            {editingTransactionId === t.id ? (<><button onClick={() => handleSaveTransEdit(t)} className="p-3 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"><CheckIcon className="w-6 h-6" /></button><button onClick={() => setEditingTransactionId(null)} className="p-3 text-slate-400 hover:bg-slate-50 rounded-xl transition-all"><CloseIcon className="w-6 h-6" /></button></>) : (<>{can('edit_transactions') && t.type !== 'adjustment' && <button onClick={() => handleEditTransaction(t)} className="p-3 text-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"><EditIcon className="w-6 h-6" /></button>}{can('delete') && <button onClick={() => handleDeleteTrans(t.id)} className="p-3 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-6 h-6" /></button>}</>)}
                                           </div></td></tr>
                                 ))}</tbody></table></div>
                     )}
@@ -0,0 +1,214 @@
+
+import React, { useState, useMemo, useRef } from 'react';
+import type { Item } from '../types';
+import { parseSerialRange } from '../services/serials';
+import { encodeCode128, encodeQr, labelsPerPage, LABEL_PRESETS, LABEL_SYMBOLOGY_LABELS } from '../services/labels';
+import type { LabelLayout, LabelSymbology } from '../services/labels';
+import { errorMessage } from '../services/errors';
+import { CloseIcon } from './icons';
+
+interface LabelPrintModalProps {
+  items: Item[]; // 메인 화면에서 선택한 품목
+  products: Item[]; // 일련번호 라벨용 제품 목록
+  layout: LabelLayout;
+  onChangeLayout: (layout: LabelLayout) => void;
+  onClose: () => void;
+}
+
+interface LabelContent {
+  key: string;
+  value: string; // 바코드 / QR 에 담는 값
+  title: string;
+  subtitle: string;
+}
+
+const MAX_LABELS = 1000;
+
+// 인쇄 창에서는 Tailwind 가 없으므로 라벨 용지는 mm 단위 인라인 스타일로만 그림
+const BarcodeSvg: React.FC<{ value: string }> = ({ value }) => {
+  const barcode = useMemo(() => { try { return encodeCode128(value); } catch (err) { return null; } }, [value]);
+  if (!barcode) return <div style={{ color: '#e11d48', fontSize: '7pt', fontWeight: 700 }}>바코드 불가 문자</div>;
+  return (
+    <svg viewBox={`0 0 ${barcode.width + 20} 10`} preserveAspectRatio="none" shapeRendering="crispEdges" style={{ width: '100%', height: '100%', display: 'block' }}>
+      {barcode.bars.map(bar => <rect key={bar.x} x={bar.x + 10} y={0} width={bar.width} height={10} fill="#000" />)}
+    </svg>
+  );
+};
+
+const QrSvg: React.FC<{ value: string }> = ({ value }) => {
+  const path = useMemo(() => {
+    const qr = encodeQr(value);
+    let d = '';
+    for (let row = 0; row < qr.size; row++) for (let col = 0; col < qr.size; col++) if (qr.isDark(row, col)) d += `M${col + 4} ${row + 4}h1v1h-1z`;
+    return { d, size: qr.size + 8 };
+  }, [value]);
+  return (
+    <svg viewBox={`0 0 ${path.size} ${path.size}`} shapeRendering="crispEdges" style={{ height: '100%', aspectRatio: '1 / 1', display: 'block', flexShrink: 0 }}>
+      <path d={path.d} fill="#000" />
+    </svg>
+  );
+};
+
+const Label: React.FC<{ label: LabelContent; layout: LabelLayout }> = ({ label, layout }) => {
+  const withQr = layout.symbology !== 'code128';
+  const withBarcode = layout.symbology !== 'qr';
+  return (
+    <div style={{ display: 'flex', gap: '2mm', height: '100%', padding: '2mm', boxSizing: 'border-box', fontFamily: 'sans-serif', color: '#000', overflow: 'hidden' }}>
+      {withQr && <QrSvg value={label.value} />}
+      <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1, minWidth: 0 }}>
+        <div style={{ fontSize: '9pt', fontWeight: 800, fontFamily: 'monospace', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{label.title}</div>
+        {layout.showName && <div style={{ fontSize: '7pt', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{label.subtitle}</div>}
+        {withBarcode && <div style={{ flexGrow: 1, minHeight: 0, marginTop: '1mm' }}><BarcodeSvg value={label.value} /></div>}
+      </div>
+    </div>
+  );
+};
+
+const NUMBER_FIELDS: [keyof LabelLayout, string][] = [
+  ['labelWidth', '라벨 폭'], ['labelHeight', '라벨 높이'], ['columns', '열'], ['rows', '행'],
+  ['marginLeft', '왼쪽 여백'], ['marginTop', '위 여백'], ['gapX', '가로 간격'], ['gapY', '세로 간격'],
+  ['pageWidth', '용지 폭'], ['pageHeight', '용지 높이'],
+];
+
+const LabelPrintModal: React.FC<LabelPrintModalProps> = ({ items, products, layout, onChangeLayout, onClose }) => {
+  const [mode, setMode] = useState<'item' | 'serial'>(items.length > 0 ? 'item' : 'serial');
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [productId, setProductId] = useState(products[0]?.id || '');
+  const [serialInput, setSerialInput] = useState('');
+  const [startPosition, setStartPosition] = useState(1);
+  const sheetRef = useRef<HTMLDivElement>(null);
+
+  const product = products.find(p => p.id === productId);
+
+  const { labels, errors } = useMemo(() => {
+    if (mode === 'item') {
+      return {
+        labels: items.flatMap(item => Array.from({ length: copies[item.id] ?? 1 }, (_, i) => ({ key: `${item.id}-${i}`, value: item.code, title: item.code, subtitle: item.name }))),
+        errors: [] as string[],
+      };
+    }
+    const errors: string[] = [];
+    const serials = serialInput.split('\n').map(line => line.trim().toUpperCase()).filter(Boolean).flatMap(line => {
+      try { return parseSerialRange(line); } catch (err) { errors.push(`${line}: ${errorMessage(err)}`); return []; }
+    });
+    return { labels: serials.map((serial, i) => ({ key: `${serial}-${i}`, value: serial, title: serial, subtitle: product ? `${product.code} ${product.name}` : '' })), errors };
+  }, [mode, items, copies, serialInput, product]);
+
+  // 이미 일부 사용한 라벨 용지는 시작 위치 앞을 비워 둠
+  const pages = useMemo(() => {
+    const perPage = labelsPerPage(layout);
+    const slots: (LabelContent | null)[] = [...Array.from({ length: Math.min(Math.max(0, startPosition - 1), perPage - 1) }, () => null), ...labels.slice(0, MAX_LABELS)];
+    return Array.from({ length: Math.ceil(slots.length / perPage) }, (_, i) => slots.slice(i * perPage, (i + 1) * perPage));
+  }, [labels, layout, startPosition]);
+
+  const updateLayout = (patch: Partial<LabelLayout>) => onChangeLayout({ ...layout, ...patch });
+
+  const handlePrint = () => {
+    if (labels.length === 0 || !sheetRef.current) { alert('인쇄할 라벨이 없습니다.'); return; }
+    const win = window.open('', '_blank');
+    if (!win) { alert('팝업이 차단되어 인쇄 창을 열 수 없습니다.'); return; }
+    win.document.write(`<!DOCTYPE html><html><head><meta charset="UTF-8"><title>라벨 인쇄</title><style>@page { size: ${layout.pageWidth}mm ${layout.pageHeight}mm; margin: 0; } body { margin: 0; } .label-page { margin: 0 !important; box-shadow: none !important; } .label-slot { outline: none !important; }</style></head><body>${sheetRef.current.innerHTML}</body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">라벨 인쇄</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">라벨 {labels.length.toLocaleString()} 장 · {pages.length.toLocaleString()} 페이지{labels.length > MAX_LABELS && ` · 최대 ${MAX_LABELS.toLocaleString()} 장까지 인쇄됩니다`}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button onClick={handlePrint} disabled={labels.length === 0} className="px-6 py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100 disabled:bg-slate-200 disabled:text-slate-400 disabled:shadow-none">인쇄</button>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 min-h-0 flex-grow">
+          <div className="p-6 border-r border-slate-100 space-y-5 overflow-y-auto">
+            <div className="flex p-1 bg-slate-100 rounded-xl">
+              <button onClick={() => setMode('item')} className={`flex-1 px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${mode === 'item' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>품목 ({items.length})</button>
+              <button onClick={() => setMode('serial')} className={`flex-1 px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${mode === 'serial' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>일련번호</button>
+            </div>
+            {mode === 'item' ? (
+              items.length === 0 ? (
+                <p className="text-xs font-bold text-slate-400">메인 목록에서 라벨을 인쇄할 품목을 선택하세요.</p>
+              ) : (
+                <div className="space-y-2">
+                  {items.map(item => (
+                    <div key={item.id} className="flex items-center justify-between gap-3">
+                      <p className="text-sm font-black text-slate-700 truncate"><span className="font-mono text-indigo-600">{item.code}</span> {item.name}</p>
+                      <input type="number" min={0} max={100} value={copies[item.id] ?? 1} onChange={(e) => setCopies(prev => ({ ...prev, [item.id]: Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0)) }))} className="w-20 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-right outline-none" title="매수" />
+                    </div>
+                  ))}
+                </div>
+              )
+            ) : (
+              <div className="space-y-3">
+                <select value={productId} onChange={(e) => setProductId(e.target.value)} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                  <option value="">제품 선택 (라벨에 표시)</option>
+                  {products.map(p => <option key={p.id} value={p.id}>{p.code} {p.name}</option>)}
+                </select>
+                <textarea value={serialInput} onChange={(e) => setSerialInput(e.target.value.toUpperCase())} rows={5} placeholder={'한 줄에 하나씩 (범위: SN001~SN050)'} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-mono font-black outline-none" />
+                {errors.map(e => <p key={e} className="text-xs font-bold text-rose-600">{e}</p>)}
+              </div>
+            )}
+            <div className="space-y-3 pt-5 border-t border-slate-100">
+              <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest">용지 / 배치 (mm)</h3>
+              <select value="" onChange={(e) => { const preset = LABEL_PRESETS[parseInt(e.target.value, 10)]; if (preset) updateLayout(preset.layout); }} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                <option value="">용지 선택...</option>
+                {LABEL_PRESETS.map((p, i) => <option key={p.name} value={i}>{p.name}</option>)}
+              </select>
+              <div className="grid grid-cols-2 gap-3">
+                {NUMBER_FIELDS.map(([field, label]) => (
+                  <label key={field} className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                    {label}
+                    <input type="number" min={0} step={field === 'columns' || field === 'rows' ? 1 : 0.1} value={layout[field] as number} onChange={(e) => updateLayout({ [field]: Math.max(field === 'columns' || field === 'rows' ? 1 : 0, parseFloat(e.target.value) || 0) })} className="w-full mt-1 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-sm text-slate-700 outline-none" />
+                  </label>
+                ))}
+              </div>
+              <select value={layout.symbology} onChange={(e) => updateLayout({ symbology: e.target.value as LabelSymbology })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                {(Object.keys(LABEL_SYMBOLOGY_LABELS) as LabelSymbology[]).map(s => <option key={s} value={s}>{LABEL_SYMBOLOGY_LABELS[s]}</option>)}
+              </select>
+              <div className="flex items-center justify-between gap-3">
+                <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={layout.showName} onChange={(e) => updateLayout({ showName: e.target.checked })} className="w-4 h-4 accent-indigo-600" /> 품명 표시
+                </label>
+                <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-slate-500">
+                  시작 위치
+                  <input type="number" min={1} max={labelsPerPage(layout)} value={startPosition} onChange={(e) => setStartPosition(Math.max(1, parseInt(e.target.value, 10) || 1))} className="w-20 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-right outline-none" />
+                </label>
+              </div>
+            </div>
+          </div>
+          <div className="lg:col-span-2 overflow-auto bg-slate-100 p-6">
+            {labels.length === 0 ? (
+              <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">인쇄할 라벨이 없습니다</p>
+            ) : (
+              <div ref={sheetRef}>
+                {pages.map((slots, pageIndex) => (
+                  <div key={pageIndex} className="label-page" style={{ position: 'relative', width: `${layout.pageWidth}mm`, height: `${layout.pageHeight}mm`, background: '#fff', margin: '0 auto 16px', boxShadow: '0 4px 12px rgba(0,0,0,0.1)', pageBreakAfter: pageIndex < pages.length - 1 ? 'always' : 'auto', overflow: 'hidden' }}>
+                    {slots.map((label, i) => label && (
+                      <div key={label.key} className="label-slot" style={{
+                        position: 'absolute', outline: '1px dashed #e2e8f0',
+                        left: `${layout.marginLeft + (i % layout.columns) * (layout.labelWidth + layout.gapX)}mm`,
+                        top: `${layout.marginTop + Math.floor(i / layout.columns) * (layout.labelHeight + layout.gapY)}mm`,
+                        width: `${layout.labelWidth}mm`, height: `${layout.labelHeight}mm`,
+                      }}>
+                        <Label label={label} layout={layout} />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelPrintModal;
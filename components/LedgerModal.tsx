@@ -0,0 +1,202 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Item, Permission, TransactionType } from '../types';
+import { ledgerEntries, filterLedger, sortLedger, ledgerTotals, ledgerModelName, EMPTY_LEDGER_FILTER } from '../services/ledger';
+import type { LedgerEntry, LedgerFilter, LedgerSortKey } from '../services/ledger';
+import { TRANSACTION_TYPE_LABELS, stockDelta } from '../services/stock';
+import { locationName } from '../services/locations';
+import { formatCost } from '../services/valuation';
+import { downloadWorkbook, downloadCsv, ledgerSheet, ITEM_TYPE_LABELS } from '../services/excel';
+import { errorMessage } from '../services/errors';
+import { CloseIcon, SearchIcon, DownloadIcon, ArrowUpIcon, ArrowDownIcon } from './icons';
+
+interface LedgerModalProps {
+  items: Item[];
+  permissions: Permission[];
+  onSelectItem: (itemId: string) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const TYPE_STYLES: Record<TransactionType, string> = {
+  purchase: 'text-emerald-600',
+  release: 'text-rose-600',
+  transfer: 'text-sky-600',
+  adjustment: 'text-amber-600',
+};
+
+const toDateInput = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// 월간 보고서용 빠른 기간 선택
+const monthRange = (offset: number) => {
+  const now = new Date();
+  return { from: toDateInput(new Date(now.getFullYear(), now.getMonth() + offset, 1)), to: toDateInput(new Date(now.getFullYear(), now.getMonth() + offset + 1, 0)) };
+};
+
+const quantityLabel = (e: LedgerEntry) => {
+  const delta = stockDelta(e.transaction);
+  return e.transaction.type === 'transfer' ? e.transaction.quantity.toLocaleString() : `${delta > 0 ? '+' : ''}${delta.toLocaleString()}`;
+};
+
+const LedgerModal: React.FC<LedgerModalProps> = ({ items, permissions, onSelectItem, onClose }) => {
+  const showCosts = permissions.includes('view_costs');
+  const [filter, setFilter] = useState<LedgerFilter>(() => ({ ...EMPTY_LEDGER_FILTER, ...monthRange(0) }));
+  const [sortKey, setSortKey] = useState<LedgerSortKey>('date');
+  const [ascending, setAscending] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const entries = useMemo(() => ledgerEntries(items), [items]);
+  const userIds = useMemo(() => [...new Set(entries.map(e => e.transaction.userId).filter((u): u is string => !!u))].sort(), [entries]);
+  const modelNames = useMemo(() => [...new Set(entries.map(ledgerModelName).filter(m => !!m))].sort(), [entries]);
+  const filtered = useMemo(() => sortLedger(filterLedger(entries, filter), sortKey, ascending), [entries, filter, sortKey, ascending]);
+  const totals = useMemo(() => ledgerTotals(filtered), [filtered]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const pageEntries = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  useEffect(() => { setPage(0); }, [filter, sortKey, ascending]);
+
+  const update = (patch: Partial<LedgerFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+  const toggleType = (type: TransactionType) => update({ types: filter.types.includes(type) ? filter.types.filter(t => t !== type) : [...filter.types, type] });
+
+  const handleSort = (key: LedgerSortKey) => {
+    if (key === sortKey) setAscending(!ascending);
+    else { setSortKey(key); setAscending(key !== 'date' && key !== 'quantity'); }
+  };
+
+  const fileName = (ext: string) => `입출고장부_${filter.from || '처음'}_${filter.to || '현재'}.${ext}`;
+
+  const handleExport = async (format: 'xlsx' | 'csv') => {
+    if (filtered.length === 0) return;
+    const sheet = ledgerSheet(filtered, showCosts);
+    try {
+      if (format === 'csv') downloadCsv(sheet, fileName('csv'));
+      else await downloadWorkbook([sheet], fileName('xlsx'));
+    } catch (err) {
+      alert(`내보내기 실패: ${errorMessage(err)}`);
+    }
+  };
+
+  const header = (key: LedgerSortKey, label: string, align = '') => (
+    <th className={`px-5 py-4 ${align}`}>
+      <button onClick={() => handleSort(key)} className={`inline-flex items-center gap-1 uppercase tracking-widest ${sortKey === key ? 'text-indigo-600' : ''}`}>
+        {label}{sortKey === key && (ascending ? <ArrowUpIcon className="w-3 h-3" /> : <ArrowDownIcon className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  const inputClass = 'px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">입출고 장부</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">
+              {filtered.length.toLocaleString()} / {entries.length.toLocaleString()}건
+              {(['purchase', 'release', 'transfer', 'adjustment'] as const).map(t => totals[t].count > 0 && <span key={t}> · {TRANSACTION_TYPE_LABELS[t]} {totals[t].count.toLocaleString()}건 {totals[t].quantity.toLocaleString()} EA</span>)}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => handleExport('xlsx')} disabled={filtered.length === 0} className="flex items-center gap-2 px-5 py-3 bg-emerald-600 text-white rounded-xl font-black uppercase text-xs tracking-widest shadow-lg shadow-emerald-100 disabled:bg-slate-200 disabled:shadow-none"><DownloadIcon className="w-4 h-4" /> 엑셀</button>
+            <button onClick={() => handleExport('csv')} disabled={filtered.length === 0} className="flex items-center gap-2 px-5 py-3 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-xs tracking-widest disabled:text-slate-300"><DownloadIcon className="w-4 h-4" /> CSV</button>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="px-8 py-5 border-b border-slate-100 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <input type="date" value={filter.from} onChange={(e) => update({ from: e.target.value })} className={inputClass} />
+            <span className="font-black text-slate-300">~</span>
+            <input type="date" value={filter.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} />
+            <button onClick={() => update(monthRange(0))} className="px-3 py-2 bg-slate-100 text-slate-500 rounded-lg font-black text-[10px] uppercase tracking-widest hover:bg-slate-200">이번 달</button>
+            <button onClick={() => update(monthRange(-1))} className="px-3 py-2 bg-slate-100 text-slate-500 rounded-lg font-black text-[10px] uppercase tracking-widest hover:bg-slate-200">지난 달</button>
+            <button onClick={() => update({ from: '', to: '' })} className="px-3 py-2 bg-slate-100 text-slate-500 rounded-lg font-black text-[10px] uppercase tracking-widest hover:bg-slate-200">전체 기간</button>
+            <div className="flex gap-1 ml-2">
+              {(['purchase', 'release', 'transfer', 'adjustment'] as const).map(t => (
+                <button key={t} onClick={() => toggleType(t)} className={`px-3 py-2 rounded-lg font-black text-xs uppercase tracking-widest transition-all ${filter.types.includes(t) ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-400'}`}>{TRANSACTION_TYPE_LABELS[t]}</button>
+              ))}
+            </div>
+            <select value={filter.itemType} onChange={(e) => update({ itemType: e.target.value as Item['type'] | '' })} className={inputClass}>
+              <option value="">전체 품목</option>
+              {(Object.keys(ITEM_TYPE_LABELS) as Item['type'][]).map(t => <option key={t} value={t}>{ITEM_TYPE_LABELS[t]}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="relative w-56">
+              <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-4 h-4" /></span>
+              <input type="text" value={filter.search} onChange={(e) => update({ search: e.target.value })} placeholder="코드 / 품명" className="w-full pl-9 pr-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white" />
+            </div>
+            <input type="text" list="ledger-models" value={filter.modelName} onChange={(e) => update({ modelName: e.target.value })} placeholder="기종" className={`w-40 ${inputClass}`} />
+            <datalist id="ledger-models">{modelNames.map(m => <option key={m} value={m} />)}</datalist>
+            <select value={filter.userId} onChange={(e) => update({ userId: e.target.value })} className={inputClass}>
+              <option value="">전체 아이디</option>
+              {userIds.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+            <input type="text" value={filter.customer} onChange={(e) => update({ customer: e.target.value })} placeholder="고객명 / 연락처" className={`w-44 ${inputClass}`} />
+            <input type="text" value={filter.serial} onChange={(e) => update({ serial: e.target.value.toUpperCase() })} placeholder="일련번호" className={`w-36 ${inputClass}`} />
+            <button onClick={() => setFilter({ ...EMPTY_LEDGER_FILTER })} className="text-[10px] font-black text-indigo-600 underline uppercase tracking-widest">필터 초기화</button>
+          </div>
+        </div>
+        <div className="overflow-y-auto flex-grow">
+          {filtered.length === 0 ? (
+            <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">조건에 맞는 기록이 없습니다</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                <tr>
+                  {header('date', '일시')}
+                  {header('code', '품목')}
+                  {header('type', '구분')}
+                  {header('quantity', '수량', 'text-right')}
+                  <th className="px-5 py-4">위치</th>
+                  {showCosts && <th className="px-5 py-4 text-right">단가</th>}
+                  <th className="px-5 py-4">기종</th>
+                  <th className="px-5 py-4">일련번호</th>
+                  {header('customer', '고객')}
+                  <th className="px-5 py-4">비고</th>
+                  {header('userId', '아이디')}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {pageEntries.map(e => {
+                  const t = e.transaction;
+                  return (
+                    <tr key={t.id} onClick={() => onSelectItem(e.item.id)} className="cursor-pointer hover:bg-indigo-50/20 transition-colors">
+                      <td className="px-5 py-3 font-bold text-slate-600 whitespace-nowrap">{new Date(t.date).toLocaleString()}</td>
+                      <td className="px-5 py-3"><p className="font-mono font-black text-indigo-600">{e.item.code}</p><p className="text-xs font-bold text-slate-500">{e.item.name}</p></td>
+                      <td className={`px-5 py-3 font-black whitespace-nowrap ${TYPE_STYLES[t.type]}`}>{TRANSACTION_TYPE_LABELS[t.type]}</td>
+                      <td className={`px-5 py-3 text-right font-black ${TYPE_STYLES[t.type]}`}>{quantityLabel(e)}</td>
+                      <td className="px-5 py-3 font-bold text-sky-600 whitespace-nowrap">{t.type === 'transfer' ? `${locationName(t.location)} → ${locationName(t.toLocation)}` : locationName(t.location)}</td>
+                      {showCosts && <td className="px-5 py-3 text-right font-bold text-slate-500">{t.unitCost !== undefined ? formatCost(t.unitCost) : '-'}</td>}
+                      <td className="px-5 py-3 font-bold text-slate-500">{ledgerModelName(e) || '-'}</td>
+                      <td className="px-5 py-3 font-mono font-black text-slate-500">{t.serialNumber || '-'}</td>
+                      <td className="px-5 py-3"><p className="font-black text-slate-800">{t.customerName || '-'}</p><p className="text-xs font-bold text-slate-400">{t.phoneNumber || ''}</p></td>
+                      <td className="px-5 py-3 font-bold text-slate-400 max-w-[220px] truncate" title={t.remarks}>{t.remarks || '-'}</td>
+                      <td className="px-5 py-3 font-mono font-bold text-slate-400">{t.userId || '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        {pageCount > 1 && (
+          <div className="px-8 py-4 border-t border-slate-100 flex items-center justify-between bg-slate-50/50">
+            <span className="text-xs font-black uppercase tracking-widest text-slate-400">{(page * PAGE_SIZE + 1).toLocaleString()}–{Math.min(filtered.length, (page + 1) * PAGE_SIZE).toLocaleString()} / {filtered.length.toLocaleString()}</span>
+            <div className="flex items-center gap-2">
+              <button onClick={() => setPage(0)} disabled={page === 0} className="px-3 py-2 bg-white border-2 border-slate-100 rounded-lg font-black text-xs text-slate-500 disabled:text-slate-300">처음</button>
+              <button onClick={() => setPage(page - 1)} disabled={page === 0} className="px-3 py-2 bg-white border-2 border-slate-100 rounded-lg font-black text-xs text-slate-500 disabled:text-slate-300">이전</button>
+              <span className="px-3 text-sm font-black text-slate-600">{page + 1} / {pageCount}</span>
+              <button onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1} className="px-3 py-2 bg-white border-2 border-slate-100 rounded-lg font-black text-xs text-slate-500 disabled:text-slate-300">다음</button>
+              <button onClick={() => setPage(pageCount - 1)} disabled={page >= pageCount - 1} className="px-3 py-2 bg-white border-2 border-slate-100 rounded-lg font-black text-xs text-slate-500 disabled:text-slate-300">마지막</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LedgerModal;
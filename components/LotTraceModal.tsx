@@ -0,0 +1,192 @@
+
+import React, { useState, useMemo } from 'react';
+import type { Item, Supplier } from '../types';
+import { findLots, traceLot, expiryStatus } from '../services/lots';
+import { locationName } from '../services/locations';
+import { downloadWorkbook } from '../services/excel';
+import { errorMessage } from '../services/errors';
+import { EXPIRY_STYLES } from './ItemDetailModal';
+import { CloseIcon, SearchIcon, DownloadIcon } from './icons';
+
+interface LotTraceModalProps {
+  items: Item[];
+  suppliers: Supplier[];
+  onSelectItem: (itemId: string) => void;
+  onClose: () => void;
+}
+
+const EXPIRY_LABELS = { expired: '만료', soon: '만료 임박', ok: '유효' };
+
+const VIA_LABELS = { production: '생산 차감', model: '기종 추정' };
+
+const LotTraceModal: React.FC<LotTraceModalProps> = ({ items, suppliers, onSelectItem, onClose }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const matches = useMemo(() => findLots(items, searchTerm), [items, searchTerm]);
+  const keyOf = (partId: string, lotNumber: string) => `${partId}|${lotNumber}`;
+  const selected = matches.find(m => keyOf(m.part.id, m.lot.lotNumber) === selectedKey);
+  const trace = useMemo(() => selected ? traceLot(items, selected.part, selected.lot.lotNumber) : null, [items, selected]);
+  const supplierName = (id?: string) => id ? suppliers.find(s => s.id === id)?.name || '삭제된 공급처' : '-';
+
+  const handleExport = async () => {
+    if (!selected || !trace) return;
+    try {
+      await downloadWorkbook([
+        {
+          name: '로트 출고',
+          columns: [
+            { header: '일시', key: 'date', width: 18, numFmt: 'yyyy-mm-dd hh:mm' }, { header: '수량', key: 'quantity' }, { header: '위치', key: 'location', width: 12 },
+            { header: '기종', key: 'modelName', width: 16 }, { header: '고객명', key: 'customerName', width: 14 }, { header: '비고', key: 'remarks', width: 30 },
+          ],
+          rows: trace.usages.map(({ transaction: t, quantity }) => ({
+            date: new Date(t.date), quantity, location: locationName(t.location), modelName: t.modelName || '', customerName: t.customerName || '', remarks: t.remarks || '',
+          })),
+        },
+        {
+          name: '관련 제품',
+          columns: [
+            { header: '제품 코드', key: 'code', width: 16 }, { header: '제품명', key: 'name', width: 24 }, { header: '일련번호', key: 'serialNumber', width: 16 },
+            { header: '입고일시', key: 'date', width: 18, numFmt: 'yyyy-mm-dd hh:mm' }, { header: '수량', key: 'quantity' }, { header: '근거', key: 'via', width: 12 },
+          ],
+          rows: trace.products.map(p => ({
+            code: p.product.code, name: p.product.name, serialNumber: p.transaction.serialNumber || '', date: new Date(p.transaction.date), quantity: p.transaction.quantity, via: VIA_LABELS[p.via],
+          })),
+        },
+      ], `로트추적_${selected.part.code}_${selected.lot.lotNumber}.xlsx`);
+    } catch (err) {
+      alert(`내보내기 실패: ${errorMessage(err)}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">로트 추적</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">로트 → 출고 기록 → 제품 일련번호</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {trace && (
+              <button onClick={handleExport} className="flex items-center gap-2 px-5 py-3 bg-emerald-50 text-emerald-600 border-2 border-emerald-100 rounded-2xl text-sm font-black hover:bg-emerald-600 hover:text-white transition-all uppercase"><DownloadIcon className="w-5 h-5" /> 엑셀</button>
+            )}
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 min-h-0 flex-grow">
+          <div className="border-r border-slate-100 flex flex-col min-h-0">
+            <div className="p-5 border-b border-slate-100">
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-5 h-5" /></span>
+                <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="로트 번호 검색" className="w-full pl-10 pr-3 py-3 border-2 border-slate-100 rounded-xl font-mono font-bold outline-none" autoFocus />
+              </div>
+            </div>
+            <ul className="overflow-y-auto divide-y divide-slate-50">
+              {matches.length === 0 && <li className="p-10 text-center text-sm font-black text-slate-300 uppercase tracking-widest">로트 기록이 없습니다</li>}
+              {matches.map(({ part, lot }) => {
+                const status = expiryStatus(lot.expiryDate);
+                return (
+                  <li key={keyOf(part.id, lot.lotNumber)}>
+                    <button onClick={() => setSelectedKey(keyOf(part.id, lot.lotNumber))} className={`w-full px-5 py-3 text-left hover:bg-indigo-50/30 transition-colors ${selectedKey === keyOf(part.id, lot.lotNumber) ? 'bg-indigo-50/60' : ''}`}>
+                      <div className="flex items-center gap-2">
+                        <p className="font-mono font-black text-slate-800">{lot.lotNumber}</p>
+                        {status && status !== 'ok' && <span className={`px-2 py-0.5 rounded-full text-[10px] font-black ${EXPIRY_STYLES[status]}`}>{EXPIRY_LABELS[status]}</span>}
+                      </div>
+                      <p className="text-xs font-bold text-slate-400">{part.code} {part.name} · 잔량 {lot.total.toLocaleString()} / {lot.received.toLocaleString()}</p>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+          <div className="lg:col-span-2 overflow-y-auto p-8">
+            {!selected || !trace ? (
+              <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">로트를 선택하세요</p>
+            ) : (
+              <div className="space-y-8">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <button onClick={() => onSelectItem(selected.part.id)} className="p-5 bg-slate-50 rounded-2xl text-left hover:bg-indigo-50 transition-colors">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">부품</p>
+                    <p className="font-mono font-black text-indigo-600">{selected.part.code}</p>
+                    <p className="text-xs font-bold text-slate-500 truncate">{selected.part.name}</p>
+                  </button>
+                  <div className="p-5 bg-slate-50 rounded-2xl">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">입고 / 공급처</p>
+                    <p className="font-black text-slate-800">{selected.lot.receivedAt ? new Date(selected.lot.receivedAt).toLocaleDateString() : '-'}</p>
+                    <p className="text-xs font-bold text-slate-500 truncate">{supplierName(selected.lot.supplierId)}</p>
+                  </div>
+                  <div className="p-5 bg-slate-50 rounded-2xl">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">유효기한</p>
+                    <p className="font-black text-slate-800">{selected.lot.expiryDate || '-'}</p>
+                    {expiryStatus(selected.lot.expiryDate) && <p className={`inline-block mt-1 px-2 py-0.5 rounded-full text-[10px] font-black ${EXPIRY_STYLES[expiryStatus(selected.lot.expiryDate)!]}`}>{EXPIRY_LABELS[expiryStatus(selected.lot.expiryDate)!]}</p>}
+                  </div>
+                  <div className="p-5 bg-slate-50 rounded-2xl">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">잔량 / 입고</p>
+                    <p className="font-black text-slate-800">{selected.lot.total.toLocaleString()} / {selected.lot.received.toLocaleString()} EA</p>
+                    <p className="text-xs font-bold text-slate-500 truncate">{Object.keys(selected.lot.locations).filter(l => selected.lot.locations[l] > 0).map(l => `${locationName(l)} ${selected.lot.locations[l]}`).join(', ') || '-'}</p>
+                  </div>
+                </div>
+                <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-hidden bg-slate-50/50">
+                  <div className="px-6 py-4 bg-white border-b-2 border-slate-100 flex justify-between items-center">
+                    <span className="text-sm font-black uppercase text-slate-400 tracking-widest">출고 기록</span>
+                    <span className="text-sm font-black text-rose-600">{trace.usages.reduce((acc, u) => acc + u.quantity, 0).toLocaleString()} EA</span>
+                  </div>
+                  {trace.usages.length === 0 ? (
+                    <p className="p-6 text-center text-sm font-black text-slate-300 uppercase tracking-widest">출고 기록이 없습니다</p>
+                  ) : (
+                    <table className="w-full text-left text-sm">
+                      <thead className="bg-white text-xs font-black uppercase text-slate-400 tracking-widest">
+                        <tr><th className="px-6 py-3">일시</th><th className="px-6 py-3 text-right">수량</th><th className="px-6 py-3">위치</th><th className="px-6 py-3">기종</th><th className="px-6 py-3">비고</th></tr>
+                      </thead>
+                      <tbody className="divide-y-2 divide-white">
+                        {trace.usages.map(({ transaction: t, quantity }) => (
+                          <tr key={t.id}>
+                            <td className="px-6 py-3 font-bold text-slate-600 whitespace-nowrap">{new Date(t.date).toLocaleString()}</td>
+                            <td className="px-6 py-3 text-right font-black text-rose-600">-{quantity.toLocaleString()}</td>
+                            <td className="px-6 py-3 font-bold text-slate-500">{locationName(t.location)}</td>
+                            <td className="px-6 py-3 font-black text-slate-700">{t.modelName || '-'}</td>
+                            <td className="px-6 py-3 font-bold text-slate-400 max-w-[260px] truncate" title={t.remarks}>{t.customerName ? `${t.customerName} · ` : ''}{t.remarks || '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+                <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-hidden bg-slate-50/50">
+                  <div className="px-6 py-4 bg-white border-b-2 border-slate-100 flex justify-between items-center">
+                    <span className="text-sm font-black uppercase text-slate-400 tracking-widest">관련 제품</span>
+                    <span className="text-sm font-black text-indigo-600">{trace.products.length.toLocaleString()} 건</span>
+                  </div>
+                  {trace.products.length === 0 ? (
+                    <p className="p-6 text-center text-sm font-black text-slate-300 uppercase tracking-widest">연결된 제품이 없습니다</p>
+                  ) : (
+                    <table className="w-full text-left text-sm">
+                      <thead className="bg-white text-xs font-black uppercase text-slate-400 tracking-widest">
+                        <tr><th className="px-6 py-3">제품</th><th className="px-6 py-3">일련번호</th><th className="px-6 py-3">입고일시</th><th className="px-6 py-3 text-right">수량</th><th className="px-6 py-3">근거</th></tr>
+                      </thead>
+                      <tbody className="divide-y-2 divide-white">
+                        {trace.products.map(p => (
+                          <tr key={p.transaction.id} onClick={() => onSelectItem(p.product.id)} className="cursor-pointer hover:bg-indigo-50/30">
+                            <td className="px-6 py-3"><p className="font-mono font-black text-indigo-600">{p.product.code}</p><p className="text-xs font-bold text-slate-400">{p.product.name}</p></td>
+                            <td className="px-6 py-3 font-mono font-black text-slate-700">{p.transaction.serialNumber || '-'}</td>
+                            <td className="px-6 py-3 font-bold text-slate-600 whitespace-nowrap">{new Date(p.transaction.date).toLocaleString()}</td>
+                            <td className="px-6 py-3 text-right font-black text-slate-800">{p.transaction.quantity.toLocaleString()}</td>
+                            <td className="px-6 py-3"><span className={`px-2 py-0.5 rounded-full text-[10px] font-black ${p.via === 'production' ? 'bg-indigo-100 text-indigo-600' : 'bg-amber-100 text-amber-600'}`}>{VIA_LABELS[p.via]}</span></td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+                <p className="text-xs font-bold text-slate-400">생산 차감: BOM 자동 출고로 이 로트를 쓴 제품 입고. 기종 추정: 기종을 적어 출고한 경우, 같은 기종의 BOM 에 이 부품이 있는 제품 중 출고 후 같은 기종의 다음 출고 전까지 입고된 제품.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LotTraceModal;
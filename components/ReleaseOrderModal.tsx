@@ -0,0 +1,403 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { Item, Customer, Permission, Reservation, ReleaseOrder, ReleaseOrderLine, ReleaseOrderStatus } from '../types';
+import { RELEASE_ORDER_STATUS_LABELS, VAT_RATE, stockSerials, releaseOrderErrors, releaseOrderTotals, lineAmount } from '../services/releaseOrders';
+import { availableLocationStock } from '../services/reservations';
+import type { SerialUnit } from '../services/serials';
+import { LOCATIONS, MAIN_LOCATION_ID, locationName } from '../services/locations';
+import { formatCost } from '../services/valuation';
+import { CloseIcon, SearchIcon, PlusIcon, CheckIcon, TrashIcon } from './icons';
+
+export type ReleaseOrderFormData = Pick<ReleaseOrder, 'customerId' | 'customerName' | 'phoneNumber' | 'address' | 'location' | 'lines' | 'remarks'>;
+
+interface ReleaseOrderModalProps {
+  releaseOrders: ReleaseOrder[];
+  items: Item[];
+  customers: Customer[];
+  serialRegistry: Map<string, SerialUnit>;
+  reservations: Reservation[];
+  permissions: Permission[];
+  onSave: (orderId: string | null, data: ReleaseOrderFormData, pick?: boolean) => ReleaseOrder | null;
+  onShip: (orderId: string) => boolean;
+  onChangeStatus: (orderId: string, status: 'draft' | 'cancelled') => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM: ReleaseOrderFormData = { customerName: '', phoneNumber: '', address: '', location: MAIN_LOCATION_ID, lines: [], remarks: '' };
+
+const STATUS_STYLES: Record<ReleaseOrderStatus, string> = {
+  draft: 'bg-slate-100 text-slate-500',
+  picked: 'bg-amber-50 text-amber-600',
+  shipped: 'bg-emerald-50 text-emerald-600',
+  cancelled: 'bg-slate-100 text-slate-300',
+};
+
+type DocumentKind = 'delivery' | 'packing';
+
+const DOCUMENT_LABELS: Record<DocumentKind, string> = { delivery: '거래명세서', packing: '포장 명세서' };
+
+// 인쇄 창으로 그대로 옮기므로 Tailwind 대신 인라인 스타일 사용
+const cell: React.CSSProperties = { border: '1px solid #334155', padding: '4px 6px', fontSize: '11px', verticalAlign: 'top' };
+const headCell: React.CSSProperties = { ...cell, background: '#f1f5f9', fontWeight: 700, textAlign: 'center' };
+const numCell: React.CSSProperties = { ...cell, textAlign: 'right', whiteSpace: 'nowrap' };
+
+const OrderDocument: React.FC<{ order: ReleaseOrder; kind: DocumentKind; itemById: Map<string, Item> }> = ({ order, kind, itemById }) => {
+  const totals = releaseOrderTotals(order);
+  const date = new Date(order.shippedAt || order.pickedAt || order.createdAt).toLocaleDateString();
+  return (
+    <div style={{ width: '190mm', margin: '0 auto', fontFamily: 'sans-serif', color: '#0f172a', background: '#fff' }}>
+      <h1 style={{ textAlign: 'center', fontSize: '22px', letterSpacing: '0.5em', margin: '0 0 12px' }}>{DOCUMENT_LABELS[kind]}</h1>
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '10px' }}>
+        <tbody>
+          <tr><th style={headCell}>주문 번호</th><td style={cell}>{order.orderNumber}</td><th style={headCell}>일자</th><td style={cell}>{date}</td></tr>
+          <tr><th style={headCell}>공급받는자</th><td style={cell}>{order.customerName || '-'}</td><th style={headCell}>연락처</th><td style={cell}>{order.phoneNumber || '-'}</td></tr>
+          <tr><th style={headCell}>배송 주소</th><td style={cell} colSpan={3}>{order.address || '-'}</td></tr>
+          {kind === 'packing' && <tr><th style={headCell}>출고 위치</th><td style={cell} colSpan={3}>{locationName(order.location)}</td></tr>}
+        </tbody>
+      </table>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={headCell}>No</th><th style={headCell}>품번</th><th style={headCell}>품명 / 규격</th><th style={headCell}>수량</th>
+            {kind === 'delivery' && <><th style={headCell}>단가</th><th style={headCell}>공급가액</th></>}
+            <th style={headCell}>일련번호</th>
+            {kind === 'packing' && <th style={headCell}>확인</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {order.lines.map((line, index) => {
+            const item = itemById.get(line.itemId);
+            return (
+              <tr key={`${line.itemId}-${index}`}>
+                <td style={{ ...cell, textAlign: 'center' }}>{index + 1}</td>
+                <td style={{ ...cell, fontFamily: 'monospace' }}>{item?.code || '-'}</td>
+                <td style={cell}>{item?.name || '(삭제된 품목)'}{item?.spec ? ` / ${item.spec}` : ''}</td>
+                <td style={numCell}>{line.quantity.toLocaleString()}</td>
+                {kind === 'delivery' && <><td style={numCell}>{line.unitPrice ? formatCost(line.unitPrice) : ''}</td><td style={numCell}>{line.unitPrice ? formatCost(lineAmount(line)) : ''}</td></>}
+                <td style={{ ...cell, fontFamily: 'monospace', fontSize: '10px' }}>{(line.serials || []).join(', ')}</td>
+                {kind === 'packing' && <td style={{ ...cell, width: '40px' }}></td>}
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr>
+            <th style={headCell} colSpan={3}>합계</th><td style={numCell}>{totals.quantity.toLocaleString()}</td>
+            {kind === 'delivery' && <><td style={cell}></td><td style={numCell}>{formatCost(totals.supply)}</td></>}
+            <td style={cell} colSpan={kind === 'packing' ? 2 : 1}></td>
+          </tr>
+        </tfoot>
+      </table>
+      {kind === 'delivery' ? (
+        <table style={{ width: '60%', marginLeft: 'auto', marginTop: '10px', borderCollapse: 'collapse' }}>
+          <tbody>
+            <tr><th style={headCell}>공급가액</th><td style={numCell}>{formatCost(totals.supply)}</td></tr>
+            <tr><th style={headCell}>세액 ({Math.round(VAT_RATE * 100)}%)</th><td style={numCell}>{formatCost(totals.tax)}</td></tr>
+            <tr><th style={headCell}>합계 금액</th><td style={{ ...numCell, fontWeight: 700 }}>{formatCost(totals.total)}</td></tr>
+          </tbody>
+        </table>
+      ) : (
+        <table style={{ width: '60%', marginLeft: 'auto', marginTop: '16px', borderCollapse: 'collapse' }}>
+          <tbody>
+            <tr><th style={headCell}>포장</th><th style={headCell}>검수</th><th style={headCell}>인수</th></tr>
+            <tr><td style={{ ...cell, height: '48px' }}></td><td style={cell}></td><td style={cell}></td></tr>
+          </tbody>
+        </table>
+      )}
+      {order.remarks && <p style={{ fontSize: '11px', marginTop: '10px' }}>비고: {order.remarks}</p>}
+    </div>
+  );
+};
+
+const ReleaseOrderModal: React.FC<ReleaseOrderModalProps> = ({ releaseOrders, items, customers, serialRegistry, reservations, permissions, onSave, onShip, onChangeStatus, onClose }) => {
+  const canEdit = permissions.includes('release');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ReleaseOrderStatus | ''>('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [formData, setFormData] = useState<ReleaseOrderFormData>(EMPTY_FORM);
+  const [lineItemId, setLineItemId] = useState('');
+  const [lineQuantity, setLineQuantity] = useState('1');
+  const [documentKind, setDocumentKind] = useState<DocumentKind>('delivery');
+  const documentRef = useRef<HTMLDivElement>(null);
+
+  const selected = releaseOrders.find(o => o.id === selectedId);
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const editable = canEdit && (isNew || selected?.status === 'draft');
+
+  useEffect(() => {
+    setFormData(selected
+      ? { customerId: selected.customerId, customerName: selected.customerName, phoneNumber: selected.phoneNumber, address: selected.address, location: selected.location, lines: selected.lines, remarks: selected.remarks }
+      : EMPTY_FORM);
+    setLineItemId(''); setLineQuantity('1');
+  }, [selected]);
+
+  const filteredOrders = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return releaseOrders
+      .filter(o => !statusFilter || o.status === statusFilter)
+      .filter(o => !term || `${o.orderNumber} ${o.customerName} ${o.phoneNumber}`.toLowerCase().includes(term))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, [releaseOrders, statusFilter, searchTerm]);
+
+  const available = useMemo(() => new Map(items.map(i => [i.id, availableLocationStock(i, reservations)[formData.location] || 0])), [items, reservations, formData.location]);
+  const serialsByItem = useMemo(() => new Map(formData.lines.map(l => [l.itemId, stockSerials(serialRegistry, l.itemId, formData.location)])), [formData.lines, formData.location, serialRegistry]);
+  const errors = useMemo(() => editable && formData.lines.length > 0 ? releaseOrderErrors(formData, items, serialRegistry, reservations) : [], [editable, formData, items, serialRegistry, reservations]);
+  const totals = releaseOrderTotals(formData);
+
+  const updateLine = (index: number, patch: Partial<ReleaseOrderLine>) => {
+    setFormData(prev => ({ ...prev, lines: prev.lines.map((l, i) => i === index ? { ...l, ...patch } : l) }));
+  };
+
+  const toggleSerial = (index: number, serial: string) => {
+    const line = formData.lines[index];
+    const serials = (line.serials || []).includes(serial) ? (line.serials || []).filter(s => s !== serial) : [...(line.serials || []), serial];
+    updateLine(index, { serials, quantity: serials.length });
+  };
+
+  // 같은 품목은 한 줄로 합침 (일련번호 제품은 줄에서 번호를 고름)
+  const handleAddLine = () => {
+    const quantity = parseInt(lineQuantity, 10) || 0;
+    if (!lineItemId || quantity <= 0) { alert('품목과 수량을 확인하세요.'); return; }
+    const hasSerials = stockSerials(serialRegistry, lineItemId, formData.location).length > 0;
+    const index = formData.lines.findIndex(l => l.itemId === lineItemId);
+    if (index >= 0) {
+      if (!hasSerials) updateLine(index, { quantity: formData.lines[index].quantity + quantity });
+    } else {
+      setFormData(prev => ({ ...prev, lines: [...prev.lines, hasSerials ? { itemId: lineItemId, quantity: 0, serials: [] } : { itemId: lineItemId, quantity }] }));
+    }
+    setLineItemId(''); setLineQuantity('1');
+  };
+
+  // 위치를 바꾸면 고른 일련번호는 다시 골라야 함
+  const handleLocationChange = (location: string) => {
+    setFormData(prev => ({ ...prev, location, lines: prev.lines.map(l => l.serials ? { ...l, serials: [], quantity: 0 } : l) }));
+  };
+
+  const handleCustomerNameChange = (customerName: string) => {
+    const match = customers.find(c => c.name === customerName);
+    setFormData(prev => match
+      ? { ...prev, customerName, customerId: match.id, phoneNumber: match.phoneNumber, address: match.address }
+      : { ...prev, customerName, customerId: undefined });
+  };
+
+  const handleSave = (pick: boolean) => {
+    if (!formData.customerName.trim()) { alert('고객을 입력하세요.'); return; }
+    const saved = onSave(selected ? selected.id : null, { ...formData, customerName: formData.customerName.trim(), remarks: formData.remarks.trim() }, pick);
+    if (!saved) return;
+    setIsNew(false);
+    setSelectedId(saved.id);
+  };
+
+  const handleShip = () => {
+    if (!selected || !confirm(`${selected.orderNumber} 을(를) 출하하시겠습니까? 모든 품목의 출고 기록이 한 번에 등록됩니다.`)) return;
+    onShip(selected.id);
+  };
+
+  const handleCancelOrder = () => {
+    if (!selected || !confirm(`${selected.orderNumber} 주문을 취소하시겠습니까?`)) return;
+    onChangeStatus(selected.id, 'cancelled');
+  };
+
+  const handlePrint = () => {
+    if (!selected || !documentRef.current) return;
+    const win = window.open('', '_blank');
+    if (!win) { alert('팝업이 차단되어 인쇄 창을 열 수 없습니다.'); return; }
+    win.document.write(`<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${DOCUMENT_LABELS[documentKind]} ${selected.orderNumber}</title><style>@page { size: A4; margin: 10mm; } body { margin: 0; }</style></head><body>${documentRef.current.innerHTML}</body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">출고 주문</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">작성 중 → 피킹 완료 → 출하 완료 · 출하할 때 모든 출고 기록이 한 번에 등록됩니다</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {canEdit && (
+              <button onClick={() => { setSelectedId(null); setIsNew(true); setFormData(EMPTY_FORM); }} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-2xl text-sm font-black hover:bg-indigo-700 transition-all uppercase shadow-md"><PlusIcon className="w-5 h-5" /> 신규 주문</button>
+            )}
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 min-h-0 flex-grow">
+          <div className="border-r border-slate-100 flex flex-col min-h-0">
+            <div className="p-5 border-b border-slate-100 space-y-3">
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-5 h-5" /></span>
+                <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="주문 번호 / 고객 검색" className="w-full pl-10 pr-3 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none" />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {([['', '전체'], ...(Object.keys(RELEASE_ORDER_STATUS_LABELS) as ReleaseOrderStatus[]).map(s => [s, RELEASE_ORDER_STATUS_LABELS[s]])] as [ReleaseOrderStatus | '', string][]).map(([value, label]) => (
+                  <button key={value} onClick={() => setStatusFilter(value)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${statusFilter === value ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-400'}`}>{label}</button>
+                ))}
+              </div>
+            </div>
+            <ul className="overflow-y-auto divide-y divide-slate-50">
+              {filteredOrders.length === 0 && <li className="p-10 text-center text-sm font-black text-slate-300 uppercase tracking-widest">출고 주문이 없습니다</li>}
+              {filteredOrders.map(o => (
+                <li key={o.id}>
+                  <button onClick={() => { setIsNew(false); setSelectedId(o.id); }} className={`w-full px-5 py-3 text-left hover:bg-indigo-50/30 transition-colors ${selectedId === o.id ? 'bg-indigo-50/60' : ''}`}>
+                    <div className="flex justify-between items-center gap-2">
+                      <p className="font-mono font-black text-indigo-600">{o.orderNumber}</p>
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-black uppercase tracking-widest ${STATUS_STYLES[o.status]}`}>{RELEASE_ORDER_STATUS_LABELS[o.status]}</span>
+                    </div>
+                    <p className="text-xs font-bold text-slate-400">{o.customerName || '-'} · {o.lines.length} 품목 · {releaseOrderTotals(o).quantity.toLocaleString()} EA · {new Date(o.createdAt).toLocaleDateString()}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="lg:col-span-2 overflow-y-auto p-8">
+            {!selected && !isNew ? (
+              <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">출고 주문을 선택하세요</p>
+            ) : (
+              <div className="space-y-8">
+                {selected && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-2xl font-mono font-black text-slate-800">{selected.orderNumber}</span>
+                    <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${STATUS_STYLES[selected.status]}`}>{RELEASE_ORDER_STATUS_LABELS[selected.status]}</span>
+                    <span className="text-xs font-bold text-slate-400">
+                      작성 {new Date(selected.createdAt).toLocaleString()} {selected.createdBy}
+                      {selected.pickedAt && ` · 피킹 ${new Date(selected.pickedAt).toLocaleString()} ${selected.pickedBy || ''}`}
+                      {selected.shippedAt && ` · 출하 ${new Date(selected.shippedAt).toLocaleString()} ${selected.shippedBy || ''}`}
+                    </span>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">고객 *</label>
+                    <input type="text" list="release-order-customers" value={formData.customerName} disabled={!editable} onChange={(e) => handleCustomerNameChange(e.target.value)} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none disabled:bg-slate-50" />
+                    <datalist id="release-order-customers">{customers.map(c => <option key={c.id} value={c.name}>{c.phoneNumber}</option>)}</datalist>
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">연락처</label>
+                    <input type="text" value={formData.phoneNumber} disabled={!editable} onChange={(e) => setFormData({ ...formData, phoneNumber: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">배송 주소</label>
+                    <input type="text" value={formData.address} disabled={!editable} onChange={(e) => setFormData({ ...formData, address: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">출고 위치</label>
+                    <select value={formData.location} disabled={!editable} onChange={(e) => handleLocationChange(e.target.value)} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none bg-white disabled:bg-slate-50">
+                      {LOCATIONS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
+                    <input type="text" value={formData.remarks} disabled={!editable} onChange={(e) => setFormData({ ...formData, remarks: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                </div>
+                <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-hidden bg-slate-50/50">
+                  <div className="px-6 py-4 bg-white border-b-2 border-slate-100 flex justify-between items-center">
+                    <span className="text-sm font-black uppercase text-slate-400 tracking-widest">출고 품목</span>
+                    <span className="text-sm font-black text-indigo-600">{totals.quantity.toLocaleString()} EA · 공급가액 {formatCost(totals.supply)} 원</span>
+                  </div>
+                  {formData.lines.length === 0 ? (
+                    <p className="p-6 text-center text-sm font-black text-slate-300 uppercase tracking-widest">품목을 추가하세요</p>
+                  ) : (
+                    <table className="w-full text-left text-sm">
+                      <thead className="bg-white text-xs font-black uppercase text-slate-400 tracking-widest">
+                        <tr><th className="px-6 py-3">품목</th><th className="px-6 py-3 text-right">수량</th><th className="px-6 py-3 text-right">단가</th><th className="px-6 py-3 text-right">금액</th>{editable && <th className="px-6 py-3 text-right">가용</th>}{editable && <th className="px-6 py-3"></th>}</tr>
+                      </thead>
+                      <tbody className="divide-y-2 divide-white">
+                        {formData.lines.map((line, index) => {
+                          const item = itemById.get(line.itemId);
+                          const serials = serialsByItem.get(line.itemId) || [];
+                          return (
+                            <tr key={line.itemId} className="align-top">
+                              <td className="px-6 py-3">
+                                <p className="font-mono font-black text-indigo-600">{item?.code || '-'}</p>
+                                <p className="text-xs font-bold text-slate-400">{item?.name || '(삭제된 품목)'}</p>
+                                {line.serials && (editable ? (
+                                  <div className="flex flex-wrap gap-1 mt-2 max-h-28 overflow-y-auto">
+                                    {serials.length === 0 && <span className="text-[10px] font-black text-rose-500 uppercase tracking-widest">{locationName(formData.location)} 재고 일련번호 없음</span>}
+                                    {serials.map(s => (
+                                      <button key={s} onClick={() => toggleSerial(index, s)} className={`px-2 py-1 rounded-lg font-mono text-[11px] font-black ${line.serials!.includes(s) ? 'bg-rose-500 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}>{s}</button>
+                                    ))}
+                                  </div>
+                                ) : <p className="mt-1 font-mono text-[11px] font-black text-slate-500">{line.serials.join(', ')}</p>)}
+                              </td>
+                              <td className="px-6 py-3 text-right">
+                                {editable && !line.serials ? (
+                                  <input type="number" min="1" value={line.quantity} onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value, 10) || 0 })} className="w-24 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-right outline-none" />
+                                ) : <span className="font-black text-slate-800">{line.quantity.toLocaleString()}</span>}
+                              </td>
+                              <td className="px-6 py-3 text-right">
+                                {editable ? (
+                                  <input type="number" min="0" value={line.unitPrice ?? ''} onChange={(e) => updateLine(index, { unitPrice: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })} className="w-28 px-3 py-2 border-2 border-slate-100 rounded-xl font-bold text-right outline-none" />
+                                ) : <span className="font-bold text-slate-600">{line.unitPrice ? formatCost(line.unitPrice) : '-'}</span>}
+                              </td>
+                              <td className="px-6 py-3 text-right font-black text-slate-800">{line.unitPrice ? formatCost(lineAmount(line)) : '-'}</td>
+                              {editable && <td className={`px-6 py-3 text-right font-black ${line.quantity > (available.get(line.itemId) || 0) ? 'text-rose-600' : 'text-slate-400'}`}>{(available.get(line.itemId) || 0).toLocaleString()}</td>}
+                              {editable && (
+                                <td className="px-6 py-3 text-right">
+                                  <button onClick={() => setFormData(prev => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }))} className="p-2 text-slate-300 hover:text-rose-600 transition-all"><TrashIcon className="w-5 h-5" /></button>
+                                </td>
+                              )}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                  {editable && (
+                    <div className="px-6 py-4 bg-white border-t-2 border-slate-100 flex gap-2">
+                      <select value={lineItemId} onChange={(e) => setLineItemId(e.target.value)} className="flex-grow min-w-0 px-4 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                        <option value="">품목 선택</option>
+                        {items.map(i => <option key={i.id} value={i.id}>{i.type === 'part' ? '[부품]' : '[제품]'} {i.code} {i.name} (가용 {(available.get(i.id) || 0).toLocaleString()})</option>)}
+                      </select>
+                      {!(lineItemId && stockSerials(serialRegistry, lineItemId, formData.location).length > 0) && (
+                        <input type="number" min="1" value={lineQuantity} onChange={(e) => setLineQuantity(e.target.value)} className="w-24 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-right outline-none" />
+                      )}
+                      <button onClick={handleAddLine} className="px-4 bg-slate-100 text-slate-600 rounded-xl font-black hover:bg-slate-200 transition-all"><PlusIcon className="w-5 h-5" /></button>
+                    </div>
+                  )}
+                </div>
+                {errors.length > 0 && (
+                  <div className="p-4 rounded-2xl border-2 border-rose-100 bg-rose-50/50 space-y-1">
+                    {errors.map(e => <p key={e} className="text-xs font-black text-rose-600">{e}</p>)}
+                  </div>
+                )}
+                {canEdit && (
+                  <div className="flex justify-end gap-3 flex-wrap">
+                    {selected && (selected.status === 'draft' || selected.status === 'picked') && (
+                      <button onClick={handleCancelOrder} className="px-6 py-3 bg-slate-100 text-slate-500 rounded-xl font-black uppercase text-sm tracking-widest hover:bg-slate-200 transition-all">주문 취소</button>
+                    )}
+                    {editable && <button onClick={() => handleSave(false)} className="flex items-center gap-2 px-6 py-3 bg-white text-indigo-600 border-2 border-indigo-100 rounded-xl font-black uppercase text-sm tracking-widest"><CheckIcon className="w-5 h-5" /> 저장</button>}
+                    {editable && <button onClick={() => handleSave(true)} className="px-6 py-3 bg-amber-500 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg hover:bg-amber-600 transition-all">피킹 완료</button>}
+                    {selected?.status === 'picked' && <button onClick={() => onChangeStatus(selected.id, 'draft')} className="px-6 py-3 bg-white text-slate-500 border-2 border-slate-100 rounded-xl font-black uppercase text-sm tracking-widest">작성 중으로 되돌림</button>}
+                    {selected?.status === 'picked' && <button onClick={handleShip} className="px-6 py-3 bg-emerald-500 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg hover:bg-emerald-600 transition-all">출하 확정</button>}
+                  </div>
+                )}
+                {selected && (
+                  <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-hidden">
+                    <div className="px-6 py-4 bg-white border-b-2 border-slate-100 flex justify-between items-center gap-2">
+                      <div className="flex gap-2">
+                        {(Object.keys(DOCUMENT_LABELS) as DocumentKind[]).map(kind => (
+                          <button key={kind} onClick={() => setDocumentKind(kind)} className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${documentKind === kind ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-400'}`}>{DOCUMENT_LABELS[kind]}</button>
+                        ))}
+                      </div>
+                      <button onClick={handlePrint} className="px-6 py-2 bg-indigo-600 text-white rounded-xl font-black uppercase text-xs tracking-widest shadow-lg shadow-indigo-100">인쇄</button>
+                    </div>
+                    <div className="p-6 bg-slate-100 overflow-x-auto">
+                      <div ref={documentRef} className="bg-white p-6 shadow">
+                        <OrderDocument order={selected} kind={documentKind} itemById={itemById} />
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReleaseOrderModal;
@@ -0,0 +1,249 @@
+
+import React, { useState, useMemo } from 'react';
+import type { Item } from '../types';
+import { recentMonths, monthlyFlows, monthlyTotals, turnoverReport, agingReport, topCustomers, AGING_BUCKETS } from '../services/reports';
+import type { FlowGroup } from '../services/reports';
+import { formatCost } from '../services/valuation';
+import type { ItemValuation } from '../services/valuation';
+import { downloadWorkbook, ITEM_TYPE_LABELS } from '../services/excel';
+import type { SheetSpec } from '../services/excel';
+import { errorMessage } from '../services/errors';
+import BarChart from './BarChart';
+import { CloseIcon, DownloadIcon } from './icons';
+
+interface ReportsModalProps {
+  items: Item[];
+  valuations?: Map<string, ItemValuation>; // 원가 조회 권한이 있을 때만
+  onClose: () => void;
+}
+
+type ReportTab = 'flows' | 'turnover' | 'aging' | 'customers';
+
+const TAB_LABELS: Record<ReportTab, string> = {
+  flows: '월별 입출고',
+  turnover: '재고 회전율',
+  aging: '장기 재고',
+  customers: '고객 순위',
+};
+
+const PERIODS = [3, 6, 12];
+const CHART_TOP = 10;
+
+const ReportsModal: React.FC<ReportsModalProps> = ({ items, valuations, onClose }) => {
+  const [tab, setTab] = useState<ReportTab>('flows');
+  const [monthCount, setMonthCount] = useState(6);
+  const [itemType, setItemType] = useState<Item['type'] | ''>('');
+  const [flowGroup, setFlowGroup] = useState<FlowGroup>('item');
+
+  const months = useMemo(() => recentMonths(monthCount), [monthCount]);
+  const scoped = useMemo(() => items.filter(i => !itemType || i.type === itemType), [items, itemType]);
+  const flows = useMemo(() => monthlyFlows(scoped, months, flowGroup), [scoped, months, flowGroup]);
+  const flowTotals = useMemo(() => monthlyTotals(flows, months), [flows, months]);
+  const turnover = useMemo(() => turnoverReport(scoped, months), [scoped, months]);
+  const aging = useMemo(() => agingReport(scoped), [scoped]);
+  const customers = useMemo(() => topCustomers(scoped.filter(i => i.type === 'product'), months), [scoped, months]);
+
+  const agingBuckets = useMemo(() => AGING_BUCKETS.map((b, i) => {
+    const rows = aging.filter(r => r.bucket === i);
+    return { label: b.label, stock: rows.reduce((acc, r) => acc + r.stock, 0), value: rows.reduce((acc, r) => acc + (valuations?.get(r.item.id)?.value || 0), 0) };
+  }), [aging, valuations]);
+
+  const sheet = (): SheetSpec => {
+    if (tab === 'flows') return {
+      name: TAB_LABELS.flows,
+      columns: [{ header: flowGroup === 'item' ? '품목' : '기종', key: 'label', width: 32 }, ...months.flatMap(m => [{ header: `${m} 입고`, key: `${m}:in` }, { header: `${m} 출고`, key: `${m}:out` }]), { header: '입고 합계', key: 'totalIn' }, { header: '출고 합계', key: 'totalOut' }],
+      rows: flows.map(r => ({ label: r.label, ...Object.fromEntries(months.flatMap(m => [[`${m}:in`, r.months[m]?.in || 0], [`${m}:out`, r.months[m]?.out || 0]])), totalIn: r.totalIn, totalOut: r.totalOut })),
+    };
+    if (tab === 'turnover') return {
+      name: TAB_LABELS.turnover,
+      columns: [{ header: '구분', key: 'type', width: 8 }, { header: '코드', key: 'code', width: 16 }, { header: '품명', key: 'name', width: 28 }, { header: '출고 수량', key: 'released' }, { header: '평균 재고', key: 'averageStock', numFmt: '0.0' }, { header: '회전율', key: 'turnover', numFmt: '0.00' }, { header: '재고 일수', key: 'daysOfSupply' }],
+      rows: turnover.map(r => ({ type: ITEM_TYPE_LABELS[r.item.type], code: r.item.code, name: r.item.name, released: r.released, averageStock: r.averageStock, turnover: r.turnover ?? '', daysOfSupply: r.daysOfSupply ?? '' })),
+    };
+    if (tab === 'aging') return {
+      name: TAB_LABELS.aging,
+      columns: [{ header: '구분', key: 'type', width: 8 }, { header: '코드', key: 'code', width: 16 }, { header: '품명', key: 'name', width: 28 }, { header: '현재재고', key: 'stock' }, { header: '마지막 입출고', key: 'lastMovement', width: 18, numFmt: 'yyyy-mm-dd' }, { header: '경과 일수', key: 'days' }, { header: '구간', key: 'bucket', width: 12 }, ...(valuations ? [{ header: '재고금액', key: 'value', numFmt: '#,##0', width: 14 }] : [])],
+      rows: aging.map(r => ({ type: ITEM_TYPE_LABELS[r.item.type], code: r.item.code, name: r.item.name, stock: r.stock, lastMovement: r.lastMovement ? new Date(r.lastMovement) : '', days: r.days ?? '', bucket: AGING_BUCKETS[r.bucket]?.label || '', ...(valuations ? { value: Math.round(valuations.get(r.item.id)?.value || 0) } : {}) })),
+    };
+    return {
+      name: TAB_LABELS.customers,
+      columns: [{ header: '순위', key: 'rank' }, { header: '고객명', key: 'name', width: 20 }, { header: '연락처', key: 'phoneNumber', width: 16 }, { header: '출고 수량', key: 'units' }, { header: '제품 종류', key: 'products' }, { header: '마지막 출고', key: 'lastDate', width: 18, numFmt: 'yyyy-mm-dd' }],
+      rows: customers.map((c, i) => ({ rank: i + 1, name: c.name, phoneNumber: c.phoneNumber, units: c.units, products: c.products, lastDate: new Date(c.lastDate) })),
+    };
+  };
+
+  const handleExport = async () => {
+    try {
+      await downloadWorkbook([sheet()], `보고서_${TAB_LABELS[tab].replace(/\s/g, '')}_${months[0]}_${months[months.length - 1]}.xlsx`);
+    } catch (err) {
+      alert(`내보내기 실패: ${errorMessage(err)}`);
+    }
+  };
+
+  const empty = (text: string) => <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">{text}</p>;
+  const thead = 'bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">보고서</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">{months[0]} ~ {months[months.length - 1]} · 양품 재고의 입고 / 출고 기준 (위치 이동, 실사 조정, 격리 재고 제외)</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={handleExport} className="flex items-center gap-2 px-5 py-3 bg-emerald-600 text-white rounded-xl font-black uppercase text-xs tracking-widest shadow-lg shadow-emerald-100"><DownloadIcon className="w-4 h-4" /> 엑셀</button>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="px-8 py-4 border-b border-slate-100 flex flex-wrap items-center gap-4">
+          <div className="flex p-1 bg-slate-100 rounded-xl">
+            {(Object.keys(TAB_LABELS) as ReportTab[]).map(t => (
+              <button key={t} onClick={() => setTab(t)} className={`px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{TAB_LABELS[t]}</button>
+            ))}
+          </div>
+          {tab !== 'aging' && (
+            <select value={monthCount} onChange={(e) => setMonthCount(Number(e.target.value))} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+              {PERIODS.map(p => <option key={p} value={p}>최근 {p}개월</option>)}
+            </select>
+          )}
+          {tab !== 'customers' && (
+            <select value={itemType} onChange={(e) => setItemType(e.target.value as Item['type'] | '')} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+              <option value="">전체 품목</option>
+              {(Object.keys(ITEM_TYPE_LABELS) as Item['type'][]).map(t => <option key={t} value={t}>{ITEM_TYPE_LABELS[t]}</option>)}
+            </select>
+          )}
+          {tab === 'flows' && (
+            <div className="flex p-1 bg-slate-100 rounded-xl">
+              {(['item', 'model'] as const).map(g => (
+                <button key={g} onClick={() => setFlowGroup(g)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${flowGroup === g ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{g === 'item' ? '품목별' : '기종별'}</button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="overflow-y-auto flex-grow">
+          {tab === 'flows' && (
+            <>
+              <div className="px-8 py-6 border-b border-slate-100">
+                <BarChart labels={months} series={[
+                  { name: '입고', className: 'fill-emerald-500', values: months.map(m => flowTotals[m].in) },
+                  { name: '출고', className: 'fill-rose-500', values: months.map(m => flowTotals[m].out) },
+                ]} />
+              </div>
+              {flows.length === 0 ? empty('기간 내 입출고가 없습니다') : (
+                <table className="w-full text-left text-sm">
+                  <thead className={thead}>
+                    <tr>
+                      <th className="px-5 py-4">{flowGroup === 'item' ? '품목' : '기종'}</th>
+                      {months.map(m => <th key={m} className="px-3 py-4 text-right whitespace-nowrap">{m}</th>)}
+                      <th className="px-5 py-4 text-right">합계</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {flows.map(r => (
+                      <tr key={r.key}>
+                        <td className="px-5 py-3 font-black text-slate-800">{r.label}</td>
+                        {months.map(m => (
+                          <td key={m} className="px-3 py-3 text-right text-xs font-black whitespace-nowrap">
+                            <span className={r.months[m]?.in ? 'text-emerald-600' : 'text-slate-200'}>+{(r.months[m]?.in || 0).toLocaleString()}</span>
+                            <span className="text-slate-200"> / </span>
+                            <span className={r.months[m]?.out ? 'text-rose-600' : 'text-slate-200'}>-{(r.months[m]?.out || 0).toLocaleString()}</span>
+                          </td>
+                        ))}
+                        <td className="px-5 py-3 text-right text-xs font-black whitespace-nowrap"><span className="text-emerald-600">+{r.totalIn.toLocaleString()}</span><span className="text-slate-200"> / </span><span className="text-rose-600">-{r.totalOut.toLocaleString()}</span></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+          {tab === 'turnover' && (
+            <>
+              <div className="px-8 py-6 border-b border-slate-100">
+                <BarChart labels={turnover.filter(r => r.turnover !== null).slice(0, CHART_TOP).map(r => r.item.code)} series={[
+                  { name: '회전율', className: 'fill-indigo-500', values: turnover.filter(r => r.turnover !== null).slice(0, CHART_TOP).map(r => r.turnover || 0) },
+                ]} formatValue={v => v.toFixed(1)} />
+              </div>
+              {turnover.length === 0 ? empty('품목이 없습니다') : (
+                <table className="w-full text-left text-sm">
+                  <thead className={thead}>
+                    <tr><th className="px-5 py-4">코드</th><th className="px-5 py-4">품명</th><th className="px-5 py-4 text-right">출고 수량</th><th className="px-5 py-4 text-right">평균 재고</th><th className="px-5 py-4 text-right">회전율</th><th className="px-5 py-4 text-right">재고 일수</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {turnover.map(r => (
+                      <tr key={r.item.id}>
+                        <td className="px-5 py-3 font-mono font-black text-indigo-600">{r.item.code}</td>
+                        <td className="px-5 py-3 font-black text-slate-800">{r.item.name}</td>
+                        <td className="px-5 py-3 text-right font-black text-slate-600">{r.released.toLocaleString()}</td>
+                        <td className="px-5 py-3 text-right font-bold text-slate-500">{r.averageStock.toFixed(1)}</td>
+                        <td className="px-5 py-3 text-right font-black text-indigo-600">{r.turnover === null ? '-' : r.turnover.toFixed(2)}</td>
+                        <td className="px-5 py-3 text-right font-bold text-slate-500">{r.daysOfSupply === null ? '-' : `${r.daysOfSupply.toLocaleString()}일`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+          {tab === 'aging' && (
+            <>
+              <div className="px-8 py-6 border-b border-slate-100">
+                <BarChart labels={agingBuckets.map(b => b.label)} series={valuations
+                  ? [{ name: '재고 금액', className: 'fill-amber-500', values: agingBuckets.map(b => b.value) }]
+                  : [{ name: '재고 수량', className: 'fill-amber-500', values: agingBuckets.map(b => b.stock) }]} formatValue={valuations ? formatCost : undefined} />
+              </div>
+              {aging.length === 0 ? empty('재고가 있는 품목이 없습니다') : (
+                <table className="w-full text-left text-sm">
+                  <thead className={thead}>
+                    <tr><th className="px-5 py-4">코드</th><th className="px-5 py-4">품명</th><th className="px-5 py-4 text-right">현재재고</th>{valuations && <th className="px-5 py-4 text-right">재고 금액</th>}<th className="px-5 py-4">마지막 입출고</th><th className="px-5 py-4 text-right">경과</th><th className="px-5 py-4">구간</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {aging.map(r => (
+                      <tr key={r.item.id} className={r.bucket >= 3 ? 'bg-amber-50/30' : ''}>
+                        <td className="px-5 py-3 font-mono font-black text-indigo-600">{r.item.code}</td>
+                        <td className="px-5 py-3 font-black text-slate-800">{r.item.name}</td>
+                        <td className="px-5 py-3 text-right font-black text-slate-600">{r.stock.toLocaleString()}</td>
+                        {valuations && <td className="px-5 py-3 text-right font-bold text-slate-500">{formatCost(valuations.get(r.item.id)?.value || 0)}</td>}
+                        <td className="px-5 py-3 font-bold text-slate-500">{r.lastMovement ? new Date(r.lastMovement).toLocaleDateString() : '기록 없음'}</td>
+                        <td className="px-5 py-3 text-right font-black text-slate-600">{r.days === null ? '-' : `${r.days.toLocaleString()}일`}</td>
+                        <td className="px-5 py-3 text-xs font-black uppercase tracking-widest text-slate-400">{AGING_BUCKETS[r.bucket]?.label}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+          {tab === 'customers' && (
+            <>
+              <div className="px-8 py-6 border-b border-slate-100">
+                <BarChart labels={customers.slice(0, CHART_TOP).map(c => c.name)} series={[{ name: '출고 수량', className: 'fill-indigo-500', values: customers.slice(0, CHART_TOP).map(c => c.units) }]} />
+              </div>
+              {customers.length === 0 ? empty('기간 내 고객 출고가 없습니다') : (
+                <table className="w-full text-left text-sm">
+                  <thead className={thead}>
+                    <tr><th className="px-5 py-4 text-right">순위</th><th className="px-5 py-4">고객명</th><th className="px-5 py-4">연락처</th><th className="px-5 py-4 text-right">출고 수량</th><th className="px-5 py-4 text-right">제품 종류</th><th className="px-5 py-4">마지막 출고</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {customers.map((c, i) => (
+                      <tr key={c.key}>
+                        <td className="px-5 py-3 text-right font-black text-slate-400">{i + 1}</td>
+                        <td className="px-5 py-3 font-black text-slate-800">{c.name}</td>
+                        <td className="px-5 py-3 font-bold text-slate-500">{c.phoneNumber || '-'}</td>
+                        <td className="px-5 py-3 text-right font-black text-indigo-600">{c.units.toLocaleString()}</td>
+                        <td className="px-5 py-3 text-right font-bold text-slate-500">{c.products.toLocaleString()}</td>
+                        <td className="px-5 py-3 font-bold text-slate-500">{new Date(c.lastDate).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportsModal;
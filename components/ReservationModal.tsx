@@ -0,0 +1,218 @@
+import React, { useState, useMemo } from 'react';
+import type { Item, Customer, Permission, Reservation, ReservationStatus } from '../types';
+import { RESERVATION_STATUS_LABELS, isReservationExpired, reservedStock, availableLocationStock, defaultExpiry } from '../services/reservations';
+import { isSerialAvailable } from '../services/serials';
+import type { SerialUnit } from '../services/serials';
+import { calculateLocationStock } from '../services/stock';
+import { LOCATIONS, MAIN_LOCATION_ID, locationName } from '../services/locations';
+import { CloseIcon, CheckIcon, PlusIcon } from './icons';
+
+export type ReservationFormData = Pick<Reservation, 'itemId' | 'location' | 'quantity' | 'holder' | 'customerId' | 'expiresAt' | 'remarks'>;
+
+interface ReservationModalProps {
+  reservations: Reservation[];
+  items: Item[];
+  customers: Customer[];
+  serialRegistry: Map<string, SerialUnit>;
+  permissions: Permission[];
+  onCreate: (data: ReservationFormData) => boolean;
+  onExtend: (reservationId: string, expiresAt: string) => boolean;
+  onCancel: (reservationId: string) => void;
+  onConvert: (reservationId: string, serials: string[]) => boolean;
+  onClose: () => void;
+}
+
+const DEFAULT_HOLD_DAYS = 7;
+
+const STATUS_STYLES: Record<ReservationStatus | 'expired', string> = {
+  active: 'bg-indigo-50 text-indigo-600',
+  expired: 'bg-rose-50 text-rose-600',
+  released: 'bg-emerald-50 text-emerald-600',
+  cancelled: 'bg-slate-100 text-slate-400',
+};
+
+const ReservationModal: React.FC<ReservationModalProps> = ({ reservations, items, customers, serialRegistry, permissions, onCreate, onExtend, onCancel, onConvert, onClose }) => {
+  const canEdit = permissions.includes('release');
+  const [itemId, setItemId] = useState('');
+  const [location, setLocation] = useState(MAIN_LOCATION_ID);
+  const [quantity, setQuantity] = useState('');
+  const [holder, setHolder] = useState('');
+  const [expiresAt, setExpiresAt] = useState(() => defaultExpiry(DEFAULT_HOLD_DAYS));
+  const [remarks, setRemarks] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ReservationStatus | ''>('active');
+  const [search, setSearch] = useState('');
+  const [action, setAction] = useState<{ id: string; type: 'convert' | 'extend' } | null>(null);
+  const [selectedSerials, setSelectedSerials] = useState<string[]>([]);
+  const [newExpiry, setNewExpiry] = useState('');
+
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const item = itemById.get(itemId);
+  const onHand = item ? calculateLocationStock(item)[location] || 0 : 0;
+  const held = item ? reservedStock(reservations, item.id)[location] || 0 : 0;
+  const available = item ? availableLocationStock(item, reservations)[location] || 0 : 0;
+  const customer = customers.find(c => c.name === holder.trim());
+
+  // 조회 권한이 없는 품목의 예약은 목록에서 제외
+  const filteredReservations = useMemo(() => {
+    const key = search.trim().toUpperCase();
+    return reservations
+      .filter(r => itemById.has(r.itemId))
+      .filter(r => !statusFilter || r.status === statusFilter)
+      .filter(r => !key || r.holder.toUpperCase().includes(key) || itemById.get(r.itemId)!.code.toUpperCase().includes(key) || itemById.get(r.itemId)!.name.toUpperCase().includes(key))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, [reservations, itemById, statusFilter, search]);
+
+  const stockSerialsOf = (r: Reservation) => [...serialRegistry.values()]
+    .filter(u => u.itemId === r.itemId && isSerialAvailable(u) && u.location === r.location)
+    .map(u => u.serial)
+    .sort();
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const count = parseInt(quantity, 10) || 0;
+    if (!item || count <= 0) { alert('품목과 수량을 확인하세요.'); return; }
+    if (!holder.trim()) { alert('예약 고객 또는 작업명을 입력하세요.'); return; }
+    if (!expiresAt) { alert('만료일을 입력하세요.'); return; }
+    const created = onCreate({ itemId: item.id, location, quantity: count, holder: holder.trim(), ...(customer ? { customerId: customer.id } : {}), expiresAt, remarks: remarks.trim() });
+    if (created) { setQuantity(''); setHolder(''); setRemarks(''); setExpiresAt(defaultExpiry(DEFAULT_HOLD_DAYS)); }
+  };
+
+  const startAction = (r: Reservation, type: 'convert' | 'extend') => {
+    setAction({ id: r.id, type }); setSelectedSerials([]); setNewExpiry(defaultExpiry(DEFAULT_HOLD_DAYS));
+  };
+
+  const handleConfirm = (r: Reservation) => {
+    const done = action?.type === 'extend' ? onExtend(r.id, newExpiry) : onConvert(r.id, selectedSerials);
+    if (done) setAction(null);
+  };
+
+  const handleCancel = (r: Reservation) => {
+    if (!confirm(`${r.holder} 예약 ${r.quantity.toLocaleString()} EA 를 취소하시겠습니까?`)) return;
+    onCancel(r.id);
+  };
+
+  const toggleSerial = (serial: string) => {
+    setSelectedSerials(prev => prev.includes(serial) ? prev.filter(s => s !== serial) : [...prev, serial]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">재고 예약</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">예약 수량은 가용 재고에서만 빠지며, 출고로 전환할 때 현재 재고가 줄어듭니다 · 만료일이 지난 예약은 재고를 잡지 않습니다</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+        <div className={`grid grid-cols-1 min-h-0 flex-grow ${canEdit ? 'lg:grid-cols-3' : ''}`}>
+          {canEdit && (
+            <form onSubmit={handleCreate} className="p-8 border-r border-slate-100 space-y-5 overflow-y-auto">
+              <h3 className="text-base font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><PlusIcon className="w-5 h-5" /> 예약 등록</h3>
+              <select value={itemId} onChange={(e) => setItemId(e.target.value)} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none bg-white">
+                <option value="">품목 선택</option>
+                {items.map(i => <option key={i.id} value={i.id}>{i.type === 'part' ? '[부품]' : '[제품]'} {i.code} {i.name}</option>)}
+              </select>
+              <div className="grid grid-cols-2 gap-4">
+                <select value={location} onChange={(e) => setLocation(e.target.value)} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none bg-white">
+                  {LOCATIONS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+                <input type="number" min="1" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="수량 *" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none" />
+              </div>
+              {item && (
+                <div className="p-4 rounded-2xl border-2 border-slate-100 bg-slate-50/50 grid grid-cols-3 gap-2 text-center">
+                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">현재</p><p className="text-xl font-black text-slate-700">{onHand.toLocaleString()}</p></div>
+                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">예약</p><p className="text-xl font-black text-indigo-600">{held.toLocaleString()}</p></div>
+                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">가용</p><p className={`text-xl font-black ${available > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{available.toLocaleString()}</p></div>
+                </div>
+              )}
+              <input type="text" list="reservation-customers" value={holder} onChange={(e) => setHolder(e.target.value)} placeholder="고객 또는 작업명 *" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none" />
+              <datalist id="reservation-customers">{customers.map(c => <option key={c.id} value={c.name}>{c.phoneNumber}</option>)}</datalist>
+              {holder.trim() && <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{customer ? `고객 목록과 연결 · ${customer.phoneNumber || '연락처 없음'}` : '고객 목록에 없는 이름은 작업명으로 기록됩니다'}</p>}
+              <div>
+                <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">만료일 (당일까지 유효)</label>
+                <input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none" />
+              </div>
+              <textarea value={remarks} onChange={(e) => setRemarks(e.target.value)} rows={2} placeholder="비고" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none" />
+              <button type="submit" className="w-full py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest text-sm">예약 등록</button>
+            </form>
+          )}
+          <div className={`flex flex-col min-h-0 ${canEdit ? 'lg:col-span-2' : ''}`}>
+            <div className="px-8 py-4 border-b border-slate-100 flex flex-wrap gap-2 items-center">
+              {([['active', RESERVATION_STATUS_LABELS.active], ['released', RESERVATION_STATUS_LABELS.released], ['cancelled', RESERVATION_STATUS_LABELS.cancelled], ['', '전체']] as const).map(([value, label]) => (
+                <button key={value} onClick={() => setStatusFilter(value)} className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${statusFilter === value ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-400'}`}>{label}</button>
+              ))}
+              <input type="text" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="품번 / 품명 / 예약처 검색" className="ml-auto px-4 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold outline-none" />
+            </div>
+            <div className="overflow-y-auto">
+              {filteredReservations.length === 0 ? (
+                <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">예약 내역이 없습니다</p>
+              ) : (
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                    <tr><th className="px-6 py-4">등록일</th><th className="px-6 py-4">품목</th><th className="px-6 py-4">위치</th><th className="px-6 py-4 text-right">수량</th><th className="px-6 py-4">예약처</th><th className="px-6 py-4">만료일</th><th className="px-6 py-4">상태</th>{canEdit && <th className="px-6 py-4">처리</th>}</tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {filteredReservations.map(r => {
+                      const target = itemById.get(r.itemId)!;
+                      const expired = r.status === 'active' && isReservationExpired(r);
+                      const stockSerials = action?.id === r.id && action.type === 'convert' ? stockSerialsOf(r) : [];
+                      return (
+                        <tr key={r.id} className="align-top">
+                          <td className="px-6 py-4 font-bold text-slate-600 whitespace-nowrap">{new Date(r.createdAt).toLocaleDateString()}<p className="text-[10px] font-black text-slate-400">{r.createdBy}</p></td>
+                          <td className="px-6 py-4"><p className="font-mono font-black text-indigo-600">{target.code}</p><p className="text-xs font-bold text-slate-400">{target.name}</p></td>
+                          <td className="px-6 py-4 font-bold text-slate-600 whitespace-nowrap">{locationName(r.location)}</td>
+                          <td className="px-6 py-4 text-right font-black text-slate-800 text-lg">{r.quantity.toLocaleString()}</td>
+                          <td className="px-6 py-4 max-w-[220px]"><p className="font-black text-slate-700">{r.holder}</p>{r.remarks && <p className="text-xs font-bold text-slate-400">{r.remarks}</p>}</td>
+                          <td className={`px-6 py-4 font-bold whitespace-nowrap ${expired ? 'text-rose-600' : 'text-slate-600'}`}>{r.expiresAt}</td>
+                          <td className="px-6 py-4">
+                            <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${STATUS_STYLES[expired ? 'expired' : r.status]}`}>{expired ? '만료' : RESERVATION_STATUS_LABELS[r.status]}</span>
+                            {r.closedAt && <p className="text-[10px] font-black text-slate-400 mt-2 whitespace-nowrap">{new Date(r.closedAt).toLocaleDateString()} {r.closedBy}</p>}
+                          </td>
+                          {canEdit && (
+                            <td className="px-6 py-4 min-w-[260px]">
+                              {r.status !== 'active' ? null : action?.id === r.id ? (
+                                <div className="space-y-2">
+                                  {action.type === 'extend' ? (
+                                    <input type="date" value={newExpiry} onChange={(e) => setNewExpiry(e.target.value)} className="w-full px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                                  ) : stockSerials.length > 0 ? (
+                                    <div>
+                                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">일련번호 {selectedSerials.length} / {r.quantity}</p>
+                                      <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                                        {stockSerials.map(s => (
+                                          <button key={s} onClick={() => toggleSerial(s)} className={`px-2 py-1 rounded-lg font-mono text-[11px] font-black ${selectedSerials.includes(s) ? 'bg-rose-500 text-white' : 'bg-slate-100 text-slate-500'}`}>{s}</button>
+                                        ))}
+                                      </div>
+                                    </div>
+                                  ) : (
+                                    <p className="text-xs font-bold text-slate-500">{locationName(r.location)} 에서 {r.quantity.toLocaleString()} EA 출고 기록을 만듭니다</p>
+                                  )}
+                                  <div className="flex gap-2">
+                                    <button onClick={() => setAction(null)} className="px-3 py-1.5 bg-slate-100 text-slate-500 rounded-lg font-black text-[10px] uppercase">취소</button>
+                                    <button onClick={() => handleConfirm(r)} className="flex items-center gap-1 px-3 py-1.5 bg-emerald-500 text-white rounded-lg font-black text-[10px] uppercase"><CheckIcon className="w-3 h-3" /> {action.type === 'extend' ? '만료일 변경' : '출고 확정'}</button>
+                                  </div>
+                                </div>
+                              ) : (
+                                <div className="flex flex-wrap gap-2">
+                                  <button onClick={() => startAction(r, 'convert')} className="px-3 py-2 bg-rose-50 text-rose-600 rounded-xl font-black text-[11px] uppercase hover:bg-rose-600 hover:text-white transition-all">출고 전환</button>
+                                  <button onClick={() => startAction(r, 'extend')} className="px-3 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-black text-[11px] uppercase hover:bg-indigo-600 hover:text-white transition-all">{expired ? '연장' : '만료일'}</button>
+                                  <button onClick={() => handleCancel(r)} className="px-3 py-2 bg-slate-100 text-slate-500 rounded-xl font-black text-[11px] uppercase hover:bg-slate-200 transition-all">예약 취소</button>
+                                </div>
+                              )}
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReservationModal;
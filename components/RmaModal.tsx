@@ -0,0 +1,147 @@
+
+import React, { useState, useMemo } from 'react';
+import type { Item, Rma, RmaOutcome, RmaStatus } from '../types';
+import { RMA_STATUS_LABELS, RMA_OUTCOME_LABELS, checkWarranty } from '../services/rma';
+import type { SerialUnit } from '../services/serials';
+import { CloseIcon, CheckIcon, PlusIcon } from './icons';
+
+interface RmaModalProps {
+  rmas: Rma[];
+  products: Item[];
+  serialRegistry: Map<string, SerialUnit>;
+  onReceive: (data: Pick<Rma, 'itemId' | 'serialNumber' | 'reason'>) => void;
+  onInspect: (rmaId: string, outcome: RmaOutcome, notes: string) => void;
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<RmaOutcome, string> = {
+  restock: 'bg-emerald-50 text-emerald-600',
+  repair: 'bg-indigo-50 text-indigo-600',
+  scrap: 'bg-slate-100 text-slate-500',
+};
+
+const RmaModal: React.FC<RmaModalProps> = ({ rmas, products, serialRegistry, onReceive, onInspect, onClose }) => {
+  const [itemId, setItemId] = useState('');
+  const [serialNumber, setSerialNumber] = useState('');
+  const [reason, setReason] = useState('');
+  const [statusFilter, setStatusFilter] = useState<RmaStatus | ''>('received');
+  const [inspectingId, setInspectingId] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<RmaOutcome>('restock');
+  const [notes, setNotes] = useState('');
+
+  const productById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+  const product = productById.get(itemId);
+
+  const releasedSerials = useMemo(() => [...serialRegistry.values()].filter(u => u.itemId === itemId && u.status === 'released').map(u => u.serial).sort(), [serialRegistry, itemId]);
+  const unit = serialRegistry.get(serialNumber.trim().toUpperCase());
+  const warranty = unit && unit.itemId === itemId ? checkWarranty(unit, product, new Date().toISOString()) : null;
+
+  const filteredRmas = useMemo(() => rmas
+    .filter(r => !statusFilter || r.status === statusFilter)
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt)), [rmas, statusFilter]);
+
+  const handleReceive = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!itemId || !serialNumber.trim()) { alert('제품과 일련번호를 입력하세요.'); return; }
+    if (!reason.trim()) { alert('반품 사유를 입력하세요.'); return; }
+    onReceive({ itemId, serialNumber: serialNumber.trim().toUpperCase(), reason: reason.trim() });
+    setSerialNumber(''); setReason('');
+  };
+
+  const handleInspect = (rmaId: string) => {
+    onInspect(rmaId, outcome, notes.trim());
+    setInspectingId(null); setOutcome('restock'); setNotes('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">반품 / RMA</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">검사 대기 {rmas.filter(r => r.status === 'received').length.toLocaleString()} 건 · 반품 제품은 검사 전까지 격리 재고로 관리됩니다</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 min-h-0 flex-grow">
+          <form onSubmit={handleReceive} className="p-8 border-r border-slate-100 space-y-5 overflow-y-auto">
+            <h3 className="text-base font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><PlusIcon className="w-5 h-5" /> 반품 접수</h3>
+            <select value={itemId} onChange={(e) => { setItemId(e.target.value); setSerialNumber(''); }} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none bg-white">
+              <option value="">제품 선택</option>
+              {products.map(p => <option key={p.id} value={p.id}>{p.code} {p.name}</option>)}
+            </select>
+            <input type="text" list="rma-released-serials" value={serialNumber} onChange={(e) => setSerialNumber(e.target.value.toUpperCase())} placeholder="일련번호 *" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-mono font-black outline-none" />
+            <datalist id="rma-released-serials">{releasedSerials.map(s => <option key={s} value={s} />)}</datalist>
+            {serialNumber.trim() && (
+              warranty ? (
+                <div className={`p-4 rounded-2xl border-2 space-y-1 ${warranty.underWarranty ? 'border-emerald-100 bg-emerald-50/50' : 'border-rose-100 bg-rose-50/50'}`}>
+                  <p className={`text-sm font-black uppercase tracking-widest ${warranty.underWarranty ? 'text-emerald-600' : 'text-rose-600'}`}>{warranty.underWarranty ? '보증 기간 내' : '보증 만료'}</p>
+                  <p className="text-xs font-bold text-slate-500">출고일 {warranty.releasedAt ? new Date(warranty.releasedAt).toLocaleDateString() : '-'} · 만료일 {warranty.expiresAt ? new Date(warranty.expiresAt).toLocaleDateString() : '-'}</p>
+                  <p className="text-xs font-bold text-slate-500">고객 {warranty.customerName || '-'}</p>
+                </div>
+              ) : (
+                <p className="text-xs font-black text-rose-500 uppercase tracking-widest">출고 기록이 없는 일련번호입니다</p>
+              )
+            )}
+            <textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} placeholder="반품 사유 *" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none" />
+            <button type="submit" className="w-full py-4 bg-amber-500 text-white font-black rounded-xl shadow-lg hover:bg-amber-600 transition-all uppercase tracking-widest text-sm">격리 입고</button>
+          </form>
+          <div className="lg:col-span-2 flex flex-col min-h-0">
+            <div className="px-8 py-4 border-b border-slate-100 flex gap-2">
+              {([['received', RMA_STATUS_LABELS.received], ['closed', RMA_STATUS_LABELS.closed], ['', '전체']] as const).map(([value, label]) => (
+                <button key={value} onClick={() => setStatusFilter(value)} className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${statusFilter === value ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-400'}`}>{label}</button>
+              ))}
+            </div>
+            <div className="overflow-y-auto">
+              {filteredRmas.length === 0 ? (
+                <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">반품 내역이 없습니다</p>
+              ) : (
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                    <tr><th className="px-6 py-4">접수일</th><th className="px-6 py-4">제품 / 일련번호</th><th className="px-6 py-4">고객</th><th className="px-6 py-4">사유</th><th className="px-6 py-4">보증</th><th className="px-6 py-4">처리</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {filteredRmas.map(r => (
+                      <tr key={r.id} className="align-top">
+                        <td className="px-6 py-4 font-bold text-slate-600 whitespace-nowrap">{new Date(r.receivedAt).toLocaleDateString()}</td>
+                        <td className="px-6 py-4"><p className="font-mono font-black text-indigo-600">{r.serialNumber}</p><p className="text-xs font-bold text-slate-400">{productById.get(r.itemId)?.name || '-'}</p></td>
+                        <td className="px-6 py-4 font-black text-slate-700">{r.customerName || '-'}</td>
+                        <td className="px-6 py-4 font-bold text-slate-500 max-w-[220px]">{r.reason}</td>
+                        <td className="px-6 py-4"><span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${r.underWarranty ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>{r.underWarranty ? '보증 내' : '보증 만료'}</span></td>
+                        <td className="px-6 py-4 min-w-[260px]">
+                          {r.status === 'closed' && r.outcome ? (
+                            <div>
+                              <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${OUTCOME_STYLES[r.outcome]}`}>{RMA_OUTCOME_LABELS[r.outcome]}</span>
+                              {r.inspectionNotes && <p className="text-xs font-bold text-slate-400 mt-2">{r.inspectionNotes}</p>}
+                            </div>
+                          ) : inspectingId === r.id ? (
+                            <div className="space-y-2">
+                              <div className="flex flex-wrap gap-1">
+                                {(Object.keys(RMA_OUTCOME_LABELS) as RmaOutcome[]).map(o => (
+                                  <button key={o} onClick={() => setOutcome(o)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase ${outcome === o ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-500'}`}>{RMA_OUTCOME_LABELS[o]}</button>
+                                ))}
+                              </div>
+                              <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="검사 내용" className="w-full px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                              <div className="flex gap-2">
+                                <button onClick={() => setInspectingId(null)} className="px-3 py-1.5 bg-slate-100 text-slate-500 rounded-lg font-black text-[10px] uppercase">취소</button>
+                                <button onClick={() => handleInspect(r.id)} className="flex items-center gap-1 px-3 py-1.5 bg-emerald-500 text-white rounded-lg font-black text-[10px] uppercase"><CheckIcon className="w-3 h-3" /> 확정</button>
+                              </div>
+                            </div>
+                          ) : (
+                            <button onClick={() => { setInspectingId(r.id); setOutcome('restock'); setNotes(''); }} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-black text-[11px] uppercase hover:bg-indigo-600 hover:text-white transition-all">검사 결과 입력</button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RmaModal;
@@ -0,0 +1,218 @@
+
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { Item, Customer, Supplier, Permission, Reservation } from '../types';
+import { applyScan, scanTotals, validateScanBatch } from '../services/scan';
+import type { ScanLine, ScanMode, ScanContext } from '../services/scan';
+import type { SerialUnit } from '../services/serials';
+import { TRANSACTION_TYPE_LABELS, calculateLocationStock } from '../services/stock';
+import { availableLocationStock } from '../services/reservations';
+import { LOCATIONS, MAIN_LOCATION_ID, locationName } from '../services/locations';
+import { CloseIcon, CheckIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon } from './icons';
+
+export interface ScanCommitOptions {
+  remarks: string;
+  customerId: string | null; // 제품 출고 고객
+  supplierId: string | null; // 입고 공급처
+  consumeBom: boolean; // 제품 입고 시 BOM 부품 차감
+}
+
+interface ScanStationModalProps {
+  items: Item[];
+  serialRegistry: Map<string, SerialUnit>;
+  reservations: Reservation[];
+  customers: Customer[];
+  suppliers: Supplier[];
+  permissions: Permission[];
+  onCommit: (mode: ScanMode, location: string, lines: ScanLine[], options: ScanCommitOptions) => void;
+  onClose: () => void;
+}
+
+// 스캔 실패 시 짧은 경고음 (화면을 보지 않고 스캔하는 경우)
+const beep = () => {
+  try {
+    const ctx = new AudioContext();
+    const osc = ctx.createOscillator();
+    osc.frequency.value = 220;
+    osc.connect(ctx.destination);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.25);
+    osc.onended = () => ctx.close();
+  } catch (err) {
+    // 소리를 낼 수 없는 환경이면 화면 표시만
+  }
+};
+
+const isTextField = (el: Element | null) => !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT');
+
+const ScanStationModal: React.FC<ScanStationModalProps> = ({ items, serialRegistry, reservations, customers, suppliers, permissions, onCommit, onClose }) => {
+  const modes = (['purchase', 'release'] as const).filter(m => permissions.includes(m));
+  const [mode, setMode] = useState<ScanMode>(modes[0] || 'purchase');
+  const [location, setLocation] = useState(MAIN_LOCATION_ID);
+  const [lines, setLines] = useState<ScanLine[]>([]);
+  const [input, setInput] = useState('');
+  const [feedback, setFeedback] = useState<{ ok: boolean; text: string } | null>(null);
+  const [remarks, setRemarks] = useState('');
+  const [customerId, setCustomerId] = useState('');
+  const [supplierId, setSupplierId] = useState('');
+  const [consumeBom, setConsumeBom] = useState(true);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const ctx: ScanContext = { mode, location, items, registry: serialRegistry, reservations };
+  const totals = useMemo(() => scanTotals(lines), [lines]);
+  const totalQuantity = lines.reduce((acc, l) => acc + l.quantity, 0);
+  const hasProducts = lines.some(l => itemById.get(l.itemId)?.type === 'product');
+
+  // 스캐너는 키보드처럼 입력하므로, 다른 입력란 밖에서 누른 키는 스캔 입력란으로 보냄
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.key.length !== 1 || isTextField(document.activeElement)) return;
+      inputRef.current?.focus();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => { inputRef.current?.focus(); }, [mode, location]);
+
+  const resetBatch = (message: string) => {
+    if (lines.length > 0 && !confirm(message)) return false;
+    setLines([]); setFeedback(null);
+    return true;
+  };
+
+  const handleScan = () => {
+    const result = applyScan(lines, input, ctx);
+    setInput('');
+    if ('error' in result) { setFeedback({ ok: false, text: result.error }); beep(); return; }
+    const item = itemById.get(result.line.itemId);
+    setLines(result.lines);
+    setFeedback({ ok: true, text: `${item?.code} ${item?.name}${result.line.serial ? ` · ${result.line.serial}` : ` · ${result.line.quantity} EA`}` });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // 스캐너 설정에 따라 끝에 Enter 또는 Tab 이 붙음
+    if (e.key !== 'Enter' && e.key !== 'Tab') return;
+    e.preventDefault();
+    if (input.trim()) handleScan();
+  };
+
+  const updateQuantity = (index: number, value: string) => {
+    setLines(prev => prev.map((l, i) => i === index ? { ...l, quantity: parseInt(value, 10) || 0 } : l));
+  };
+
+  const handleCommit = () => {
+    if (lines.length === 0) return;
+    const errors = validateScanBatch(lines, ctx, consumeBom);
+    if (errors.length > 0) { alert(`확정할 수 없습니다:\n${errors.join('\n')}`); return; }
+    if (!confirm(`${locationName(location)} ${TRANSACTION_TYPE_LABELS[mode]} ${lines.length.toLocaleString()}줄 (${totalQuantity.toLocaleString()} EA) 을(를) 확정하시겠습니까?`)) return;
+    onCommit(mode, location, lines, { remarks: remarks.trim(), customerId: customerId || null, supplierId: supplierId || null, consumeBom });
+    setFeedback({ ok: true, text: `${TRANSACTION_TYPE_LABELS[mode]} ${totalQuantity.toLocaleString()} EA 확정 완료` });
+    setLines([]); setRemarks(''); setCustomerId('');
+    inputRef.current?.focus();
+  };
+
+  const handleClose = () => {
+    if (lines.length > 0 && !confirm('확정하지 않은 스캔 내역이 있습니다. 닫으시겠습니까?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">스캔 입출고</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">품번 또는 일련번호를 스캔하면 대기열에 쌓이고, 확정하면 한 번에 기록됩니다</p>
+          </div>
+          <button onClick={handleClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+        <div className="px-8 py-5 border-b border-slate-100 flex flex-wrap items-center gap-4">
+          <div className="flex p-1 bg-slate-100 rounded-xl">
+            {modes.map(m => (
+              <button key={m} onClick={() => m !== mode && resetBatch('모드를 바꾸면 스캔 내역이 지워집니다. 계속하시겠습니까?') && setMode(m)} className={`flex items-center gap-2 px-5 py-2 rounded-lg text-sm font-black uppercase tracking-widest transition-all ${mode === m ? `bg-white shadow-sm ${m === 'purchase' ? 'text-indigo-600' : 'text-rose-600'}` : 'text-slate-400'}`}>
+                {m === 'purchase' ? <ArrowUpIcon className="w-4 h-4" /> : <ArrowDownIcon className="w-4 h-4" />} {TRANSACTION_TYPE_LABELS[m]}
+              </button>
+            ))}
+          </div>
+          <select value={location} onChange={(e) => resetBatch('위치를 바꾸면 스캔 내역이 지워집니다. 계속하시겠습니까?') && setLocation(e.target.value)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+            {LOCATIONS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+          <input
+            ref={inputRef} type="text" autoFocus value={input}
+            onChange={(e) => setInput(e.target.value.toUpperCase())}
+            onKeyDown={handleKeyDown}
+            placeholder="여기에 스캔 (Enter)"
+            className="flex-grow min-w-[16rem] px-5 py-3 text-xl border-2 border-indigo-200 rounded-xl font-mono font-black outline-none focus:ring-4 focus:ring-indigo-100"
+          />
+        </div>
+        {feedback && (
+          <div className={`px-8 py-3 text-sm font-black uppercase tracking-widest ${feedback.ok ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>{feedback.text}</div>
+        )}
+        <div className="overflow-y-auto flex-grow">
+          {lines.length === 0 ? (
+            <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">
+              {mode === 'purchase' ? '품번을 스캔하세요 · 제품은 품번 다음에 새 일련번호를 이어서 스캔합니다' : '품번 또는 재고 일련번호를 스캔하세요'}
+            </p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                <tr><th className="px-6 py-4">코드</th><th className="px-6 py-4">품명</th><th className="px-6 py-4">일련번호</th><th className="px-6 py-4 text-right">수량</th><th className="px-6 py-4 text-right">{mode === 'release' ? '가용 재고' : '현재 재고'}</th><th className="px-6 py-4"></th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {lines.map((line, index) => ({ line, index })).reverse().map(({ line, index }) => {
+                  const item = itemById.get(line.itemId);
+                  const stock = item ? (mode === 'release' ? availableLocationStock(item, reservations) : calculateLocationStock(item))[location] || 0 : 0;
+                  const short = mode === 'release' && (totals.get(line.itemId) || 0) > stock;
+                  return (
+                    <tr key={`${line.itemId}-${line.serial || ''}`} className={short ? 'bg-rose-50/40' : index === lines.length - 1 ? 'bg-indigo-50/30' : ''}>
+                      <td className="px-6 py-3 font-mono font-black text-indigo-600">{item?.code}</td>
+                      <td className="px-6 py-3 font-black text-slate-800">{item?.name}</td>
+                      <td className="px-6 py-3 font-mono font-black text-slate-500">{line.serial || '-'}</td>
+                      <td className="px-6 py-3 text-right">
+                        {line.serial ? <span className="font-black text-slate-800">1</span> : (
+                          <input type="number" min={1} value={line.quantity} onChange={(e) => updateQuantity(index, e.target.value)} className="w-24 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-right outline-none focus:border-indigo-300" />
+                        )}
+                      </td>
+                      <td className={`px-6 py-3 text-right font-black ${short ? 'text-rose-600' : 'text-slate-400'}`}>{stock.toLocaleString()}</td>
+                      <td className="px-6 py-3 text-right">
+                        <button onClick={() => setLines(prev => prev.filter((_, i) => i !== index))} className="p-2 text-slate-300 hover:text-rose-600 transition-all"><TrashIcon className="w-5 h-5" /></button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="px-8 py-5 border-t border-slate-100 flex flex-wrap items-center gap-3 bg-slate-50/50">
+          <span className="text-xs font-black uppercase tracking-widest text-slate-500 mr-2">{totals.size.toLocaleString()} 품목 · {totalQuantity.toLocaleString()} EA</span>
+          {mode === 'release' && hasProducts && (
+            <select value={customerId} onChange={(e) => setCustomerId(e.target.value)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+              <option value="">고객 선택 (선택)</option>
+              {customers.map(c => <option key={c.id} value={c.id}>{c.name}{c.phoneNumber ? ` · ${c.phoneNumber}` : ''}</option>)}
+            </select>
+          )}
+          {mode === 'purchase' && suppliers.length > 0 && (
+            <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+              <option value="">공급처 선택 (선택)</option>
+              {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          )}
+          {mode === 'purchase' && hasProducts && (
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={consumeBom} onChange={(e) => setConsumeBom(e.target.checked)} className="w-4 h-4 accent-indigo-600" /> BOM 부품 차감
+            </label>
+          )}
+          <input type="text" value={remarks} onChange={(e) => setRemarks(e.target.value)} placeholder="비고" className="flex-grow px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white" />
+          <button onClick={() => resetBatch('스캔 내역을 모두 지우시겠습니까?')} disabled={lines.length === 0} className="px-5 py-3 bg-slate-100 text-slate-500 rounded-xl font-black uppercase text-sm tracking-widest disabled:text-slate-300">비우기</button>
+          <button onClick={handleCommit} disabled={lines.length === 0} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100 disabled:bg-slate-200 disabled:text-slate-400 disabled:shadow-none">
+            <CheckIcon className="w-5 h-5" /> {TRANSACTION_TYPE_LABELS[mode]} 확정
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanStationModal;
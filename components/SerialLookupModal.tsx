@@ -0,0 +1,130 @@
+
+import React, { useState, useMemo } from 'react';
+import type { Item, Transaction } from '../types';
+import { SERIAL_STATUS_LABELS, SERIAL_ACTION_LABELS } from '../services/serials';
+import type { SerialUnit, SerialStatus } from '../services/serials';
+import { TRANSACTION_TYPE_LABELS } from '../services/stock';
+import { locationName } from '../services/locations';
+import { CloseIcon, SearchIcon, ArrowUpIcon, ArrowDownIcon } from './icons';
+
+interface SerialLookupModalProps {
+  registry: Map<string, SerialUnit>;
+  items: Item[];
+  onClose: () => void;
+}
+
+export const SERIAL_STATUS_STYLES: Record<SerialStatus, string> = {
+  in_stock: 'bg-emerald-50 text-emerald-600',
+  released: 'bg-indigo-50 text-indigo-600',
+  returned: 'bg-amber-50 text-amber-600',
+  scrapped: 'bg-slate-100 text-slate-400',
+};
+
+const eventLabel = (t: Transaction) => {
+  if (t.type === 'transfer') return `${TRANSACTION_TYPE_LABELS.transfer} ${locationName(t.location)} → ${locationName(t.toLocation)}`;
+  const base = TRANSACTION_TYPE_LABELS[t.type];
+  const label = t.serialAction ? `${SERIAL_ACTION_LABELS[t.serialAction]} ${base}` : base;
+  return t.bucket === 'quarantine' ? `${label} (격리)` : label;
+};
+
+const SerialLookupModal: React.FC<SerialLookupModalProps> = ({ registry, items, onClose }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<SerialStatus | ''>('');
+  const [selectedSerial, setSelectedSerial] = useState<string | null>(null);
+
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+
+  const units = useMemo(() => {
+    const term = searchTerm.trim().toUpperCase();
+    return [...registry.values()]
+      .filter(u => (!term || u.serial.includes(term)) && (!statusFilter || u.status === statusFilter))
+      .sort((a, b) => a.serial.localeCompare(b.serial));
+  }, [registry, searchTerm, statusFilter]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<SerialStatus, number> = { in_stock: 0, released: 0, returned: 0, scrapped: 0 };
+    registry.forEach(u => { counts[u.status]++; });
+    return counts;
+  }, [registry]);
+
+  const selected = selectedSerial ? registry.get(selectedSerial) : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">일련번호 조회</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">
+              {(Object.keys(SERIAL_STATUS_LABELS) as SerialStatus[]).map(s => `${SERIAL_STATUS_LABELS[s]} ${statusCounts[s].toLocaleString()}`).join(' · ')}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 min-h-0 flex-grow">
+          <div className="border-r border-slate-100 flex flex-col min-h-0">
+            <div className="p-5 space-y-3 border-b border-slate-100">
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-5 h-5" /></span>
+                <input type="text" autoFocus value={searchTerm} onChange={(e) => setSearchTerm(e.target.value.toUpperCase())} placeholder="일련번호 검색" className="w-full pl-10 pr-3 py-3 border-2 border-slate-100 rounded-xl font-black outline-none" />
+              </div>
+              <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as SerialStatus | '')} className="w-full px-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                <option value="">전체 상태</option>
+                {(Object.keys(SERIAL_STATUS_LABELS) as SerialStatus[]).map(s => <option key={s} value={s}>{SERIAL_STATUS_LABELS[s]}</option>)}
+              </select>
+            </div>
+            <ul className="overflow-y-auto divide-y divide-slate-50">
+              {units.length === 0 && <li className="p-10 text-center text-sm font-black text-slate-300 uppercase tracking-widest">일치하는 번호가 없습니다</li>}
+              {units.map(u => (
+                <li key={u.serial}>
+                  <button onClick={() => setSelectedSerial(u.serial)} className={`w-full flex justify-between items-center px-5 py-3 text-left hover:bg-indigo-50/30 transition-colors ${selectedSerial === u.serial ? 'bg-indigo-50/60' : ''}`}>
+                    <div><p className="font-mono font-black text-indigo-600">{u.serial}</p><p className="text-xs font-bold text-slate-400">{itemById.get(u.itemId)?.name || '-'}</p></div>
+                    <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${SERIAL_STATUS_STYLES[u.status]}`}>{SERIAL_STATUS_LABELS[u.status]}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="lg:col-span-2 overflow-y-auto p-8">
+            {!selected ? (
+              <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">조회할 일련번호를 선택하세요</p>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-mono text-4xl font-black text-slate-800">{selected.serial}</p>
+                    <p className="font-bold text-slate-500 mt-1">{itemById.get(selected.itemId) ? `${itemById.get(selected.itemId)!.code} ${itemById.get(selected.itemId)!.name}` : '(삭제된 제품)'}</p>
+                  </div>
+                  <div className="text-right space-y-2">
+                    <span className={`px-5 py-2 rounded-full text-sm font-black uppercase tracking-widest ${SERIAL_STATUS_STYLES[selected.status]}`}>{SERIAL_STATUS_LABELS[selected.status]}</span>
+                    {selected.status === 'in_stock' && <p className="text-xs font-black text-slate-400 uppercase tracking-widest">{locationName(selected.location)}</p>}
+                  </div>
+                </div>
+                <table className="w-full text-left text-sm border-2 border-slate-100 rounded-[1.5rem] overflow-hidden">
+                  <thead className="bg-slate-50 text-xs font-black uppercase text-slate-400 tracking-widest">
+                    <tr><th className="px-5 py-4">일시</th><th className="px-5 py-4">구분</th><th className="px-5 py-4">제품</th><th className="px-5 py-4">고객</th><th className="px-5 py-4">주소</th><th className="px-5 py-4">비고</th><th className="px-5 py-4">아이디</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {selected.events.map(({ itemId, transaction: t }) => (
+                      <tr key={t.id}>
+                        <td className="px-5 py-4 font-bold text-slate-600 whitespace-nowrap">{new Date(t.date).toLocaleString()}</td>
+                        <td className="px-5 py-4"><span className={`inline-flex items-center gap-1 font-black ${t.type === 'purchase' ? 'text-emerald-600' : t.type === 'transfer' ? 'text-sky-600' : 'text-rose-600'}`}>{t.type === 'purchase' ? <ArrowUpIcon className="w-4 h-4" /> : <ArrowDownIcon className="w-4 h-4" />}{eventLabel(t)}</span></td>
+                        <td className="px-5 py-4 font-mono font-bold text-slate-500">{itemById.get(itemId)?.code || '-'}</td>
+                        <td className="px-5 py-4"><p className="font-black text-slate-800">{t.customerName || '-'}</p><p className="text-xs font-bold text-slate-400">{t.phoneNumber || ''}</p></td>
+                        <td className="px-5 py-4 font-bold text-slate-500 max-w-[220px] truncate" title={t.address}>{t.address || '-'}</td>
+                        <td className="px-5 py-4 font-bold text-slate-400">{t.remarks || '-'}</td>
+                        <td className="px-5 py-4 font-mono font-bold text-slate-400">{t.userId || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SerialLookupModal;
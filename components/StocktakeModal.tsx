@@ -0,0 +1,219 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Item, Stocktake, StocktakeLine, Permission } from '../types';
+import { STOCKTAKE_STATUS_LABELS, stocktakeScope, stocktakeVariances } from '../services/stocktake';
+import { calculateLocationStock } from '../services/stock';
+import { LOCATIONS, MAIN_LOCATION_ID, locationName } from '../services/locations';
+import { ITEM_TYPE_LABELS } from '../services/excel';
+import { CloseIcon, CheckIcon, PlusIcon, SearchIcon } from './icons';
+
+interface StocktakeModalProps {
+  stocktakes: Stocktake[];
+  items: Item[];
+  permissions: Permission[];
+  defaultItemType: Item['type'] | '';
+  onCreate: (itemType: Item['type'] | '', location: string) => string;
+  onSave: (stocktakeId: string, lines: StocktakeLine[], remarks: string) => void;
+  onApprove: (stocktakeId: string, lines: StocktakeLine[], remarks: string) => void;
+  onCancel: (stocktakeId: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<Stocktake['status'], string> = {
+  draft: 'bg-amber-50 text-amber-600',
+  approved: 'bg-emerald-50 text-emerald-600',
+  cancelled: 'bg-slate-100 text-slate-400',
+};
+
+const scopeLabel = (s: Pick<Stocktake, 'itemType' | 'location'>) => `${s.itemType ? ITEM_TYPE_LABELS[s.itemType] : '전체'} · ${locationName(s.location)}`;
+
+const varianceClass = (variance: number) => variance > 0 ? 'text-emerald-600' : variance < 0 ? 'text-rose-600' : 'text-slate-300';
+
+const StocktakeModal: React.FC<StocktakeModalProps> = ({ stocktakes, items, permissions, defaultItemType, onCreate, onSave, onApprove, onCancel, onClose }) => {
+  const can = (permission: Permission) => permissions.includes(permission);
+  const [newItemType, setNewItemType] = useState<Item['type'] | ''>(defaultItemType);
+  const [newLocation, setNewLocation] = useState(MAIN_LOCATION_ID);
+  const [selectedId, setSelectedId] = useState<string | null>(() => stocktakes.find(s => s.status === 'draft')?.id || null);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [remarks, setRemarks] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [varianceOnly, setVarianceOnly] = useState(false);
+
+  const sortedStocktakes = useMemo(() => [...stocktakes].sort((a, b) => b.createdAt.localeCompare(a.createdAt)), [stocktakes]);
+  const selected = stocktakes.find(s => s.id === selectedId) || null;
+  const isDraft = selected?.status === 'draft';
+  const editable = isDraft && can('stocktake');
+
+  // 다른 실사를 고르면 저장된 실사 수량으로 입력란을 채움
+  useEffect(() => {
+    setCounts(Object.fromEntries((selected?.lines || []).map(l => [l.itemId, String(l.counted)])));
+    setRemarks(selected?.remarks || '');
+  }, [selectedId]);
+
+  const enteredIds = Object.keys(counts).filter(itemId => counts[itemId].trim() !== '');
+  const draftLines = (): StocktakeLine[] => enteredIds.map(itemId => ({ itemId, counted: parseInt(counts[itemId], 10) }));
+  const invalidCount = enteredIds.some(itemId => !(Number.isInteger(Number(counts[itemId])) && Number(counts[itemId]) >= 0));
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    const term = searchTerm.toLowerCase().trim();
+    if (!isDraft) {
+      return stocktakeVariances(selected, items)
+        .filter(v => (!term || `${v.item.code} ${v.item.name}`.toLowerCase().includes(term)) && (!varianceOnly || v.variance !== 0))
+        .map(v => ({ item: v.item, expected: v.expected, counted: String(v.counted), variance: v.variance as number | null }));
+    }
+    return stocktakeScope(selected, items)
+      .filter(i => !term || `${i.code} ${i.name}`.toLowerCase().includes(term))
+      .map(item => {
+        const expected = calculateLocationStock(item)[selected.location] || 0;
+        const counted = counts[item.id] ?? '';
+        const variance = counted.trim() === '' ? null : parseInt(counted, 10) - expected;
+        return { item, expected, counted, variance };
+      })
+      .filter(r => !varianceOnly || (r.variance !== null && r.variance !== 0));
+  }, [selected, isDraft, items, counts, searchTerm, varianceOnly]);
+
+  const summary = useMemo(() => {
+    const lines = isDraft ? draftLines() : selected?.lines || [];
+    const variances = selected ? stocktakeVariances({ ...selected, lines }, items).filter(v => v.variance !== 0) : [];
+    return { counted: lines.length, variances: variances.length, net: variances.reduce((acc, v) => acc + v.variance, 0) };
+  }, [selected, isDraft, items, counts]);
+
+  const handleCreate = () => {
+    const existing = stocktakes.find(s => s.status === 'draft' && s.itemType === newItemType && s.location === newLocation);
+    if (existing) { alert(`같은 범위의 실사가 진행 중입니다: ${existing.reference}`); setSelectedId(existing.id); return; }
+    setSelectedId(onCreate(newItemType, newLocation));
+  };
+
+  const handleSave = () => {
+    if (!selected || invalidCount) { alert('실사 수량은 0 이상의 정수여야 합니다.'); return; }
+    onSave(selected.id, draftLines(), remarks.trim());
+  };
+
+  const handleApprove = () => {
+    if (!selected) return;
+    if (invalidCount) { alert('실사 수량은 0 이상의 정수여야 합니다.'); return; }
+    if (summary.counted === 0) { alert('실사 수량을 입력한 품목이 없습니다.'); return; }
+    if (!confirm(`${selected.reference} 을(를) 승인하시겠습니까?\n차이 ${summary.variances}건의 조정 기록이 생성됩니다 (순증감 ${summary.net > 0 ? '+' : ''}${summary.net}).`)) return;
+    onApprove(selected.id, draftLines(), remarks.trim());
+  };
+
+  const handleCancel = () => {
+    if (!selected || !confirm(`${selected.reference} 실사를 취소하시겠습니까? 조정 기록은 생성되지 않습니다.`)) return;
+    onCancel(selected.id);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">재고 실사</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">실사 수량을 입력하고 승인하면 차이만큼 조정 기록이 생성됩니다 · 입력하지 않은 품목은 조정하지 않습니다</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-4 min-h-0 flex-grow">
+          <div className="p-6 border-r border-slate-100 space-y-4 overflow-y-auto">
+            {can('stocktake') && (
+              <div className="space-y-3 pb-5 border-b border-slate-100">
+                <h3 className="text-base font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><PlusIcon className="w-5 h-5" /> 새 실사</h3>
+                <select value={newItemType} onChange={(e) => setNewItemType(e.target.value as Item['type'] | '')} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                  <option value="">전체 품목</option>
+                  <option value="part">부품</option>
+                  <option value="product">제품</option>
+                </select>
+                <select value={newLocation} onChange={(e) => setNewLocation(e.target.value)} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white">
+                  {LOCATIONS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+                <button onClick={handleCreate} className="w-full py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100">실사 시작</button>
+              </div>
+            )}
+            {sortedStocktakes.length === 0 ? (
+              <p className="py-8 text-center text-xs font-black text-slate-300 uppercase tracking-widest">실사 기록이 없습니다</p>
+            ) : sortedStocktakes.map(s => (
+              <button key={s.id} onClick={() => setSelectedId(s.id)} className={`w-full text-left p-4 rounded-2xl border-2 transition-all ${s.id === selectedId ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 hover:border-slate-200'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono font-black text-slate-800">{s.reference}</span>
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${STATUS_STYLES[s.status]}`}>{STOCKTAKE_STATUS_LABELS[s.status]}</span>
+                </div>
+                <p className="text-xs font-bold text-slate-500 mt-1">{scopeLabel(s)} · {s.lines.length.toLocaleString()} 품목</p>
+                <p className="text-[10px] font-bold text-slate-400">{new Date(s.createdAt).toLocaleString()} · {s.createdBy || '-'}</p>
+              </button>
+            ))}
+          </div>
+          <div className="lg:col-span-3 flex flex-col min-h-0">
+            {!selected ? (
+              <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">실사를 선택하거나 새로 시작하세요</p>
+            ) : (
+              <>
+                <div className="px-8 py-5 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <p className="text-lg font-black text-slate-800"><span className="font-mono">{selected.reference}</span> <span className="text-slate-400 text-sm">{scopeLabel(selected)}</span></p>
+                    <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">
+                      입력 {summary.counted.toLocaleString()} · 차이 {summary.variances.toLocaleString()} · 순증감 <span className={varianceClass(summary.net)}>{summary.net > 0 ? '+' : ''}{summary.net.toLocaleString()}</span>
+                      {selected.approvedAt && <> · 승인 {new Date(selected.approvedAt).toLocaleString()} {selected.approvedBy}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                      <input type="checkbox" checked={varianceOnly} onChange={(e) => setVarianceOnly(e.target.checked)} className="w-4 h-4 accent-indigo-600" /> 차이만 보기
+                    </label>
+                    <div className="relative w-56">
+                      <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-4 h-4" /></span>
+                      <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="코드 / 품명 검색" className="w-full pl-9 pr-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none" />
+                    </div>
+                  </div>
+                </div>
+                <div className="overflow-y-auto flex-grow">
+                  {rows.length === 0 ? (
+                    <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">표시할 품목이 없습니다</p>
+                  ) : (
+                    <table className="w-full text-left text-sm">
+                      <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                        <tr><th className="px-6 py-4">코드</th><th className="px-6 py-4">품명</th><th className="px-6 py-4 text-right">전산 재고</th><th className="px-6 py-4 text-right">실사 수량</th><th className="px-6 py-4 text-right">차이</th></tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-50">
+                        {rows.map(r => (
+                          <tr key={r.item.id} className={r.variance ? 'bg-amber-50/30' : ''}>
+                            <td className="px-6 py-3 font-mono font-black text-indigo-600">{r.item.code}</td>
+                            <td className="px-6 py-3 font-black text-slate-800">{r.item.name}</td>
+                            <td className="px-6 py-3 text-right font-black text-slate-500">{r.expected.toLocaleString()}</td>
+                            <td className="px-6 py-3 text-right">
+                              {editable ? (
+                                <input type="number" min={0} value={r.counted} onChange={(e) => setCounts(prev => ({ ...prev, [r.item.id]: e.target.value }))} placeholder="-" className="w-28 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-right outline-none focus:border-indigo-300" />
+                              ) : (
+                                <span className="font-black text-slate-800">{r.counted === '' ? '-' : Number(r.counted).toLocaleString()}</span>
+                              )}
+                            </td>
+                            <td className={`px-6 py-3 text-right font-black ${varianceClass(r.variance || 0)}`}>{r.variance === null || Number.isNaN(r.variance) ? '-' : `${r.variance > 0 ? '+' : ''}${r.variance.toLocaleString()}`}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+                <div className="px-8 py-5 border-t border-slate-100 flex flex-wrap items-center gap-3 bg-slate-50/50">
+                  <input type="text" value={remarks} onChange={(e) => setRemarks(e.target.value)} disabled={!editable} placeholder="비고" className="flex-grow px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none bg-white disabled:bg-slate-50" />
+                  {isDraft && can('stocktake') && (
+                    <>
+                      <button onClick={handleCancel} className="px-5 py-3 bg-slate-100 text-slate-500 rounded-xl font-black uppercase text-sm tracking-widest">실사 취소</button>
+                      <button onClick={handleSave} className="px-5 py-3 bg-white text-indigo-600 border-2 border-indigo-100 rounded-xl font-black uppercase text-sm tracking-widest">저장</button>
+                    </>
+                  )}
+                  {isDraft && can('approve_stocktake') && (
+                    <button onClick={handleApprove} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100">
+                      <CheckIcon className="w-5 h-5" /> 승인 및 조정
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeModal;
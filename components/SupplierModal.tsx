@@ -0,0 +1,268 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Supplier, Item, OrderedPart, Permission } from '../types';
+import { CloseIcon, SearchIcon, PlusIcon, CheckIcon, TrashIcon } from './icons';
+import BarChart from './BarChart';
+import { supplierPriceHistory, suppliedParts, monthlyPriceTrend } from '../services/suppliers';
+import { recentMonths } from '../services/reports';
+import { formatCost } from '../services/valuation';
+
+export type SupplierFormData = Pick<Supplier, 'name' | 'contactName' | 'phoneNumber' | 'email' | 'leadTimeDays' | 'partCodes' | 'remarks'>;
+
+interface SupplierModalProps {
+  suppliers: Supplier[];
+  items: Item[];
+  orderedParts: OrderedPart[];
+  permissions: Permission[];
+  onSaveSupplier: (supplierId: string | null, data: SupplierFormData) => Supplier;
+  onDeleteSupplier: (supplierId: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { name: '', contactName: '', phoneNumber: '', email: '', leadTimeDays: '', partCodes: [] as string[], remarks: '' };
+
+const TREND_MONTHS = 12;
+
+const SupplierModal: React.FC<SupplierModalProps> = ({ suppliers, items, orderedParts, permissions, onSaveSupplier, onDeleteSupplier, onClose }) => {
+  const can = (permission: Permission) => permissions.includes(permission);
+  const canEdit = can('edit_master') || can('manage_orders');
+  // 발주 담당자는 발주 단가를 이미 보고 있으므로 함께 허용
+  const showPrices = can('view_costs') || can('manage_orders');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [codeInput, setCodeInput] = useState('');
+  const [trendCode, setTrendCode] = useState('');
+
+  const selected = suppliers.find(s => s.id === selectedId);
+
+  useEffect(() => {
+    setFormData(selected
+      ? { name: selected.name, contactName: selected.contactName, phoneNumber: selected.phoneNumber, email: selected.email, leadTimeDays: selected.leadTimeDays ? String(selected.leadTimeDays) : '', partCodes: selected.partCodes, remarks: selected.remarks }
+      : EMPTY_FORM);
+    setCodeInput('');
+  }, [selected]);
+
+  const filteredSuppliers = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return suppliers
+      .filter(s => !term || `${s.name} ${s.contactName} ${s.phoneNumber} ${s.partCodes.join(' ')}`.toLowerCase().includes(term))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [suppliers, searchTerm]);
+
+  const history = useMemo(() => selectedId ? supplierPriceHistory(selectedId, items, orderedParts) : [], [selectedId, items, orderedParts]);
+  const parts = useMemo(() => selected ? suppliedParts(selected, history, items) : [], [selected, history, items]);
+  const purchases = useMemo(() => {
+    if (!selectedId) return [];
+    return items
+      .flatMap(item => item.transactions.filter(t => t.type === 'purchase' && t.supplierId === selectedId).map(t => ({ item, transaction: t })))
+      .sort((a, b) => b.transaction.date.localeCompare(a.transaction.date));
+  }, [items, selectedId]);
+  const openOrders = useMemo(() => orderedParts.filter(o => o.supplierId === selectedId && (o.status === 'ordered' || o.status === 'partial')), [orderedParts, selectedId]);
+
+  const months = useMemo(() => recentMonths(TREND_MONTHS), []);
+  const activeTrendCode = parts.some(p => p.code === trendCode) ? trendCode : parts.find(p => p.lastPrice !== null)?.code || '';
+  const trend = useMemo(() => monthlyPriceTrend(history, activeTrendCode, months), [history, activeTrendCode, months]);
+
+  const handleSelect = (supplierId: string) => {
+    setIsNew(false);
+    setSelectedId(supplierId);
+  };
+
+  const handleNew = () => {
+    setSelectedId(null);
+    setIsNew(true);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleAddCode = () => {
+    const code = codeInput.trim().toUpperCase();
+    if (!code) return;
+    if (!formData.partCodes.some(c => c.toUpperCase() === code)) setFormData({ ...formData, partCodes: [...formData.partCodes, code] });
+    setCodeInput('');
+  };
+
+  const handleSave = () => {
+    if (!formData.name.trim()) { alert('공급처명을 입력하세요.'); return; }
+    const leadTimeDays = parseInt(formData.leadTimeDays, 10) || 0;
+    if (leadTimeDays < 0) { alert('리드타임을 확인하세요.'); return; }
+    const saved = onSaveSupplier(selected ? selected.id : null, { ...formData, name: formData.name.trim(), leadTimeDays });
+    setIsNew(false);
+    setSelectedId(saved.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`${selected.name} 공급처를 삭제하시겠습니까?`)) return;
+    onDeleteSupplier(selected.id);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">공급처 관리</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">{suppliers.length.toLocaleString()} 곳</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {canEdit && (
+              <button onClick={handleNew} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-2xl text-sm font-black hover:bg-indigo-700 transition-all uppercase shadow-md"><PlusIcon className="w-5 h-5" /> 신규 공급처</button>
+            )}
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 min-h-0 flex-grow">
+          <div className="border-r border-slate-100 flex flex-col min-h-0">
+            <div className="p-5 border-b border-slate-100">
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-5 h-5" /></span>
+                <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="상호 / 담당자 / 품번 검색" className="w-full pl-10 pr-3 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none" />
+              </div>
+            </div>
+            <ul className="overflow-y-auto divide-y divide-slate-50">
+              {filteredSuppliers.length === 0 && <li className="p-10 text-center text-sm font-black text-slate-300 uppercase tracking-widest">등록된 공급처가 없습니다</li>}
+              {filteredSuppliers.map(s => (
+                <li key={s.id}>
+                  <button onClick={() => handleSelect(s.id)} className={`w-full px-5 py-3 text-left hover:bg-indigo-50/30 transition-colors ${selectedId === s.id ? 'bg-indigo-50/60' : ''}`}>
+                    <p className="font-black text-slate-800">{s.name}</p>
+                    <p className="text-xs font-bold text-slate-400">{s.contactName || '-'} · 품번 {s.partCodes.length} · 리드타임 {s.leadTimeDays ? `${s.leadTimeDays}일` : '-'}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="lg:col-span-2 overflow-y-auto p-8">
+            {!selected && !isNew ? (
+              <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">공급처를 선택하세요</p>
+            ) : (
+              <div className="space-y-8">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">공급처명 *</label>
+                    <input type="text" value={formData.name} disabled={!canEdit} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">담당자</label>
+                    <input type="text" value={formData.contactName} disabled={!canEdit} onChange={(e) => setFormData({ ...formData, contactName: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">연락처</label>
+                    <input type="text" value={formData.phoneNumber} disabled={!canEdit} onChange={(e) => setFormData({ ...formData, phoneNumber: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">이메일</label>
+                    <input type="email" value={formData.email} disabled={!canEdit} onChange={(e) => setFormData({ ...formData, email: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">리드타임 (일)</label>
+                    <input type="number" min="0" value={formData.leadTimeDays} disabled={!canEdit} onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div>
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">공급 품번 추가</label>
+                    <div className="flex gap-2">
+                      <input type="text" list="supplier-part-codes" value={codeInput} disabled={!canEdit} onChange={(e) => setCodeInput(e.target.value.toUpperCase())} onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddCode(); } }} className="flex-grow min-w-0 px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-mono font-black outline-none disabled:bg-slate-50" />
+                      <datalist id="supplier-part-codes">
+                        {items.map(i => <option key={i.id} value={i.code}>{i.name}</option>)}
+                      </datalist>
+                      {canEdit && <button onClick={handleAddCode} className="px-4 bg-slate-100 text-slate-600 rounded-xl font-black hover:bg-slate-200 transition-all"><PlusIcon className="w-5 h-5" /></button>}
+                    </div>
+                  </div>
+                  <div className="col-span-2 flex flex-wrap gap-2">
+                    {formData.partCodes.length === 0 && <span className="text-xs font-black text-slate-300 uppercase tracking-widest">등록된 공급 품번이 없습니다</span>}
+                    {formData.partCodes.map(code => (
+                      <span key={code} className="inline-flex items-center gap-1 px-3 py-1 bg-indigo-50 text-indigo-600 rounded-lg font-mono font-black text-sm">
+                        {code}
+                        {canEdit && <button onClick={() => setFormData({ ...formData, partCodes: formData.partCodes.filter(c => c !== code) })} className="text-indigo-300 hover:text-rose-500"><CloseIcon className="w-4 h-4" /></button>}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
+                    <textarea value={formData.remarks} disabled={!canEdit} onChange={(e) => setFormData({ ...formData, remarks: e.target.value })} rows={2} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none disabled:bg-slate-50" />
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex justify-end gap-3">
+                    {selected && can('delete') && <button onClick={handleDelete} className="flex items-center gap-2 px-6 py-3 bg-rose-50 text-rose-600 rounded-xl font-black uppercase text-sm tracking-widest hover:bg-rose-100 transition-all"><TrashIcon className="w-5 h-5" /> 삭제</button>}
+                    <button onClick={handleSave} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-sm tracking-widest shadow-lg shadow-indigo-100"><CheckIcon className="w-5 h-5" /> 저장</button>
+                  </div>
+                )}
+                {selected && (
+                  <>
+                    <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-hidden bg-slate-50/50">
+                      <div className="px-6 py-4 bg-white border-b-2 border-slate-100 flex justify-between items-center">
+                        <span className="text-sm font-black uppercase text-slate-400 tracking-widest">공급 품목</span>
+                        <span className="text-sm font-black text-indigo-600">진행 중인 발주 {openOrders.length.toLocaleString()} 건</span>
+                      </div>
+                      {parts.length === 0 ? (
+                        <p className="p-6 text-center text-sm font-black text-slate-300 uppercase tracking-widest">공급 품목이 없습니다</p>
+                      ) : (
+                        <table className="w-full text-left text-sm">
+                          <thead className="bg-white text-xs font-black uppercase text-slate-400 tracking-widest">
+                            <tr><th className="px-6 py-3">품번</th><th className="px-6 py-3">품명</th>{showPrices && <th className="px-6 py-3 text-right">최근 단가</th>}<th className="px-6 py-3">최근 거래일</th><th className="px-6 py-3 text-right">입고 수량</th></tr>
+                          </thead>
+                          <tbody className="divide-y-2 divide-white">
+                            {parts.map(p => (
+                              <tr key={p.code}>
+                                <td className="px-6 py-3 font-mono font-black text-indigo-600">{p.code}{!p.listed && <span className="ml-2 text-[10px] font-black text-amber-600 uppercase">미등록 품번</span>}</td>
+                                <td className="px-6 py-3 font-bold text-slate-600">{p.name || '-'}</td>
+                                {showPrices && <td className="px-6 py-3 text-right font-black text-slate-800">{p.lastPrice === null ? '-' : `${formatCost(p.lastPrice)} 원`}</td>}
+                                <td className="px-6 py-3 font-bold text-slate-500">{p.lastDate ? new Date(p.lastDate).toLocaleDateString() : '-'}</td>
+                                <td className="px-6 py-3 text-right font-black text-slate-800">{p.purchased.toLocaleString()}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                    {showPrices && activeTrendCode && (
+                      <div className="border-2 border-slate-100 rounded-[1.5rem] p-6">
+                        <div className="flex justify-between items-center mb-4">
+                          <span className="text-sm font-black uppercase text-slate-400 tracking-widest">단가 추이 (최근 {TREND_MONTHS}개월, 수량 가중 평균)</span>
+                          <select value={activeTrendCode} onChange={(e) => setTrendCode(e.target.value)} className="px-4 py-2 border-2 border-slate-100 rounded-xl font-mono font-black outline-none">
+                            {parts.filter(p => p.lastPrice !== null).map(p => <option key={p.code} value={p.code}>{p.code} {p.name}</option>)}
+                          </select>
+                        </div>
+                        <BarChart labels={months} series={[{ name: '단가', className: 'fill-indigo-500', values: trend }]} formatValue={formatCost} height={200} />
+                      </div>
+                    )}
+                    <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-hidden bg-slate-50/50">
+                      <div className="px-6 py-4 bg-white border-b-2 border-slate-100 flex justify-between items-center">
+                        <span className="text-sm font-black uppercase text-slate-400 tracking-widest">입고 내역</span>
+                        <span className="text-sm font-black text-emerald-600">{purchases.length.toLocaleString()} 건</span>
+                      </div>
+                      {purchases.length === 0 ? (
+                        <p className="p-6 text-center text-sm font-black text-slate-300 uppercase tracking-widest">입고 내역이 없습니다</p>
+                      ) : (
+                        <table className="w-full text-left text-sm">
+                          <thead className="bg-white text-xs font-black uppercase text-slate-400 tracking-widest">
+                            <tr><th className="px-6 py-3">일시</th><th className="px-6 py-3">품목</th><th className="px-6 py-3 text-right">수량</th>{showPrices && <th className="px-6 py-3 text-right">단가</th>}{showPrices && <th className="px-6 py-3 text-right">금액</th>}</tr>
+                          </thead>
+                          <tbody className="divide-y-2 divide-white">
+                            {purchases.map(({ item, transaction: t }) => (
+                              <tr key={t.id}>
+                                <td className="px-6 py-3 font-bold text-slate-600 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
+                                <td className="px-6 py-3"><p className="font-mono font-black text-indigo-600">{item.code}</p><p className="text-xs font-bold text-slate-400">{item.name}</p></td>
+                                <td className="px-6 py-3 text-right font-black text-emerald-600">+{t.quantity.toLocaleString()}</td>
+                                {showPrices && <td className="px-6 py-3 text-right font-bold text-slate-600">{t.unitCost == null ? '-' : formatCost(t.unitCost)}</td>}
+                                {showPrices && <td className="px-6 py-3 text-right font-black text-slate-800">{t.unitCost == null ? '-' : formatCost(t.unitCost * t.quantity)}</td>}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierModal;
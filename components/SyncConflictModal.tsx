@@ -0,0 +1,77 @@
+
+import React from 'react';
+import { ENTITY_LABELS } from '../services/sync';
+import type { SyncConflict } from '../services/sync';
+import { CloseIcon, SyncIcon } from './icons';
+
+interface SyncConflictModalProps {
+  conflicts: SyncConflict[];
+  onApplyAlternative: (conflict: SyncConflict) => void;
+  onDismiss: (conflictId: string) => void;
+  onDismissAll: () => void;
+  onClose: () => void;
+}
+
+const HIDDEN_FIELDS = ['id', 'transactions', 'updatedAt', 'passwordHash', 'salt'];
+
+const describeVersion = (version: Record<string, any> | null) => {
+  if (!version) return <p className="text-rose-500 font-black uppercase text-sm">삭제됨</p>;
+  return (
+    <div className="space-y-1">
+      {Object.entries(version).filter(([key]) => !HIDDEN_FIELDS.includes(key)).map(([key, value]) => (
+        <p key={key} className="text-xs font-bold text-slate-500 break-all"><span className="text-slate-300 font-black uppercase mr-2">{key}</span>{String(value ?? '-') || '-'}</p>
+      ))}
+      {version.updatedAt && <p className="text-[10px] font-black text-slate-300 uppercase pt-1">수정 {new Date(version.updatedAt).toLocaleString()}</p>}
+    </div>
+  );
+};
+
+const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ conflicts, onApplyAlternative, onDismiss, onDismissAll, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-5xl animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">동기화 충돌</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">같은 기록을 여러 곳에서 동시에 수정했습니다. 최신 수정본이 적용되었습니다.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button onClick={onDismissAll} className="px-5 py-3 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-xs tracking-widest">모두 확인</button>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="p-8 space-y-6 overflow-y-auto">
+          {conflicts.length === 0 && <p className="text-center text-sm font-black text-slate-300 uppercase tracking-widest">충돌이 없습니다</p>}
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="border-2 border-slate-100 rounded-[1.5rem] p-6">
+              <div className="flex justify-between items-center mb-4">
+                <div>
+                  <span className="px-3 py-1 bg-rose-50 text-rose-600 rounded-full text-[10px] font-black uppercase tracking-widest mr-3">{ENTITY_LABELS[conflict.entity]}</span>
+                  <span className="font-black text-slate-800 text-lg">{conflict.label}</span>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => onApplyAlternative(conflict)} className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-black text-[11px] uppercase hover:bg-indigo-600 hover:text-white transition-all">
+                    <SyncIcon className="w-4 h-4" /> {conflict.kept === 'local' ? '서버 버전 적용' : '내 버전 적용'}
+                  </button>
+                  <button onClick={() => onDismiss(conflict.id)} className="px-4 py-2 bg-slate-100 text-slate-500 rounded-xl font-black text-[11px] uppercase">확인</button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className={`p-4 rounded-xl border-2 ${conflict.kept === 'local' ? 'border-emerald-200 bg-emerald-50/40' : 'border-slate-100'}`}>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">내 버전 {conflict.kept === 'local' && '· 적용됨'}</p>
+                  {describeVersion(conflict.local)}
+                </div>
+                <div className={`p-4 rounded-xl border-2 ${conflict.kept === 'remote' ? 'border-emerald-200 bg-emerald-50/40' : 'border-slate-100'}`}>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">서버 버전 {conflict.kept === 'remote' && '· 적용됨'}</p>
+                  {describeVersion(conflict.remote)}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictModal;
@@ -0,0 +1,63 @@
+
+import React from 'react';
+import type { TrashedItem } from '../types';
+import { CloseIcon, TrashIcon, SyncIcon } from './icons';
+
+interface TrashModalProps {
+  trash: TrashedItem[];
+  onRestore: (trashId: string) => void;
+  onPurge: (trashId: string, reason: string) => void;
+  onClose: () => void;
+}
+
+const TrashModal: React.FC<TrashModalProps> = ({ trash, onRestore, onPurge, onClose }) => {
+  const handlePurge = (entry: TrashedItem) => {
+    const reason = prompt(`${entry.item.code} ${entry.item.name} 을(를) 영구 삭제합니다. 사유를 입력하세요.`);
+    if (!reason || !reason.trim()) return;
+    onPurge(entry.id, reason.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-5xl animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">휴지통</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">삭제된 품목은 입출고 내역과 함께 보관됩니다</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+        <div className="overflow-y-auto">
+          {trash.length === 0 ? (
+            <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">휴지통이 비어 있습니다</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                <tr><th className="px-6 py-4">코드</th><th className="px-6 py-4">품명</th><th className="px-6 py-4 text-right">기록 수</th><th className="px-6 py-4">삭제</th><th className="px-6 py-4">사유</th><th className="px-6 py-4 text-center">관리</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {trash.map(entry => (
+                  <tr key={entry.id} className="hover:bg-indigo-50/20 transition-colors">
+                    <td className="px-6 py-4 font-mono font-black text-indigo-600">{entry.item.code}</td>
+                    <td className="px-6 py-4 font-black text-slate-800">{entry.item.name}<span className="ml-2 text-[10px] text-slate-400 uppercase">{entry.item.type === 'part' ? '부품' : '제품'}</span></td>
+                    <td className="px-6 py-4 text-right font-bold text-slate-500">{entry.item.transactions.length.toLocaleString()}</td>
+                    <td className="px-6 py-4"><p className="font-bold text-slate-600">{new Date(entry.deletedAt).toLocaleString()}</p><p className="text-xs font-black text-slate-400">{entry.deletedBy || '-'}</p></td>
+                    <td className="px-6 py-4 font-bold text-slate-500">{entry.reason || '-'}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-center gap-2">
+                        <button onClick={() => onRestore(entry.id)} className="flex items-center gap-2 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-xl font-black text-[11px] uppercase hover:bg-emerald-600 hover:text-white transition-all"><SyncIcon className="w-4 h-4" /> 복구</button>
+                        <button onClick={() => handlePurge(entry)} className="p-2 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all" title="영구 삭제"><TrashIcon className="w-5 h-5" /></button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashModal;
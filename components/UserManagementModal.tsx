@@ -0,0 +1,194 @@
+
+import React, { useState } from 'react';
+import type { User, Role, Permission } from '../types';
+import { ADMIN_ROLE_ID, ALL_PERMISSIONS, PERMISSION_LABELS } from '../services/auth';
+import { generateId } from '../services/ids';
+import { CloseIcon, EditIcon, TrashIcon, PlusIcon, CheckIcon } from './icons';
+
+interface UserManagementModalProps {
+  users: User[];
+  roles: Role[];
+  currentUserId: string;
+  onSaveUser: (userId: string | null, data: Pick<User, 'username' | 'displayName' | 'roleId' | 'active'>, password: string) => Promise<void>;
+  onDeleteUser: (userId: string) => void;
+  onSaveRole: (role: Role) => void;
+  onDeleteRole: (roleId: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { username: '', displayName: '', roleId: '', active: true, password: '' };
+
+const UserManagementModal: React.FC<UserManagementModalProps> = ({ users, roles, currentUserId, onSaveUser, onDeleteUser, onSaveRole, onDeleteRole, onClose }) => {
+  const [tab, setTab] = useState<'users' | 'roles'>('users');
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ ...EMPTY_FORM, roleId: roles[roles.length - 1]?.id || ADMIN_ROLE_ID });
+  const [isSaving, setIsSaving] = useState(false);
+  const [newRoleName, setNewRoleName] = useState('');
+
+  const roleName = (roleId: string) => roles.find(r => r.id === roleId)?.name || '(삭제된 역할)';
+  const activeAdminCount = (excludeId?: string) => users.filter(u => u.id !== excludeId && u.active && u.roleId === ADMIN_ROLE_ID).length;
+
+  const resetForm = () => {
+    setEditingUserId(null);
+    setFormData({ ...EMPTY_FORM, roleId: roles[roles.length - 1]?.id || ADMIN_ROLE_ID });
+  };
+
+  const handleEditUser = (user: User) => {
+    setEditingUserId(user.id);
+    setFormData({ username: user.username, displayName: user.displayName, roleId: user.roleId, active: user.active, password: '' });
+  };
+
+  const handleSubmitUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const username = formData.username.trim();
+    if (!username) { alert('아이디를 입력하세요.'); return; }
+    if (users.some(u => u.id !== editingUserId && u.username.toLowerCase() === username.toLowerCase())) { alert('이미 사용 중인 아이디입니다.'); return; }
+    if (!editingUserId && !formData.password) { alert('신규 사용자는 비밀번호가 필요합니다.'); return; }
+    const losesAdmin = formData.roleId !== ADMIN_ROLE_ID || !formData.active;
+    if (editingUserId && losesAdmin && activeAdminCount(editingUserId) === 0) { alert('활성 관리자가 최소 한 명은 있어야 합니다.'); return; }
+    if (editingUserId === currentUserId && !formData.active) { alert('본인 계정은 비활성화할 수 없습니다.'); return; }
+    setIsSaving(true);
+    try {
+      await onSaveUser(editingUserId, { username, displayName: formData.displayName.trim() || username, roleId: formData.roleId, active: formData.active }, formData.password);
+      resetForm();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteUser = (user: User) => {
+    if (user.id === currentUserId) { alert('본인 계정은 삭제할 수 없습니다.'); return; }
+    if (user.roleId === ADMIN_ROLE_ID && user.active && activeAdminCount(user.id) === 0) { alert('활성 관리자가 최소 한 명은 있어야 합니다.'); return; }
+    if (!confirm(`${user.username} 사용자를 삭제하시겠습니까? 기존 입출고 기록의 아이디는 유지됩니다.`)) return;
+    onDeleteUser(user.id);
+    if (editingUserId === user.id) resetForm();
+  };
+
+  const handleTogglePermission = (role: Role, permission: Permission) => {
+    const permissions = role.permissions.includes(permission)
+      ? role.permissions.filter(p => p !== permission)
+      : ALL_PERMISSIONS.filter(p => p === permission || role.permissions.includes(p));
+    onSaveRole({ ...role, permissions });
+  };
+
+  const handleAddRole = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newRoleName.trim();
+    if (!name) return;
+    if (roles.some(r => r.name === name)) { alert('이미 있는 역할명입니다.'); return; }
+    onSaveRole({ id: generateId('role'), name, permissions: ['view_parts', 'view_products'] });
+    setNewRoleName('');
+  };
+
+  const handleDeleteRole = (role: Role) => {
+    const assigned = users.filter(u => u.roleId === role.id).length;
+    if (assigned > 0) { alert(`이 역할을 사용하는 사용자가 ${assigned}명 있습니다.`); return; }
+    if (!confirm(`${role.name} 역할을 삭제하시겠습니까?`)) return;
+    onDeleteRole(role.id);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-6xl animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div className="flex items-center gap-8">
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">사용자 관리</h2>
+            <div className="flex p-1.5 bg-slate-100 rounded-2xl">
+              <button onClick={() => setTab('users')} className={`px-6 py-2 text-sm font-black rounded-xl transition-all ${tab === 'users' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>사용자</button>
+              <button onClick={() => setTab('roles')} className={`px-6 py-2 text-sm font-black rounded-xl transition-all ${tab === 'roles' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>역할 / 권한</button>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+        </div>
+
+        {tab === 'users' ? (
+          <div className="p-8 grid grid-cols-1 lg:grid-cols-3 gap-8 overflow-y-auto">
+            <form onSubmit={handleSubmitUser} className="bg-slate-50/80 p-6 rounded-[1.5rem] border border-slate-100 space-y-4 h-fit">
+              <h3 className="text-base font-black text-slate-800 uppercase tracking-widest flex items-center gap-2">
+                {editingUserId ? <><EditIcon className="w-5 h-5" /> 사용자 수정</> : <><PlusIcon className="w-5 h-5" /> 신규 사용자</>}
+              </h3>
+              <input type="text" value={formData.username} onChange={(e) => setFormData({ ...formData, username: e.target.value })} placeholder="아이디 *" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none" />
+              <input type="text" value={formData.displayName} onChange={(e) => setFormData({ ...formData, displayName: e.target.value })} placeholder="이름" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none" />
+              <select value={formData.roleId} onChange={(e) => setFormData({ ...formData, roleId: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none bg-white">
+                {roles.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+              </select>
+              <input type="password" value={formData.password} onChange={(e) => setFormData({ ...formData, password: e.target.value })} placeholder={editingUserId ? '새 비밀번호 (변경 시에만)' : '비밀번호 *'} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none" />
+              <label className="flex items-center gap-3 text-sm font-black text-slate-500 uppercase tracking-widest">
+                <input type="checkbox" checked={formData.active} onChange={(e) => setFormData({ ...formData, active: e.target.checked })} className="w-5 h-5" /> 활성 계정
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <button type="button" onClick={resetForm} className="py-3 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-xs tracking-widest">초기화</button>
+                <button type="submit" disabled={isSaving} className="py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-xs tracking-widest shadow-lg shadow-indigo-100 disabled:opacity-50">{isSaving ? '저장 중...' : '저장'}</button>
+              </div>
+            </form>
+            <div className="lg:col-span-2 border-2 border-slate-100 rounded-[1.5rem] overflow-hidden">
+              <table className="w-full text-left">
+                <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest">
+                  <tr><th className="px-6 py-4">아이디</th><th className="px-6 py-4">이름</th><th className="px-6 py-4">역할</th><th className="px-6 py-4">상태</th><th className="px-6 py-4 text-center">관리</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {users.map(user => (
+                    <tr key={user.id} className={`hover:bg-indigo-50/20 transition-colors ${editingUserId === user.id ? 'bg-indigo-50/50' : ''}`}>
+                      <td className="px-6 py-4 font-mono font-black text-indigo-600">{user.username}{user.id === currentUserId && <span className="ml-2 text-[10px] text-slate-400">(나)</span>}</td>
+                      <td className="px-6 py-4 font-bold text-slate-700">{user.displayName}</td>
+                      <td className="px-6 py-4 font-bold text-slate-500">{roleName(user.roleId)}</td>
+                      <td className="px-6 py-4"><span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${user.active ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>{user.active ? '활성' : '비활성'}</span></td>
+                      <td className="px-6 py-4">
+                        <div className="flex justify-center gap-2">
+                          <button onClick={() => handleEditUser(user)} className="p-2 text-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"><EditIcon className="w-5 h-5" /></button>
+                          <button onClick={() => handleDeleteUser(user)} className="p-2 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <div className="p-8 space-y-6 overflow-y-auto">
+            <div className="border-2 border-slate-100 rounded-[1.5rem] overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="bg-white border-b-2 border-slate-100 text-[11px] font-black uppercase text-slate-400 tracking-widest">
+                  <tr>
+                    <th className="px-6 py-4">역할</th>
+                    {ALL_PERMISSIONS.map(p => <th key={p} className="px-3 py-4 text-center whitespace-nowrap">{PERMISSION_LABELS[p]}</th>)}
+                    <th className="px-6 py-4 text-center">삭제</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {roles.map(role => {
+                    const isAdminRole = role.id === ADMIN_ROLE_ID;
+                    return (
+                      <tr key={role.id} className="hover:bg-indigo-50/20 transition-colors">
+                        <td className="px-6 py-4">
+                          <input type="text" defaultValue={role.name} disabled={isAdminRole} onBlur={(e) => { const name = e.target.value.trim(); if (name && name !== role.name) onSaveRole({ ...role, name }); }} className="w-36 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-slate-700 outline-none disabled:bg-transparent disabled:border-transparent" />
+                        </td>
+                        {ALL_PERMISSIONS.map(p => (
+                          <td key={p} className="px-3 py-4 text-center">
+                            {isAdminRole ? <CheckIcon className="w-5 h-5 text-emerald-500 inline" /> : (
+                              <input type="checkbox" checked={role.permissions.includes(p)} onChange={() => handleTogglePermission(role, p)} className="w-5 h-5 cursor-pointer" />
+                            )}
+                          </td>
+                        ))}
+                        <td className="px-6 py-4 text-center">
+                          {!isAdminRole && <button onClick={() => handleDeleteRole(role)} className="p-2 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <form onSubmit={handleAddRole} className="flex gap-3 max-w-md">
+              <input type="text" value={newRoleName} onChange={(e) => setNewRoleName(e.target.value)} placeholder="새 역할 이름" className="flex-grow px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none" />
+              <button type="submit" className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-black uppercase text-xs tracking-widest"><PlusIcon className="w-4 h-4" /> 역할 추가</button>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserManagementModal;
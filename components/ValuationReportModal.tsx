@@ -0,0 +1,110 @@
+
+import React, { useState, useMemo } from 'react';
+import type { Item, CostingMethod } from '../types';
+import { COSTING_METHOD_LABELS, formatCost } from '../services/valuation';
+import type { ItemValuation } from '../services/valuation';
+import { CloseIcon, DownloadIcon, SearchIcon } from './icons';
+
+interface ValuationReportModalProps {
+  items: Item[];
+  valuations: Map<string, ItemValuation>;
+  costingMethod: CostingMethod;
+  onChangeCostingMethod: (method: CostingMethod) => void;
+  onClose: () => void;
+}
+
+const ValuationReportModal: React.FC<ValuationReportModalProps> = ({ items, valuations, costingMethod, onChangeCostingMethod, onClose }) => {
+  const [typeFilter, setTypeFilter] = useState<Item['type'] | ''>('');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const rows = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return items
+      .filter(i => (!typeFilter || i.type === typeFilter) && (!term || `${i.code} ${i.name}`.toLowerCase().includes(term)))
+      .map(item => ({ item, valuation: valuations.get(item.id)! }))
+      .filter(r => r.valuation)
+      .sort((a, b) => b.valuation.value - a.valuation.value);
+  }, [items, valuations, typeFilter, searchTerm]);
+
+  const totals = useMemo(() => rows.reduce((acc, { valuation: v }) => ({ value: acc.value + v.value, releasedCost: acc.releasedCost + v.releasedCost }), { value: 0, releasedCost: 0 }), [rows]);
+
+  const handleExport = () => {
+    if (rows.length === 0) { alert('내역 없음.'); return; }
+    let csvContent = "\ufeff구분,코드,품명,재고수량,평균단가,재고금액,누적출고원가\r\n";
+    rows.forEach(({ item, valuation: v }) => {
+      const row = [item.type === 'part' ? '부품' : '제품', item.code, item.name, v.quantity, Math.round(v.unitCost), Math.round(v.value), Math.round(v.releasedCost)];
+      csvContent += row.map(val => `"${String(val).replace(/"/g, '""')}"`).join(',') + '\r\n';
+    });
+    csvContent += `"합계","","","","",${Math.round(totals.value)},${Math.round(totals.releasedCost)}\r\n`;
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `재고평가_${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-[90vw] animate-fade-in-up overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">재고 평가</h2>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">{COSTING_METHOD_LABELS[costingMethod]} · 재고 금액 {formatCost(totals.value)} 원 · 출고 원가 {formatCost(totals.releasedCost)} 원</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button onClick={handleExport} className="flex items-center gap-2 px-5 py-3 bg-emerald-50 text-emerald-600 border-2 border-emerald-100 rounded-2xl text-sm font-black hover:bg-emerald-600 hover:text-white transition-all uppercase shadow-md">
+              <DownloadIcon className="w-5 h-5" /><span>내보내기</span>
+            </button>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-8 h-8" /></button>
+          </div>
+        </div>
+        <div className="px-8 py-5 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <div className="flex p-1 bg-slate-100 rounded-xl">
+            {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map(m => (
+              <button key={m} onClick={() => onChangeCostingMethod(m)} className={`px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${costingMethod === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{COSTING_METHOD_LABELS[m]}</button>
+            ))}
+          </div>
+          {([['', '전체'], ['part', '부품'], ['product', '제품']] as const).map(([value, label]) => (
+            <button key={value} onClick={() => setTypeFilter(value)} className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${typeFilter === value ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-400'}`}>{label}</button>
+          ))}
+          <div className="relative flex-grow max-w-sm">
+            <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-4 h-4" /></span>
+            <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="코드 / 품명 검색" className="w-full pl-9 pr-3 py-2 border-2 border-slate-100 rounded-xl font-bold outline-none" />
+          </div>
+        </div>
+        <div className="overflow-y-auto">
+          {rows.length === 0 ? (
+            <p className="p-16 text-center text-sm font-black text-slate-300 uppercase tracking-widest">품목이 없습니다</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white border-b-2 border-slate-100 text-xs font-black uppercase text-slate-400 tracking-widest sticky top-0">
+                <tr><th className="px-6 py-4">코드</th><th className="px-6 py-4">품명</th><th className="px-6 py-4 text-right">재고 수량</th><th className="px-6 py-4 text-right">평균 단가</th><th className="px-6 py-4 text-right">재고 금액</th><th className="px-6 py-4 text-right">누적 출고 원가</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map(({ item, valuation: v }) => (
+                  <tr key={item.id} className="hover:bg-indigo-50/20 transition-colors">
+                    <td className="px-6 py-4 font-mono font-black text-indigo-600">{item.code}</td>
+                    <td className="px-6 py-4"><p className="font-black text-slate-800">{item.name}</p><p className="text-[10px] font-black text-slate-400 uppercase">{item.type === 'part' ? '부품' : '제품'}</p></td>
+                    <td className="px-6 py-4 text-right font-black text-slate-700">{v.quantity.toLocaleString()}</td>
+                    <td className="px-6 py-4 text-right font-bold text-slate-500">{formatCost(v.unitCost)}</td>
+                    <td className="px-6 py-4 text-right font-black text-slate-900">{formatCost(v.value)}</td>
+                    <td className="px-6 py-4 text-right font-bold text-rose-500">{formatCost(v.releasedCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-slate-50 border-t-2 border-slate-100 sticky bottom-0">
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-xs font-black uppercase text-slate-400 tracking-widest">합계 ({rows.length.toLocaleString()} 품목)</td>
+                  <td className="px-6 py-4 text-right text-lg font-black text-slate-900">{formatCost(totals.value)}</td>
+                  <td className="px-6 py-4 text-right font-black text-rose-500">{formatCost(totals.releasedCost)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValuationReportModal;
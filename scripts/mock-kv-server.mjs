@@ -0,0 +1,54 @@
+// 로컬 개발/테스트용 Upstash REST API 모의 서버 (/get, /set, 앱의 조건부 저장 EVAL 만 지원, 메모리 저장)
+// 사용법: KV_REST_API_URL=http://localhost:8079 KV_REST_API_TOKEN=local-token 로 앱 실행
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_KV_PORT || 8079);
+const TOKEN = process.env.KV_REST_API_TOKEN || 'local-token';
+const store = new Map();
+
+const readBody = (req, callback) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => callback(body));
+};
+
+// 저장된 문서의 revision (문서가 없거나 예전 문서면 0)
+const revisionOf = key => store.has(key) ? JSON.parse(store.get(key)).revision || 0 : 0;
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  });
+  res.end(JSON.stringify(body));
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+
+  const [, command, key] = decodeURIComponent(req.url || '').split('/');
+  // POST / 에 명령어 배열: Lua 는 실행하지 않고 앱이 보내는 revision 확인 후 저장 스크립트만 흉내 냄
+  if (req.method === 'POST' && !command) {
+    return readBody(req, body => {
+      const [name, , , evalKey, expected, value] = JSON.parse(body);
+      if (name !== 'EVAL') return send(res, 400, { error: `Unsupported command: ${name}` });
+      if (revisionOf(evalKey) !== Number(expected)) return send(res, 200, { result: 0 });
+      store.set(evalKey, value);
+      send(res, 200, { result: 1 });
+    });
+  }
+  if (command === 'get' && key) {
+    return send(res, 200, { result: store.has(key) ? store.get(key) : null });
+  }
+  if (command === 'set' && key) {
+    return readBody(req, body => {
+      store.set(key, body);
+      send(res, 200, { result: 'OK' });
+    });
+  }
+  send(res, 400, { error: `Unsupported command: ${command}` });
+}).listen(PORT, () => {
+  console.log(`Mock KV server listening on http://localhost:${PORT} (token: ${TOKEN})`);
+});
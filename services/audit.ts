@@ -0,0 +1,63 @@
+import type { AuditAction, AuditEntity, AuditEntry } from '../types';
+import { generateId } from './ids';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: '등록',
+  update: '수정',
+  delete: '삭제',
+  restore: '복구',
+  purge: '영구삭제',
+  import: '가져오기',
+  undo: '되돌리기',
+  redo: '다시 실행',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  item: '품목',
+  transaction: '입출고',
+  orderedPart: '발주',
+  customer: '고객',
+  supplier: '공급처',
+  rma: '반품',
+  stocktake: '재고 실사',
+  reservation: '예약',
+  releaseOrder: '출고 주문',
+  backup: '백업',
+  history: '작업 이력',
+};
+
+const IGNORED_FIELDS = ['updatedAt', 'transactions'];
+
+// 두 레코드에서 값이 달라진 필드만 뽑아 변경 전/후로 반환
+export const diffFields = (before: Record<string, any>, after: Record<string, any>) => {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(k => !IGNORED_FIELDS.includes(k));
+  const changedKeys = keys.filter(k => JSON.stringify(before[k] ?? null) !== JSON.stringify(after[k] ?? null));
+  return {
+    before: Object.fromEntries(changedKeys.map(k => [k, before[k] ?? null])),
+    after: Object.fromEntries(changedKeys.map(k => [k, after[k] ?? null])),
+    changed: changedKeys.length > 0,
+  };
+};
+
+export const createAuditEntry = (entry: Omit<AuditEntry, 'id' | 'at'>): AuditEntry => ({
+  ...entry,
+  id: generateId('audit'),
+  at: new Date().toISOString(),
+});
+
+export const formatAuditValue = (value: Record<string, any> | null) => {
+  if (!value) return '';
+  return Object.entries(value)
+    .filter(([key]) => !IGNORED_FIELDS.includes(key))
+    .map(([key, v]) => `${key}: ${typeof v === 'object' && v !== null ? JSON.stringify(v) : v ?? ''}`)
+    .join(' / ');
+};
+
+export const auditLogToCsv = (entries: AuditEntry[]) => {
+  let csvContent = "\ufeff일시,사용자,작업,대상,대상명,대상ID,변경 전,변경 후,사유\r\n";
+  entries.forEach(e => {
+    const row = [new Date(e.at).toLocaleString(), e.userId, AUDIT_ACTION_LABELS[e.action], AUDIT_ENTITY_LABELS[e.entity], e.label, e.entityId, formatAuditValue(e.before), formatAuditValue(e.after), e.reason];
+    csvContent += row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\r\n';
+  });
+  return csvContent;
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { User } from '../types';
+import { ADMIN_ROLE_ID, ALL_PERMISSIONS, DEFAULT_ROLES, TRANSACTION_PERMISSIONS, createSalt, hashPassword, hasActiveAdmin, permissionsOf, verifyPassword } from './auth';
+import { AT } from './testFixtures';
+
+const makeUser = (id: string, roleId: string, fields: Partial<User> = {}): User => ({
+  id, username: id, displayName: id, roleId, passwordHash: '', salt: '', active: true, createdAt: AT, updatedAt: AT, ...fields,
+});
+
+describe('hashPassword / verifyPassword', () => {
+  it('accepts the right password and rejects a wrong one', async () => {
+    const salt = createSalt();
+    const user = makeUser('kim', 'role-viewer', { salt, passwordHash: await hashPassword('s3cret!', salt) });
+    expect(user.passwordHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyPassword(user, 's3cret!')).toBe(true);
+    expect(await verifyPassword(user, 's3cret')).toBe(false);
+    expect(await verifyPassword(user, '')).toBe(false);
+  });
+
+  it('gives the same password a different hash per salt', async () => {
+    const [a, b] = [createSalt(), createSalt()];
+    expect(a).not.toBe(b);
+    expect(await hashPassword('pw', a)).toBe(await hashPassword('pw', a));
+    expect(await hashPassword('pw', a)).not.toBe(await hashPassword('pw', b));
+  });
+});
+
+describe('permissionsOf', () => {
+  it('gives admins every permission, even if the stored role lost some', () => {
+    const roles = DEFAULT_ROLES.map(r => r.id === ADMIN_ROLE_ID ? { ...r, permissions: [] } : r);
+    expect(permissionsOf(makeUser('admin', ADMIN_ROLE_ID), roles)).toEqual(ALL_PERMISSIONS);
+  });
+
+  it('uses the role of the user and nothing for unknown roles or no user', () => {
+    expect(permissionsOf(makeUser('kim', 'role-release'), DEFAULT_ROLES)).toEqual(['view_parts', 'view_products', 'release']);
+    expect(permissionsOf(makeUser('kim', 'role-gone'), DEFAULT_ROLES)).toEqual([]);
+    expect(permissionsOf(null, DEFAULT_ROLES)).toEqual([]);
+  });
+
+  it('keeps the default roles within the known permissions', () => {
+    expect(DEFAULT_ROLES.flatMap(r => r.permissions).every(p => ALL_PERMISSIONS.includes(p))).toBe(true);
+    expect(DEFAULT_ROLES.find(r => r.id === 'role-viewer')!.permissions).not.toContain('release');
+  });
+});
+
+describe('TRANSACTION_PERMISSIONS', () => {
+  it('maps each transaction type to the permission that may create it', () => {
+    expect(TRANSACTION_PERMISSIONS).toEqual({ purchase: 'purchase', release: 'release', transfer: 'transfer', adjustment: 'approve_stocktake' });
+  });
+});
+
+describe('hasActiveAdmin', () => {
+  it('needs an active user with the admin role', () => {
+    expect(hasActiveAdmin([makeUser('admin', ADMIN_ROLE_ID), makeUser('kim', 'role-viewer')])).toBe(true);
+    expect(hasActiveAdmin([makeUser('admin', ADMIN_ROLE_ID, { active: false }), makeUser('kim', 'role-viewer')])).toBe(false);
+    expect(hasActiveAdmin([])).toBe(false);
+  });
+});
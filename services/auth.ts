@@ -0,0 +1,65 @@
+import type { Permission, Role, TransactionType, User } from '../types';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  view_parts: '부품 조회',
+  view_products: '제품 조회',
+  purchase: '입고 등록',
+  release: '출고 등록',
+  transfer: '위치 이동',
+  edit_master: '품목 등록/수정',
+  edit_transactions: '입출고 기록 수정',
+  delete: '삭제',
+  manage_orders: '발주 관리',
+  manage_rma: '반품(RMA) 처리',
+  stocktake: '재고 실사',
+  approve_stocktake: '실사 승인',
+  backup: '백업/복구',
+  view_audit: '감사 로그',
+  view_costs: '재고 금액',
+  manage_users: '사용자 관리',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+// 거래 구분별 등록 권한 (실사 조정은 재고 실사 승인으로만 생김)
+export const TRANSACTION_PERMISSIONS: Record<TransactionType, Permission> = {
+  purchase: 'purchase',
+  release: 'release',
+  transfer: 'transfer',
+  adjustment: 'approve_stocktake',
+};
+
+// 관리자 역할은 삭제할 수 없고 항상 모든 권한을 가짐
+export const ADMIN_ROLE_ID = 'role-admin';
+
+export const DEFAULT_ROLES: Role[] = [
+  { id: ADMIN_ROLE_ID, name: '관리자', permissions: ALL_PERMISSIONS },
+  { id: 'role-product', name: '제품 담당', permissions: ['view_products', 'purchase', 'release', 'transfer', 'edit_master', 'edit_transactions', 'delete', 'manage_rma'] },
+  { id: 'role-release', name: '출고 전용', permissions: ['view_parts', 'view_products', 'release'] },
+  { id: 'role-viewer', name: '조회 전용', permissions: ['view_parts', 'view_products'] },
+];
+
+const HASH_ITERATIONS = 100000;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const createSalt = () => toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+
+// Web Crypto PBKDF2 (보안 컨텍스트: https 또는 localhost 에서만 동작)
+export const hashPassword = async (password: string, salt: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: encoder.encode(salt), iterations: HASH_ITERATIONS, hash: 'SHA-256' }, key, 256);
+  return toHex(bits);
+};
+
+export const verifyPassword = async (user: User, password: string) => (await hashPassword(password, user.salt)) === user.passwordHash;
+
+// 마지막 활성 관리자를 비활성화 / 강등 / 삭제하면 사용자와 역할을 관리할 사람이 없어지므로 변경 전후로 확인
+export const hasActiveAdmin = (users: Pick<User, 'roleId' | 'active'>[]) => users.some(u => u.active && u.roleId === ADMIN_ROLE_ID);
+
+export const permissionsOf = (user: User | null | undefined, roles: Role[]): Permission[] => {
+  if (!user) return [];
+  if (user.roleId === ADMIN_ROLE_ID) return ALL_PERMISSIONS;
+  return roles.find(r => r.id === user.roleId)?.permissions || [];
+};
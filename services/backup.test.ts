@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { Item, User } from '../types';
+import { BACKUP_VERSION, createBackupFile, readBackup, planImport } from './backup';
+import { emptyDocument } from './sync';
+import type { SyncDocument } from './sync';
+import { ADMIN_ROLE_ID, DEFAULT_ROLES } from './auth';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction } from './testFixtures';
+
+const at = '2026-03-01T00:00:00.000Z';
+
+const stockedItem = (id: string, fields: Partial<Item> = {}): Item =>
+  makeItem(id, { transactions: [makeTransaction(`t-${id}`, { quantity: 10, date: at, unitCost: 100, lotNumber: 'L1' })], ...fields });
+
+const makeUser = (id: string, username: string): User => ({
+  id, username, displayName: username, roleId: ADMIN_ROLE_ID, passwordHash: 'ab12', salt: 'cd34', active: true, createdAt: at, updatedAt: at,
+});
+
+// 모든 컬렉션에 레코드가 하나 이상 있는 문서
+const fullDocument = (): SyncDocument => ({
+  items: [stockedItem('a'), stockedItem('prod', { type: 'product', bom: [{ partId: 'a', quantity: 2 }], warrantyMonths: 12 })],
+  orderedParts: [{ id: 'po-1', registrationDate: '2026-03-01', code: 'A', drawingNumber: '', name: '품목 a', spec: '', unitPrice: 100, quantity: 5, receivedQuantity: 0, status: 'ordered', supplierId: 'supp-1', remarks: '', updatedAt: at }],
+  customers: [{ id: 'cust-1', name: '홍길동', phoneNumber: '010', address: '서울', remarks: '', createdAt: at, updatedAt: at }],
+  suppliers: [{ id: 'supp-1', name: '공급사', contactName: '', phoneNumber: '', email: '', leadTimeDays: 7, partCodes: ['A'], remarks: '', createdAt: at }],
+  rmas: [{ id: 'rma-1', itemId: 'prod', serialNumber: 'SN1', customerName: '홍길동', receivedAt: at, reason: '불량', underWarranty: true, status: 'received', inspectionNotes: '' }],
+  stocktakes: [{ id: 'st-1', reference: 'ST-20260301-01', itemType: '', location: MAIN_LOCATION_ID, status: 'approved', lines: [{ itemId: 'a', counted: 9, expected: 10 }], remarks: '', createdAt: at, createdBy: 'admin', approvedAt: at, approvedBy: 'admin' }],
+  reservations: [{ id: 'rsv-1', itemId: 'a', location: MAIN_LOCATION_ID, quantity: 2, holder: '작업 A', expiresAt: '2026-03-08', status: 'active', remarks: '', createdAt: at, createdBy: 'admin' }],
+  releaseOrders: [{ id: 'ro-1', orderNumber: 'RO-20260301-01', customerName: '홍길동', phoneNumber: '010', address: '서울', location: MAIN_LOCATION_ID, lines: [{ itemId: 'prod', quantity: 1, serials: ['SN2'], unitPrice: 1000 }], status: 'draft', remarks: '', createdAt: at, createdBy: 'admin' }],
+  users: [makeUser('user-1', 'admin')],
+  roles: DEFAULT_ROLES,
+  auditLog: [{ id: 'audit-1', at, userId: 'admin', action: 'update', entity: 'item', entityId: 'a', label: 'A', before: { name: '이전' }, after: { name: '이후' }, reason: '수정' }],
+  trash: [{ id: 'gone', item: stockedItem('gone'), deletedAt: at, deletedBy: 'admin', reason: '중복 등록', updatedAt: at }],
+});
+
+const exported = (doc: SyncDocument) => JSON.parse(JSON.stringify(createBackupFile(doc)));
+
+describe('readBackup', () => {
+  it('reads its own export back unchanged', () => {
+    const doc = fullDocument();
+    const backup = readBackup(exported(doc));
+    expect(backup.errors).toEqual([]);
+    expect(backup.sourceVersion).toBe(BACKUP_VERSION);
+    expect(backup.migrations).toEqual([]);
+    expect(backup.document).toEqual(doc);
+  });
+
+  it('gives duplicated ids new ids instead of rejecting the export', () => {
+    const doc = fullDocument();
+    doc.items[1].transactions = [{ ...doc.items[0].transactions[0] }];
+    doc.customers = [...doc.customers, { ...doc.customers[0], name: '김철수' }];
+    const backup = readBackup(exported(doc));
+    expect(backup.errors).toEqual([]);
+    expect(backup.migrations).toEqual(['중복된 ID 2건에 새 ID 부여']);
+    expect(backup.document.items.flatMap(i => i.transactions.map(t => t.id))).toEqual(['t-a', 't-a-2']);
+    expect(backup.document.customers.map(c => `${c.id} ${c.name}`)).toEqual(['cust-1 홍길동', 'cust-1-2 김철수']);
+  });
+
+  it('migrates a version 1 item array up to the current version', () => {
+    const backup = readBackup([{ id: 'a', type: 'part', registrationDate: '2024-01-01', code: 'A', name: '부품', transactions: [{ id: 't1', type: 'purchase', quantity: 3, date: '2024-01-02T00:00:00.000Z' }] }]);
+    expect(backup.sourceVersion).toBe(1);
+    expect(backup.migrations).toHaveLength(BACKUP_VERSION - 1);
+    expect(backup.errors).toEqual([]);
+    expect(backup.document.items[0]).toMatchObject({ spec: '', remarks: '', transactions: [{ id: 't1', remarks: '' }] });
+    expect(backup.document.releaseOrders).toEqual([]);
+  });
+
+  it('fills defaults of version 2 orders and adds later collections', () => {
+    const backup = readBackup({
+      version: '2.0', items: [],
+      orderedParts: [{ id: 'po-1', registrationDate: '2024-01-01', code: 'A', drawingNumber: '', name: '부품', spec: '', unitPrice: 10 }],
+    });
+    expect(backup.errors).toEqual([]);
+    expect(backup.document.orderedParts[0]).toMatchObject({ quantity: 1, receivedQuantity: 0, status: 'ordered', remarks: '' });
+    expect(backup.document.stocktakes).toEqual([]);
+    expect(backup.document.suppliers).toEqual([]);
+  });
+
+  it('adds the collections missing from versions 3 to 6', () => {
+    const file = exported(fullDocument());
+    const { stocktakes, suppliers, reservations, releaseOrders, ...v3 } = file;
+    const backup = readBackup({ ...v3, version: 3 });
+    expect(backup.errors).toEqual([]);
+    expect(backup.migrations).toHaveLength(4);
+    expect([backup.document.stocktakes, backup.document.suppliers, backup.document.reservations, backup.document.releaseOrders]).toEqual([[], [], [], []]);
+    expect(readBackup({ ...file, releaseOrders: undefined, version: 6 }).document.releaseOrders).toEqual([]);
+  });
+
+  it('rejects malformed records in flat collections', () => {
+    const file = exported(fullDocument());
+    file.customers[0].name = 42;
+    file.users.push({ ...makeUser('user-2', 'intruder'), active: 'yes' });
+    file.roles[0].permissions = ['everything'];
+    file.releaseOrders[0].lines[0].quantity = -1;
+    file.reservations[0].location = 'nowhere';
+    file.auditLog[0].extra = true;
+    file.trash[0].deletedAt = 'yesterday';
+    const { errors } = readBackup(file);
+    expect(errors).toEqual([
+      '고객 1: name 값이 올바르지 않습니다 (42)',
+      '예약 1: location 값이 올바르지 않습니다 ("nowhere")',
+      '출고 주문 1: lines 값이 올바르지 않습니다 ([{"itemId":"prod","quantity":-1,"serials":["SN2"],"unitPrice":1000}])',
+      '사용자 2: active 값이 올바르지 않습니다 ("yes")',
+      '권한 1: permissions 값이 올바르지 않습니다 (["everything"])',
+      '감사 로그 1: 알 수 없는 필드 extra',
+      '휴지통 1: deletedAt 값이 올바르지 않습니다 ("yesterday")',
+    ]);
+  });
+
+  it('rejects files from a newer version', () => {
+    expect(() => readBackup({ ...exported(fullDocument()), version: BACKUP_VERSION + 1 })).toThrow();
+  });
+});
+
+describe('planImport', () => {
+  const current = { ...emptyDocument(), users: [makeUser('user-1', 'admin')], roles: DEFAULT_ROLES };
+  const crafted = () => {
+    const doc = fullDocument();
+    doc.users = [...doc.users, makeUser('user-2', 'intruder')];
+    return readBackup(exported(doc));
+  };
+
+  it('keeps the current accounts when the importer is not an admin', () => {
+    expect(planImport(current, crafted(), 'replace', false).users.map(u => u.username)).toEqual(['admin']);
+    expect(planImport(current, crafted(), 'merge', false).users.map(u => u.username)).toEqual(['admin']);
+  });
+
+  it('takes the accounts of a valid backup for an admin', () => {
+    expect(planImport(current, crafted(), 'replace', true).users.map(u => u.username)).toEqual(['admin', 'intruder']);
+  });
+
+  it('never takes the accounts of a backup with errors', () => {
+    const backup = { ...crafted(), errors: ['고객 1: name 값이 올바르지 않습니다'] };
+    expect(planImport(current, backup, 'replace', true).users.map(u => u.username)).toEqual(['admin']);
+  });
+});
@@ -0,0 +1,327 @@
+import type { Item } from '../types';
+import { TRANSACTION_TYPE_LABELS } from './stock';
+import { LOCATIONS } from './locations';
+import { ALL_PERMISSIONS } from './auth';
+import { ENTITY_LABELS, FLAT_COLLECTIONS, emptyDocument, isSame, itemLabel, mergeDocuments, reassignDuplicateIds, transactionLabel } from './sync';
+import type { SyncDocument, SyncEntity, FlatCollection } from './sync';
+
+// 백업 파일 버전
+// 1: 로컬 저장소(inventory_system_data_v2)의 품목 배열 그대로
+// 2: { items, version: '2.0' } (이후 발주 / 고객 / 사용자 등 컬렉션이 선택적으로 추가됨)
+// 3: 모든 컬렉션이 항상 들어 있고 필드 기본값이 채워진 형식
+// 4: 재고 실사(stocktakes) 컬렉션, 조정(adjustment) 기록 추가
+// 5: 공급처(suppliers) 컬렉션, 입고 / 발주의 공급처 ID 추가
+// 6: 재고 예약(reservations) 컬렉션 추가
+// 7: 출고 주문(releaseOrders) 컬렉션 추가
+export const BACKUP_VERSION = 7;
+
+export interface BackupFile extends SyncDocument {
+  version: number;
+  exportDate: string;
+}
+
+export const createBackupFile = (doc: SyncDocument): BackupFile => ({
+  items: doc.items, orderedParts: doc.orderedParts, customers: doc.customers, suppliers: doc.suppliers, rmas: doc.rmas, stocktakes: doc.stocktakes,
+  reservations: doc.reservations, releaseOrders: doc.releaseOrders, users: doc.users, roles: doc.roles, auditLog: doc.auditLog, trash: doc.trash,
+  version: BACKUP_VERSION, exportDate: new Date().toISOString(),
+});
+
+// 검사 전의 백업 내용 (마이그레이션 단계 사이에 주고받는 형식)
+type BackupData = Record<string, unknown>;
+
+const isObject = (value: unknown): value is BackupData => !!value && typeof value === 'object' && !Array.isArray(value);
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const migrateItem = (item: unknown) => isObject(item) ? {
+  spec: '', modelName: '', drawingNumber: '', application: '', remarks: '',
+  ...item,
+  transactions: asArray(item.transactions).map(t => isObject(t) ? { remarks: '', ...t } : t),
+} : item;
+
+// 수량 / 상태가 없던 예전 발주는 1개 발주, 미입고로 간주
+const migrateOrder = (order: unknown) => isObject(order) ? { quantity: 1, receivedQuantity: 0, status: 'ordered', remarks: '', ...order } : order;
+
+interface Migration {
+  from: number;
+  label: string;
+  migrate: (data: BackupData) => BackupData;
+}
+
+const MIGRATIONS: Migration[] = [
+  { from: 1, label: '로컬 저장 형식(품목 배열) → 2.0', migrate: data => ({ items: data.items, version: '2.0' }) },
+  {
+    from: 2,
+    label: '2.0 → 3: 빠진 컬렉션과 필드 기본값 채움',
+    migrate: data => ({
+      ...emptyDocument(),
+      ...Object.fromEntries((Object.keys(FLAT_COLLECTIONS) as FlatCollection[]).map(key => [key, asArray(data[key])])),
+      items: asArray(data.items).map(migrateItem),
+      orderedParts: asArray(data.orderedParts).map(migrateOrder),
+      trash: asArray(data.trash).map(t => isObject(t) ? { ...t, item: migrateItem(t.item) } : t),
+      version: 3,
+      exportDate: data.exportDate,
+    }),
+  },
+  { from: 3, label: '3 → 4: 재고 실사 컬렉션 추가', migrate: data => ({ ...data, stocktakes: asArray(data.stocktakes), version: 4 }) },
+  { from: 4, label: '4 → 5: 공급처 컬렉션 추가', migrate: data => ({ ...data, suppliers: asArray(data.suppliers), version: 5 }) },
+  { from: 5, label: '5 → 6: 재고 예약 컬렉션 추가', migrate: data => ({ ...data, reservations: asArray(data.reservations), version: 6 }) },
+  { from: 6, label: '6 → 7: 출고 주문 컬렉션 추가', migrate: data => ({ ...data, releaseOrders: asArray(data.releaseOrders), version: 7 }) },
+];
+
+const detectVersion = (raw: unknown): number => {
+  if (Array.isArray(raw)) return 1;
+  if (!isObject(raw) || !Array.isArray(raw.items)) throw new Error('백업 파일 형식이 아닙니다.');
+  const version = raw.version === undefined ? 2 : Math.floor(parseFloat(String(raw.version)));
+  if (!Number.isFinite(version) || version < 1) throw new Error(`알 수 없는 백업 버전입니다: ${raw.version}`);
+  if (version > BACKUP_VERSION) throw new Error(`이 앱보다 새로운 버전(${raw.version})의 백업입니다.`);
+  return version;
+};
+
+// 필드별 검사 (스키마에 없는 필드도 오류로 처리)
+type Check = (value: unknown) => boolean;
+type Schema = Record<string, Check>;
+
+const isString: Check = v => typeof v === 'string';
+const isId: Check = v => typeof v === 'string' && v.trim() !== '';
+const isDate: Check = v => typeof v === 'string' && !Number.isNaN(Date.parse(v));
+const isCount: Check = v => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+const isQuantity: Check = v => typeof v === 'number' && Number.isInteger(v) && v > 0;
+const isSignedQuantity: Check = v => Number.isInteger(v) && v !== 0;
+const isAmount: Check = v => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+const isBoolean: Check = v => typeof v === 'boolean';
+const isValues: Check = v => v === null || isObject(v);
+const oneOf = (values: readonly unknown[]): Check => v => values.includes(v);
+const optional = (check: Check): Check => v => v === undefined || check(v);
+const arrayOf = (check: Check): Check => v => Array.isArray(v) && v.every(check);
+const listOf = (schema: Schema): Check => arrayOf(record => checkRecord(record, schema).length === 0);
+const isLocation = oneOf(LOCATIONS.map(l => l.id));
+
+const BOM_LINE_SCHEMA: Schema = { partId: isId, quantity: isQuantity };
+const LOT_QUANTITY_SCHEMA: Schema = { lotNumber: isId, quantity: isQuantity };
+const STOCKTAKE_LINE_SCHEMA: Schema = { itemId: isId, counted: isCount, expected: optional(Number.isInteger) };
+const RELEASE_ORDER_LINE_SCHEMA: Schema = { itemId: isId, quantity: isQuantity, serials: optional(arrayOf(isId)), unitPrice: optional(isAmount) };
+
+const TRANSACTION_SCHEMA: Schema = {
+  id: isId,
+  type: oneOf(Object.keys(TRANSACTION_TYPE_LABELS)),
+  quantity: isSignedQuantity,
+  date: isDate,
+  remarks: isString,
+  modelName: optional(isString),
+  serialNumber: optional(isString),
+  serialAction: optional(oneOf(['return', 'scrap', 'restock', 'repair'])),
+  bucket: optional(oneOf(['good', 'quarantine'])),
+  rmaId: optional(isString),
+  unitCost: optional(isAmount),
+  location: optional(isLocation),
+  toLocation: optional(isLocation),
+  customerName: optional(isString),
+  address: optional(isString),
+  phoneNumber: optional(isString),
+  customerId: optional(isString),
+  supplierId: optional(isString),
+  lotNumber: optional(isString),
+  expiryDate: optional(isDate),
+  lots: optional(listOf(LOT_QUANTITY_SCHEMA)),
+  userId: optional(isString),
+  orderedPartId: optional(isString),
+  productionId: optional(isString),
+  stocktakeId: optional(isString),
+  reservationId: optional(isString),
+  releaseOrderId: optional(isString),
+  updatedAt: optional(isDate),
+};
+
+const ITEM_SCHEMA: Schema = {
+  id: isId,
+  type: oneOf(['part', 'product']),
+  registrationDate: isDate,
+  code: isId,
+  name: isString,
+  spec: isString,
+  modelName: isString,
+  drawingNumber: isString,
+  application: isString,
+  remarks: isString,
+  bom: optional(listOf(BOM_LINE_SCHEMA)),
+  warrantyMonths: optional(isCount),
+  safetyStock: optional(isCount),
+  reorderQuantity: optional(isCount),
+  transactions: Array.isArray,
+  updatedAt: optional(isDate),
+};
+
+// 휴지통 품목 자체는 품목 스키마로 따로 검사
+const FLAT_SCHEMAS: Record<FlatCollection, Schema> = {
+  orderedParts: {
+    id: isId, registrationDate: isDate, code: isId, drawingNumber: isString, name: isString, spec: isString, unitPrice: isAmount,
+    quantity: isQuantity, receivedQuantity: isCount, status: oneOf(['ordered', 'partial', 'received', 'cancelled']),
+    supplierId: optional(isString), remarks: isString, updatedAt: optional(isDate),
+  },
+  customers: { id: isId, name: isString, phoneNumber: isString, address: isString, remarks: isString, createdAt: isDate, updatedAt: optional(isDate) },
+  suppliers: {
+    id: isId, name: isString, contactName: isString, phoneNumber: isString, email: isString, leadTimeDays: isCount,
+    partCodes: arrayOf(isId), remarks: isString, createdAt: isDate, updatedAt: optional(isDate),
+  },
+  rmas: {
+    id: isId, itemId: isId, serialNumber: isId, customerId: optional(isString), customerName: isString, receivedAt: isDate, reason: isString,
+    releasedAt: optional(isDate), warrantyExpiresAt: optional(isDate), underWarranty: isBoolean, status: oneOf(['received', 'closed']),
+    outcome: optional(oneOf(['restock', 'repair', 'scrap'])), inspectionNotes: isString, closedAt: optional(isDate), updatedAt: optional(isDate),
+  },
+  stocktakes: {
+    id: isId, reference: isId, itemType: oneOf(['', 'part', 'product']), location: isLocation, status: oneOf(['draft', 'approved', 'cancelled']),
+    lines: listOf(STOCKTAKE_LINE_SCHEMA), remarks: isString, createdAt: isDate, createdBy: isString,
+    approvedAt: optional(isDate), approvedBy: optional(isString), updatedAt: optional(isDate),
+  },
+  reservations: {
+    id: isId, itemId: isId, location: isLocation, quantity: isQuantity, holder: isString, customerId: optional(isString), expiresAt: isDate,
+    status: oneOf(['active', 'released', 'cancelled']), remarks: isString, createdAt: isDate, createdBy: isString,
+    closedAt: optional(isDate), closedBy: optional(isString), updatedAt: optional(isDate),
+  },
+  releaseOrders: {
+    id: isId, orderNumber: isId, customerId: optional(isString), customerName: isString, phoneNumber: isString, address: isString,
+    location: isLocation, lines: listOf(RELEASE_ORDER_LINE_SCHEMA), status: oneOf(['draft', 'picked', 'shipped', 'cancelled']), remarks: isString,
+    createdAt: isDate, createdBy: isString, pickedAt: optional(isDate), pickedBy: optional(isString),
+    shippedAt: optional(isDate), shippedBy: optional(isString), updatedAt: optional(isDate),
+  },
+  users: {
+    id: isId, username: isId, displayName: isString, roleId: isId, passwordHash: isId, salt: isId, active: isBoolean,
+    createdAt: isDate, updatedAt: optional(isDate),
+  },
+  roles: { id: isId, name: isId, permissions: arrayOf(oneOf(ALL_PERMISSIONS)), updatedAt: optional(isDate) },
+  auditLog: {
+    id: isId, at: isDate, userId: isString, action: oneOf(['create', 'update', 'delete', 'restore', 'purge', 'import', 'undo', 'redo']),
+    entity: oneOf(['item', 'transaction', 'orderedPart', 'customer', 'supplier', 'rma', 'stocktake', 'reservation', 'releaseOrder', 'backup', 'history']),
+    entityId: isString, itemId: optional(isString), label: isString, before: isValues, after: isValues, reason: isString,
+  },
+  trash: { id: isId, item: isObject, deletedAt: isDate, deletedBy: isString, reason: isString, updatedAt: optional(isDate) },
+};
+
+const checkRecord = (record: unknown, schema: Schema): string[] => {
+  if (!isObject(record)) return ['객체가 아닙니다'];
+  const invalid = Object.entries(schema).filter(([field, check]) => !check(record[field])).map(([field]) => `${field} 값이 올바르지 않습니다 (${JSON.stringify(record[field]) ?? '없음'})`);
+  const unknown = Object.keys(record).filter(field => !(field in schema)).map(field => `알 수 없는 필드 ${field}`);
+  return [...invalid, ...unknown];
+};
+
+const validateItems = (items: unknown[], where: string): string[] => {
+  const errors: string[] = [];
+  items.forEach((item, i) => {
+    const label = `${where} ${i + 1}${isObject(item) && item.code ? ` (${item.code})` : ''}`;
+    checkRecord(item, ITEM_SCHEMA).forEach(e => errors.push(`${label}: ${e}`));
+    if (!isObject(item)) return;
+    asArray(item.transactions).forEach((t, j) => {
+      const tLabel = `${label} 기록 ${j + 1}`;
+      checkRecord(t, TRANSACTION_SCHEMA).forEach(e => errors.push(`${tLabel}: ${e}`));
+      if (!isObject(t)) return;
+      if (t.type !== 'adjustment' && typeof t.quantity === 'number' && t.quantity < 0) errors.push(`${tLabel}: 음수 수량은 조정 기록만 가능합니다`);
+      if (t.type === 'transfer' && (!t.toLocation || t.toLocation === (t.location || LOCATIONS[0].id))) errors.push(`${tLabel}: 이동 기록의 도착 위치가 올바르지 않습니다`);
+    });
+  });
+  return errors;
+};
+
+// 마이그레이션이 끝난 최신 형식의 문서를 검사해 오류 목록을 반환 (중복 ID 는 검사 뒤 새 ID 로 바꿈)
+const validateDocument = (data: BackupData): string[] => {
+  const errors = validateItems(asArray(data.items), '품목');
+  errors.push(...validateItems(asArray(data.trash).map(t => isObject(t) ? t.item : t), '휴지통 품목'));
+  (Object.keys(FLAT_COLLECTIONS) as FlatCollection[]).forEach(key => {
+    const records = data[key];
+    if (!Array.isArray(records)) { errors.push(`${ENTITY_LABELS[key]} 목록이 없습니다`); return; }
+    records.forEach((record: unknown, i) => {
+      checkRecord(record, FLAT_SCHEMAS[key]).forEach(e => errors.push(`${ENTITY_LABELS[key]} ${i + 1}: ${e}`));
+    });
+  });
+  return errors;
+};
+
+// 문서의 모든 레코드 ID (순서 고정, 중복 ID 재지정 전후 비교용)
+const recordIds = (doc: SyncDocument) => [
+  ...doc.items.map(i => i.id),
+  ...[...doc.items, ...doc.trash.map(t => t.item)].flatMap(i => i.transactions.map(t => t.id)),
+  ...(Object.keys(FLAT_COLLECTIONS) as FlatCollection[]).flatMap(key => (doc[key] as { id: string }[]).map(r => r.id)),
+];
+
+export interface BackupAnalysis {
+  sourceVersion: number;
+  migrations: string[]; // 적용된 변환 단계
+  exportDate?: string;
+  document: SyncDocument;
+  errors: string[];
+}
+
+// 백업 JSON 을 읽어 최신 버전으로 변환하고 검사 (형식을 알 수 없으면 예외)
+export const readBackup = (raw: unknown): BackupAnalysis => {
+  const sourceVersion = detectVersion(raw);
+  let data: BackupData = isObject(raw) ? raw : { items: raw };
+  const migrations: string[] = [];
+  MIGRATIONS.filter(m => m.from >= sourceVersion).forEach(m => {
+    data = m.migrate(data);
+    migrations.push(m.label);
+  });
+  const { version, exportDate: rawExportDate, ...collections } = data;
+  const exportDate = typeof rawExportDate === 'string' ? rawExportDate : undefined;
+  const errors = validateDocument(data);
+  // 오류가 있으면 미리보기용으로만 쓰이고 가져오기는 막힘
+  if (errors.length > 0) return { sourceVersion, migrations, exportDate, document: collections as unknown as SyncDocument, errors };
+  // 검사를 통과했으므로 최신 형식의 문서. 예전 ID 생성 방식으로 겹친 ID 는 동기화와 같은 규칙으로 새 ID 부여 (앱에서 내보낸 백업도 그대로 가져올 수 있도록)
+  const checked = collections as unknown as SyncDocument;
+  const document = reassignDuplicateIds(checked);
+  const before = recordIds(checked);
+  const renamed = recordIds(document).filter((id, i) => id !== before[i]).length;
+  if (renamed > 0) migrations.push(`중복된 ID ${renamed}건에 새 ID 부여`);
+  return { sourceVersion, migrations, exportDate, document, errors };
+};
+
+export type ImportMode = 'merge' | 'replace';
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = { merge: '병합', replace: '교체' };
+
+// 병합: 백업에만 있는 레코드를 추가하고, 양쪽에 있으면 수정 시각이 최신인 쪽을 유지 (삭제 없음)
+// 교체: 백업 내용으로 덮어씀. 사용자 / 권한이 없는 예전 백업은 현재 계정을 유지하고 감사 로그는 추가만 함
+// 사용자 / 권한은 관리자가 오류 없는 백업을 가져올 때만 바뀜 (그 외에는 두 방식 모두 현재 계정 유지)
+export const planImport = (current: SyncDocument, backup: BackupAnalysis, mode: ImportMode, isAdmin: boolean): SyncDocument => {
+  const accounts = isAdmin && backup.errors.length === 0;
+  const source: SyncDocument = accounts ? backup.document : { ...backup.document, users: current.users, roles: current.roles };
+  if (mode === 'merge') return mergeDocuments(null, current, source).merged;
+  const currentAuditIds = new Set(current.auditLog.map(e => e.id));
+  return {
+    ...source,
+    users: source.users.length > 0 ? source.users : current.users,
+    roles: source.roles.length > 0 ? source.roles : current.roles,
+    auditLog: [...current.auditLog, ...source.auditLog.filter(e => !currentAuditIds.has(e.id))],
+  };
+};
+
+export interface CollectionDiff {
+  entity: SyncEntity;
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+type Entry = { label: string; value: unknown };
+
+const diffEntries = (entity: SyncEntity, before: Map<string, Entry>, after: Map<string, Entry>): CollectionDiff => ({
+  entity,
+  added: [...after].filter(([id]) => !before.has(id)).map(([, e]) => e.label),
+  changed: [...after].filter(([id, e]) => before.has(id) && !isSame(before.get(id)!.value, e.value)).map(([, e]) => e.label),
+  removed: [...before].filter(([id]) => !after.has(id)).map(([, e]) => e.label),
+});
+
+const itemEntries = (items: Item[]) => new Map<string, Entry>(items.map(item => {
+  const { transactions, ...fields } = item;
+  return [item.id, { label: itemLabel(item), value: fields }];
+}));
+const transactionEntries = (items: Item[]) => new Map<string, Entry>(items.flatMap(item => item.transactions.map(t => [t.id, { label: transactionLabel(item, t), value: t }] as [string, Entry])));
+const flatEntries = (doc: SyncDocument, key: FlatCollection) => {
+  const labelOf = FLAT_COLLECTIONS[key] as (record: { id: string }) => string;
+  return new Map<string, Entry>((doc[key] as { id: string }[]).map(r => [r.id, { label: labelOf(r), value: r }]));
+};
+
+// 반영 전후 문서를 비교한 컬렉션별 추가 / 변경 / 삭제 목록 (품목과 입출고 기록은 따로 집계)
+export const diffDocuments = (before: SyncDocument, after: SyncDocument): CollectionDiff[] => [
+  diffEntries('item', itemEntries(before.items), itemEntries(after.items)),
+  diffEntries('transaction', transactionEntries(before.items), transactionEntries(after.items)),
+  ...(Object.keys(FLAT_COLLECTIONS) as FlatCollection[]).map(key => diffEntries(key, flatEntries(before, key), flatEntries(after, key))),
+];
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { bomRequirements, bomShortageMessage, consumptionReleases } from './bom';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction } from './testFixtures';
+
+const partA = makeItem('pa', { transactions: [makeTransaction('t-a', { quantity: 10 }), makeTransaction('t-a-van', { quantity: 5, location: 'loc-van' })] });
+const partB = makeItem('pb', { transactions: [makeTransaction('t-b', { quantity: 3 })] });
+const product = makeItem('prod', { type: 'product', bom: [{ partId: 'pa', quantity: 2 }, { partId: 'pb', quantity: 1 }, { partId: 'pa', quantity: 1 }, { partId: 'gone', quantity: 1 }] });
+const items = [partA, partB, product];
+
+describe('bomRequirements', () => {
+  it('adds up repeated parts and reports the shortage against total stock', () => {
+    expect(bomRequirements(product, 4, items).map(r => [r.partId, r.perUnit, r.required, r.available, r.shortage])).toEqual([
+      ['pa', 3, 12, 15, 0],
+      ['pb', 1, 4, 3, 1],
+      ['gone', 1, 4, 0, 4],
+    ]);
+  });
+
+  it('counts only the stock at the given location', () => {
+    expect(bomRequirements(product, 4, items, MAIN_LOCATION_ID)[0]).toMatchObject({ available: 10, shortage: 2 });
+  });
+});
+
+describe('bomShortageMessage', () => {
+  it('lists only the parts that are short', () => {
+    expect(bomShortageMessage(bomRequirements(product, 4, items, MAIN_LOCATION_ID))).toBe(
+      '부품 재고 부족:\nPA 품목 pa - 필요 12 / 재고 10\nPB 품목 pb - 필요 4 / 재고 3\n(삭제된 부품) - 필요 4 / 재고 0',
+    );
+    expect(bomShortageMessage(bomRequirements(makeItem('kit', { type: 'product', bom: [{ partId: 'pa', quantity: 1 }] }), 15, items))).toBe('');
+  });
+});
+
+describe('consumptionReleases', () => {
+  it('releases each production\'s parts at its time and location', () => {
+    const productions = [
+      makeTransaction('p1', { quantity: 2, serialNumber: 'SN1', date: '2026-01-02T00:00:00.000Z', userId: 'admin' }),
+      makeTransaction('p2', { quantity: 1, serialNumber: 'SN2', date: '2026-01-03T00:00:00.000Z', location: 'loc-van' }),
+    ];
+    const releases = consumptionReleases(makeItem('prod', { type: 'product', bom: [{ partId: 'pa', quantity: 3 }] }), productions, items);
+    expect(releases.get('pa')!.map(t => [t.type, t.quantity, t.productionId, t.location, t.date])).toEqual([
+      ['release', 6, 'p1', MAIN_LOCATION_ID, '2026-01-02T00:00:00.000Z'],
+      ['release', 3, 'p2', 'loc-van', '2026-01-03T00:00:00.000Z'],
+    ]);
+    expect(releases.get('pa')![0].userId).toBe('admin');
+  });
+});
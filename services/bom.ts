@@ -0,0 +1,42 @@
+import type { Item, Transaction } from '../types';
+import { calculateStock, calculateLocationStock } from './stock';
+import { generateId } from './ids';
+
+export interface BomRequirement {
+  partId: string;
+  part?: Item; // 삭제된 부품이면 없음
+  perUnit: number;
+  required: number;
+  available: number;
+  shortage: number;
+}
+
+// 제품 buildQuantity 개 생산에 필요한 부품별 소요량과 부족분 (같은 부품이 여러 줄이면 합산)
+// location 을 주면 해당 위치의 재고만 가용 재고로 봄
+export const bomRequirements = (product: Item, buildQuantity: number, items: Item[], location?: string): BomRequirement[] => {
+  const perUnit = new Map<string, number>();
+  (product.bom || []).forEach(line => perUnit.set(line.partId, (perUnit.get(line.partId) || 0) + line.quantity));
+  return Array.from(perUnit.entries()).map(([partId, qty]) => {
+    const part = items.find(i => i.id === partId);
+    const required = qty * buildQuantity;
+    const available = !part ? 0 : location ? calculateLocationStock(part)[location] || 0 : calculateStock(part);
+    return { partId, part, perUnit: qty, required, available, shortage: Math.max(0, required - available) };
+  });
+};
+
+export const bomShortageMessage = (requirements: BomRequirement[]) => {
+  const shortages = requirements.filter(r => r.shortage > 0);
+  if (shortages.length === 0) return '';
+  return '부품 재고 부족:\n' + shortages.map(r => `${r.part ? `${r.part.code} ${r.part.name}` : '(삭제된 부품)'} - 필요 ${r.required} / 재고 ${r.available}`).join('\n');
+};
+
+// 생산 입고 기록마다 BOM 구성 부품을 같은 시각, 같은 위치에서 출고하는 기록 (부품 ID → 출고 기록)
+export const consumptionReleases = (product: Item, productions: Transaction[], items: Item[]): Map<string, Transaction[]> => {
+  const releases = new Map<string, Transaction[]>();
+  productions.forEach(p => bomRequirements(product, p.quantity, items, p.location).forEach(r => releases.set(r.partId, [...(releases.get(r.partId) || []), {
+    id: generateId('t'), type: 'release', quantity: r.required, date: p.date, location: p.location,
+    remarks: `${product.code} 생산 소요 (${p.quantity} EA)`, modelName: product.modelName,
+    userId: p.userId, productionId: p.id, updatedAt: p.updatedAt,
+  }])));
+  return releases;
+};
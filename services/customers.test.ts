@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { findCustomer, migrateCustomers } from './customers';
+import { makeItem, makeTransaction, makeCustomer } from './testFixtures';
+
+const release = (id: string, date: string, fields: Parameters<typeof makeTransaction>[1]) =>
+  makeTransaction(id, { type: 'release', date, ...fields });
+
+describe('findCustomer', () => {
+  it('matches by phone digits first, then by name only when a phone is missing', () => {
+    const customers = [makeCustomer('c-1', '홍길동', { phoneNumber: '010-1234-5678' }), makeCustomer('c-2', '김 철수')];
+    expect(findCustomer(customers, '다른 이름', '01012345678')?.id).toBe('c-1');
+    expect(findCustomer(customers, '김철수', '010-9999-9999')?.id).toBe('c-2');
+    expect(findCustomer(customers, '홍길동', '010-9999-9999')).toBeUndefined();
+    expect(findCustomer(customers, '  ')).toBeUndefined();
+  });
+});
+
+describe('migrateCustomers', () => {
+  it('merges free-text customers by name and phone and links every record', () => {
+    const items = [
+      makeItem('a', { transactions: [
+        release('t1', '2026-01-01', { customerName: '홍길동', phoneNumber: '010-1234-5678', address: '서울' }),
+        release('t2', '2026-01-03', { customerName: '홍 길동', phoneNumber: '01012345678', address: '부산' }),
+      ] }),
+      makeItem('b', { transactions: [
+        release('t3', '2026-01-02', { customerName: '김철수' }),
+        release('t4', '2026-01-04', { customerName: '김철수', phoneNumber: '010-5555-0000' }),
+        release('t5', '2026-01-05', { customerName: '  ' }),
+      ] }),
+    ];
+    const { created, links } = migrateCustomers(items, []);
+    expect(created.map(c => [c.name, c.phoneNumber, c.address])).toEqual([['홍길동', '010-1234-5678', '부산'], ['김철수', '010-5555-0000', '']]);
+    expect(links).toEqual({ t1: created[0].id, t2: created[0].id, t3: created[1].id, t4: created[1].id });
+  });
+
+  it('links to existing customers without changing them and skips linked records', () => {
+    const existing = makeCustomer('c-1', '홍길동', { address: '서울' });
+    const items = [makeItem('a', { transactions: [
+      release('t1', '2026-01-01', { customerName: '홍길동', address: '부산' }),
+      release('t2', '2026-01-02', { customerName: '김철수', customerId: 'c-9' }),
+    ] })];
+    const { created, links } = migrateCustomers(items, [existing]);
+    expect(created).toEqual([]);
+    expect(links).toEqual({ t1: 'c-1' });
+    expect(existing.address).toBe('서울');
+  });
+});
@@ -0,0 +1,50 @@
+import type { Customer, Item } from '../types';
+import { generateId } from './ids';
+
+const normalizeName = (name: string) => name.replace(/\s+/g, '').toUpperCase();
+const normalizePhone = (phoneNumber: string) => phoneNumber.replace(/\D/g, '');
+
+// 연락처(숫자만)가 같으면 같은 고객, 연락처가 한쪽이라도 없으면 공백을 뺀 이름으로 비교
+export const findCustomer = (customers: Customer[], name: string, phoneNumber = ''): Customer | undefined => {
+  const digits = normalizePhone(phoneNumber);
+  if (digits) {
+    const byPhone = customers.find(c => normalizePhone(c.phoneNumber) === digits);
+    if (byPhone) return byPhone;
+  }
+  const key = normalizeName(name);
+  if (!key) return undefined;
+  return customers.find(c => normalizeName(c.name) === key && (!digits || !normalizePhone(c.phoneNumber)));
+};
+
+export interface CustomerMigration {
+  created: Customer[];
+  links: Record<string, string>; // transactionId -> customerId
+}
+
+// 고객 ID 없이 자유 입력된 고객 정보를 중복 제거해 고객 목록으로 옮김 (주소/연락처는 가장 최근 기록 기준)
+export const migrateCustomers = (items: Item[], existing: Customer[]): CustomerMigration => {
+  const now = new Date().toISOString();
+  const customers = [...existing];
+  const created: Customer[] = [];
+  const links: Record<string, string> = {};
+  const pending = items
+    .flatMap(i => i.transactions)
+    .filter(t => !t.customerId && t.customerName?.trim())
+    .sort((a, b) => a.date.localeCompare(b.date));
+  pending.forEach(t => {
+    const name = t.customerName!.trim();
+    const phoneNumber = t.phoneNumber?.trim() || '';
+    const address = t.address?.trim() || '';
+    let customer = findCustomer(customers, name, phoneNumber);
+    if (!customer) {
+      customer = { id: generateId('cust'), name, phoneNumber, address, remarks: '', createdAt: now, updatedAt: now };
+      customers.push(customer);
+      created.push(customer);
+    } else if (created.includes(customer)) {
+      if (address) customer.address = address;
+      if (phoneNumber && !customer.phoneNumber) customer.phoneNumber = phoneNumber;
+    }
+    links[t.id] = customer.id;
+  });
+  return { created, links };
+};
@@ -0,0 +1,2 @@
+// catch 로 받은 값의 메시지 (Error 가 아닌 값이 던져져도 문자열로)
+export const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
@@ -0,0 +1,154 @@
+import type { Item, Transaction } from '../types';
+import { calculateStock, calculateQuarantineStock, calculateLocationStock, TRANSACTION_TYPE_LABELS } from './stock';
+import { LOCATIONS, locationName } from './locations';
+import { isBelowSafetyStock } from './reorder';
+import type { ItemValuation } from './valuation';
+import type { LedgerEntry } from './ledger';
+import { formatLots } from './lots';
+
+export interface SheetColumn {
+  header: string;
+  key: string;
+  width?: number;
+  numFmt?: string;
+}
+
+export interface SheetSpec {
+  name: string;
+  columns: SheetColumn[];
+  rows: Record<string, unknown>[];
+}
+
+export const ITEM_TYPE_LABELS: Record<Item['type'], string> = { part: '부품', product: '제품' };
+
+// ExcelJS 는 용량이 커서 엑셀 작업을 할 때만 불러옴
+export const loadExcelJs = async () => (await import('exceljs')).default;
+
+export const createWorkbook = async (sheets: SheetSpec[]): Promise<Blob> => {
+  const ExcelJS = await loadExcelJs();
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  sheets.forEach(spec => {
+    const sheet = workbook.addWorksheet(spec.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    sheet.columns = spec.columns.map(c => ({ header: c.header, key: c.key, width: c.width ?? Math.max(10, c.header.length * 2 + 4), style: c.numFmt ? { numFmt: c.numFmt } : {} }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.addRows(spec.rows);
+  });
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadWorkbook = async (sheets: SheetSpec[], fileName: string) => {
+  const blob = await createWorkbook(sheets);
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+const csvValue = (value: unknown) => {
+  const text = value instanceof Date ? value.toLocaleString() : value === undefined || value === null ? '' : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+// 엑셀이 한글을 알아보도록 BOM 을 붙임
+export const downloadCsv = (spec: SheetSpec, fileName: string) => {
+  const lines = [spec.columns.map(c => csvValue(c.header)).join(','), ...spec.rows.map(row => spec.columns.map(c => csvValue(row[c.key])).join(','))];
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([`\ufeff${lines.join('\r\n')}\r\n`], { type: 'text/csv;charset=utf-8;' }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+const MONEY = '#,##0';
+const DATE_TIME = 'yyyy-mm-dd hh:mm';
+
+// 가져오기(excelImport)와 같은 머리글을 쓰므로 내보낸 파일을 고쳐서 다시 올릴 수 있음
+export const INVENTORY_SHEET = '재고 현황';
+export const HISTORY_SHEET = '입출고 내역';
+export const SUMMARY_SHEET = '요약';
+
+export const inventorySheet = (items: Item[], valuations?: Map<string, ItemValuation>): SheetSpec => ({
+  name: INVENTORY_SHEET,
+  columns: [
+    { header: '구분', key: 'type', width: 8 },
+    { header: '코드', key: 'code', width: 16 },
+    { header: '품명', key: 'name', width: 28 },
+    { header: '기종', key: 'modelName' },
+    { header: '도번', key: 'drawingNumber', width: 18 },
+    { header: '규격', key: 'spec', width: 18 },
+    { header: '적용', key: 'application' },
+    { header: '안전재고', key: 'safetyStock' },
+    { header: '기본발주수량', key: 'reorderQuantity' },
+    { header: '현재재고', key: 'stock' },
+    ...LOCATIONS.map(l => ({ header: l.name, key: `loc:${l.id}` })),
+    { header: '격리재고', key: 'quarantine' },
+    ...(valuations ? [{ header: '평균단가', key: 'unitCost', numFmt: MONEY }, { header: '재고금액', key: 'value', numFmt: MONEY, width: 14 }] : []),
+    { header: '등록일', key: 'registrationDate', width: 12 },
+    { header: '비고', key: 'remarks', width: 30 },
+  ],
+  rows: items.map(item => {
+    const locationStock = calculateLocationStock(item);
+    const valuation = valuations?.get(item.id);
+    return {
+      type: ITEM_TYPE_LABELS[item.type], code: item.code, name: item.name, modelName: item.modelName, drawingNumber: item.drawingNumber,
+      spec: item.spec, application: item.application, safetyStock: item.safetyStock || 0, reorderQuantity: item.reorderQuantity || 0,
+      stock: calculateStock(item), quarantine: calculateQuarantineStock(item),
+      ...Object.fromEntries(LOCATIONS.map(l => [`loc:${l.id}`, locationStock[l.id] || 0])),
+      ...(valuation ? { unitCost: Math.round(valuation.unitCost), value: Math.round(valuation.value) } : {}),
+      registrationDate: item.registrationDate, remarks: item.remarks,
+    };
+  }),
+});
+
+export const ledgerSheet = (entries: LedgerEntry[], withCosts: boolean): SheetSpec => ({
+  name: HISTORY_SHEET,
+  columns: [
+    { header: 'ID', key: 'id', width: 24 },
+    { header: '코드', key: 'code', width: 16 },
+    { header: '품명', key: 'name', width: 24 },
+    { header: '일시', key: 'date', width: 18, numFmt: DATE_TIME },
+    { header: '구분', key: 'type', width: 8 },
+    { header: '수량', key: 'quantity' },
+    { header: '위치', key: 'location', width: 12 },
+    { header: '도착위치', key: 'toLocation', width: 12 },
+    ...(withCosts ? [{ header: '단가', key: 'unitCost', numFmt: MONEY }] : []),
+    { header: '일련번호', key: 'serialNumber', width: 14 },
+    { header: '고객명', key: 'customerName', width: 14 },
+    { header: '연락처', key: 'phoneNumber', width: 14 },
+    { header: '주소', key: 'address', width: 30 },
+    { header: '기종', key: 'modelName' },
+    { header: '로트', key: 'lot', width: 18 },
+    { header: '유효기한', key: 'expiryDate', width: 12 },
+    { header: '비고', key: 'remarks', width: 30 },
+    { header: '아이디', key: 'userId' },
+  ],
+  rows: entries.map(({ item, transaction: t }) => ({
+    id: t.id, code: item.code, name: item.name, date: new Date(t.date), type: TRANSACTION_TYPE_LABELS[t.type], quantity: t.quantity,
+    location: locationName(t.location), toLocation: t.type === 'transfer' ? locationName(t.toLocation) : '',
+    ...(withCosts ? { unitCost: t.unitCost } : {}),
+    serialNumber: t.serialNumber || '', customerName: t.customerName || '', phoneNumber: t.phoneNumber || '', address: t.address || '',
+    modelName: t.modelName || '', lot: t.lotNumber || formatLots(t.lots), expiryDate: t.expiryDate || '', remarks: t.remarks || '', userId: t.userId || '',
+  })),
+});
+
+export const historySheet = (items: Item[], withCosts: boolean): SheetSpec =>
+  ledgerSheet(items.flatMap(item => [...item.transactions].sort((a, b) => a.date.localeCompare(b.date)).map((transaction: Transaction) => ({ item, transaction }))), withCosts);
+
+export const summarySheet = (items: Item[], valuations?: Map<string, ItemValuation>, extra: [string, unknown][] = []): SheetSpec => ({
+  name: SUMMARY_SHEET,
+  columns: [{ header: '항목', key: 'label', width: 24 }, { header: '값', key: 'value', width: 24 }],
+  rows: [
+    ['작성일시', new Date().toLocaleString()],
+    ['부품 품목 수', items.filter(i => i.type === 'part').length],
+    ['제품 품목 수', items.filter(i => i.type === 'product').length],
+    ['총 재고 수량', items.reduce((acc, i) => acc + calculateStock(i), 0)],
+    ['재고 없음', items.filter(i => calculateStock(i) <= 0).length],
+    ['안전 재고 미달', items.filter(i => isBelowSafetyStock(i)).length],
+    ['입출고 기록 수', items.reduce((acc, i) => acc + i.transactions.length, 0)],
+    ...(valuations ? [['재고 금액 합계', Math.round(items.reduce((acc, i) => acc + (valuations.get(i.id)?.value || 0), 0))] as [string, unknown]] : []),
+    ...extra,
+  ].map(([label, value]) => ({ label, value })),
+});
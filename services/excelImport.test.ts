@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseInventoryWorkbook, importRecords } from './excelImport';
+import type { ImportPlan } from './excelImport';
+import { createWorkbook, INVENTORY_SHEET, HISTORY_SHEET } from './excel';
+import { makeItem, makeTransaction, makeCustomer } from './testFixtures';
+
+const part = makeItem('item-1', { code: 'P-1', transactions: [makeTransaction('t-1', { quantity: 10 })] });
+
+const workbook = async (inventory: Record<string, unknown>[], history: Record<string, unknown>[]) => {
+  const sheet = (name: string, rows: Record<string, unknown>[]) => ({
+    name, columns: [...new Set(rows.flatMap(r => Object.keys(r)))].map(key => ({ header: key, key })), rows,
+  });
+  return (await createWorkbook([sheet(INVENTORY_SHEET, inventory), sheet(HISTORY_SHEET, history)])).arrayBuffer();
+};
+
+const parse = async (inventory: Record<string, unknown>[], history: Record<string, unknown>[]) =>
+  parseInventoryWorkbook(await workbook(inventory, history), [part], { allowedTypes: ['purchase', 'release', 'transfer'], usedSerials: new Set() });
+
+const errorsOf = (plan: ImportPlan, sheet: string) => plan.rows.filter(r => r.sheet === sheet).map(r => [r.row, r.errors]);
+
+describe('parseInventoryWorkbook', () => {
+  it('validates item rows', async () => {
+    const plan = await parse([
+      { 코드: 'P-1', 구분: '제품' },
+      { 코드: 'NEW-1', 구분: '부품', 품명: '신규', 안전재고: 5 },
+      { 코드: 'NEW-1', 구분: '부품', 품명: '신규' },
+      { 코드: 'NEW-2', 품명: '구분 없음' },
+      { 코드: 'NEW-3', 구분: '부품', 품명: '음수', 안전재고: -1 },
+    ], []);
+    expect(errorsOf(plan, INVENTORY_SHEET)).toEqual([
+      [2, ['기존 품목의 구분(부품)은 바꿀 수 없습니다.']],
+      [3, []],
+      [4, ['같은 코드가 파일에 두 번 있습니다.']],
+      [5, ['새 품목은 구분(부품 / 제품)이 필요합니다.']],
+      [6, ['안전재고 은(는) 0 이상의 정수여야 합니다.']],
+    ]);
+    expect(plan.creates.map(c => [c.code, c.name, c.safetyStock])).toEqual([['NEW-1', '신규', 5]]);
+    expect(plan.errorCount).toBe(4);
+  });
+
+  it('validates history rows against stock in file order', async () => {
+    const plan = await parse([{ 코드: 'NEW-1', 구분: '부품', 품명: '신규' }], [
+      { 코드: 'P-1', 구분: '출고', 수량: 20 },
+      { 코드: 'P-1', 구분: '출고', 수량: 6 },
+      { 코드: 'P-1', 구분: '출고', 수량: 5 },
+      { 코드: 'NEW-1', 구분: '입고', 수량: 2, 일련번호: 'sn1' },
+      { 코드: 'P-1', 구분: '조정', 수량: 1 },
+      { 코드: 'NONE', 구분: '입고', 수량: 1 },
+      { 코드: 'P-1', 구분: '이동', 수량: 1, 위치: '서비스 차량' },
+    ]);
+    expect(errorsOf(plan, HISTORY_SHEET)).toEqual([
+      [2, ['재고 부족 (본사 창고 10 EA)']],
+      [3, []],
+      [4, ['재고 부족 (본사 창고 4 EA)']],
+      [5, ['부품에는 일련번호를 쓸 수 없습니다.', '일련번호가 있는 기록은 수량이 1 이어야 합니다.']],
+      [6, ['조정 기록은 재고 실사 승인으로만 만들 수 있습니다.']],
+      [7, ['코드 NONE 와 일치하는 품목이 없습니다.']],
+      [8, ['이동은 도착위치가 필요합니다.']],
+    ]);
+    expect(plan.transactions.map(t => [t.code, t.transaction.quantity])).toEqual([['P-1', 6]]);
+  });
+});
+
+describe('importRecords', () => {
+  it('creates new items and links rows to known customers', async () => {
+    const plan = await parse([{ 코드: 'NEW-1', 구분: '부품', 품명: '신규' }], [
+      { 코드: 'NEW-1', 구분: '입고', 수량: 3 },
+      { 코드: 'P-1', 구분: '출고', 수량: 1, 고객명: '홍길동', 연락처: '01012345678' },
+    ]);
+    const { created, added } = importRecords(plan, [part], [makeCustomer('c-1', '홍길동', { phoneNumber: '010-1234-5678' })], 'admin', '2026-01-02T00:00:00.000Z');
+    expect(created.map(i => i.code)).toEqual(['NEW-1']);
+    expect(added.get(created[0].id)!.map(t => t.quantity)).toEqual([3]);
+    expect(added.get('item-1')![0]).toMatchObject({ type: 'release', customerId: 'c-1', userId: 'admin' });
+  });
+});
@@ -0,0 +1,245 @@
+import type { Worksheet } from 'exceljs';
+import type { Customer, Item, Transaction, TransactionType } from '../types';
+import { loadExcelJs, INVENTORY_SHEET, HISTORY_SHEET, ITEM_TYPE_LABELS } from './excel';
+import { calculateLocationStock, TRANSACTION_TYPE_LABELS } from './stock';
+import { LOCATIONS, MAIN_LOCATION_ID, locationName } from './locations';
+import { findCustomer } from './customers';
+import { generateId } from './ids';
+
+export type ImportAction = 'create' | 'update' | 'add' | 'skip';
+
+export const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+  create: '품목 생성',
+  update: '품목 수정',
+  add: '기록 추가',
+  skip: '변경 없음',
+};
+
+export interface ImportRowResult {
+  sheet: string;
+  row: number; // 엑셀 행 번호
+  label: string;
+  action: ImportAction;
+  errors: string[];
+}
+
+export interface ImportPlan {
+  creates: Omit<Item, 'id' | 'transactions'>[];
+  updates: { itemId: string; data: Partial<Item> }[];
+  transactions: { code: string; transaction: Omit<Transaction, 'id'> }[];
+  rows: ImportRowResult[];
+  errorCount: number;
+}
+
+export interface ImportOptions {
+  allowedTypes: TransactionType[]; // 사용자 권한으로 등록할 수 있는 거래 구분
+  usedSerials: Set<string>;
+}
+
+type SheetRow = { row: number; values: Record<string, unknown> };
+
+// 수식 / 서식 있는 텍스트 / 하이퍼링크 셀을 값으로 변환
+const cellValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date || typeof value !== 'object') return value;
+  const v = value as { result?: unknown; richText?: { text: string }[]; text?: string };
+  if (v.result !== undefined) return cellValue(v.result);
+  if (v.richText) return v.richText.map(r => r.text).join('');
+  if (v.text !== undefined) return v.text;
+  return '';
+};
+
+const text = (value: unknown) => value instanceof Date ? value.toISOString() : String(value ?? '').trim();
+
+const readSheet = (worksheet: Worksheet): SheetRow[] => {
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell((cell, col) => { headers[col] = text(cellValue(cell.value)); });
+  const rows: SheetRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values: Record<string, unknown> = {};
+    row.eachCell((cell, col) => { if (headers[col]) values[headers[col]] = cellValue(cell.value); });
+    if (Object.values(values).some(v => text(v) !== '')) rows.push({ row: rowNumber, values });
+  });
+  return rows;
+};
+
+const has = (values: Record<string, unknown>, header: string) => header in values && text(values[header]) !== '';
+
+const parseCount = (value: unknown): number | null => {
+  const n = typeof value === 'number' ? value : Number(text(value).replace(/,/g, ''));
+  return Number.isInteger(n) && n >= 0 ? n : null;
+};
+
+const parseDate = (value: unknown): string | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  const d = new Date(text(value));
+  return isNaN(d.getTime()) ? null : d.toISOString();
+};
+
+// 유효기한은 날짜만 ('YYYY-MM-DD')
+const parseDay = (value: unknown): string | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  const v = text(value);
+  return /^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(Date.parse(v)) ? v : null;
+};
+
+const resolveLocation = (value: unknown) => {
+  const v = text(value);
+  if (!v) return MAIN_LOCATION_ID;
+  return LOCATIONS.find(l => l.name === v || l.id === v)?.id || null;
+};
+
+const typeFromLabel = <T extends string>(labels: Record<T, string>, value: unknown) =>
+  (Object.keys(labels) as T[]).find(k => labels[k] === text(value) || k === text(value));
+
+// 품목 시트에서 수정 가능한 열 (재고 수량 열은 계산값이라 무시)
+const TEXT_FIELDS: [string, 'name' | 'modelName' | 'drawingNumber' | 'spec' | 'application' | 'registrationDate' | 'remarks'][] = [
+  ['품명', 'name'], ['기종', 'modelName'], ['도번', 'drawingNumber'], ['규격', 'spec'], ['적용', 'application'], ['등록일', 'registrationDate'], ['비고', 'remarks'],
+];
+const COUNT_FIELDS: [string, 'safetyStock' | 'reorderQuantity'][] = [['안전재고', 'safetyStock'], ['기본발주수량', 'reorderQuantity']];
+
+// 실제 반영 없이 파일을 검사해서 행별 처리 내용과 오류를 돌려줌
+export const parseInventoryWorkbook = async (buffer: ArrayBuffer, items: Item[], options: ImportOptions): Promise<ImportPlan> => {
+  const ExcelJS = await loadExcelJs();
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const itemSheet = workbook.getWorksheet(INVENTORY_SHEET);
+  const historySheet = workbook.getWorksheet(HISTORY_SHEET);
+  if (!itemSheet && !historySheet) throw new Error(`'${INVENTORY_SHEET}' 또는 '${HISTORY_SHEET}' 시트가 없습니다.`);
+
+  const plan: ImportPlan = { creates: [], updates: [], transactions: [], rows: [], errorCount: 0 };
+  const byCode = new Map(items.map(i => [i.code.toUpperCase(), i]));
+  const createdTypes = new Map<string, Item['type']>();
+  const seenCodes = new Set<string>();
+
+  (itemSheet ? readSheet(itemSheet) : []).forEach(({ row, values }) => {
+    const code = text(values['코드']).toUpperCase();
+    const errors: string[] = [];
+    if (!code) errors.push('코드가 없습니다.');
+    else if (seenCodes.has(code)) errors.push('같은 코드가 파일에 두 번 있습니다.');
+    seenCodes.add(code);
+    const type = has(values, '구분') ? typeFromLabel(ITEM_TYPE_LABELS, values['구분']) : undefined;
+    if (has(values, '구분') && !type) errors.push(`구분 '${text(values['구분'])}' 은(는) 부품 / 제품 중 하나여야 합니다.`);
+    const data: Partial<Item> = {};
+    TEXT_FIELDS.forEach(([header, field]) => {
+      if (!(header in values)) return;
+      const value = values[header];
+      data[field] = field === 'name' ? text(value).toUpperCase() : field === 'registrationDate' && value instanceof Date ? value.toISOString().split('T')[0] : text(value);
+    });
+    COUNT_FIELDS.forEach(([header, field]) => {
+      if (!has(values, header)) return;
+      const n = parseCount(values[header]);
+      if (n === null) errors.push(`${header} 은(는) 0 이상의 정수여야 합니다.`);
+      else data[field] = n;
+    });
+    const existing = byCode.get(code);
+    let action: ImportAction = 'skip';
+    if (!existing) {
+      if (!type) errors.push('새 품목은 구분(부품 / 제품)이 필요합니다.');
+      if (!data.name) errors.push('새 품목은 품명이 필요합니다.');
+      action = 'create';
+      if (errors.length === 0 && type) {
+        createdTypes.set(code, type);
+        plan.creates.push({
+          type, code, name: data.name || '', modelName: data.modelName || '', drawingNumber: data.drawingNumber || '', spec: data.spec || '',
+          application: data.application || '', remarks: data.remarks || '', registrationDate: data.registrationDate || new Date().toISOString().split('T')[0],
+          ...(data.safetyStock !== undefined ? { safetyStock: data.safetyStock } : {}),
+          ...(data.reorderQuantity !== undefined ? { reorderQuantity: data.reorderQuantity } : {}),
+        });
+      }
+    } else {
+      if (type && type !== existing.type) errors.push(`기존 품목의 구분(${ITEM_TYPE_LABELS[existing.type]})은 바꿀 수 없습니다.`);
+      if ('name' in data && !data.name) errors.push('품명을 비울 수 없습니다.');
+      // 비어 있는 값과 없는 값은 같은 것으로 보고 실제로 바뀐 열만 반영
+      const changes = Object.fromEntries(Object.entries(data).filter(([key, value]) => (existing[key as keyof Item] ?? (typeof value === 'number' ? 0 : '')) !== value)) as Partial<Item>;
+      if (Object.keys(changes).length > 0) {
+        action = 'update';
+        if (errors.length === 0) plan.updates.push({ itemId: existing.id, data: changes });
+      }
+    }
+    plan.rows.push({ sheet: INVENTORY_SHEET, row, label: `${code} ${data.name || existing?.name || ''}`.trim(), action, errors });
+  });
+
+  // 출고 / 이동 수량을 파일 순서대로 위치별 재고에 반영하며 부족 여부 검사
+  const locationStock = new Map<string, Record<string, number>>(items.map(i => [i.code.toUpperCase(), calculateLocationStock(i)]));
+  const existingIds = new Set(items.flatMap(i => i.transactions.map(t => t.id)));
+  const fileSerials = new Set<string>();
+
+  (historySheet ? readSheet(historySheet) : []).forEach(({ row, values }) => {
+    const code = text(values['코드']).toUpperCase();
+    const label = `${code} ${text(values['구분'])} ${text(values['수량'])}`.trim();
+    if (has(values, 'ID') && existingIds.has(text(values['ID']))) {
+      plan.rows.push({ sheet: HISTORY_SHEET, row, label, action: 'skip', errors: [] });
+      return;
+    }
+    const errors: string[] = [];
+    const itemType = byCode.get(code)?.type || createdTypes.get(code);
+    if (!code) errors.push('코드가 없습니다.');
+    else if (!itemType) errors.push(`코드 ${code} 와 일치하는 품목이 없습니다.`);
+    const type = typeFromLabel(TRANSACTION_TYPE_LABELS, values['구분']);
+    if (!type) errors.push(`구분 '${text(values['구분'])}' 은(는) ${Object.values(TRANSACTION_TYPE_LABELS).join(' / ')} 중 하나여야 합니다.`);
+    else if (type === 'adjustment') errors.push('조정 기록은 재고 실사 승인으로만 만들 수 있습니다.');
+    else if (!options.allowedTypes.includes(type)) errors.push(`${TRANSACTION_TYPE_LABELS[type]} 권한이 없습니다.`);
+    const quantity = parseCount(values['수량']);
+    if (!quantity) errors.push('수량은 1 이상의 정수여야 합니다.');
+    const date = has(values, '일시') ? parseDate(values['일시']) : new Date().toISOString();
+    if (!date) errors.push(`일시 '${text(values['일시'])}' 를 읽을 수 없습니다.`);
+    const location = resolveLocation(values['위치']);
+    if (!location) errors.push(`알 수 없는 위치 '${text(values['위치'])}'`);
+    const toLocation = type === 'transfer' ? resolveLocation(values['도착위치']) : undefined;
+    if (type === 'transfer' && (!has(values, '도착위치') || !toLocation)) errors.push('이동은 도착위치가 필요합니다.');
+    else if (type === 'transfer' && toLocation === location) errors.push('출발 위치와 도착 위치가 같습니다.');
+    let unitCost: number | undefined;
+    if (type === 'purchase' && has(values, '단가')) {
+      unitCost = Number(text(values['단가']).replace(/,/g, ''));
+      if (isNaN(unitCost) || unitCost < 0) errors.push('단가는 0 이상의 숫자여야 합니다.');
+    }
+    const serialNumber = text(values['일련번호']).toUpperCase();
+    if (serialNumber && itemType === 'part') errors.push('부품에는 일련번호를 쓸 수 없습니다.');
+    if (serialNumber && type === 'purchase' && (options.usedSerials.has(serialNumber) || fileSerials.has(serialNumber))) errors.push(`이미 사용 중인 일련번호 ${serialNumber}`);
+    if (serialNumber && quantity && quantity !== 1) errors.push('일련번호가 있는 기록은 수량이 1 이어야 합니다.');
+    // 로트는 부품 입고만 가져옴 (출고 / 이동은 반영할 때 선입선출로 다시 배정)
+    const lotNumber = type === 'purchase' && itemType === 'part' ? text(values['로트']).toUpperCase() : '';
+    const expiryDate = lotNumber && has(values, '유효기한') ? parseDay(values['유효기한']) : undefined;
+    if (expiryDate === null) errors.push(`유효기한 '${text(values['유효기한'])}' 를 읽을 수 없습니다. (YYYY-MM-DD)`);
+
+    if (errors.length === 0 && type && quantity && location) {
+      const stock = locationStock.get(code) || {};
+      if (type !== 'purchase' && quantity > (stock[location] || 0)) errors.push(`재고 부족 (${locationName(location)} ${(stock[location] || 0).toLocaleString()} EA)`);
+      else {
+        stock[location] = (stock[location] || 0) + (type === 'purchase' ? quantity : -quantity);
+        if (type === 'transfer' && toLocation) stock[toLocation] = (stock[toLocation] || 0) + quantity;
+        locationStock.set(code, stock);
+        if (serialNumber) fileSerials.add(serialNumber);
+        plan.transactions.push({
+          code,
+          transaction: {
+            type, quantity, date: date!, location, ...(toLocation ? { toLocation } : {}), ...(unitCost !== undefined ? { unitCost } : {}),
+            serialNumber, customerName: text(values['고객명']), phoneNumber: text(values['연락처']), address: text(values['주소']),
+            modelName: text(values['기종']), remarks: text(values['비고']),
+            ...(lotNumber ? { lotNumber } : {}), ...(expiryDate ? { expiryDate } : {}),
+          },
+        });
+      }
+    }
+    plan.rows.push({ sheet: HISTORY_SHEET, row, label, action: 'add', errors });
+  });
+
+  plan.errorCount = plan.rows.filter(r => r.errors.length > 0).length;
+  return plan;
+};
+
+// 오류 없는 미리보기를 새 품목과 품목별 추가 기록으로 변환 (고객명은 고객 목록과 연결)
+export const importRecords = (plan: ImportPlan, items: Item[], customers: Customer[], userId: string | undefined, now: string) => {
+  const created: Item[] = plan.creates.map(data => ({ ...data, id: generateId('item'), transactions: [], updatedAt: now }));
+  const idByCode = new Map([...items, ...created].map(i => [i.code.toUpperCase(), i.id]));
+  const added = new Map<string, Transaction[]>();
+  plan.transactions.forEach(({ code, transaction }) => {
+    const itemId = idByCode.get(code);
+    if (!itemId) return;
+    const customerId = transaction.customerName ? findCustomer(customers, transaction.customerName, transaction.phoneNumber || '')?.id : undefined;
+    added.set(itemId, [...(added.get(itemId) || []), { ...transaction, ...(customerId ? { customerId } : {}), id: generateId('t'), userId, updatedAt: now }]);
+  });
+  return { created, added };
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { applyHistoryStep, historyChanges, isSameState, pickHistoryState } from './history';
+import type { HistoryEntry } from './history';
+import { emptyDocument } from './sync';
+import { makeCustomer } from './testFixtures';
+
+const hong = makeCustomer('c-1', '홍길동', { updatedAt: '2026-03-01T00:00:00.000Z' });
+const kim = makeCustomer('c-2', '김철수', { updatedAt: '2026-03-01T00:00:00.000Z' });
+
+// 고객 c-2 를 등록한 작업
+const beforeDoc = { ...emptyDocument(), customers: [hong] };
+const afterDoc = { ...beforeDoc, customers: [hong, kim] };
+const entry: HistoryEntry = {
+  id: 'h-1', label: '고객 등록', at: '2026-03-02T00:00:00.000Z', userId: 'admin',
+  before: pickHistoryState(beforeDoc), after: pickHistoryState(afterDoc),
+};
+
+describe('applyHistoryStep', () => {
+  it('undoes and redoes an action', () => {
+    const undone = applyHistoryStep(afterDoc, entry.after, entry.before);
+    expect(undone.conflicts).toEqual([]);
+    expect(undone.doc.customers).toEqual([hong]);
+    const redone = applyHistoryStep(undone.doc, entry.before, entry.after);
+    expect(redone.conflicts).toEqual([]);
+    expect(redone.doc.customers).toHaveLength(2);
+    expect(redone.doc.customers).toEqual(expect.arrayContaining([hong, kim]));
+  });
+
+  it('keeps changes made after the action', () => {
+    const lee = makeCustomer('c-3', '이영희', { updatedAt: '2026-03-01T00:00:00.000Z' });
+    const current = { ...afterDoc, customers: [...afterDoc.customers, lee] };
+    const { doc, conflicts } = applyHistoryStep(current, entry.after, entry.before);
+    expect(conflicts).toEqual([]);
+    expect(doc.customers).toEqual([hong, lee]);
+  });
+
+  it('reports a conflict when the record changed again after the action', () => {
+    const renamed = { ...afterDoc, customers: [hong, { ...kim, name: '김영수', updatedAt: '2026-03-03T00:00:00.000Z' }] };
+    const edit: HistoryEntry = { ...entry, before: pickHistoryState(afterDoc), after: pickHistoryState({ ...afterDoc, customers: [hong, { ...kim, name: '김민수', updatedAt: '2026-03-02T00:00:00.000Z' }] }) };
+    const { conflicts } = applyHistoryStep(renamed, edit.after, edit.before);
+    expect(conflicts.map(c => `${c.entity} ${c.recordId}`)).toEqual(['customers c-2']);
+  });
+});
+
+describe('isSameState', () => {
+  it('compares collections by reference', () => {
+    expect(isSameState(pickHistoryState(beforeDoc), pickHistoryState({ ...beforeDoc }))).toBe(true);
+    expect(isSameState(entry.before, entry.after)).toBe(false);
+  });
+});
+
+describe('historyChanges', () => {
+  it('lists only the collections the action touched', () => {
+    expect(historyChanges(entry)).toMatchObject([{ entity: 'customers', changed: [], removed: [] }]);
+    expect(historyChanges(entry)[0].added).toHaveLength(1);
+  });
+});
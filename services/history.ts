@@ -0,0 +1,40 @@
+import { mergeDocuments, emptyDocument } from './sync';
+import type { SyncDocument, SyncConflict } from './sync';
+import { diffDocuments } from './backup';
+import type { CollectionDiff } from './backup';
+
+// 되돌리기 대상 컬렉션 (사용자 / 역할은 권한 문제로, 감사 로그는 추가만 가능하므로 제외)
+export type HistoryState = Pick<SyncDocument, 'items' | 'orderedParts' | 'customers' | 'suppliers' | 'rmas' | 'stocktakes' | 'reservations' | 'releaseOrders' | 'trash'>;
+
+const HISTORY_KEYS: (keyof HistoryState)[] = ['items', 'orderedParts', 'customers', 'suppliers', 'rmas', 'stocktakes', 'reservations', 'releaseOrders', 'trash'];
+
+// 세션 동안 보관하는 작업 수 (오래된 작업부터 버림)
+export const MAX_HISTORY = 100;
+
+// 한 번의 사용자 작업 전후 상태 (상태는 불변으로 갱신되므로 바뀌지 않은 컬렉션은 참조를 공유)
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: string;
+  userId: string;
+  before: HistoryState;
+  after: HistoryState;
+}
+
+export const pickHistoryState = (doc: SyncDocument): HistoryState =>
+  HISTORY_KEYS.reduce((acc, key) => ({ ...acc, [key]: doc[key] }), {} as HistoryState);
+
+// 참조 비교로 충분 (바뀌지 않았으면 같은 배열)
+export const isSameState = (a: HistoryState, b: HistoryState) => HISTORY_KEYS.every(key => a[key] === b[key]);
+
+// 작업 하나를 from → to 방향으로 적용 (되돌리기는 after → before).
+// 그 뒤에 생긴 다른 변경(동기화로 받은 변경 등)은 3-way 병합으로 유지하고, 같은 레코드가 다시 바뀐 경우는 충돌로 돌려줌
+export const applyHistoryStep = (current: SyncDocument, from: HistoryState, to: HistoryState): { doc: SyncDocument; conflicts: SyncConflict[] } => {
+  const { merged, conflicts } = mergeDocuments({ ...current, ...from }, current, { ...current, ...to });
+  return { doc: merged, conflicts };
+};
+
+// 이력 패널에 보여줄 작업의 추가 / 변경 / 삭제 목록
+export const historyChanges = (entry: HistoryEntry): CollectionDiff[] =>
+  diffDocuments({ ...emptyDocument(), ...entry.before }, { ...emptyDocument(), ...entry.after })
+    .filter(d => d.added.length + d.changed.length + d.removed.length > 0);
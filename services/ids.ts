@@ -0,0 +1,2 @@
+// 레코드 ID. 일련번호 범위, 스캔, 출하, 가져오기처럼 한 번에 여러 건을 만들어도 겹치지 않도록 UUID 사용
+export const generateId = (prefix: string) => `${prefix}-${crypto.randomUUID()}`;
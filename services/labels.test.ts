@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { encodeCode128 } from './labels';
+import type { BarcodeBars } from './labels';
+
+// 바 위치를 바 / 공백 폭 패턴으로 되돌려 기호별(6칸, 정지 기호 7칸)로 나눔
+const symbolsOf = ({ width, bars }: BarcodeBars) => {
+  const runs = bars.flatMap((bar, i) => {
+    const gap = (bars[i + 1]?.x ?? width) - bar.x - bar.width;
+    return gap > 0 ? [bar.width, gap] : [bar.width];
+  }).join('');
+  const symbols = runs.slice(0, -7).match(/.{6}/g) || [];
+  return [...symbols, runs.slice(-7)];
+};
+
+describe('encodeCode128', () => {
+  it('encodes even digit runs two at a time in code set C', () => {
+    // 시작 C(105) 12 34, 검사 문자 (105 + 12×1 + 34×2) % 103 = 82
+    const barcode = encodeCode128('1234');
+    expect(symbolsOf(barcode)).toEqual(['211232', '112232', '131123', '121241', '2331112']);
+    expect(barcode.width).toBe(11 * 4 + 13);
+  });
+
+  it('uses code set B for text and odd or short digit runs', () => {
+    // 시작 B(104) 'A'(33) '1'(17), 검사 문자 (104 + 33×1 + 17×2) % 103 = 68
+    expect(symbolsOf(encodeCode128('A1'))).toEqual(['211214', '111323', '123221', '141221', '2331112']);
+    expect(symbolsOf(encodeCode128('12'))[0]).toBe('211214');
+    expect(symbolsOf(encodeCode128('12345'))).toHaveLength(5 + 3);
+  });
+
+  it('rejects empty text and characters outside ASCII 32~126', () => {
+    expect(() => encodeCode128('')).toThrow('바코드 내용이 없습니다.');
+    expect(() => encodeCode128('부품')).toThrow("바코드에 쓸 수 없는 문자입니다: '부'");
+  });
+});
@@ -0,0 +1,95 @@
+import QRCode from 'qrcode';
+
+export type LabelSymbology = 'code128' | 'qr' | 'both';
+
+export const LABEL_SYMBOLOGY_LABELS: Record<LabelSymbology, string> = {
+  code128: '바코드 (Code128)',
+  qr: 'QR 코드',
+  both: '바코드 + QR',
+};
+
+// 라벨 용지 배치 (단위 mm, A4 기준)
+export interface LabelLayout {
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+  symbology: LabelSymbology;
+  showName: boolean; // 품명 / 제품명 표시
+}
+
+export const LABEL_PRESETS: { name: string; layout: Omit<LabelLayout, 'symbology' | 'showName'> }[] = [
+  { name: 'A4 3×7 (63.5×38.1)', layout: { pageWidth: 210, pageHeight: 297, columns: 3, rows: 7, labelWidth: 63.5, labelHeight: 38.1, marginTop: 15.1, marginLeft: 7.2, gapX: 2.5, gapY: 0 } },
+  { name: 'A4 2×7 (99.1×38.1)', layout: { pageWidth: 210, pageHeight: 297, columns: 2, rows: 7, labelWidth: 99.1, labelHeight: 38.1, marginTop: 15.1, marginLeft: 4.7, gapX: 2.5, gapY: 0 } },
+  { name: 'A4 4×10 (48.5×25.4)', layout: { pageWidth: 210, pageHeight: 297, columns: 4, rows: 10, labelWidth: 48.5, labelHeight: 25.4, marginTop: 21.5, marginLeft: 8, gapX: 0, gapY: 0 } },
+  { name: '라벨 프린터 50×30', layout: { pageWidth: 50, pageHeight: 30, columns: 1, rows: 1, labelWidth: 50, labelHeight: 30, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 } },
+];
+
+export const DEFAULT_LABEL_LAYOUT: LabelLayout = { ...LABEL_PRESETS[0].layout, symbology: 'both', showName: true };
+
+export const labelsPerPage = (layout: LabelLayout) => Math.max(1, layout.columns * layout.rows);
+
+// Code128 패턴 (바 / 공백 폭, 0~105 는 6칸, 정지 기호는 7칸)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+// 숫자만 짝수 자리면 Code C (두 자리씩), 그 외에는 Code B (ASCII 32~126)
+const code128Values = (text: string): number[] => {
+  if (/^(\d\d){2,}$/.test(text)) return [START_C, ...(text.match(/\d\d/g) || []).map(pair => parseInt(pair, 10))];
+  return [START_B, ...[...text].map(ch => {
+    const code = ch.charCodeAt(0);
+    if (code < 32 || code > 126) throw new Error(`바코드에 쓸 수 없는 문자입니다: '${ch}'`);
+    return code - 32;
+  })];
+};
+
+export interface BarcodeBars {
+  width: number; // 전체 모듈 수 (좌우 여백 제외)
+  bars: { x: number; width: number }[];
+}
+
+export const encodeCode128 = (text: string): BarcodeBars => {
+  if (!text) throw new Error('바코드 내용이 없습니다.');
+  const values = code128Values(text);
+  const checksum = values.reduce((acc, v, i) => acc + v * Math.max(1, i), 0) % 103;
+  const bars: BarcodeBars['bars'] = [];
+  let x = 0;
+  [...values, checksum, STOP].forEach(value => {
+    [...CODE128_PATTERNS[value]].forEach((w, i) => {
+      const width = parseInt(w, 10);
+      if (i % 2 === 0) bars.push({ x, width });
+      x += width;
+    });
+  });
+  return { width: x, bars };
+};
+
+export interface QrMatrix {
+  size: number;
+  isDark: (row: number, col: number) => boolean;
+}
+
+export const encodeQr = (text: string): QrMatrix => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  return { size: modules.size, isDark: (row, col) => !!modules.get(row, col) };
+};
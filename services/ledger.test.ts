@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_LEDGER_FILTER, filterLedger, ledgerEntries, ledgerTotals, sortLedger } from './ledger';
+import type { LedgerEntry, LedgerFilter } from './ledger';
+import { makeItem, makeTransaction } from './testFixtures';
+
+// 현지 시각 기준 기록 (날짜 필터가 현지 날짜로 자르므로)
+const at = (local: string) => new Date(local).toISOString();
+
+const entries = ledgerEntries([
+  makeItem('pa', { modelName: 'M-100', transactions: [
+    makeTransaction('t1', { quantity: 10, date: at('2026-03-01T00:00:00'), userId: 'kim' }),
+    makeTransaction('t2', { type: 'adjustment', quantity: -2, date: at('2026-03-02T12:00:00'), userId: 'lee' }),
+  ] }),
+  makeItem('prod', { type: 'product', name: '컨트롤러', transactions: [
+    makeTransaction('t3', { type: 'release', serialNumber: 'SN-77', customerName: '홍길동', phoneNumber: '010-1234-5678', modelName: 'M-200', date: at('2026-03-02T23:59:59'), userId: 'kim' }),
+    makeTransaction('t4', { type: 'release', serialNumber: 'SN-78', date: at('2026-03-03T00:00:00'), userId: 'admin' }),
+  ] }),
+]);
+
+const ids = (list: LedgerEntry[]) => list.map(e => e.transaction.id);
+const filtered = (filter: Partial<LedgerFilter>) => ids(filterLedger(entries, { ...EMPTY_LEDGER_FILTER, ...filter }));
+
+describe('filterLedger', () => {
+  it('keeps whole local days between from and to', () => {
+    expect(filtered({})).toEqual(['t1', 't2', 't3', 't4']);
+    expect(filtered({ from: '2026-03-02', to: '2026-03-02' })).toEqual(['t2', 't3']);
+    expect(filtered({ to: '2026-03-01' })).toEqual(['t1']);
+  });
+
+  it('combines the other filters, matching text without case', () => {
+    expect(filtered({ types: ['release', 'adjustment'], itemType: 'part' })).toEqual(['t2']);
+    expect(filtered({ search: '컨트롤' })).toEqual(['t3', 't4']);
+    expect(filtered({ search: 'PA', userId: 'KIM' })).toEqual(['t1']);
+    expect(filtered({ customer: '1234' })).toEqual(['t3']);
+    expect(filtered({ serial: 'sn-78' })).toEqual(['t4']);
+  });
+
+  it('falls back to the item model when the record has none', () => {
+    expect(filtered({ modelName: 'm-100' })).toEqual(['t1', 't2']);
+    expect(filtered({ modelName: 'M-200' })).toEqual(['t3']);
+  });
+});
+
+describe('sortLedger', () => {
+  it('sorts by the chosen column with the latest record first among equal values', () => {
+    expect(ids(sortLedger(entries, 'quantity', true))).toEqual(['t2', 't4', 't3', 't1']);
+    expect(ids(sortLedger(entries, 'userId', false))).toEqual(['t2', 't3', 't1', 't4']);
+    expect(ids(sortLedger(entries, 'date', false))).toEqual(['t4', 't3', 't2', 't1']);
+  });
+});
+
+describe('ledgerTotals', () => {
+  it('counts records per type and nets adjustments', () => {
+    const totals = ledgerTotals(entries);
+    expect(totals.purchase).toEqual({ count: 1, quantity: 10 });
+    expect(totals.release).toEqual({ count: 2, quantity: 2 });
+    expect(totals.adjustment).toEqual({ count: 1, quantity: -2 });
+    expect(totals.transfer).toEqual({ count: 0, quantity: 0 });
+  });
+});
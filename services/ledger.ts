@@ -0,0 +1,75 @@
+import type { Item, Transaction, TransactionType } from '../types';
+
+// 전체 입출고 장부의 한 줄 (기록 + 소속 품목)
+export interface LedgerEntry {
+  item: Item;
+  transaction: Transaction;
+}
+
+export interface LedgerFilter {
+  from: string; // YYYY-MM-DD (현지 날짜, 포함)
+  to: string;
+  types: TransactionType[]; // 비어 있으면 전체
+  itemType: Item['type'] | '';
+  search: string; // 코드 / 품명
+  modelName: string;
+  userId: string;
+  customer: string; // 고객명 / 연락처
+  serial: string;
+}
+
+export const EMPTY_LEDGER_FILTER: LedgerFilter = { from: '', to: '', types: [], itemType: '', search: '', modelName: '', userId: '', customer: '', serial: '' };
+
+export type LedgerSortKey = 'date' | 'code' | 'type' | 'quantity' | 'userId' | 'customer';
+
+export const ledgerEntries = (items: Item[]): LedgerEntry[] => items.flatMap(item => item.transactions.map(transaction => ({ item, transaction })));
+
+const includes = (value: string | undefined, term: string) => !term || (value || '').toLowerCase().includes(term.toLowerCase().trim());
+
+// 기록의 기종이 없으면 품목 기종으로 봄
+export const ledgerModelName = (e: LedgerEntry) => e.transaction.modelName || e.item.modelName || '';
+
+export const filterLedger = (entries: LedgerEntry[], filter: LedgerFilter): LedgerEntry[] => {
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+  return entries.filter(({ item, transaction: t }) => {
+    const time = new Date(t.date).getTime();
+    return time >= from && time <= to
+      && (filter.types.length === 0 || filter.types.includes(t.type))
+      && (!filter.itemType || item.type === filter.itemType)
+      && (includes(item.code, filter.search) || includes(item.name, filter.search))
+      && includes(ledgerModelName({ item, transaction: t }), filter.modelName)
+      && includes(t.userId, filter.userId)
+      && (includes(t.customerName, filter.customer) || includes(t.phoneNumber, filter.customer))
+      && includes(t.serialNumber, filter.serial);
+  });
+};
+
+const SORT_VALUES: Record<LedgerSortKey, (e: LedgerEntry) => string | number> = {
+  date: e => e.transaction.date,
+  code: e => e.item.code,
+  type: e => e.transaction.type,
+  quantity: e => e.transaction.quantity,
+  userId: e => e.transaction.userId || '',
+  customer: e => e.transaction.customerName || '',
+};
+
+// 같은 값이면 최근 기록이 위로
+export const sortLedger = (entries: LedgerEntry[], key: LedgerSortKey, ascending: boolean): LedgerEntry[] => {
+  const value = SORT_VALUES[key];
+  return [...entries].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    const order = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+    return (ascending ? order : -order) || b.transaction.date.localeCompare(a.transaction.date);
+  });
+};
+
+// 구분별 건수 / 수량 (조정은 순증감)
+export const ledgerTotals = (entries: LedgerEntry[]) => {
+  const totals: Record<TransactionType, { count: number; quantity: number }> = {
+    purchase: { count: 0, quantity: 0 }, release: { count: 0, quantity: 0 }, transfer: { count: 0, quantity: 0 }, adjustment: { count: 0, quantity: 0 },
+  };
+  entries.forEach(({ transaction: t }) => { totals[t.type].count++; totals[t.type].quantity += t.quantity; });
+  return totals;
+};
@@ -0,0 +1,15 @@
+export interface StockLocation {
+  id: string;
+  name: string;
+}
+
+// 위치가 없는 예전 기록은 본사 창고로 간주
+export const MAIN_LOCATION_ID = 'loc-main';
+
+export const LOCATIONS: StockLocation[] = [
+  { id: MAIN_LOCATION_ID, name: '본사 창고' },
+  { id: 'loc-line', name: '생산 라인' },
+  { id: 'loc-van', name: '서비스 차량' },
+];
+
+export const locationName = (id?: string) => LOCATIONS.find(l => l.id === (id || MAIN_LOCATION_ID))?.name || id || '';
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { Transaction } from '../types';
+import { allocateLots, appendTransactions, expiryStatus, lotBalances } from './lots';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction } from './testFixtures';
+
+const record = (id: string, type: Transaction['type'], quantity: number, day: number, fields: Partial<Transaction> = {}) =>
+  makeTransaction(id, { type, quantity, date: `2026-03-${String(day).padStart(2, '0')}T00:00:00.000Z`, ...fields });
+
+const stockedItem = (transactions: Transaction[]) => makeItem('item-1', { transactions });
+
+const now = new Date('2026-03-10T12:00:00');
+
+describe('expiryStatus', () => {
+  it('stays usable through the expiry day and warns within 30 days', () => {
+    expect(expiryStatus(undefined, now)).toBeNull();
+    expect(expiryStatus('2026-03-10', now)).toBe('soon');
+    expect(expiryStatus('2026-03-09', now)).toBe('expired');
+    expect(expiryStatus('2026-06-01', now)).toBe('ok');
+  });
+});
+
+describe('lotBalances', () => {
+  it('tracks lots per location through releases and transfers', () => {
+    const balances = lotBalances(stockedItem([
+      record('in-b', 'purchase', 5, 2, { lotNumber: 'B' }),
+      record('in-a', 'purchase', 10, 1, { lotNumber: 'A' }),
+      record('move', 'transfer', 4, 3, { toLocation: 'loc-van', lots: [{ lotNumber: 'A', quantity: 4 }] }),
+      record('out', 'release', 3, 4, { lots: [{ lotNumber: 'A', quantity: 3 }] }),
+      record('held', 'purchase', 2, 5, { lotNumber: 'C', bucket: 'quarantine' }),
+    ]));
+    expect(balances.map(l => l.lotNumber)).toEqual(['A', 'B']);
+    expect(balances[0]).toMatchObject({ received: 10, total: 7, locations: { [MAIN_LOCATION_ID]: 3, 'loc-van': 4 } });
+  });
+});
+
+describe('allocateLots', () => {
+  it('takes the oldest lots first and expired lots last', () => {
+    const item = stockedItem([
+      record('in-old', 'purchase', 4, 1, { lotNumber: 'OLD', expiryDate: '2026-03-05' }),
+      record('in-a', 'purchase', 3, 2, { lotNumber: 'A', expiryDate: '2026-12-31' }),
+      record('in-b', 'purchase', 5, 3, { lotNumber: 'B' }),
+    ]);
+    expect(allocateLots(item, MAIN_LOCATION_ID, 6, now)).toEqual([{ lotNumber: 'A', quantity: 3 }, { lotNumber: 'B', quantity: 3 }]);
+    expect(allocateLots(item, MAIN_LOCATION_ID, 10, now)).toEqual([
+      { lotNumber: 'A', quantity: 3 }, { lotNumber: 'B', quantity: 5 }, { lotNumber: 'OLD', quantity: 2 },
+    ]);
+    expect(allocateLots(item, 'loc-van', 1, now)).toEqual([]);
+  });
+
+  it('does not give the same lot twice within one batch', () => {
+    const item = stockedItem([
+      record('in-a', 'purchase', 3, 1, { lotNumber: 'A' }),
+      record('in-b', 'purchase', 3, 2, { lotNumber: 'B' }),
+    ]);
+    const updated = appendTransactions(item, [record('out-1', 'release', 2, 5), record('out-2', 'release', 2, 5)]);
+    expect(updated.transactions.slice(2).map(t => t.lots)).toEqual([
+      [{ lotNumber: 'A', quantity: 2 }],
+      [{ lotNumber: 'A', quantity: 1 }, { lotNumber: 'B', quantity: 1 }],
+    ]);
+  });
+});
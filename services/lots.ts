@@ -0,0 +1,160 @@
+import type { Item, Transaction, LotQuantity } from '../types';
+import { isQuarantine, locationOf } from './stock';
+import { MAIN_LOCATION_ID } from './locations';
+
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LotBalance {
+  lotNumber: string;
+  expiryDate?: string;
+  receivedAt: string; // 첫 입고 시각 (선입선출 순서)
+  supplierId?: string;
+  received: number;
+  locations: Record<string, number>;
+  total: number;
+}
+
+export type ExpiryStatus = 'expired' | 'soon' | 'ok';
+
+// 유효기한 당일까지 사용 가능, 남은 일수가 EXPIRY_WARNING_DAYS 이하이면 임박
+export const expiryStatus = (expiryDate: string | undefined, now = new Date()): ExpiryStatus | null => {
+  if (!expiryDate) return null;
+  const end = new Date(`${expiryDate}T23:59:59.999`).getTime();
+  if (end < now.getTime()) return 'expired';
+  return end - now.getTime() <= EXPIRY_WARNING_DAYS * DAY_MS ? 'soon' : 'ok';
+};
+
+// 로트를 줄이는 기록 (출고, 위치 이동, 감소 조정)
+const consumesLots = (t: Transaction) => t.type === 'release' || t.type === 'transfer' || (t.type === 'adjustment' && t.quantity < 0);
+
+// 부품의 로트별 위치 재고 (같은 로트 번호의 입고는 합침, 격리 기록 제외, 입고순)
+export const lotBalances = (item: Item): LotBalance[] => {
+  const lots = new Map<string, LotBalance>();
+  const lotOf = (lotNumber: string) => {
+    const lot = lots.get(lotNumber) || { lotNumber, receivedAt: '', received: 0, locations: {}, total: 0 };
+    lots.set(lotNumber, lot);
+    return lot;
+  };
+  const move = (lot: LotBalance, location: string, quantity: number) => {
+    lot.locations[location] = (lot.locations[location] || 0) + quantity;
+    lot.total += quantity;
+  };
+  [...item.transactions].filter(t => !isQuarantine(t)).sort((a, b) => a.date.localeCompare(b.date)).forEach(t => {
+    if (t.lotNumber && (t.type === 'purchase' || t.type === 'adjustment') && t.quantity > 0) {
+      const lot = lotOf(t.lotNumber);
+      if (!lot.receivedAt || t.date < lot.receivedAt) lot.receivedAt = t.date;
+      lot.expiryDate = lot.expiryDate || t.expiryDate;
+      lot.supplierId = lot.supplierId || t.supplierId;
+      lot.received += t.quantity;
+      move(lot, locationOf(t), t.quantity);
+      return;
+    }
+    if (!consumesLots(t)) return;
+    (t.lots || []).forEach(l => {
+      const lot = lotOf(l.lotNumber);
+      move(lot, locationOf(t), -l.quantity);
+      if (t.type === 'transfer') move(lot, t.toLocation || MAIN_LOCATION_ID, l.quantity);
+    });
+  });
+  return [...lots.values()].sort((a, b) => a.receivedAt.localeCompare(b.receivedAt) || a.lotNumber.localeCompare(b.lotNumber));
+};
+
+// 위치의 로트 재고에서 quantity 만큼 선입선출로 배정 (만료 로트는 마지막, 모자라는 수량은 로트 없는 재고에서)
+export const allocateLots = (item: Item, location: string, quantity: number, now = new Date()): LotQuantity[] => {
+  const available = lotBalances(item).filter(l => (l.locations[location] || 0) > 0);
+  const ordered = [...available.filter(l => expiryStatus(l.expiryDate, now) !== 'expired'), ...available.filter(l => expiryStatus(l.expiryDate, now) === 'expired')];
+  const allocation: LotQuantity[] = [];
+  let remaining = quantity;
+  ordered.forEach(l => {
+    if (remaining <= 0) return;
+    const take = Math.min(remaining, l.locations[location]);
+    allocation.push({ lotNumber: l.lotNumber, quantity: take });
+    remaining -= take;
+  });
+  return allocation;
+};
+
+// 로트를 지정하지 않은 부품 출고 / 이동 / 감소 조정에 선입선출 배정을 붙임
+export const withLots = (item: Item, transaction: Transaction): Transaction => {
+  if (item.type !== 'part' || transaction.lots || isQuarantine(transaction) || !consumesLots(transaction)) return transaction;
+  const lots = allocateLots(item, locationOf(transaction), Math.abs(transaction.quantity), new Date(transaction.date));
+  return lots.length > 0 ? { ...transaction, lots } : transaction;
+};
+
+// 같은 배치의 기록을 차례로 추가 (앞 기록이 배정한 로트를 뒤 기록이 다시 배정하지 않도록)
+export const appendTransactions = (item: Item, transactions: Transaction[]): Item => ({
+  ...item,
+  transactions: transactions.reduce((acc, t) => [...acc, withLots({ ...item, transactions: acc }, t)], item.transactions),
+});
+
+export const formatLots = (lots: LotQuantity[] | undefined) => (lots || []).map(l => `${l.lotNumber} × ${l.quantity}`).join(', ');
+
+export interface LotMatch {
+  part: Item;
+  lot: LotBalance;
+}
+
+// 로트 번호로 부품 로트 검색 (부분 일치, 대소문자 무시)
+export const findLots = (items: Item[], term: string): LotMatch[] => {
+  const key = term.trim().toUpperCase();
+  return items
+    .filter(i => i.type === 'part')
+    .flatMap(part => lotBalances(part).filter(lot => !key || lot.lotNumber.toUpperCase().includes(key)).map(lot => ({ part, lot })))
+    .sort((a, b) => b.lot.receivedAt.localeCompare(a.lot.receivedAt));
+};
+
+export interface LotUsage {
+  transaction: Transaction;
+  quantity: number; // 이 로트에서 나간 수량
+}
+
+export interface TracedProduct {
+  product: Item;
+  transaction: Transaction; // 제품 입고 기록
+  via: 'production' | 'model'; // BOM 생산 차감으로 확인 / 기종 출고로 추정
+}
+
+export interface LotTrace {
+  usages: LotUsage[];
+  products: TracedProduct[];
+}
+
+const sameModel = (a?: string, b?: string) => !!a?.trim() && a.trim().toUpperCase() === (b || '').trim().toUpperCase();
+
+// 로트 → 출고 기록 → 제품
+// BOM 생산 차감(productionId)은 해당 제품 입고를 그대로 연결하고,
+// 기종만 적힌 출고는 같은 기종의 BOM 에 이 부품이 있는 제품 중 출고일부터 같은 기종의 다음 부품 출고 전까지 입고된 제품으로 추정
+export const traceLot = (items: Item[], part: Item, lotNumber: string): LotTrace => {
+  const releases = part.transactions
+    .filter(t => t.type === 'release' && !isQuarantine(t))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const usages = releases
+    .map(t => ({ transaction: t, quantity: (t.lots || []).filter(l => l.lotNumber === lotNumber).reduce((acc, l) => acc + l.quantity, 0) }))
+    .filter(u => u.quantity > 0);
+  const products: TracedProduct[] = [];
+  const seen = new Set<string>();
+  const add = (traced: TracedProduct) => {
+    if (seen.has(traced.transaction.id)) return;
+    seen.add(traced.transaction.id);
+    products.push(traced);
+  };
+  const builds = items.filter(i => i.type === 'product').flatMap(product => product.transactions
+    .filter(t => t.type === 'purchase' && !isQuarantine(t) && !t.serialAction)
+    .map(transaction => ({ product, transaction })));
+  usages.filter(u => u.transaction.productionId).forEach(({ transaction: t }) => {
+    const build = builds.find(b => b.transaction.id === t.productionId);
+    if (build) add({ ...build, via: 'production' });
+  });
+  // 생산 차감으로 이 부품을 따로 출고한 제품 입고는 기종 추정에서 제외
+  const consumedBy = new Set(releases.map(r => r.productionId).filter((id): id is string => !!id));
+  usages.filter(u => !u.transaction.productionId && u.transaction.modelName?.trim()).forEach(({ transaction: t }) => {
+    const next = releases.find(r => r.date > t.date && !r.productionId && sameModel(r.modelName, t.modelName));
+    builds
+      .filter(b => !consumedBy.has(b.transaction.id) && sameModel(b.product.modelName, t.modelName) && (b.product.bom || []).some(l => l.partId === part.id))
+      .filter(b => b.transaction.date >= t.date && (!next || b.transaction.date < next.date))
+      .forEach(b => add({ ...b, via: 'model' }));
+  });
+  return { usages, products: products.sort((a, b) => a.transaction.date.localeCompare(b.transaction.date)) };
+};
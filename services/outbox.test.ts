@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { computeOutbox, retryDelay } from './outbox';
+import { emptyDocument } from './sync';
+import type { SyncDocument } from './sync';
+import { makeItem, makeTransaction, makeCustomer } from './testFixtures';
+
+const doc = (fields: Partial<SyncDocument>): SyncDocument => ({ ...emptyDocument(), ...fields });
+
+const summary = (base: SyncDocument | null, local: SyncDocument) =>
+  computeOutbox(base, local, []).map(e => [e.key, e.action, e.label]);
+
+describe('computeOutbox', () => {
+  it('queues every record as an add before the first sync', () => {
+    const local = doc({ items: [makeItem('a', { transactions: [makeTransaction('t1', { quantity: 3 })] })], customers: [makeCustomer('c-1', '홍길동')] });
+    expect(summary(null, local)).toEqual([
+      ['item:a', 'add', 'A 품목 a'],
+      ['transaction:t1', 'add', 'A 입고 3'],
+      ['customers:c-1', 'add', '홍길동 고객'],
+    ]);
+  });
+
+  it('compares items without their transactions and transactions on their own', () => {
+    const base = doc({ items: [makeItem('a', { transactions: [makeTransaction('t1'), makeTransaction('t2')] }), makeItem('b')] });
+    const local = doc({ items: [makeItem('a', { transactions: [makeTransaction('t1', { quantity: 5 }), makeTransaction('t3')] }), makeItem('b', { name: '변경' })] });
+    expect(summary(base, local)).toEqual([
+      ['item:b', 'update', 'B 변경'],
+      ['transaction:t1', 'update', 'A 입고 5'],
+      ['transaction:t3', 'add', 'A 입고 1'],
+      ['transaction:t2', 'delete', 'A 입고 1'],
+    ]);
+  });
+
+  it('labels deleted records from the sync base', () => {
+    const base = doc({ items: [makeItem('a', { transactions: [makeTransaction('t1')] })], customers: [makeCustomer('c-1', '홍길동')] });
+    expect(summary(base, doc({}))).toEqual([
+      ['item:a', 'delete', 'A 품목 a'],
+      ['transaction:t1', 'delete', 'A 입고 1'],
+      ['customers:c-1', 'delete', '홍길동 고객'],
+    ]);
+    expect(summary(base, base)).toEqual([]);
+  });
+
+  it('keeps the queued time of entries that were already waiting', () => {
+    const local = doc({ customers: [makeCustomer('c-1', '홍길동'), makeCustomer('c-2', '김철수')] });
+    const [first] = computeOutbox(null, doc({ customers: [makeCustomer('c-1', '홍길동')] }), []);
+    const queued = computeOutbox(null, local, [{ ...first, queuedAt: '2026-01-01T00:00:00.000Z' }]);
+    expect(queued[0].queuedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(queued[1].queuedAt).not.toBe('2026-01-01T00:00:00.000Z');
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles from two seconds up to five minutes', () => {
+    expect([0, 1, 2, 3].map(retryDelay)).toEqual([2000, 4000, 8000, 16000]);
+    expect(retryDelay(7)).toBe(256000);
+    expect(retryDelay(8)).toBe(300000);
+    expect(retryDelay(50)).toBe(300000);
+  });
+});
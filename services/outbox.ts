@@ -0,0 +1,78 @@
+import type { Item, Transaction } from '../types';
+import { isSame, FLAT_COLLECTIONS } from './sync';
+import type { SyncDocument, SyncEntity, FlatCollection } from './sync';
+import { TRANSACTION_TYPE_LABELS } from './stock';
+
+// 아직 클라우드에 반영되지 않은 변경 1건 (레코드 단위로 합쳐서 보관)
+export interface OutboxEntry {
+  key: string; // `${entity}:${recordId}`
+  entity: SyncEntity;
+  action: 'add' | 'update' | 'delete';
+  recordId: string;
+  label: string;
+  queuedAt: string; // 처음 대기열에 들어온 시각
+}
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// 실패 횟수에 따른 재시도 대기 시간 (2초부터 두 배씩, 최대 5분)
+export const retryDelay = (attempt: number) => Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+
+const stripTransactions = ({ transactions, ...fields }: Item) => fields;
+
+const collectTransactions = (items: Item[]) => {
+  const map = new Map<string, { item: Item; transaction: Transaction }>();
+  items.forEach(item => item.transactions.forEach(transaction => map.set(transaction.id, { item, transaction })));
+  return map;
+};
+
+const diffRecords = <T extends { id: string }>(
+  entity: SyncEntity,
+  base: Map<string, T>,
+  local: Map<string, T>,
+  labelOf: (id: string, record: T) => string,
+  compare: (a: T, b: T) => boolean = isSame,
+) => {
+  const changes: Omit<OutboxEntry, 'queuedAt'>[] = [];
+  local.forEach((record, id) => {
+    const previous = base.get(id);
+    if (!previous) changes.push({ key: `${entity}:${id}`, entity, action: 'add', recordId: id, label: labelOf(id, record) });
+    else if (!compare(previous, record)) changes.push({ key: `${entity}:${id}`, entity, action: 'update', recordId: id, label: labelOf(id, record) });
+  });
+  base.forEach((record, id) => {
+    if (!local.has(id)) changes.push({ key: `${entity}:${id}`, entity, action: 'delete', recordId: id, label: labelOf(id, record) });
+  });
+  return changes;
+};
+
+// 마지막 동기화 기준(base)과 현재 로컬 문서를 비교해 대기 중인 변경 목록을 만듦.
+// 이미 대기 중이던 항목은 처음 대기열에 들어온 시각을 유지한다.
+export const computeOutbox = (base: SyncDocument | null, local: SyncDocument, previous: OutboxEntry[]): OutboxEntry[] => {
+  const baseItems = base?.items || [];
+  const itemChanges = diffRecords(
+    'item',
+    new Map(baseItems.map(i => [i.id, i])),
+    new Map(local.items.map(i => [i.id, i])),
+    (_id, item) => `${item.code} ${item.name}`,
+    (a, b) => isSame(stripTransactions(a), stripTransactions(b)),
+  );
+  const baseTransactions = collectTransactions(baseItems);
+  const localTransactions = collectTransactions(local.items);
+  const transactionChanges = diffRecords(
+    'transaction',
+    new Map(Array.from(baseTransactions, ([id, entry]) => [id, entry.transaction])),
+    new Map(Array.from(localTransactions, ([id, entry]) => [id, entry.transaction])),
+    (id, t) => `${(localTransactions.get(id) || baseTransactions.get(id))!.item.code} ${TRANSACTION_TYPE_LABELS[t.type]} ${t.quantity}`,
+  );
+  const flatChanges = (Object.keys(FLAT_COLLECTIONS) as FlatCollection[]).flatMap(key => diffRecords<{ id: string }>(
+    key,
+    new Map(((base?.[key] || []) as { id: string }[]).map(r => [r.id, r])),
+    new Map(((local[key] || []) as { id: string }[]).map(r => [r.id, r])),
+    (_id, r) => (FLAT_COLLECTIONS[key] as (record: { id: string }) => string)(r),
+  ));
+
+  const queuedAt = new Map(previous.map(e => [e.key, e.queuedAt]));
+  const now = new Date().toISOString();
+  return [...itemChanges, ...transactionChanges, ...flatChanges].map(change => ({ ...change, queuedAt: queuedAt.get(change.key) || now }));
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { ReleaseOrder, Reservation } from '../types';
+import { shipmentTransactions, releaseOrderErrors, releaseOrderTotals, nextReleaseOrderNumber } from './releaseOrders';
+import { buildSerialRegistry } from './serials';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction, makeCustomer } from './testFixtures';
+
+const product = makeItem('prod', { type: 'product', transactions: ['SN1', 'SN2', 'SN3'].map(s => makeTransaction(`t-${s}`, { serialNumber: s })) });
+const part = makeItem('part', { transactions: [makeTransaction('t-part', { quantity: 10 }), makeTransaction('t-part-van', { quantity: 10, location: 'loc-van' })] });
+const items = [product, part];
+const registry = buildSerialRegistry(items);
+
+const makeOrder = (lines: ReleaseOrder['lines'], fields: Partial<ReleaseOrder> = {}): ReleaseOrder => ({
+  id: 'ro-1', orderNumber: 'RO-20260302-01', customerId: 'c-1', customerName: '홍길동', phoneNumber: '010', address: '서울',
+  location: MAIN_LOCATION_ID, status: 'picked', remarks: '', createdAt: '2026-03-02T00:00:00.000Z', createdBy: 'admin', lines, ...fields,
+});
+
+const reservation: Reservation = {
+  id: 'r1', itemId: 'part', location: MAIN_LOCATION_ID, quantity: 4, holder: '작업 A', expiresAt: '2099-12-31', status: 'active',
+  remarks: '', createdAt: '2026-03-01T00:00:00.000Z', createdBy: 'admin',
+};
+
+describe('releaseOrderErrors', () => {
+  it('accepts an order within the available stock', () => {
+    expect(releaseOrderErrors(makeOrder([{ itemId: 'prod', quantity: 2, serials: ['SN1', 'SN2'] }, { itemId: 'part', quantity: 10 }]), items, registry, [])).toEqual([]);
+  });
+
+  it('rejects more than the stock at the order location, adding up lines of the same item', () => {
+    const order = makeOrder([{ itemId: 'part', quantity: 6 }, { itemId: 'part', quantity: 5 }]);
+    expect(releaseOrderErrors(order, items, registry, [])).toEqual(['PART 품목 part: 출고 11 / 가용 10']);
+  });
+
+  it('leaves reserved stock out', () => {
+    const order = makeOrder([{ itemId: 'part', quantity: 7 }]);
+    expect(releaseOrderErrors(order, items, registry, [reservation])).toEqual(['PART 품목 part: 출고 7 / 가용 6']);
+    expect(releaseOrderErrors(order, items, registry, [{ ...reservation, status: 'cancelled' }])).toEqual([]);
+  });
+
+  it('requires in-stock serials for products', () => {
+    const order = makeOrder([{ itemId: 'prod', quantity: 2, serials: ['SN1'] }, { itemId: 'prod', quantity: 2, serials: ['SN1', 'SN9'] }]);
+    expect(releaseOrderErrors(order, items, registry, [])).toEqual([
+      'PROD 품목 prod: 일련번호 2개를 선택하세요. (선택 1)',
+      'PROD 품목 prod: SN1 가 중복되었습니다.',
+      'PROD 품목 prod: SN9 는 본사 창고 재고 일련번호가 아닙니다.',
+      'PROD 품목 prod: 출고 4 / 가용 3',
+    ]);
+    expect(releaseOrderErrors(makeOrder([]), items, registry, [])).toEqual(['출고할 품목이 없습니다.']);
+  });
+});
+
+describe('shipmentTransactions', () => {
+  it('releases one record per serial and tags product releases with the customer', () => {
+    const order = makeOrder([{ itemId: 'prod', quantity: 2, serials: ['SN1', 'SN2'], unitPrice: 1000 }, { itemId: 'part', quantity: 5 }, { itemId: 'part', quantity: 2 }]);
+    const added = shipmentTransactions(order, items, makeCustomer('c-1', '홍길동'), 'admin', '2026-03-02T00:00:00.000Z');
+    expect(added.get('prod')!.map(t => [t.serialNumber, t.quantity, t.customerId])).toEqual([['SN1', 1, 'c-1'], ['SN2', 1, 'c-1']]);
+    expect(added.get('part')!.map(t => [t.quantity, t.customerId])).toEqual([[5, undefined], [2, undefined]]);
+    expect([...added.values()].flat().every(t => t.releaseOrderId === 'ro-1' && t.remarks === '출고 주문 RO-20260302-01')).toBe(true);
+  });
+});
+
+describe('releaseOrderTotals', () => {
+  it('adds 10% VAT to the supply amount', () => {
+    const order = makeOrder([{ itemId: 'prod', quantity: 60, unitPrice: 1000 }, { itemId: 'part', quantity: 7, unitPrice: 10 }]);
+    expect(releaseOrderTotals(order)).toEqual({ quantity: 67, supply: 60070, tax: 6007, total: 66077 });
+  });
+});
+
+describe('nextReleaseOrderNumber', () => {
+  it('numbers orders per day', () => {
+    expect(nextReleaseOrderNumber([makeOrder([])], '2026-03-02T10:00:00.000Z')).toBe('RO-20260302-02');
+    expect(nextReleaseOrderNumber([makeOrder([])], '2026-03-03T10:00:00.000Z')).toBe('RO-20260303-01');
+  });
+});
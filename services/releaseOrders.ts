@@ -0,0 +1,87 @@
+import type { Customer, Item, ReleaseOrder, ReleaseOrderLine, ReleaseOrderStatus, Reservation, Transaction } from '../types';
+import { isSerialAvailable } from './serials';
+import type { SerialUnit } from './serials';
+import { availableLocationStock } from './reservations';
+import { locationName } from './locations';
+import { generateId } from './ids';
+
+export const RELEASE_ORDER_STATUS_LABELS: Record<ReleaseOrderStatus, string> = {
+  draft: '작성 중',
+  picked: '피킹 완료',
+  shipped: '출하 완료',
+  cancelled: '취소',
+};
+
+// 부가가치세율 (거래명세서 세액)
+export const VAT_RATE = 0.1;
+
+// 같은 날짜의 주문 번호는 01 부터 순서대로
+export const nextReleaseOrderNumber = (orders: ReleaseOrder[], at: string) => {
+  const prefix = `RO-${at.slice(0, 10).replace(/-/g, '')}-`;
+  const used = orders.filter(o => o.orderNumber.startsWith(prefix)).map(o => parseInt(o.orderNumber.slice(prefix.length), 10) || 0);
+  return `${prefix}${String(Math.max(0, ...used) + 1).padStart(2, '0')}`;
+};
+
+// 출고 위치에 재고로 있는 제품 일련번호 (있으면 수량만큼 골라야 함)
+export const stockSerials = (registry: Map<string, SerialUnit>, itemId: string, location: string) => [...registry.values()]
+  .filter(u => u.itemId === itemId && isSerialAvailable(u) && u.location === location)
+  .map(u => u.serial)
+  .sort();
+
+// 피킹 / 출하 전 검사: 일련번호 선택, 품목별 합계가 위치의 가용 재고(예약 제외) 이내인지
+export const releaseOrderErrors = (
+  order: Pick<ReleaseOrder, 'location' | 'lines'>, items: Item[], registry: Map<string, SerialUnit>, reservations: Reservation[],
+): string[] => {
+  const errors: string[] = [];
+  if (order.lines.length === 0) return ['출고할 품목이 없습니다.'];
+  const totals = new Map<string, number>();
+  const seen = new Set<string>();
+  order.lines.forEach(line => {
+    const item = items.find(i => i.id === line.itemId);
+    if (!item) { errors.push('삭제된 품목이 있습니다.'); return; }
+    const label = `${item.code} ${item.name}`;
+    if (line.quantity <= 0) errors.push(`${label}: 수량을 확인하세요.`);
+    totals.set(item.id, (totals.get(item.id) || 0) + line.quantity);
+    const available = item.type === 'product' ? stockSerials(registry, item.id, order.location) : [];
+    const serials = line.serials || [];
+    if (available.length > 0 && serials.length !== line.quantity) errors.push(`${label}: 일련번호 ${line.quantity}개를 선택하세요. (선택 ${serials.length})`);
+    serials.forEach(s => {
+      if (!available.includes(s)) errors.push(`${label}: ${s} 는 ${locationName(order.location)} 재고 일련번호가 아닙니다.`);
+      if (seen.has(s)) errors.push(`${label}: ${s} 가 중복되었습니다.`);
+      seen.add(s);
+    });
+  });
+  totals.forEach((quantity, itemId) => {
+    const item = items.find(i => i.id === itemId)!;
+    const available = availableLocationStock(item, reservations)[order.location] || 0;
+    if (quantity > available) errors.push(`${item.code} ${item.name}: 출고 ${quantity} / 가용 ${available}`);
+  });
+  return errors;
+};
+
+export const lineAmount = (line: ReleaseOrderLine) => (line.unitPrice || 0) * line.quantity;
+
+export const releaseOrderTotals = (order: Pick<ReleaseOrder, 'lines'>) => {
+  const supply = order.lines.reduce((acc, l) => acc + lineAmount(l), 0);
+  const tax = Math.round(supply * VAT_RATE);
+  return { quantity: order.lines.reduce((acc, l) => acc + l.quantity, 0), supply, tax, total: supply + tax };
+};
+
+// 출하할 주문의 품목별 출고 기록 (일련번호 줄은 번호마다 1건, 모든 기록에 주문 ID)
+export const shipmentTransactions = (order: ReleaseOrder, items: Item[], customer: Customer | undefined, userId: string | undefined, now: string): Map<string, Transaction[]> => {
+  const customerFields = { customerName: order.customerName, address: order.address, phoneNumber: order.phoneNumber, ...(customer ? { customerId: customer.id } : {}) };
+  const added = new Map<string, Transaction[]>();
+  order.lines.forEach(line => {
+    const item = items.find(i => i.id === line.itemId);
+    if (!item) return;
+    const base: Omit<Transaction, 'id' | 'quantity'> = {
+      type: 'release', date: now, location: order.location, remarks: `출고 주문 ${order.orderNumber}${order.remarks ? ` ${order.remarks}` : ''}`,
+      releaseOrderId: order.id, ...(item.type === 'product' ? customerFields : {}), userId, updatedAt: now,
+    };
+    const releases: Transaction[] = (line.serials || []).length > 0
+      ? line.serials!.map(s => ({ ...base, id: generateId('t'), quantity: 1, serialNumber: s }))
+      : [{ ...base, id: generateId('t'), quantity: line.quantity }];
+    added.set(item.id, [...(added.get(item.id) || []), ...releases]);
+  });
+  return added;
+};
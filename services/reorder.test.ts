@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { OrderedPart, Reservation } from '../types';
+import { reorderSuggestions, lastUnitPrice } from './reorder';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction } from './testFixtures';
+
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+
+const makeOrder = (id: string, code: string, fields: Partial<OrderedPart> = {}): OrderedPart => ({
+  id, registrationDate: '2026-02-01', code, drawingNumber: '', name: code, spec: '', unitPrice: 100, quantity: 10, receivedQuantity: 0,
+  status: 'ordered', remarks: '', ...fields,
+});
+
+const makeReservation = (quantity: number, fields: Partial<Reservation> = {}): Reservation => ({
+  id: 'r1', itemId: 'a', location: MAIN_LOCATION_ID, quantity, holder: '작업 A', expiresAt: '2099-12-31', status: 'active',
+  remarks: '', createdAt: '2026-02-01T00:00:00.000Z', createdBy: 'admin', ...fields,
+});
+
+const stocked = (id: string, quantity: number, safetyStock: number, reorderQuantity?: number) =>
+  makeItem(id, { safetyStock, reorderQuantity, transactions: [makeTransaction(`t-${id}`, { quantity })] });
+
+describe('reorderSuggestions', () => {
+  it('suggests what is missing after open orders, but at least the reorder quantity', () => {
+    const items = [stocked('c', 2, 10), stocked('a', 5, 20, 30), stocked('b', 4, 10), stocked('ok', 10, 10), stocked('none', 0, 0)];
+    const orders = [
+      makeOrder('o1', 'B', { quantity: 5, receivedQuantity: 2 }),
+      makeOrder('o2', 'b', { quantity: 3 }),
+      makeOrder('o3', 'B', { quantity: 50, status: 'received' }),
+      makeOrder('o4', 'C', { quantity: 20 }),
+    ];
+    expect(reorderSuggestions(items, orders, [], NOW).map(r => [r.item.id, r.stock, r.onOrder, r.suggestedQuantity])).toEqual([
+      ['a', 5, 0, 30], ['b', 4, 6, 0], ['c', 2, 20, 0],
+    ]);
+  });
+
+  it('counts only available stock, leaving out active reservations', () => {
+    const items = [stocked('a', 12, 10)];
+    expect(reorderSuggestions(items, [], [makeReservation(2)], NOW)).toEqual([]);
+    expect(reorderSuggestions(items, [], [makeReservation(5)], NOW).map(r => [r.stock, r.suggestedQuantity])).toEqual([[7, 3]]);
+    expect(reorderSuggestions(items, [], [makeReservation(5, { expiresAt: '2026-02-28' }), makeReservation(5, { status: 'cancelled' })], NOW)).toEqual([]);
+  });
+});
+
+describe('lastUnitPrice', () => {
+  it('takes the price of the latest order of the same code', () => {
+    const orders = [makeOrder('o1', 'a', { unitPrice: 100 }), makeOrder('o2', 'A', { unitPrice: 120, registrationDate: '2026-02-15' })];
+    expect(lastUnitPrice('A', orders)).toBe(120);
+    expect(lastUnitPrice('X', orders)).toBe(0);
+  });
+});
@@ -0,0 +1,35 @@
+import type { Item, OrderedPart, Reservation } from '../types';
+import { calculateStock } from './stock';
+import { availableLocationStock, sumLocations } from './reservations';
+
+export interface ReorderSuggestion {
+  item: Item;
+  stock: number; // 가용 재고 (유효한 예약을 뺀 양품 재고)
+  safetyStock: number;
+  onOrder: number; // 아직 입고되지 않은 발주 수량
+  suggestedQuantity: number; // 0 이면 진행 중인 발주로 충분
+}
+
+const isOpenOrder = (o: OrderedPart) => o.status === 'ordered' || o.status === 'partial';
+
+// 안전 재고가 설정되어 있고 현재 재고가 그보다 적은 품목
+export const isBelowSafetyStock = (item: Item, stock = calculateStock(item)) => (item.safetyStock || 0) > 0 && stock < (item.safetyStock || 0);
+
+// 부족 품목별 발주 제안 수량 (예약분과 진행 중인 발주 잔량을 반영하고, 기본 발주 수량보다 적게는 발주하지 않음)
+export const reorderSuggestions = (items: Item[], orderedParts: OrderedPart[], reservations: Reservation[], now = new Date()): ReorderSuggestion[] => items
+  .map(item => ({ item, stock: sumLocations(availableLocationStock(item, reservations, now)) }))
+  .filter(({ item, stock }) => isBelowSafetyStock(item, stock))
+  .map(({ item, stock }) => {
+    const safetyStock = item.safetyStock || 0;
+    const onOrder = orderedParts
+      .filter(o => isOpenOrder(o) && o.code.toUpperCase() === item.code.toUpperCase())
+      .reduce((acc, o) => acc + Math.max(0, o.quantity - o.receivedQuantity), 0);
+    const gap = safetyStock - stock - onOrder;
+    return { item, stock, safetyStock, onOrder, suggestedQuantity: gap > 0 ? Math.max(gap, item.reorderQuantity || 0) : 0 };
+  })
+  .sort((a, b) => a.item.code.localeCompare(b.item.code));
+
+// 같은 코드의 가장 최근 발주 단가 (없으면 0)
+export const lastUnitPrice = (code: string, orderedParts: OrderedPart[]) => orderedParts
+  .filter(o => o.code.toUpperCase() === code.toUpperCase())
+  .sort((a, b) => b.registrationDate.localeCompare(a.registrationDate))[0]?.unitPrice || 0;
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { agingReport, monthlyFlows, monthlyTotals, recentMonths, topCustomers, turnoverReport } from './reports';
+import { makeItem, makeTransaction } from './testFixtures';
+
+// 현지 시각 기준 기록 (월 경계가 현지 날짜 기준이므로)
+const at = (local: string) => new Date(local).toISOString();
+
+const MONTHS = ['2025-01', '2025-02'];
+
+const part = makeItem('pa', { modelName: 'M-100', transactions: [
+  makeTransaction('t1', { quantity: 10, date: at('2024-12-15T09:00:00') }),
+  makeTransaction('t2', { type: 'release', quantity: 4, date: at('2025-01-10T09:00:00') }),
+  makeTransaction('t3', { type: 'release', quantity: 2, date: at('2025-02-10T09:00:00'), modelName: 'M-200' }),
+  makeTransaction('t4', { type: 'transfer', quantity: 3, toLocation: 'loc-van', date: at('2025-02-11T09:00:00') }),
+  makeTransaction('t5', { quantity: 5, bucket: 'quarantine', date: at('2025-02-12T09:00:00') }),
+] });
+const product = makeItem('prod', { type: 'product', transactions: [
+  makeTransaction('p1', { quantity: 3, date: at('2025-01-31T23:59:00') }),
+  makeTransaction('p2', { type: 'release', customerName: '홍길동', phoneNumber: '010-1234-5678', date: at('2025-02-01T00:00:00') }),
+  makeTransaction('p3', { type: 'release', customerName: '홍길동 ', phoneNumber: '01012345678', date: at('2025-02-03T00:00:00') }),
+  makeTransaction('p4', { type: 'release', customerName: '김철수', customerId: 'c-2', date: at('2025-02-02T00:00:00'), serialAction: 'scrap' }),
+] });
+
+describe('recentMonths', () => {
+  it('ends with the current month, oldest first', () => {
+    expect(recentMonths(3, new Date(2026, 0, 15))).toEqual(['2025-11', '2025-12', '2026-01']);
+  });
+});
+
+describe('monthlyFlows', () => {
+  it('adds up purchases and releases per local month, leaving out transfers, quarantine and other months', () => {
+    const rows = monthlyFlows([part, product], MONTHS, 'item');
+    expect(rows.map(r => [r.key, r.months, r.totalIn, r.totalOut])).toEqual([
+      ['pa', { '2025-01': { in: 0, out: 4 }, '2025-02': { in: 0, out: 2 } }, 0, 6],
+      ['prod', { '2025-01': { in: 3, out: 0 }, '2025-02': { in: 0, out: 3 } }, 3, 3],
+    ]);
+    expect(monthlyTotals(rows, MONTHS)).toEqual({ '2025-01': { in: 3, out: 4 }, '2025-02': { in: 0, out: 5 } });
+  });
+
+  it('groups by the record model, then the item model', () => {
+    expect(monthlyFlows([part, product], MONTHS, 'model').map(r => [r.label, r.totalIn, r.totalOut])).toEqual([
+      ['(기종 없음)', 3, 3], ['M-100', 0, 4], ['M-200', 0, 2],
+    ]);
+  });
+});
+
+describe('turnoverReport', () => {
+  it('divides releases in the period by the average of the opening and month-end stock', () => {
+    const [row] = turnoverReport([part], MONTHS);
+    expect(row.released).toBe(6);
+    expect(row.averageStock).toBeCloseTo((10 + 6 + 4) / 3);
+    expect(row.turnover).toBeCloseTo(0.9);
+    expect(row.daysOfSupply).toBe(Math.round(4 / (6 / 59)));
+  });
+});
+
+describe('agingReport', () => {
+  it('lists stocked items by days since their last movement, using the registration date without records', () => {
+    const idle = makeItem('idle', { registrationDate: '2024-01-01', transactions: [] });
+    const rows = agingReport([part, product, idle], new Date(at('2025-03-05T09:00:00')));
+    expect(rows.map(r => [r.item.id, r.stock, r.days, r.bucket])).toEqual([['pa', 4, 21, 0]]);
+    const old = makeItem('old', { transactions: [makeTransaction('o1', { quantity: 1, date: at('2024-01-01T00:00:00') })] });
+    expect(agingReport([old], new Date(at('2025-03-13T00:00:00')))[0].bucket).toBe(4);
+  });
+});
+
+describe('topCustomers', () => {
+  it('groups releases by customer ID or name and phone digits, leaving out scrapped units', () => {
+    expect(topCustomers([part, product], MONTHS)).toEqual([
+      { key: '홍길동|01012345678', name: '홍길동', phoneNumber: '010-1234-5678', units: 2, products: 1, lastDate: at('2025-02-03T00:00:00') },
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import type { Item, Transaction } from '../types';
+import { isQuarantine, calculateStock, itemAsOf } from './stock';
+
+// 보고서는 양품 재고의 입고 / 출고만 집계 (격리 재고, 위치 이동, 실사 조정 제외)
+const isFlow = (t: Transaction) => !isQuarantine(t) && (t.type === 'purchase' || t.type === 'release');
+
+// 현지 시각 기준 'YYYY-MM'
+export const monthKey = (date: string | Date) => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// 이번 달로 끝나는 최근 count 개월 (오래된 달부터)
+export const recentMonths = (count: number, now = new Date()) =>
+  Array.from({ length: count }, (_, i) => monthKey(new Date(now.getFullYear(), now.getMonth() - count + 1 + i, 1)));
+
+const monthStart = (key: string) => new Date(Number(key.slice(0, 4)), Number(key.slice(5, 7)) - 1, 1);
+const monthEnd = (key: string) => new Date(Number(key.slice(0, 4)), Number(key.slice(5, 7)), 0, 23, 59, 59, 999);
+
+export const periodOf = (months: string[]) => ({ from: monthStart(months[0]), to: monthEnd(months[months.length - 1]) });
+
+const inPeriod = (t: Transaction, period: { from: Date; to: Date }) => {
+  const time = new Date(t.date).getTime();
+  return time >= period.from.getTime() && time <= period.to.getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MonthFlow {
+  in: number;
+  out: number;
+}
+
+export interface FlowRow {
+  key: string; // 품목 ID 또는 기종
+  label: string;
+  months: Record<string, MonthFlow>;
+  totalIn: number;
+  totalOut: number;
+}
+
+export type FlowGroup = 'item' | 'model';
+
+// 월별 입고 / 출고 수량 (품목별 또는 기종별, 기종이 없으면 '(기종 없음)')
+export const monthlyFlows = (items: Item[], months: string[], group: FlowGroup): FlowRow[] => {
+  const rows = new Map<string, FlowRow>();
+  items.forEach(item => item.transactions.filter(isFlow).forEach(t => {
+    const month = monthKey(t.date);
+    if (!months.includes(month)) return;
+    const key = group === 'item' ? item.id : (t.modelName || item.modelName || '').trim() || '(기종 없음)';
+    const row = rows.get(key) || { key, label: group === 'item' ? `${item.code} ${item.name}` : key, months: {}, totalIn: 0, totalOut: 0 };
+    const flow = row.months[month] || { in: 0, out: 0 };
+    if (t.type === 'purchase') { flow.in += t.quantity; row.totalIn += t.quantity; } else { flow.out += t.quantity; row.totalOut += t.quantity; }
+    row.months[month] = flow;
+    rows.set(key, row);
+  }));
+  return [...rows.values()].sort((a, b) => (b.totalIn + b.totalOut) - (a.totalIn + a.totalOut) || a.label.localeCompare(b.label));
+};
+
+export const monthlyTotals = (rows: FlowRow[], months: string[]): Record<string, MonthFlow> =>
+  Object.fromEntries(months.map(m => [m, rows.reduce((acc, r) => ({ in: acc.in + (r.months[m]?.in || 0), out: acc.out + (r.months[m]?.out || 0) }), { in: 0, out: 0 })]));
+
+const stockAt = (item: Item, date: Date) => calculateStock(itemAsOf(item, date.toISOString()));
+
+export interface TurnoverRow {
+  item: Item;
+  released: number; // 기간 내 출고 수량
+  averageStock: number; // 기간 시작 + 각 월말 재고의 평균
+  turnover: number | null; // 출고 / 평균 재고 (평균 재고가 0 이면 계산 불가)
+  daysOfSupply: number | null; // 현재 재고를 기간 평균 출고 속도로 소진하는 데 걸리는 일수
+}
+
+export const turnoverReport = (items: Item[], months: string[]): TurnoverRow[] => {
+  const period = periodOf(months);
+  const days = Math.max(1, Math.round((Math.min(period.to.getTime(), Date.now()) - period.from.getTime()) / DAY_MS));
+  const checkpoints = [new Date(period.from.getTime() - 1), ...months.map(monthEnd).map(d => d.getTime() > Date.now() ? new Date() : d)];
+  return items.map(item => {
+    const released = item.transactions.filter(t => isFlow(t) && t.type === 'release' && inPeriod(t, period)).reduce((acc, t) => acc + t.quantity, 0);
+    const averageStock = checkpoints.reduce((acc, d) => acc + Math.max(0, stockAt(item, d)), 0) / checkpoints.length;
+    const stock = calculateStock(item);
+    return {
+      item, released, averageStock,
+      turnover: averageStock > 0 ? released / averageStock : null,
+      daysOfSupply: released > 0 ? Math.round(stock / (released / days)) : null,
+    };
+  }).sort((a, b) => (b.turnover ?? -1) - (a.turnover ?? -1) || b.released - a.released);
+};
+
+export const AGING_BUCKETS = [
+  { label: '30일 이하', maxDays: 30 },
+  { label: '31~90일', maxDays: 90 },
+  { label: '91~180일', maxDays: 180 },
+  { label: '181~365일', maxDays: 365 },
+  { label: '1년 초과', maxDays: Infinity },
+];
+
+export interface AgingRow {
+  item: Item;
+  stock: number;
+  lastMovement: string | null; // 마지막 입출고 (위치 이동, 조정 포함)
+  days: number | null; // 기록이 없으면 등록일 기준
+  bucket: number; // AGING_BUCKETS 인덱스
+}
+
+// 재고가 있는 품목의 마지막 움직임 이후 경과 일수 (오래된 순)
+export const agingReport = (items: Item[], now = new Date()): AgingRow[] => items
+  .map(item => {
+    const lastMovement = item.transactions.reduce<string | null>((latest, t) => !latest || t.date > latest ? t.date : latest, null);
+    const since = lastMovement || item.registrationDate;
+    const days = since ? Math.max(0, Math.floor((now.getTime() - new Date(since).getTime()) / DAY_MS)) : null;
+    const bucket = AGING_BUCKETS.findIndex(b => (days ?? Infinity) <= b.maxDays);
+    return { item, stock: calculateStock(item), lastMovement, days, bucket };
+  })
+  .filter(r => r.stock > 0)
+  .sort((a, b) => (b.days ?? Infinity) - (a.days ?? Infinity));
+
+export interface CustomerRank {
+  key: string;
+  name: string;
+  phoneNumber: string;
+  units: number;
+  products: number; // 출고된 제품 종류 수
+  lastDate: string;
+}
+
+// 기간 내 고객별 출고 수량 (폐기 처리 제외, 고객 ID 가 없으면 이름 + 연락처로 묶음)
+export const topCustomers = (items: Item[], months: string[]): CustomerRank[] => {
+  const period = periodOf(months);
+  const ranks = new Map<string, CustomerRank & { productIds: Set<string> }>();
+  items.forEach(item => item.transactions.forEach(t => {
+    if (!isFlow(t) || t.type !== 'release' || t.serialAction === 'scrap' || !t.customerName?.trim() || !inPeriod(t, period)) return;
+    const key = t.customerId || `${t.customerName.trim()}|${(t.phoneNumber || '').replace(/\D/g, '')}`;
+    const rank = ranks.get(key) || { key, name: t.customerName.trim(), phoneNumber: t.phoneNumber || '', units: 0, products: 0, lastDate: t.date, productIds: new Set<string>() };
+    rank.units += t.quantity;
+    rank.productIds.add(item.id);
+    rank.products = rank.productIds.size;
+    if (t.date > rank.lastDate) rank.lastDate = t.date;
+    ranks.set(key, rank);
+  }));
+  return [...ranks.values()].map(({ productIds, ...rank }) => rank).sort((a, b) => b.units - a.units || b.lastDate.localeCompare(a.lastDate));
+};
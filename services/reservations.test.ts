@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import type { Item, Reservation } from '../types';
+import { availableLocationStock, isReservationExpired, reservationReleases } from './reservations';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction, makeCustomer } from './testFixtures';
+
+const stockedItem = (fields: Partial<Item> = {}) => makeItem('item-1', {
+  transactions: [makeTransaction('t-main', { quantity: 10 }), makeTransaction('t-van', { quantity: 4, location: 'loc-van' })], ...fields,
+});
+
+const makeReservation = (id: string, fields: Partial<Reservation> = {}): Reservation => ({
+  id, itemId: 'item-1', location: MAIN_LOCATION_ID, quantity: 3, holder: '작업 A', expiresAt: '2026-03-10', status: 'active',
+  remarks: '', createdAt: '2026-03-01T00:00:00.000Z', createdBy: 'admin', ...fields,
+});
+
+const now = new Date('2026-03-05T12:00:00');
+
+describe('availableLocationStock', () => {
+  it('subtracts holding reservations per location', () => {
+    const stock = availableLocationStock(stockedItem(), [makeReservation('r1'), makeReservation('r2', { quantity: 1, location: 'loc-van' })], now);
+    expect(stock[MAIN_LOCATION_ID]).toBe(7);
+    expect(stock['loc-van']).toBe(3);
+  });
+
+  it('ignores expired, cancelled, released and other items\' reservations', () => {
+    const reservations = [
+      makeReservation('r1', { expiresAt: '2026-03-04' }),
+      makeReservation('r2', { status: 'cancelled' }),
+      makeReservation('r3', { status: 'released' }),
+      makeReservation('r4', { itemId: 'item-2' }),
+    ];
+    expect(availableLocationStock(stockedItem(), reservations, now)[MAIN_LOCATION_ID]).toBe(10);
+  });
+
+  it('leaves out the excluded reservation and can go negative', () => {
+    const reservations = [makeReservation('r1', { quantity: 8 }), makeReservation('r2', { quantity: 5 })];
+    expect(availableLocationStock(stockedItem(), reservations, now, 'r1')[MAIN_LOCATION_ID]).toBe(5);
+    expect(availableLocationStock(stockedItem(), reservations, now)[MAIN_LOCATION_ID]).toBe(-3);
+  });
+});
+
+describe('isReservationExpired', () => {
+  it('holds through the whole expiry day', () => {
+    expect(isReservationExpired(makeReservation('r1', { expiresAt: '2026-03-05' }), new Date('2026-03-05T23:59:00'))).toBe(false);
+    expect(isReservationExpired(makeReservation('r1', { expiresAt: '2026-03-05' }), new Date('2026-03-06T00:00:01'))).toBe(true);
+  });
+});
+
+describe('reservationReleases', () => {
+  it('posts one release per picked serial for the customer', () => {
+    const product = stockedItem({ type: 'product', transactions: [] });
+    const releases = reservationReleases(makeReservation('r1', { quantity: 2, customerId: 'c-1' }), product, ['SN1', 'SN2'], makeCustomer('c-1', '홍길동'), 'admin', '2026-03-05T00:00:00.000Z');
+    expect(releases.map(t => [t.type, t.serialNumber, t.quantity, t.location])).toEqual([['release', 'SN1', 1, MAIN_LOCATION_ID], ['release', 'SN2', 1, MAIN_LOCATION_ID]]);
+    expect(releases.every(t => t.reservationId === 'r1' && t.customerId === 'c-1' && t.customerName === '홍길동')).toBe(true);
+  });
+
+  it('posts the reserved quantity as one release without serials', () => {
+    const releases = reservationReleases(makeReservation('r1'), stockedItem(), [], undefined, 'admin', '2026-03-05T00:00:00.000Z');
+    expect(releases.map(t => t.quantity)).toEqual([3]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { Customer, Item, Reservation, ReservationStatus, Transaction } from '../types';
+import { calculateLocationStock } from './stock';
+import { generateId } from './ids';
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  active: '예약 중',
+  released: '출고 전환',
+  cancelled: '취소',
+};
+
+// 만료일 당일까지 유효
+export const isReservationExpired = (reservation: Reservation, now = new Date()) =>
+  new Date(`${reservation.expiresAt}T23:59:59.999`).getTime() < now.getTime();
+
+// 가용 재고를 잡고 있는 예약 (예약 중이고 만료 전)
+export const isReservationHolding = (reservation: Reservation, now = new Date()) =>
+  reservation.status === 'active' && !isReservationExpired(reservation, now);
+
+// 품목의 위치별 예약 수량 (excludeId 예약은 제외, 예약을 출고로 전환할 때 자기 예약분을 빼고 검사)
+export const reservedStock = (reservations: Reservation[], itemId: string, now = new Date(), excludeId?: string): Record<string, number> => {
+  const reserved: Record<string, number> = {};
+  reservations
+    .filter(r => r.itemId === itemId && r.id !== excludeId && isReservationHolding(r, now))
+    .forEach(r => { reserved[r.location] = (reserved[r.location] || 0) + r.quantity; });
+  return reserved;
+};
+
+export const sumLocations = (stock: Record<string, number>) => Object.keys(stock).reduce((acc, key) => acc + stock[key], 0);
+
+// 위치별 가용 재고 = 양품 재고 - 유효한 예약 (음수 가능: 예약 뒤에 재고가 줄어든 경우)
+export const availableLocationStock = (item: Item, reservations: Reservation[], now = new Date(), excludeId?: string): Record<string, number> => {
+  const stock = calculateLocationStock(item);
+  const reserved = reservedStock(reservations, item.id, now, excludeId);
+  Object.keys(reserved).forEach(location => { stock[location] = (stock[location] || 0) - reserved[location]; });
+  return stock;
+};
+
+// 오늘부터 days 일 뒤 ('YYYY-MM-DD', 새 예약의 기본 만료일)
+export const defaultExpiry = (days: number, now = new Date()) => {
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// 예약을 출고 기록으로 (일련번호를 고른 제품은 번호마다 1건, 제품이면 연결된 고객 정보 포함)
+export const reservationReleases = (reservation: Reservation, item: Item, serials: string[], customer: Customer | undefined, userId: string | undefined, now: string): Transaction[] => {
+  const base: Omit<Transaction, 'id' | 'quantity'> = {
+    type: 'release', date: now, location: reservation.location, reservationId: reservation.id,
+    remarks: `예약 출고 (${reservation.holder})${reservation.remarks ? ` ${reservation.remarks}` : ''}`,
+    ...(item.type === 'product' && customer ? { customerName: customer.name, address: customer.address, phoneNumber: customer.phoneNumber, customerId: customer.id } : {}),
+    userId, updatedAt: now,
+  };
+  return serials.length > 0
+    ? serials.map(s => ({ ...base, id: generateId('t'), quantity: 1, serialNumber: s }))
+    : [{ ...base, id: generateId('t'), quantity: reservation.quantity }];
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import type { Transaction } from '../types';
+import { checkWarranty } from './rma';
+import { buildSerialRegistry } from './serials';
+import { makeItem, makeTransaction } from './testFixtures';
+
+const serialTransaction = (id: string, type: Transaction['type'], date: string, fields: Partial<Transaction> = {}): Transaction =>
+  makeTransaction(id, { type, date, serialNumber: 'SN1', ...fields });
+
+const makeProduct = (transactions: Transaction[]) => makeItem('prod', { type: 'product', warrantyMonths: 12, transactions });
+
+describe('checkWarranty', () => {
+  it('counts the warranty from the original sale, not a later resale', () => {
+    const product = makeProduct([
+      serialTransaction('t1', 'purchase', '2025-01-01T00:00:00.000Z'),
+      serialTransaction('t2', 'release', '2025-02-01T00:00:00.000Z', { customerName: '첫 고객' }),
+      serialTransaction('t3', 'purchase', '2025-06-01T00:00:00.000Z', { serialAction: 'return', bucket: 'quarantine' }),
+      serialTransaction('t4', 'release', '2025-06-10T00:00:00.000Z', { serialAction: 'restock', bucket: 'quarantine' }),
+      serialTransaction('t5', 'purchase', '2025-06-10T00:00:00.000Z', { serialAction: 'restock' }),
+      serialTransaction('t6', 'release', '2025-12-01T00:00:00.000Z', { customerName: '두 번째 고객' }),
+    ]);
+    const unit = buildSerialRegistry([product]).get('SN1');
+    const warranty = checkWarranty(unit, product, '2026-03-01T00:00:00.000Z');
+    expect(warranty.releasedAt).toBe('2025-02-01T00:00:00.000Z');
+    expect(warranty.underWarranty).toBe(false);
+    expect(warranty.customerName).toBe('두 번째 고객');
+    expect(checkWarranty(unit, product, '2026-01-15T00:00:00.000Z').underWarranty).toBe(true);
+  });
+
+  it('ignores releases after the return date and units never sold', () => {
+    const product = makeProduct([serialTransaction('t1', 'purchase', '2025-01-01T00:00:00.000Z'), serialTransaction('t2', 'release', '2025-05-01T00:00:00.000Z')]);
+    const unit = buildSerialRegistry([product]).get('SN1');
+    expect(checkWarranty(unit, product, '2025-04-01T00:00:00.000Z')).toEqual({ underWarranty: false, customerName: '' });
+  });
+});
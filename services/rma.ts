@@ -0,0 +1,41 @@
+import type { Item, RmaOutcome, RmaStatus } from '../types';
+import type { SerialUnit } from './serials';
+
+export const DEFAULT_WARRANTY_MONTHS = 12;
+
+export const RMA_STATUS_LABELS: Record<RmaStatus, string> = {
+  received: '검사 대기',
+  closed: '처리 완료',
+};
+
+export const RMA_OUTCOME_LABELS: Record<RmaOutcome, string> = {
+  restock: '재입고 (양품)',
+  repair: '수리 후 고객 반환',
+  scrap: '폐기',
+};
+
+const addMonths = (iso: string, months: number) => {
+  const d = new Date(iso);
+  d.setMonth(d.getMonth() + months);
+  return d.toISOString();
+};
+
+export interface WarrantyCheck {
+  releasedAt?: string; // 원 출고일 (접수 시점 이전의 첫 고객 출고)
+  expiresAt?: string;
+  underWarranty: boolean;
+  customerId?: string; // 마지막으로 출고된 고객
+  customerName: string;
+}
+
+// 일련번호의 원 출고일(첫 고객 출고) 기준으로 보증 기간 내인지 판단. 수리 반환 / 재판매로 다시 나가도 보증은 연장되지 않음
+export const checkWarranty = (unit: SerialUnit | undefined, product: Item | undefined, at: string): WarrantyCheck => {
+  const releases = (unit?.events || [])
+    .map(e => e.transaction)
+    .filter(t => t.type === 'release' && t.bucket !== 'quarantine' && !t.serialAction && t.date <= at);
+  if (releases.length === 0) return { underWarranty: false, customerName: '' };
+  const original = releases[0];
+  const latest = releases[releases.length - 1];
+  const expiresAt = addMonths(original.date, product?.warrantyMonths ?? DEFAULT_WARRANTY_MONTHS);
+  return { releasedAt: original.date, expiresAt, underWarranty: at <= expiresAt, customerId: latest.customerId, customerName: latest.customerName || '' };
+};
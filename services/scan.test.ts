@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { Item, Reservation } from '../types';
+import { applyScan, scanTransactions, validateScanBatch } from './scan';
+import type { ScanContext, ScanLine } from './scan';
+import { buildSerialRegistry } from './serials';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction, makeCustomer } from './testFixtures';
+
+const part = makeItem('pa', { transactions: [makeTransaction('t-stock', { quantity: 10 }), makeTransaction('t-van', { quantity: 50, location: 'loc-van' })] });
+const product = makeItem('prod', { type: 'product', bom: [{ partId: 'pa', quantity: 3 }], transactions: [makeTransaction('t-sn1', { serialNumber: 'SN1' })] });
+
+const reservation: Reservation = {
+  id: 'r1', itemId: 'pa', location: MAIN_LOCATION_ID, quantity: 4, holder: '작업 A', expiresAt: '2099-12-31', status: 'active',
+  remarks: '', createdAt: '2026-01-01T00:00:00.000Z', createdBy: 'admin',
+};
+
+const context = (mode: ScanContext['mode'], items: Item[] = [part, product], reservations: Reservation[] = []): ScanContext => ({
+  mode, location: MAIN_LOCATION_ID, items, registry: buildSerialRegistry(items), reservations,
+});
+
+describe('applyScan', () => {
+  it('adds up part codes and takes product serials one by one', () => {
+    const ctx = context('release');
+    const first = applyScan([], 'pa', ctx);
+    const second = 'lines' in first ? applyScan(first.lines, 'PA', ctx) : first;
+    expect('lines' in second && second.lines).toEqual([{ itemId: 'pa', quantity: 2 }]);
+    expect(applyScan([], 'PROD', ctx)).toEqual({ error: 'PROD 은(는) 일련번호를 스캔하세요.' });
+    expect(applyScan([{ itemId: 'prod', serial: 'SN1', quantity: 1 }], 'sn1', ctx)).toEqual({ error: '이미 스캔한 일련번호입니다: SN1' });
+  });
+
+  it('turns an unknown code after a product into its new serial when receiving', () => {
+    const result = applyScan([{ itemId: 'prod', quantity: 2 }], 'SN9', context('purchase'));
+    expect('lines' in result && result.lines).toEqual([{ itemId: 'prod', quantity: 1 }, { itemId: 'prod', serial: 'SN9', quantity: 1 }]);
+    expect(applyScan([], 'SN1', context('purchase'))).toEqual({ error: '이미 등록된 일련번호입니다: SN1' });
+  });
+});
+
+describe('validateScanBatch', () => {
+  it('limits releases to the available stock after reservations', () => {
+    const lines: ScanLine[] = [{ itemId: 'pa', quantity: 5 }, { itemId: 'pa', quantity: 2 }];
+    expect(validateScanBatch(lines, context('release'), false)).toEqual([]);
+    expect(validateScanBatch(lines, context('release', [part, product], [reservation]), false)).toEqual(['PA 품목 pa - 출고 7 / 가용 6']);
+  });
+
+  it('checks BOM parts of the whole batch at the location when producing', () => {
+    const lines: ScanLine[] = [{ itemId: 'prod', serial: 'SN2', quantity: 1 }, { itemId: 'prod', serial: 'SN3', quantity: 1 }, { itemId: 'prod', quantity: 2 }];
+    expect(validateScanBatch(lines, context('purchase'), true)).toEqual(['부품 부족: PA 품목 pa - 필요 12 / 재고 10']);
+    expect(validateScanBatch(lines, context('purchase'), false)).toEqual([]);
+    expect(validateScanBatch([{ itemId: 'pa', quantity: 0 }], context('purchase'), false)).toEqual(['수량이 0 이하인 줄이 있습니다.']);
+  });
+});
+
+describe('scanTransactions', () => {
+  it('consumes BOM parts for each produced serial', () => {
+    const lines: ScanLine[] = [{ itemId: 'prod', serial: 'SN2', quantity: 1 }, { itemId: 'prod', serial: 'SN3', quantity: 1 }];
+    const added = scanTransactions('purchase', MAIN_LOCATION_ID, lines, [part, product], {
+      remarks: '', supplierId: 'supp-1', consumeBom: true, userId: 'admin', at: '2026-01-02T00:00:00.000Z',
+    });
+    const produced = added.get('prod')!;
+    expect(produced.map(t => [t.serialNumber, t.supplierId])).toEqual([['SN2', 'supp-1'], ['SN3', 'supp-1']]);
+    expect(added.get('pa')!.map(t => [t.type, t.quantity, t.productionId])).toEqual([['release', 3, produced[0].id], ['release', 3, produced[1].id]]);
+  });
+
+  it('tags product releases with the customer only', () => {
+    const added = scanTransactions('release', MAIN_LOCATION_ID, [{ itemId: 'pa', quantity: 5 }, { itemId: 'prod', serial: 'SN1', quantity: 1 }], [part, product], {
+      remarks: '', customer: makeCustomer('c-1', '홍길동'), supplierId: null, consumeBom: false, at: '2026-01-02T00:00:00.000Z',
+    });
+    expect(added.get('pa')![0].customerId).toBeUndefined();
+    expect(added.get('prod')![0].customerId).toBe('c-1');
+  });
+});
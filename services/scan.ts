@@ -0,0 +1,126 @@
+import type { Customer, Item, Reservation, Transaction } from '../types';
+import { isSerialAvailable, SERIAL_STATUS_LABELS } from './serials';
+import type { SerialUnit } from './serials';
+import { availableLocationStock } from './reservations';
+import { bomRequirements, consumptionReleases } from './bom';
+import { generateId } from './ids';
+import { locationName } from './locations';
+
+export type ScanMode = 'purchase' | 'release';
+
+// 스캔 대기열의 한 줄 (일련번호 줄은 수량 1)
+export interface ScanLine {
+  itemId: string;
+  serial?: string;
+  quantity: number;
+}
+
+export interface ScanContext {
+  mode: ScanMode;
+  location: string;
+  items: Item[];
+  registry: Map<string, SerialUnit>;
+  reservations: Reservation[]; // 출고는 예약을 뺀 가용 재고 기준
+}
+
+export type ScanResult = { lines: ScanLine[]; line: ScanLine } | { error: string };
+
+const hasAvailableSerials = (item: Item, ctx: ScanContext) =>
+  [...ctx.registry.values()].some(u => u.itemId === item.id && isSerialAvailable(u) && u.location === ctx.location);
+
+// 방금 스캔한 줄을 맨 뒤로 (다음 일련번호가 붙을 제품 판단용)
+const pushLine = (lines: ScanLine[], line: ScanLine): ScanResult => ({ lines: [...lines, line], line });
+
+// 품번 → 품목 수량 +1, 일련번호 → 해당 제품 1대
+// 입고 중 등록되지 않은 코드는 직전에 스캔한 제품의 새 일련번호로 봄
+export const applyScan = (lines: ScanLine[], raw: string, ctx: ScanContext): ScanResult => {
+  const code = raw.trim().toUpperCase();
+  if (!code) return { error: '스캔한 내용이 없습니다.' };
+  const item = ctx.items.find(i => i.code.toUpperCase() === code);
+  if (item) {
+    if (ctx.mode === 'release' && item.type === 'product' && hasAvailableSerials(item, ctx)) return { error: `${item.code} 은(는) 일련번호를 스캔하세요.` };
+    const existing = lines.find(l => l.itemId === item.id && !l.serial);
+    return pushLine(lines.filter(l => l !== existing), { itemId: item.id, quantity: (existing?.quantity || 0) + 1 });
+  }
+  if (lines.some(l => l.serial === code)) return { error: `이미 스캔한 일련번호입니다: ${code}` };
+  const unit = ctx.registry.get(code);
+  if (unit) {
+    if (ctx.mode === 'purchase') return { error: `이미 등록된 일련번호입니다: ${code}` };
+    if (!ctx.items.some(i => i.id === unit.itemId)) return { error: `${code} 의 제품을 찾을 수 없습니다.` };
+    if (!isSerialAvailable(unit)) return { error: `${code} 은(는) ${SERIAL_STATUS_LABELS[unit.status]} 상태입니다.` };
+    if (unit.location !== ctx.location) return { error: `${code} 은(는) ${locationName(unit.location)}에 있습니다.` };
+    return pushLine(lines, { itemId: unit.itemId, serial: code, quantity: 1 });
+  }
+  const last = lines[lines.length - 1];
+  const lastItem = last && ctx.items.find(i => i.id === last.itemId);
+  if (ctx.mode === 'purchase' && lastItem?.type === 'product') {
+    // 품번만 스캔한 줄은 일련번호 줄로 바꿈
+    const rest = last.serial ? lines : last.quantity > 1 ? [...lines.slice(0, -1), { ...last, quantity: last.quantity - 1 }] : lines.slice(0, -1);
+    return pushLine(rest, { itemId: lastItem.id, serial: code, quantity: 1 });
+  }
+  return { error: `알 수 없는 코드입니다: ${code}` };
+};
+
+export const scanTotals = (lines: ScanLine[]) => {
+  const totals = new Map<string, number>();
+  lines.forEach(l => totals.set(l.itemId, (totals.get(l.itemId) || 0) + l.quantity));
+  return totals;
+};
+
+// 확정 전 검사: 출고는 위치별 가용 재고, 생산 입고는 BOM 부품 재고 (대기열 전체 합산)
+export const validateScanBatch = (lines: ScanLine[], ctx: ScanContext, consumeBom: boolean): string[] => {
+  const byId = new Map(ctx.items.map(i => [i.id, i]));
+  const totals = scanTotals(lines);
+  const errors: string[] = [];
+  if (lines.some(l => l.quantity <= 0)) errors.push('수량이 0 이하인 줄이 있습니다.');
+  if (ctx.mode === 'release') {
+    totals.forEach((quantity, itemId) => {
+      const item = byId.get(itemId);
+      const stock = item ? availableLocationStock(item, ctx.reservations)[ctx.location] || 0 : 0;
+      if (item && quantity > stock) errors.push(`${item.code} ${item.name} - 출고 ${quantity} / 가용 ${stock}`);
+    });
+    return errors;
+  }
+  if (!consumeBom) return errors;
+  const parts = new Map<string, { label: string; required: number; available: number }>();
+  totals.forEach((quantity, itemId) => {
+    const product = byId.get(itemId);
+    if (!product || product.type !== 'product') return;
+    bomRequirements(product, quantity, ctx.items, ctx.location).forEach(r => {
+      const prev = parts.get(r.partId);
+      parts.set(r.partId, { label: r.part ? `${r.part.code} ${r.part.name}` : '(삭제된 부품)', required: (prev?.required || 0) + r.required, available: r.available });
+    });
+  });
+  parts.forEach(p => { if (p.required > p.available) errors.push(`부품 부족: ${p.label} - 필요 ${p.required} / 재고 ${p.available}`); });
+  return errors;
+};
+
+export interface ScanRecordFields {
+  remarks: string;
+  customer?: Customer; // 제품 출고 고객
+  supplierId: string | null; // 입고 공급처
+  consumeBom: boolean;
+  userId?: string;
+  at: string;
+}
+
+// 스캔 대기열을 품목별 기록으로 변환 (일련번호 줄은 1건씩, 생산 입고는 줄마다 BOM 차감)
+export const scanTransactions = (mode: ScanMode, location: string, lines: ScanLine[], items: Item[], fields: ScanRecordFields): Map<string, Transaction[]> => {
+  const { customer, at, userId } = fields;
+  const customerFields = customer ? { customerName: customer.name, address: customer.address, phoneNumber: customer.phoneNumber, customerId: customer.id } : {};
+  const added = new Map<string, Transaction[]>();
+  const add = (itemId: string, transactions: Transaction[]) => added.set(itemId, [...(added.get(itemId) || []), ...transactions]);
+  lines.forEach(line => {
+    const item = items.find(i => i.id === line.itemId);
+    if (!item) return;
+    const transaction: Transaction = {
+      id: generateId('t'), type: mode, quantity: line.quantity, date: at, remarks: fields.remarks, location,
+      serialNumber: line.serial || '', ...(item.type === 'product' && mode === 'release' ? customerFields : {}),
+      ...(mode === 'purchase' && fields.supplierId ? { supplierId: fields.supplierId } : {}),
+      userId, updatedAt: at,
+    };
+    add(item.id, [transaction]);
+    if (mode === 'purchase' && fields.consumeBom) consumptionReleases(item, [transaction], items).forEach((releases, partId) => add(partId, releases));
+  });
+  return added;
+};
@@ -0,0 +1,86 @@
+import type { Item, Transaction, SerialAction } from '../types';
+import { MAIN_LOCATION_ID } from './locations';
+
+export type SerialStatus = 'in_stock' | 'released' | 'returned' | 'scrapped';
+
+export const SERIAL_STATUS_LABELS: Record<SerialStatus, string> = {
+  in_stock: '재고',
+  released: '출고',
+  returned: '반품(격리)',
+  scrapped: '폐기',
+};
+
+export interface SerialEvent {
+  itemId: string;
+  transaction: Transaction;
+}
+
+export interface SerialUnit {
+  serial: string;
+  itemId: string; // 마지막 기록의 제품
+  status: SerialStatus;
+  location: string; // 마지막 입고 또는 이동 위치
+  events: SerialEvent[]; // 날짜순
+}
+
+// 재입고는 격리 출고 → 양품 입고 두 건이 같은 시각으로 기록되며, 뒤의 양품 입고가 최종 상태가 됨
+export const serialStatusAfter = (t: Transaction): SerialStatus => {
+  if (t.type === 'purchase') return t.bucket === 'quarantine' ? 'returned' : 'in_stock';
+  if (t.serialAction === 'scrap') return 'scrapped';
+  if (t.serialAction === 'restock') return 'returned';
+  return 'released';
+};
+
+// 격리 중인 반품은 검사(RMA) 처리 전까지 출고할 수 없음
+export const isSerialAvailable = (unit: SerialUnit) => unit.status === 'in_stock';
+
+export const SERIAL_ACTION_LABELS: Record<SerialAction, string> = {
+  return: '반품',
+  scrap: '폐기',
+  restock: '재입고',
+  repair: '수리 반환',
+};
+
+// 입출고 기록에서 일련번호별 현재 상태와 이력을 계산
+export const buildSerialRegistry = (items: Item[]): Map<string, SerialUnit> => {
+  const events = new Map<string, SerialEvent[]>();
+  items.forEach(item => item.transactions.forEach(t => {
+    const serial = t.serialNumber?.trim().toUpperCase();
+    if (!serial) return;
+    events.set(serial, [...(events.get(serial) || []), { itemId: item.id, transaction: t }]);
+  }));
+  const registry = new Map<string, SerialUnit>();
+  events.forEach((list, serial) => {
+    const sorted = [...list].sort((a, b) => a.transaction.date.localeCompare(b.transaction.date));
+    // 위치 이동은 상태를 바꾸지 않고 위치만 갱신
+    let status: SerialStatus = 'in_stock';
+    let location = MAIN_LOCATION_ID;
+    sorted.forEach(({ transaction: t }) => {
+      if (t.type === 'transfer') { location = t.toLocation || MAIN_LOCATION_ID; return; }
+      status = serialStatusAfter(t);
+      if (t.type === 'purchase') location = t.location || MAIN_LOCATION_ID;
+    });
+    registry.set(serial, { serial, itemId: sorted[sorted.length - 1].itemId, status, location, events: sorted });
+  });
+  return registry;
+};
+
+// 'SN001~SN010' 처럼 ~ 로 이어진 범위를 일련번호 목록으로 펼침 (범위가 아니면 입력값 하나)
+export const parseSerialRange = (input: string): string[] => {
+  const rangeMatch = input.match(/^(.+?)(\d+)\s*~\s*(.+?)?(\d+)$/);
+  if (!rangeMatch) return [input.trim()];
+  const prefix = rangeMatch[1];
+  const startNumStr = rangeMatch[2];
+  const endNumStr = rangeMatch[4];
+  const startNum = parseInt(startNumStr, 10);
+  const endNum = parseInt(endNumStr, 10);
+  if (isNaN(startNum) || isNaN(endNum) || startNum > endNum) return [input.trim()];
+  if (endNum - startNum >= 100) throw new Error('범위는 최대 100개까지 가능합니다.');
+  const results: string[] = [];
+  const padLength = startNumStr.length;
+  for (let i = startNum; i <= endNum; i++) {
+    const paddedNum = i.toString().padStart(padLength, '0');
+    results.push(`${prefix}${paddedNum}`);
+  }
+  return results;
+};
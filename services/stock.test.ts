@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { calculateStock, calculateQuarantineStock, calculateLocationStock, endOfDate, itemAsOf, runningBalances } from './stock';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction } from './testFixtures';
+
+describe('calculateLocationStock', () => {
+  it('moves transfers between locations without changing the total', () => {
+    const item = makeItem('a', { transactions: [
+      makeTransaction('t1', { quantity: 10 }),
+      makeTransaction('t2', { type: 'transfer', quantity: 4, toLocation: 'loc-van' }),
+      makeTransaction('t3', { type: 'release', quantity: 1, location: 'loc-van' }),
+      makeTransaction('t4', { type: 'adjustment', quantity: -2 }),
+    ] });
+    expect(calculateLocationStock(item)).toEqual({ [MAIN_LOCATION_ID]: 4, 'loc-line': 0, 'loc-van': 3 });
+    expect(calculateStock(item)).toBe(7);
+  });
+
+  it('counts records without a location at the main warehouse and leaves quarantine out', () => {
+    const item = makeItem('a', { transactions: [
+      makeTransaction('t1', { quantity: 5, location: undefined }),
+      makeTransaction('t2', { type: 'transfer', quantity: 2, location: 'loc-line', toLocation: undefined }),
+      makeTransaction('t3', { quantity: 1, bucket: 'quarantine' }),
+    ] });
+    expect(calculateLocationStock(item)).toEqual({ [MAIN_LOCATION_ID]: 7, 'loc-line': -2, 'loc-van': 0 });
+    expect(calculateQuarantineStock(item)).toBe(1);
+  });
+});
+
+describe('itemAsOf', () => {
+  const item = makeItem('a', { transactions: [
+    makeTransaction('t1', { quantity: 10, date: '2026-01-01T09:00:00.000Z' }),
+    makeTransaction('t2', { type: 'transfer', quantity: 3, toLocation: 'loc-van', date: '2026-01-02T09:00:00.000Z' }),
+    makeTransaction('t3', { type: 'release', quantity: 4, date: '2026-01-03T09:00:00.000Z' }),
+  ] });
+
+  it('keeps only records up to the cut-off, including one at that exact time', () => {
+    expect(calculateLocationStock(itemAsOf(item, '2026-01-02T09:00:00.000Z'))).toMatchObject({ [MAIN_LOCATION_ID]: 7, 'loc-van': 3 });
+    expect(calculateStock(itemAsOf(item, '2026-01-02T08:59:59.999Z'))).toBe(10);
+    expect(calculateStock(itemAsOf(item, '2025-12-31T00:00:00.000Z'))).toBe(0);
+    expect(itemAsOf(item)).toBe(item);
+  });
+
+  it('takes the whole local day with endOfDate', () => {
+    const lateOnDay = new Date('2026-01-02T23:30:00').toISOString();
+    const nextDay = new Date('2026-01-03T00:00:00').toISOString();
+    const day = makeItem('b', { transactions: [makeTransaction('t1', { quantity: 2, date: lateOnDay }), makeTransaction('t2', { quantity: 5, date: nextDay })] });
+    expect(calculateStock(itemAsOf(day, endOfDate('2026-01-02')))).toBe(2);
+  });
+});
+
+describe('runningBalances', () => {
+  it('gives the balance after each record in date order, unchanged by transfers and quarantine', () => {
+    const balances = runningBalances([
+      makeTransaction('t3', { type: 'release', quantity: 4, date: '2026-01-03T00:00:00.000Z' }),
+      makeTransaction('t1', { quantity: 10, date: '2026-01-01T00:00:00.000Z' }),
+      makeTransaction('t2', { type: 'transfer', quantity: 3, toLocation: 'loc-van', date: '2026-01-02T00:00:00.000Z' }),
+      makeTransaction('t4', { quantity: 1, bucket: 'quarantine', date: '2026-01-04T00:00:00.000Z' }),
+      makeTransaction('t5', { type: 'adjustment', quantity: -1, date: '2026-01-05T00:00:00.000Z' }),
+    ]);
+    expect([...balances]).toEqual([['t1', 10], ['t2', 10], ['t3', 6], ['t4', 6], ['t5', 5]]);
+  });
+});
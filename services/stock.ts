@@ -0,0 +1,56 @@
+import type { Item, Transaction, TransactionType } from '../types';
+import { LOCATIONS, MAIN_LOCATION_ID } from './locations';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  purchase: '입고',
+  release: '출고',
+  transfer: '이동',
+  adjustment: '조정',
+};
+
+// 격리 재고(반품 검사 대기)는 양품 재고와 따로 집계
+export const isQuarantine = (t: Transaction) => t.bucket === 'quarantine';
+
+export const locationOf = (t: Transaction) => t.location || MAIN_LOCATION_ID;
+
+// 위치 이동은 전체 수량에 영향이 없음, 조정은 부호 있는 수량 그대로
+export const stockDelta = (t: Transaction) => t.type === 'purchase' || t.type === 'adjustment' ? t.quantity : t.type === 'release' ? -t.quantity : 0;
+
+const sumStock = (transactions: Transaction[]) => transactions.reduce((acc, t) => acc + stockDelta(t), 0);
+
+export const calculateStock = (item: Item): number => sumStock(item.transactions.filter(t => !isQuarantine(t)));
+
+export const calculateQuarantineStock = (item: Item): number => sumStock(item.transactions.filter(isQuarantine));
+
+// 위치별 양품 재고 (등록된 위치는 0 이라도 항상 포함)
+export const calculateLocationStock = (item: Item): Record<string, number> => {
+  const stock: Record<string, number> = Object.fromEntries(LOCATIONS.map(l => [l.id, 0]));
+  item.transactions.filter(t => !isQuarantine(t)).forEach(t => {
+    const from = locationOf(t);
+    if (t.type === 'transfer') {
+      const to = t.toLocation || MAIN_LOCATION_ID;
+      stock[from] = (stock[from] || 0) - t.quantity;
+      stock[to] = (stock[to] || 0) + t.quantity;
+    } else {
+      stock[from] = (stock[from] || 0) + stockDelta(t);
+    }
+  });
+  return stock;
+};
+
+// 기준일(현지 날짜, YYYY-MM-DD)의 마지막 순간 (ISO)
+export const endOfDate = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
+
+// asOf(ISO) 까지의 기록만 남긴 품목, 위의 계산 함수에 그대로 넘겨 과거 재고를 구함
+export const itemAsOf = (item: Item, asOf?: string): Item => asOf ? { ...item, transactions: item.transactions.filter(t => t.date <= asOf) } : item;
+
+// 날짜순으로 각 기록 직후의 양품 재고 (격리 기록은 잔고를 바꾸지 않음)
+export const runningBalances = (transactions: Transaction[]): Map<string, number> => {
+  const balances = new Map<string, number>();
+  let balance = 0;
+  [...transactions].sort((a, b) => a.date.localeCompare(b.date)).forEach(t => {
+    if (!isQuarantine(t)) balance += stockDelta(t);
+    balances.set(t.id, balance);
+  });
+  return balances;
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import type { Stocktake } from '../types';
+import { stocktakeVariances, stocktakeAdjustments, nextStocktakeReference } from './stocktake';
+import { MAIN_LOCATION_ID } from './locations';
+import { makeItem, makeTransaction } from './testFixtures';
+
+const stocked = (id: string, quantity: number) => makeItem(id, {
+  transactions: [makeTransaction(`t-${id}`, { quantity }), makeTransaction(`t-${id}-van`, { quantity: 100, location: 'loc-van' })],
+});
+
+const makeStocktake = (lines: Stocktake['lines'], fields: Partial<Stocktake> = {}): Stocktake => ({
+  id: 'st-1', reference: 'ST-20260301-01', itemType: '', location: MAIN_LOCATION_ID, status: 'draft', lines, remarks: '',
+  createdAt: '2026-03-01T00:00:00.000Z', createdBy: 'admin', ...fields,
+});
+
+describe('stocktakeVariances', () => {
+  it('compares a draft with the current stock at its location', () => {
+    const variances = stocktakeVariances(makeStocktake([{ itemId: 'a', counted: 12 }, { itemId: 'gone', counted: 1 }, { itemId: 'b', counted: 7 }]), [stocked('a', 10), stocked('b', 10)]);
+    expect(variances.map(v => [v.item.id, v.expected, v.counted, v.variance])).toEqual([['a', 10, 12, 2], ['b', 10, 7, -3]]);
+  });
+
+  it('keeps the expected quantity recorded at approval', () => {
+    const approved = makeStocktake([{ itemId: 'a', counted: 12, expected: 11 }], { status: 'approved' });
+    expect(stocktakeVariances(approved, [stocked('a', 10)])[0]).toMatchObject({ expected: 11, variance: 1 });
+  });
+});
+
+describe('stocktakeAdjustments', () => {
+  it('posts one signed adjustment per item with a difference', () => {
+    const items = [stocked('a', 10), stocked('b', 10), stocked('c', 10)];
+    const stocktake = makeStocktake([{ itemId: 'a', counted: 12 }, { itemId: 'b', counted: 10 }, { itemId: 'c', counted: 7 }]);
+    const adjustments = stocktakeAdjustments(stocktake, stocktakeVariances(stocktake, items), 'admin', '2026-03-01T00:00:00.000Z');
+    expect([...adjustments.keys()]).toEqual(['a', 'c']);
+    expect(adjustments.get('a')).toMatchObject({ type: 'adjustment', quantity: 2, location: MAIN_LOCATION_ID, stocktakeId: 'st-1' });
+    expect(adjustments.get('c')).toMatchObject({ quantity: -3, remarks: '재고 실사 ST-20260301-01 (전산 10 → 실사 7)' });
+  });
+});
+
+describe('nextStocktakeReference', () => {
+  it('numbers sessions per day', () => {
+    const stocktakes = [makeStocktake([]), makeStocktake([], { reference: 'ST-20260301-03' }), makeStocktake([], { reference: 'ST-20260228-07' })];
+    expect(nextStocktakeReference(stocktakes, '2026-03-01T09:00:00.000Z')).toBe('ST-20260301-04');
+    expect(nextStocktakeReference(stocktakes, '2026-03-02T09:00:00.000Z')).toBe('ST-20260302-01');
+  });
+});
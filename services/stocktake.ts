@@ -0,0 +1,44 @@
+import type { Item, Stocktake, StocktakeStatus, Transaction } from '../types';
+import { calculateLocationStock } from './stock';
+import { generateId } from './ids';
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  draft: '실사 중',
+  approved: '승인 완료',
+  cancelled: '취소',
+};
+
+// 같은 날짜의 실사 번호는 01 부터 순서대로
+export const nextStocktakeReference = (stocktakes: Stocktake[], at: string) => {
+  const prefix = `ST-${at.slice(0, 10).replace(/-/g, '')}-`;
+  const used = stocktakes.filter(s => s.reference.startsWith(prefix)).map(s => parseInt(s.reference.slice(prefix.length), 10) || 0);
+  return `${prefix}${String(Math.max(0, ...used) + 1).padStart(2, '0')}`;
+};
+
+export const stocktakeScope = (stocktake: Pick<Stocktake, 'itemType'>, items: Item[]) =>
+  items.filter(i => !stocktake.itemType || i.type === stocktake.itemType);
+
+export interface StocktakeVariance {
+  item: Item;
+  expected: number; // 전산 재고 (승인된 실사는 승인 시점 값)
+  counted: number;
+  variance: number; // 실사 - 전산
+}
+
+// 실사 수량이 입력된 품목의 차이 (진행 중인 실사는 현재 위치별 재고와 비교)
+export const stocktakeVariances = (stocktake: Stocktake, items: Item[]): StocktakeVariance[] => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  return stocktake.lines.flatMap(line => {
+    const item = byId.get(line.itemId);
+    if (!item) return [];
+    const expected = stocktake.status === 'draft' || line.expected === undefined ? calculateLocationStock(item)[stocktake.location] || 0 : line.expected;
+    return [{ item, expected, counted: line.counted, variance: line.counted - expected }];
+  });
+};
+
+// 승인 시 차이가 있는 품목마다 조정 기록 1건 (품목 ID → 조정 기록)
+export const stocktakeAdjustments = (stocktake: Stocktake, variances: StocktakeVariance[], userId: string | undefined, now: string): Map<string, Transaction> =>
+  new Map(variances.filter(v => v.variance !== 0).map(v => [v.item.id, {
+    id: generateId('t'), type: 'adjustment', quantity: v.variance, date: now, location: stocktake.location, stocktakeId: stocktake.id,
+    remarks: `재고 실사 ${stocktake.reference} (전산 ${v.expected} → 실사 ${v.counted})`, userId, updatedAt: now,
+  }]));
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { OrderedPart, Supplier } from '../types';
+import { defaultSupplierFor, expectedArrival, monthlyPriceTrend, supplierPriceHistory, suppliedParts } from './suppliers';
+import { AT, makeItem, makeTransaction } from './testFixtures';
+
+// 현지 시각 기준 기록 (월 경계가 현지 날짜 기준이므로)
+const at = (local: string) => new Date(local).toISOString();
+
+const supplier: Supplier = {
+  id: 'supp-1', name: '대한부품', contactName: '', phoneNumber: '', email: '', leadTimeDays: 10, partCodes: ['PA', 'PC'], remarks: '', createdAt: AT,
+};
+
+const makeOrder = (id: string, code: string, fields: Partial<OrderedPart> = {}): OrderedPart => ({
+  id, registrationDate: '2026-03-20', code, drawingNumber: '', name: `품목 ${code}`, spec: '', unitPrice: 100, quantity: 10, receivedQuantity: 0,
+  status: 'ordered', supplierId: 'supp-1', remarks: '', ...fields,
+});
+
+const items = [
+  makeItem('pa', { transactions: [
+    makeTransaction('t1', { quantity: 10, unitCost: 100, supplierId: 'supp-1', date: at('2026-01-05T09:00:00') }),
+    makeTransaction('t2', { quantity: 30, unitCost: 120, supplierId: 'supp-1', orderedPartId: 'po-1', date: at('2026-01-20T09:00:00') }),
+    makeTransaction('t3', { quantity: 5, supplierId: 'supp-1', date: at('2026-02-01T09:00:00') }),
+    makeTransaction('t4', { quantity: 5, unitCost: 999, supplierId: 'supp-2', date: at('2026-02-02T09:00:00') }),
+  ] }),
+  makeItem('pb', { transactions: [makeTransaction('t5', { quantity: 4, unitCost: 50, supplierId: 'supp-1', date: at('2026-02-10T09:00:00') })] }),
+];
+const orders = [
+  makeOrder('po-1', 'PA', { unitPrice: 110, quantity: 30, receivedQuantity: 30, status: 'received' }),
+  makeOrder('po-2', 'PA', { unitPrice: 130 }),
+  makeOrder('po-3', 'PA', { unitPrice: 10, status: 'cancelled' }),
+  makeOrder('po-4', 'PA', { unitPrice: 10, supplierId: 'supp-2' }),
+];
+const history = supplierPriceHistory('supp-1', items, orders);
+
+describe('supplierPriceHistory', () => {
+  it('lists priced receipts and orders not yet received, latest first', () => {
+    expect(history.map(p => [p.code, p.unitPrice, p.quantity, p.source])).toEqual([
+      ['PA', 130, 10, 'order'], ['PB', 50, 4, 'purchase'], ['PA', 120, 30, 'purchase'], ['PA', 100, 10, 'purchase'],
+    ]);
+  });
+});
+
+describe('monthlyPriceTrend', () => {
+  it('weights the price by quantity per month and leaves empty months at 0', () => {
+    expect(monthlyPriceTrend(history, 'pa', ['2026-01', '2026-02', '2026-03'])).toEqual([Math.round((100 * 10 + 120 * 30) / 40), 0, 130]);
+  });
+});
+
+describe('suppliedParts', () => {
+  it('adds codes found only in the history and totals every receipt from the supplier', () => {
+    expect(suppliedParts(supplier, history, items).map(p => [p.code, p.listed, p.lastPrice, p.purchased])).toEqual([
+      ['PA', true, 130, 45], ['PB', false, 50, 4], ['PC', true, null, 0],
+    ]);
+  });
+});
+
+describe('defaultSupplierFor / expectedArrival', () => {
+  it('finds the supplier by code and adds its lead time to the order date', () => {
+    expect(defaultSupplierFor(' pa ', [supplier])).toBe(supplier);
+    expect(defaultSupplierFor('PX', [supplier])).toBeUndefined();
+    expect(expectedArrival({ registrationDate: '2026-03-25' }, supplier)).toBe('2026-04-04');
+    expect(expectedArrival({ registrationDate: '2026-03-25' }, { ...supplier, leadTimeDays: 0 })).toBeNull();
+  });
+});
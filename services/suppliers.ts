@@ -0,0 +1,77 @@
+import type { Item, OrderedPart, Supplier } from '../types';
+import { monthKey } from './reports';
+
+const sameCode = (a: string, b: string) => a.trim().toUpperCase() === b.trim().toUpperCase();
+
+// 품번을 공급하는 첫 번째 공급처 (입고 / 발주 기본값)
+export const defaultSupplierFor = (code: string, suppliers: Supplier[]): Supplier | undefined =>
+  suppliers.find(s => s.partCodes.some(c => sameCode(c, code)));
+
+// 발주일 + 공급처 리드타임 ('YYYY-MM-DD', 리드타임이 없으면 null)
+export const expectedArrival = (order: Pick<OrderedPart, 'registrationDate'>, supplier?: Supplier) => {
+  if (!supplier || !supplier.leadTimeDays) return null;
+  const date = new Date(`${order.registrationDate}T00:00:00`);
+  date.setDate(date.getDate() + supplier.leadTimeDays);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export interface PricePoint {
+  date: string;
+  code: string;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  source: 'purchase' | 'order'; // 입고 단가 또는 아직 입고되지 않은 발주 단가
+}
+
+// 공급처의 단가 기록 (단가가 있는 입고 + 입고 기록이 없는 발주, 최신순)
+export const supplierPriceHistory = (supplierId: string, items: Item[], orderedParts: OrderedPart[]): PricePoint[] => {
+  const received = new Set<string>();
+  const purchases = items.flatMap(item => item.transactions
+    .filter(t => t.type === 'purchase' && t.supplierId === supplierId)
+    .map(t => {
+      if (t.orderedPartId) received.add(t.orderedPartId);
+      return t.unitCost == null ? null : { date: t.date, code: item.code, name: item.name, unitPrice: t.unitCost, quantity: t.quantity, source: 'purchase' as const };
+    })
+    .filter((p): p is NonNullable<typeof p> => p !== null));
+  const orders = orderedParts
+    .filter(o => o.supplierId === supplierId && o.status !== 'cancelled' && !received.has(o.id))
+    .map(o => ({ date: new Date(`${o.registrationDate}T00:00:00`).toISOString(), code: o.code, name: o.name, unitPrice: o.unitPrice, quantity: o.quantity, source: 'order' as const }));
+  return [...purchases, ...orders].sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export interface SuppliedPart {
+  code: string;
+  name: string;
+  listed: boolean; // 공급처 품번 목록에 등록된 품번
+  lastPrice: number | null;
+  lastDate: string | null;
+  purchased: number; // 입고 수량 합계 (단가 없는 입고 포함)
+}
+
+// 등록된 공급 품번 + 기록에만 있는 품번의 최근 단가
+export const suppliedParts = (supplier: Supplier, history: PricePoint[], items: Item[]): SuppliedPart[] => {
+  const codes = [...supplier.partCodes];
+  history.forEach(p => { if (!codes.some(c => sameCode(c, p.code))) codes.push(p.code); });
+  return codes.map(code => {
+    const points = history.filter(p => sameCode(p.code, code));
+    return {
+      code,
+      name: items.find(i => sameCode(i.code, code))?.name || points[0]?.name || '',
+      listed: supplier.partCodes.some(c => sameCode(c, code)),
+      lastPrice: points[0]?.unitPrice ?? null,
+      lastDate: points[0]?.date ?? null,
+      purchased: items
+        .filter(i => sameCode(i.code, code))
+        .flatMap(i => i.transactions.filter(t => t.type === 'purchase' && t.supplierId === supplier.id))
+        .reduce((acc, t) => acc + t.quantity, 0),
+    };
+  }).sort((a, b) => a.code.localeCompare(b.code));
+};
+
+// 품번의 월별 수량 가중 평균 단가 (기록이 없는 달은 0)
+export const monthlyPriceTrend = (history: PricePoint[], code: string, months: string[]) => months.map(month => {
+  const points = history.filter(p => sameCode(p.code, code) && monthKey(p.date) === month);
+  const quantity = points.reduce((acc, p) => acc + p.quantity, 0);
+  return quantity > 0 ? Math.round(points.reduce((acc, p) => acc + p.unitPrice * p.quantity, 0) / quantity) : 0;
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditEntry } from '../types';
+import { mergeDocuments, emptyDocument, reassignDuplicateIds, syncDocument } from './sync';
+import type { KvClient, StoredDocument, SyncDocument } from './sync';
+import { generateId } from './ids';
+import { makeItem, makeTransaction, makeCustomer } from './testFixtures';
+
+const makeAudit = (id: string): AuditEntry => ({
+  id, at: '2026-01-02T00:00:00.000Z', userId: 'admin', action: 'create', entity: 'item', entityId: 'a', label: id, before: null, after: null, reason: '',
+});
+
+const doc = (fields: Partial<SyncDocument>): SyncDocument => ({ ...emptyDocument(), ...fields });
+
+describe('mergeDocuments', () => {
+  it('keeps changes made on both sides to different records', () => {
+    const base = doc({ items: [makeItem('a'), makeItem('b')] });
+    const local = doc({ items: [makeItem('a', { name: '로컬' }), makeItem('b')] });
+    const remote = doc({ items: [makeItem('a'), makeItem('b', { name: '원격' })] });
+    const { merged, conflicts } = mergeDocuments(base, local, remote);
+    expect(merged.items.map(i => i.name)).toEqual(['로컬', '원격']);
+    expect(conflicts).toHaveLength(0);
+  });
+
+  it('merges transactions of the same item added on both sides', () => {
+    const base = doc({ items: [makeItem('a')] });
+    const local = doc({ items: [makeItem('a', { transactions: [makeTransaction('t1')] })] });
+    const remote = doc({ items: [makeItem('a', { transactions: [makeTransaction('t2')] })] });
+    const { merged } = mergeDocuments(base, local, remote);
+    expect(merged.items[0].transactions.map(t => t.id)).toEqual(['t1', 't2']);
+  });
+
+  it('applies a deletion when the other side did not change the record', () => {
+    const base = doc({ items: [makeItem('a'), makeItem('b')] });
+    const local = doc({ items: [makeItem('a')] });
+    const { merged, conflicts } = mergeDocuments(base, local, base);
+    expect(merged.items.map(i => i.id)).toEqual(['a']);
+    expect(conflicts).toHaveLength(0);
+  });
+
+  it('keeps the newer version and reports a conflict when both sides changed a record', () => {
+    const base = doc({ items: [makeItem('a')] });
+    const local = doc({ items: [makeItem('a', { name: '로컬', updatedAt: '2026-01-03T00:00:00.000Z' })] });
+    const remote = doc({ items: [makeItem('a', { name: '원격', updatedAt: '2026-01-04T00:00:00.000Z' })] });
+    const { merged, conflicts } = mergeDocuments(base, local, remote);
+    expect(merged.items[0].name).toBe('원격');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].kept).toBe('remote');
+  });
+
+  it('keeps a deleted record that the other side changed and reports it', () => {
+    const base = doc({ items: [makeItem('a')] });
+    const local = doc({ items: [] });
+    const remote = doc({ items: [makeItem('a', { name: '원격' })] });
+    const { merged, conflicts } = mergeDocuments(base, local, remote);
+    expect(merged.items.map(i => i.name)).toEqual(['원격']);
+    expect(conflicts).toHaveLength(1);
+  });
+
+  it('merges the audit log as a union and never drops entries', () => {
+    const base = doc({ auditLog: [makeAudit('e1'), makeAudit('e2')] });
+    const local = doc({ auditLog: [makeAudit('e3'), makeAudit('e1')] });
+    const remote = doc({ auditLog: [makeAudit('e4'), makeAudit('e2')] });
+    const { merged } = mergeDocuments(base, local, remote);
+    expect(merged.auditLog.map(e => e.id).sort()).toEqual(['e1', 'e2', 'e3', 'e4']);
+  });
+});
+
+describe('record ids', () => {
+  it('stay distinct when many are created in one tick', () => {
+    const ids = Array.from({ length: 1000 }, () => generateId('t'));
+    expect(new Set(ids).size).toBe(1000);
+  });
+
+  it('reassigns duplicated ids deterministically without dropping records', () => {
+    const duplicated = doc({
+      items: [makeItem('a', { transactions: [makeTransaction('t-1', { serialNumber: 'SN001' }), makeTransaction('t-1', { serialNumber: 'SN002' })] }), makeItem('b', { transactions: [makeTransaction('t-1', { serialNumber: 'SN003' })] })],
+      customers: [makeCustomer('c-1', '가'), makeCustomer('c-1', '나')],
+    });
+    const fixed = reassignDuplicateIds(duplicated);
+    expect(fixed.items.flatMap(i => i.transactions.map(t => `${t.id}:${t.serialNumber}`))).toEqual(['t-1:SN001', 't-1-2:SN002', 't-1-3:SN003']);
+    expect(fixed.customers.map(c => c.id)).toEqual(['c-1', 'c-1-2']);
+    expect(reassignDuplicateIds(duplicated)).toEqual(fixed);
+    const { merged } = mergeDocuments(null, fixed, fixed);
+    expect(merged.items.flatMap(i => i.transactions.map(t => t.serialNumber))).toEqual(['SN001', 'SN002', 'SN003']);
+  });
+
+  it('returns the same collections when there is nothing to fix', () => {
+    const clean = doc({ items: [makeItem('a', { transactions: [makeTransaction('t1')] })], customers: [] });
+    const fixed = reassignDuplicateIds(clean);
+    expect(fixed.items).toBe(clean.items);
+    expect(fixed.customers).toBe(clean.customers);
+  });
+});
+
+// 조건부 저장을 서버처럼 처리하는 메모리 KV
+const memoryKv = () => {
+  const store = new Map<string, string>();
+  const client: KvClient = {
+    get: async <T,>(key: string) => store.has(key) ? JSON.parse(store.get(key)!) as T : null,
+    setIfRevision: async (key, value, expected) => {
+      const revision = store.has(key) ? (JSON.parse(store.get(key)!) as StoredDocument).revision || 0 : 0;
+      if (revision !== expected) return false;
+      store.set(key, JSON.stringify(value));
+      return true;
+    },
+  };
+  return client;
+};
+
+// 첫 GET 직후(저장 전)에 다른 기기의 동기화를 끼워 넣는 클라이언트
+const interleaved = (client: KvClient, other: () => Promise<unknown>): KvClient => {
+  let pending: (() => Promise<unknown>) | null = other;
+  return {
+    ...client,
+    get: async <T,>(key: string) => {
+      const value = await client.get<T>(key);
+      if (pending) {
+        const run = pending;
+        pending = null;
+        await run();
+      }
+      return value;
+    },
+  };
+};
+
+describe('syncDocument', () => {
+  const seed = doc({ items: [makeItem('a'), makeItem('b')] });
+
+  const seeded = async () => {
+    const kv = memoryKv();
+    await syncDocument(kv, 'db', null, seed);
+    return kv;
+  };
+
+  it('keeps records added on two devices whose saves overlap', async () => {
+    const kv = await seeded();
+    const fromB = doc({ ...seed, customers: [makeCustomer('c-b', '김철수')] });
+    const fromA = doc({ ...seed, customers: [makeCustomer('c-a', '홍길동')] });
+    const result = await syncDocument(interleaved(kv, () => syncDocument(kv, 'db', seed, fromB)), 'db', seed, fromA);
+    const stored = await kv.get<StoredDocument>('db');
+    expect(stored!.customers.map(c => c.id).sort()).toEqual(['c-a', 'c-b']);
+    expect(stored!.revision).toBe(3);
+    expect(result.merged.customers.map(c => c.id).sort()).toEqual(['c-a', 'c-b']);
+  });
+
+  it('reports a conflict when two devices edit the same record', async () => {
+    const kv = await seeded();
+    await syncDocument(kv, 'db', seed, doc({ ...seed, items: [makeItem('a', { name: 'A 기기', updatedAt: '2026-01-03T00:00:00.000Z' }), makeItem('b')] }));
+    const { merged, conflicts } = await syncDocument(kv, 'db', seed, doc({ ...seed, items: [makeItem('a', { name: 'B 기기', updatedAt: '2026-01-02T00:00:00.000Z' }), makeItem('b')] }));
+    expect(conflicts.map(c => `${c.entity} ${c.recordId} ${c.kept}`)).toEqual(['item a remote']);
+    expect(merged.items[0].name).toBe('A 기기');
+    expect((await kv.get<StoredDocument>('db'))!.items[0].name).toBe('A 기기');
+  });
+
+  it('applies a deletion from one device on the other', async () => {
+    const kv = await seeded();
+    await syncDocument(kv, 'db', seed, doc({ ...seed, items: [makeItem('a')] }));
+    const { merged, conflicts } = await syncDocument(kv, 'db', seed, seed);
+    expect(conflicts).toEqual([]);
+    expect(merged.items.map(i => i.id)).toEqual(['a']);
+  });
+
+  it('gives up when every save is rejected', async () => {
+    const kv = await seeded();
+    const busy: KvClient = { ...kv, setIfRevision: async () => false };
+    await expect(syncDocument(busy, 'db', seed, doc({ ...seed, customers: [makeCustomer('c-a', '홍길동')] }))).rejects.toThrow();
+  });
+});
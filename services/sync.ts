@@ -0,0 +1,351 @@
+import type { Item, Transaction, OrderedPart, Customer, Supplier, Rma, Stocktake, Reservation, ReleaseOrder, User, Role, AuditEntry, TrashedItem } from '../types';
+import { TRANSACTION_TYPE_LABELS } from './stock';
+
+// 클라우드(KV)에 저장되는 전체 문서
+export interface SyncDocument {
+  items: Item[];
+  orderedParts: OrderedPart[];
+  customers: Customer[];
+  suppliers: Supplier[];
+  rmas: Rma[];
+  stocktakes: Stocktake[];
+  reservations: Reservation[];
+  releaseOrders: ReleaseOrder[];
+  users: User[];
+  roles: Role[];
+  auditLog: AuditEntry[];
+  trash: TrashedItem[];
+  updatedAt?: string;
+}
+
+// items 외에 레코드 배열 하나로 이루어진 컬렉션 (레코드 단위로 병합)
+export type FlatCollection = Exclude<keyof SyncDocument, 'items' | 'updatedAt'>;
+
+export const FLAT_COLLECTIONS: { [K in FlatCollection]: (record: SyncDocument[K][number]) => string } = {
+  orderedParts: o => `${o.code} ${o.name} 발주`,
+  customers: c => `${c.name} 고객`,
+  suppliers: s => `${s.name} 공급처`,
+  rmas: r => `${r.serialNumber} 반품`,
+  stocktakes: s => `${s.reference} 재고 실사`,
+  reservations: r => `${r.holder} 예약`,
+  releaseOrders: o => `${o.orderNumber} 출고 주문`,
+  users: u => `${u.username} 사용자`,
+  roles: r => `${r.name} 권한`,
+  auditLog: a => `감사 로그 ${a.label}`,
+  trash: t => `${t.item.code} ${t.item.name} (휴지통)`,
+};
+
+// 추가만 가능한 컬렉션: 병합 시 어느 쪽에서도 레코드를 지우지 않음
+const APPEND_ONLY_COLLECTIONS: FlatCollection[] = ['auditLog'];
+
+const flatCollectionKeys = Object.keys(FLAT_COLLECTIONS) as FlatCollection[];
+
+type FlatRecords<K extends FlatCollection> = SyncDocument[K][number][];
+
+// 컬렉션마다 fn 을 적용해 문서를 만듦 (키마다 레코드 타입이 유지되도록 키를 나열)
+const mapFlatCollections = (fn: <K extends FlatCollection>(key: K) => FlatRecords<K>): Pick<SyncDocument, FlatCollection> => ({
+  orderedParts: fn('orderedParts'),
+  customers: fn('customers'),
+  suppliers: fn('suppliers'),
+  rmas: fn('rmas'),
+  stocktakes: fn('stocktakes'),
+  reservations: fn('reservations'),
+  releaseOrders: fn('releaseOrders'),
+  users: fn('users'),
+  roles: fn('roles'),
+  auditLog: fn('auditLog'),
+  trash: fn('trash'),
+});
+
+export type SyncEntity = 'item' | 'transaction' | FlatCollection;
+
+export const ENTITY_LABELS: Record<SyncEntity, string> = {
+  item: '품목',
+  transaction: '입출고',
+  orderedParts: '발주',
+  customers: '고객',
+  suppliers: '공급처',
+  rmas: '반품',
+  stocktakes: '재고 실사',
+  reservations: '예약',
+  releaseOrders: '출고 주문',
+  users: '사용자',
+  roles: '권한',
+  auditLog: '감사 로그',
+  trash: '휴지통',
+};
+
+export const emptyDocument = (): SyncDocument => ({ items: [], orderedParts: [], customers: [], suppliers: [], rmas: [], stocktakes: [], reservations: [], releaseOrders: [], users: [], roles: [], auditLog: [], trash: [] });
+
+// 자동으로 해결하지 못한 충돌 (최신 updatedAt 쪽을 채택하고 나머지 버전을 보관)
+export interface SyncConflict {
+  id: string;
+  entity: SyncEntity;
+  recordId: string;
+  itemId?: string; // transaction 충돌일 때 상위 품목 ID
+  label: string;
+  kept: 'local' | 'remote';
+  local: Record<string, any> | null; // null 이면 해당 쪽에서 삭제됨
+  remote: Record<string, any> | null;
+  detectedAt: string;
+}
+
+export interface MergeResult {
+  merged: SyncDocument;
+  conflicts: SyncConflict[];
+}
+
+type Versioned = { id: string; updatedAt?: string };
+
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_key, v) => {
+  if (!v || typeof v !== 'object' || Array.isArray(v)) return v;
+  return Object.keys(v).sort().reduce((acc, k) => { acc[k] = v[k]; return acc; }, {} as Record<string, unknown>);
+});
+
+export const isSame = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+export const isSameDocument = (a: SyncDocument, b: SyncDocument) =>
+  isSame(a.items, b.items) && flatCollectionKeys.every(key => isSame(a[key] || [], b[key] || []));
+
+export const isEmptyDocument = (doc: SyncDocument) =>
+  doc.items.length === 0 && flatCollectionKeys.every(key => (doc[key] || []).length === 0);
+
+interface MergeContext<T extends Versioned> {
+  entity: SyncEntity;
+  labelOf: (record: T) => string;
+  conflicts: SyncConflict[];
+  itemId?: string;
+  prependRemote: boolean; // 원격에서만 새로 생긴 레코드를 앞쪽에 둘지 여부
+  mergePresent?: (base: T | undefined, local: T, remote: T) => T;
+}
+
+const reportConflict = <T extends Versioned>(ctx: MergeContext<T>, local: T | undefined, remote: T | undefined, kept: 'local' | 'remote') => {
+  const record = (kept === 'local' ? local : remote) || local || remote;
+  if (!record) return;
+  ctx.conflicts.push({
+    id: `conflict-${Date.now()}-${ctx.conflicts.length}`,
+    entity: ctx.entity,
+    recordId: record.id,
+    itemId: ctx.itemId,
+    label: ctx.labelOf(record),
+    kept,
+    local: local ? { ...local } : null,
+    remote: remote ? { ...remote } : null,
+    detectedAt: new Date().toISOString(),
+  });
+};
+
+// 같은 ID 의 두 번째 레코드부터 `${id}-2`, `${id}-3` ... 으로 바꿈.
+// 순서만으로 정해지므로 같은 데이터를 가진 기기들은 같은 결과를 얻음 (바뀐 것이 없으면 원래 배열을 그대로 반환)
+const renameDuplicates = <T extends Versioned>(records: T[], seen: Set<string>, used: Set<string>): T[] => {
+  let changed = false;
+  const renamed = records.map(record => {
+    if (!seen.has(record.id)) { seen.add(record.id); return record; }
+    let n = 2;
+    while (used.has(`${record.id}-${n}`) || seen.has(`${record.id}-${n}`)) n += 1;
+    const id = `${record.id}-${n}`;
+    seen.add(id);
+    changed = true;
+    return { ...record, id };
+  });
+  return changed ? renamed : records;
+};
+
+// 입출고 기록 ID 는 품목과 휴지통 전체에서 고유해야 함 (생산 소요 등이 ID 로 참조)
+const renameTransactions = (items: Item[], seen: Set<string>, used: Set<string>): Item[] => {
+  let changed = false;
+  const renamed = items.map(item => {
+    const transactions: Transaction[] = renameDuplicates(item.transactions, seen, used);
+    if (transactions === item.transactions) return item;
+    changed = true;
+    return { ...item, transactions };
+  });
+  return changed ? renamed : items;
+};
+
+// 예전 ID 생성 방식(시각 + 0~999 난수)으로 겹친 ID 를 새 ID 로 정리 (불러올 때, 원격 문서를 받을 때, 백업을 읽을 때)
+export const reassignDuplicateIds = (doc: SyncDocument): SyncDocument => {
+  const allTransactions = [...doc.items, ...doc.trash.map(t => t.item)].flatMap(i => i.transactions);
+  const transactionIds = new Set(allTransactions.map(t => t.id));
+  const seenTransactions = new Set<string>();
+  const items = renameTransactions(renameDuplicates(doc.items, new Set(), new Set(doc.items.map(i => i.id))), seenTransactions, transactionIds);
+  const trashItems = renameTransactions(doc.trash.map(t => t.item), seenTransactions, transactionIds);
+  const trash = trashItems.every((item, i) => item === doc.trash[i].item) ? doc.trash : doc.trash.map((t, i) => ({ ...t, item: trashItems[i] }));
+  const renameFlat = <K extends FlatCollection>(key: K): FlatRecords<K> => {
+    const records: FlatRecords<K> = key === 'trash' ? trash : doc[key];
+    return renameDuplicates(records, new Set(), new Set(records.map(r => r.id)));
+  };
+  return { ...doc, items, ...mapFlatCollections(renameFlat) };
+};
+
+// 양쪽 모두 존재하는 레코드의 3-way 병합. 양쪽이 다르게 바뀐 경우 updatedAt 이 더 최신인 쪽을 채택
+const resolveRecord = <T extends Versioned>(ctx: MergeContext<T>, base: T | undefined, local: T, remote: T): T => {
+  if (isSame(local, remote)) return local;
+  if (base && isSame(base, local)) return remote;
+  if (base && isSame(base, remote)) return local;
+  const kept = (remote.updatedAt || '') > (local.updatedAt || '') ? 'remote' : 'local';
+  reportConflict(ctx, local, remote, kept);
+  return kept === 'local' ? local : remote;
+};
+
+const mergeCollection = <T extends Versioned>(base: T[], local: T[], remote: T[], ctx: MergeContext<T>): T[] => {
+  const baseMap = new Map(base.map(r => [r.id, r]));
+  const localMap = new Map(local.map(r => [r.id, r]));
+  const remoteMap = new Map(remote.map(r => [r.id, r]));
+  const remoteOnly = remote.filter(r => !localMap.has(r.id)).map(r => r.id);
+  const orderedIds = ctx.prependRemote ? [...remoteOnly, ...local.map(r => r.id)] : [...local.map(r => r.id), ...remoteOnly];
+
+  const merged: T[] = [];
+  orderedIds.forEach(id => {
+    const b = baseMap.get(id);
+    const l = localMap.get(id);
+    const r = remoteMap.get(id);
+    if (l && r) {
+      merged.push(ctx.mergePresent ? ctx.mergePresent(b, l, r) : resolveRecord(ctx, b, l, r));
+      return;
+    }
+    const present = (l || r)!;
+    if (!b) { merged.push(present); return; } // 한쪽에서 새로 추가됨
+    // 한쪽에서 삭제됨: 다른 쪽이 변경하지 않았으면 삭제를 반영, 변경했다면 충돌로 남기고 변경본을 유지
+    if (isSame(b, present)) return;
+    reportConflict(ctx, l, r, l ? 'local' : 'remote');
+    merged.push(present);
+  });
+  return merged;
+};
+
+export const itemLabel = (item: Item) => `${item.code} ${item.name}`;
+
+export const transactionLabel = (item: Pick<Item, 'code'>, t: Transaction) =>
+  `${item.code} ${new Date(t.date).toLocaleDateString()} ${TRANSACTION_TYPE_LABELS[t.type]} ${t.quantity}`;
+
+// 기준(base: 마지막으로 동기화된 상태), 로컬, 원격 문서를 품목/거래/발주 단위로 병합
+export const mergeDocuments = (base: SyncDocument | null, local: SyncDocument, remote: SyncDocument): MergeResult => {
+  const conflicts: SyncConflict[] = [];
+
+  const mergeItem = (b: Item | undefined, l: Item, r: Item): Item => {
+    const strip = ({ transactions, ...fields }: Item) => fields as Item;
+    const fields = resolveRecord({ entity: 'item', labelOf: itemLabel, conflicts, prependRemote: true }, b && strip(b), strip(l), strip(r));
+    const transactions = mergeCollection<Transaction>(b?.transactions || [], l.transactions, r.transactions, {
+      entity: 'transaction',
+      itemId: l.id,
+      labelOf: t => transactionLabel(l, t),
+      conflicts,
+      prependRemote: false,
+    });
+    return { ...fields, transactions };
+  };
+
+  const items = mergeCollection<Item>(base?.items || [], local.items, remote.items || [], {
+    entity: 'item', labelOf: itemLabel, conflicts, prependRemote: true, mergePresent: mergeItem,
+  });
+  // 키별로 레코드 타입을 유지한 채 병합 (예전 문서에 없는 컬렉션은 빈 목록)
+  const recordsOf = <K extends FlatCollection>(doc: SyncDocument | null, key: K): FlatRecords<K> => doc?.[key] || [];
+  const mergeFlat = <K extends FlatCollection>(key: K): FlatRecords<K> => {
+    if (APPEND_ONLY_COLLECTIONS.includes(key)) {
+      const localIds = new Set(recordsOf(local, key).map(r => r.id));
+      return [...recordsOf(remote, key).filter(r => !localIds.has(r.id)), ...recordsOf(local, key)];
+    }
+    return mergeCollection(recordsOf(base, key), recordsOf(local, key), recordsOf(remote, key), {
+      entity: key, labelOf: FLAT_COLLECTIONS[key], conflicts, prependRemote: true,
+    });
+  };
+  const merged: SyncDocument = { items, ...mapFlatCollections(mergeFlat) };
+  return { merged, conflicts };
+};
+
+// 충돌에서 채택되지 않은 버전을 문서에 적용 (해당 버전이 삭제였다면 레코드를 제거)
+export const applyConflictAlternative = (doc: SyncDocument, conflict: SyncConflict): SyncDocument => {
+  const alternative = conflict.kept === 'local' ? conflict.remote : conflict.local;
+  const stamp = new Date().toISOString();
+  if (conflict.entity !== 'item' && conflict.entity !== 'transaction') {
+    const records = doc[conflict.entity] as Versioned[];
+    return {
+      ...doc,
+      [conflict.entity]: alternative
+        ? records.map(r => r.id === conflict.recordId ? { ...alternative, updatedAt: stamp } : r)
+        : records.filter(r => r.id !== conflict.recordId),
+    };
+  }
+  if (conflict.entity === 'item') {
+    return {
+      ...doc,
+      items: alternative
+        ? doc.items.map(i => i.id === conflict.recordId ? { ...i, ...(alternative as Item), transactions: i.transactions, updatedAt: stamp } : i)
+        : doc.items.filter(i => i.id !== conflict.recordId),
+    };
+  }
+  return {
+    ...doc,
+    items: doc.items.map(i => {
+      if (i.id !== conflict.itemId) return i;
+      const transactions = alternative
+        ? i.transactions.map(t => t.id === conflict.recordId ? { ...(alternative as Transaction), updatedAt: stamp } : t)
+        : i.transactions.filter(t => t.id !== conflict.recordId);
+      return { ...i, transactions };
+    }),
+  };
+};
+
+// KV 에 저장된 문서 (revision: 저장할 때마다 1씩 증가, 다른 기기와 동시에 저장했는지 확인하는 데 사용)
+export type StoredDocument = SyncDocument & { revision?: number };
+
+// Upstash REST API 클라이언트 (/get 과 조건부 저장 스크립트만 사용)
+export interface KvClient {
+  get: <T>(key: string) => Promise<T | null>;
+  // 저장된 문서의 revision 이 expected 일 때만 저장하고 저장 여부를 돌려줌 (문서가 없으면 revision 0)
+  setIfRevision: (key: string, value: StoredDocument, expected: number) => Promise<boolean>;
+}
+
+// GET 과 SET 사이에 다른 기기가 저장하지 않았을 때만 덮어쓰도록 서버에서 한 번에 확인 후 저장
+const SET_IF_REVISION_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local revision = 0
+if current then revision = cjson.decode(current).revision or 0 end
+if revision ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+return 1`;
+
+export const createKvClient = (baseUrl: string, token: string): KvClient => ({
+  get: async <T,>(key: string) => {
+    const response = await fetch(`${baseUrl}/get/${key}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) throw new Error(`KV GET failed (${response.status})`);
+    const data = await response.json();
+    return data.result ? JSON.parse(data.result) as T : null;
+  },
+  setIfRevision: async (key: string, value: StoredDocument, expected: number) => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      // REST API 는 body 의 배열을 명령어와 인자로 실행
+      body: JSON.stringify(['EVAL', SET_IF_REVISION_SCRIPT, '1', key, String(expected), JSON.stringify(value)]),
+    });
+    if (!response.ok) throw new Error(`KV EVAL failed (${response.status})`);
+    const data = await response.json();
+    return data.result === 1;
+  },
+});
+
+// 다른 기기의 저장과 겹쳤을 때 다시 읽어 병합하는 최대 횟수
+const MAX_SYNC_ATTEMPTS = 5;
+
+// 원격 문서를 읽어 로컬 변경분과 병합한 뒤, 원격과 달라진 경우에만 다시 저장.
+// 읽은 뒤 다른 기기가 먼저 저장했으면 저장이 거부되므로 같은 base / local 로 새 원격 문서와 다시 병합
+export const syncDocument = async (client: KvClient, key: string, base: SyncDocument | null, local: SyncDocument): Promise<MergeResult> => {
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+    const remote = await client.get<StoredDocument>(key);
+    if (!remote) {
+      if (isEmptyDocument(local) || await client.setIfRevision(key, { ...local, revision: 1, updatedAt: new Date().toISOString() }, 0)) {
+        return { merged: local, conflicts: [] };
+      }
+      continue;
+    }
+    const revision = remote.revision || 0;
+    const result = mergeDocuments(base, local, reassignDuplicateIds({ ...emptyDocument(), ...remote }));
+    if (isSameDocument(result.merged, remote)) return result;
+    if (await client.setIfRevision(key, { ...result.merged, revision: revision + 1, updatedAt: new Date().toISOString() }, revision)) return result;
+  }
+  throw new Error(`KV SET kept conflicting after ${MAX_SYNC_ATTEMPTS} attempts`);
+};
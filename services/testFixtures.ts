@@ -0,0 +1,19 @@
+import type { Customer, Item, Transaction } from '../types';
+import { MAIN_LOCATION_ID } from './locations';
+
+// 테스트용 레코드: 필수 필드를 기본값으로 채우고 필요한 필드만 덮어씀
+
+export const AT = '2026-01-01T00:00:00.000Z';
+
+export const makeItem = (id: string, fields: Partial<Item> = {}): Item => ({
+  id, type: 'part', registrationDate: '2026-01-01', code: id.toUpperCase(), name: `품목 ${id}`, spec: '', modelName: '',
+  drawingNumber: '', application: '', remarks: '', transactions: [], updatedAt: AT, ...fields,
+});
+
+export const makeTransaction = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id, type: 'purchase', quantity: 1, date: AT, remarks: '', location: MAIN_LOCATION_ID, ...fields,
+});
+
+export const makeCustomer = (id: string, name: string, fields: Partial<Customer> = {}): Customer => ({
+  id, name, phoneNumber: '', address: '', remarks: '', createdAt: AT, ...fields,
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { Transaction } from '../types';
+import { valuateItem } from './valuation';
+import { makeItem, makeTransaction } from './testFixtures';
+
+const record = (id: string, type: Transaction['type'], quantity: number, day: number, fields: Partial<Transaction> = {}) =>
+  makeTransaction(id, { type, quantity, date: `2026-01-${String(day).padStart(2, '0')}T00:00:00.000Z`, ...fields });
+
+const stockedItem = (transactions: Transaction[]) => makeItem('item-1', { transactions });
+
+// 단가 100 × 10, 단가 200 × 10 입고 뒤 15개 출고 (기록 순서는 날짜순이 아님)
+const item = stockedItem([
+  record('out', 'release', 15, 3),
+  record('in-2', 'purchase', 10, 2, { unitCost: 200 }),
+  record('in-1', 'purchase', 10, 1, { unitCost: 100 }),
+]);
+
+describe('valuateItem', () => {
+  it('costs releases from the oldest layers first with FIFO', () => {
+    const valuation = valuateItem(item, 'fifo');
+    expect(valuation).toMatchObject({ quantity: 5, value: 1000, unitCost: 200, releasedCost: 2000 });
+    expect(valuation.releaseCosts.get('out')).toBe(2000);
+  });
+
+  it('costs releases at the moving average with the average method', () => {
+    const valuation = valuateItem(item, 'average');
+    expect(valuation).toMatchObject({ quantity: 5, value: 750, unitCost: 150, releasedCost: 2250 });
+  });
+
+  it('brings receipts without a unit cost in at the current average', () => {
+    const valuation = valuateItem(stockedItem([
+      record('in-1', 'purchase', 10, 1, { unitCost: 100 }),
+      record('in-2', 'purchase', 10, 2, { unitCost: 200 }),
+      record('return', 'adjustment', 20, 3),
+    ]), 'average');
+    expect(valuation).toMatchObject({ quantity: 40, value: 6000, unitCost: 150 });
+  });
+
+  it('ignores quarantine and transfers and costs oversold stock at the last unit cost', () => {
+    const valuation = valuateItem(stockedItem([
+      record('in-1', 'purchase', 5, 1, { unitCost: 100 }),
+      record('held', 'purchase', 3, 2, { unitCost: 999, bucket: 'quarantine' }),
+      record('move', 'transfer', 5, 3, { toLocation: 'loc-van' }),
+      record('out', 'release', 8, 4),
+    ]), 'fifo');
+    expect(valuation).toMatchObject({ quantity: -3, value: 0, unitCost: 100, releasedCost: 800 });
+  });
+});
@@ -0,0 +1,73 @@
+import type { Item, Transaction, CostingMethod } from '../types';
+import { isQuarantine, stockDelta } from './stock';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: '선입선출 (FIFO)',
+  average: '이동평균',
+};
+
+export interface ItemValuation {
+  quantity: number;
+  value: number; // 재고 금액
+  unitCost: number; // 재고 평균 단가
+  releasedCost: number; // 누적 출고 원가
+  releaseCosts: Map<string, number>; // 출고 / 감소 조정 거래 ID → 출고 원가
+}
+
+interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+const byDate = (a: Transaction, b: Transaction) => a.date.localeCompare(b.date);
+
+// 양품 재고의 입출고를 날짜순으로 따라가며 재고 금액과 출고 원가를 계산
+// 단가가 없는 입고(예전 기록, 반품 재입고)는 그 시점의 평균 단가로 들어온 것으로 봄
+export const valuateItem = (item: Item, method: CostingMethod): ItemValuation => {
+  const layers: CostLayer[] = [];
+  const releaseCosts = new Map<string, number>();
+  let quantity = 0;
+  let value = 0;
+  let releasedCost = 0;
+  let lastUnitCost = 0;
+
+  [...item.transactions].filter(t => !isQuarantine(t) && t.type !== 'transfer').sort(byDate).forEach(t => {
+    const averageCost = quantity > 0 ? value / quantity : lastUnitCost;
+    const delta = stockDelta(t);
+    // 실사 조정의 증가분은 단가 없는 입고, 감소분은 출고와 같이 처리
+    if (delta > 0) {
+      const unitCost = t.unitCost ?? averageCost;
+      layers.push({ quantity: delta, unitCost });
+      quantity += delta;
+      value += delta * unitCost;
+      lastUnitCost = unitCost;
+      return;
+    }
+    const outgoing = -delta;
+    let cost = 0;
+    if (method === 'average') {
+      cost = outgoing * averageCost;
+    } else {
+      let remaining = outgoing;
+      while (remaining > 0 && layers.length > 0) {
+        const layer = layers[0];
+        const taken = Math.min(layer.quantity, remaining);
+        cost += taken * layer.unitCost;
+        layer.quantity -= taken;
+        remaining -= taken;
+        if (layer.quantity === 0) layers.shift();
+      }
+      // 재고보다 많이 출고된 부분은 마지막 단가로 계산
+      cost += remaining * lastUnitCost;
+    }
+    quantity -= outgoing;
+    value = quantity > 0 ? value - cost : 0;
+    if (quantity <= 0) layers.length = 0;
+    releaseCosts.set(t.id, cost);
+    releasedCost += cost;
+  });
+
+  return { quantity, value, unitCost: quantity > 0 ? value / quantity : lastUnitCost, releasedCost, releaseCosts };
+};
+
+export const formatCost = (value: number) => Math.round(value).toLocaleString();
@@ -1,17 +1,45 @@
+export type SerialAction = 'return' | 'scrap' | 'restock' | 'repair';
+export type StockBucket = 'good' | 'quarantine'; // 양품, 격리 (반품 검사 대기)
 
+export type TransactionType = 'purchase' | 'release' | 'transfer' | 'adjustment'; // 입고, 출고, 위치 이동, 실사 조정
+
+export type CostingMethod = 'fifo' | 'average'; // 선입선출, 이동평균
+
+// 출고 / 이동 / 감소 조정이 소진한 부품 로트
+export interface LotQuantity {
+  lotNumber: string;
+  quantity: number;
+}
 
 export interface Transaction {
   id: string;
-  type: 'purchase' | 'release';
-  quantity: number;
+  type: TransactionType;
+  quantity: number; // 조정(adjustment)만 부호 있음 (+ 증가 / - 감소)
   date: string;
   remarks: string;
   modelName?: string; // 기종 정보
   serialNumber?: string; // 일련번호 (선택)
+  serialAction?: SerialAction; // 일련번호 반품 / 폐기 / 재입고 / 수리 반환
+  bucket?: StockBucket; // 재고 구분 (없으면 양품)
+  rmaId?: string; // 반품(RMA) 처리로 생성된 경우 RMA ID
+  unitCost?: number; // 입고 단가 (출고 원가는 평가 방법에 따라 계산)
+  location?: string; // 재고 위치 ID (없으면 본사 창고)
+  toLocation?: string; // 위치 이동 시 도착 위치 ID
   customerName?: string; // 이름
   address?: string; // 주소
   phoneNumber?: string; // 전화번호
+  customerId?: string; // 고객 ID (고객 목록과 연결된 경우)
+  supplierId?: string; // 입고 공급처 ID
+  lotNumber?: string; // 부품 입고 로트 번호
+  expiryDate?: string; // 로트 유효기한 (YYYY-MM-DD)
+  lots?: LotQuantity[]; // 소진한 로트 (합계가 수량보다 적으면 나머지는 로트 없는 재고에서)
   userId?: string; // 아이디 추가
+  orderedPartId?: string; // 발주 입고로 생성된 경우 발주 ID
+  productionId?: string; // 제품 생산 입고로 자동 차감된 경우 제품 입고 기록 ID
+  stocktakeId?: string; // 재고 실사 승인으로 생성된 조정 기록의 실사 ID
+  reservationId?: string; // 재고 예약을 출고로 전환한 경우 예약 ID
+  releaseOrderId?: string; // 출고 주문 출하로 생성된 경우 주문 ID
+  updatedAt?: string; // 마지막 수정 시각 (동기화 충돌 판단용)
 }
 
 export interface Item {
@@ -25,17 +53,221 @@ export interface Item {
   drawingNumber: string; // 도번
   application: string; // 적용
   remarks: string; // 비고
+  bom?: BomLine[]; // 구성 부품 (제품만)
+  warrantyMonths?: number; // 보증 기간 (개월, 제품만)
+  safetyStock?: number; // 안전 재고 (현재 재고가 이보다 적으면 발주 필요)
+  reorderQuantity?: number; // 기본 발주 수량 (최소 발주 단위)
   transactions: Transaction[];
+  updatedAt?: string; // 마지막 수정 시각 (동기화 충돌 판단용)
+}
+
+// 제품 1개당 소요 부품
+export interface BomLine {
+  partId: string; // 부품 Item.id
+  quantity: number; // 제품 1개당 소요 수량
 }
 
-// Fix: Added missing OrderedPart interface to resolve "no exported member" errors in modal components
+export type OrderedPartStatus = 'ordered' | 'partial' | 'received' | 'cancelled'; // 발주, 부분입고, 입고완료, 취소
+
 export interface OrderedPart {
   id: string;
-  registrationDate: string;
-  code: string;
-  drawingNumber: string;
-  name: string;
-  spec: string;
-  unitPrice: number;
+  registrationDate: string; // 발주일
+  code: string; // 품번 (Item.code 와 연결)
+  drawingNumber: string; // 도번
+  name: string; // 품명
+  spec: string; // 규격
+  unitPrice: number; // 단가
+  quantity: number; // 발주 수량
+  receivedQuantity: number; // 입고된 수량
+  status: OrderedPartStatus;
+  supplierId?: string; // 공급처 ID
+  remarks: string; // 비고
+  updatedAt?: string; // 마지막 수정 시각 (동기화 충돌 판단용)
+}
+
+// 고객 (제품 출고 대상)
+export interface Customer {
+  id: string;
+  name: string; // 이름 / 상호
+  phoneNumber: string; // 연락처
+  address: string; // 기본 배송 주소
+  remarks: string; // 비고
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// 공급처 (부품 / 제품 입고처)
+export interface Supplier {
+  id: string;
+  name: string; // 상호
+  contactName: string; // 담당자
+  phoneNumber: string; // 연락처
+  email: string;
+  leadTimeDays: number; // 발주 후 입고까지 걸리는 일수
+  partCodes: string[]; // 공급 품번 (Item.code, 최근 단가는 입고 / 발주 기록에서 계산)
+  remarks: string; // 비고
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type RmaStatus = 'received' | 'closed'; // 접수, 처리 완료
+export type RmaOutcome = 'restock' | 'repair' | 'scrap'; // 재입고, 수리 후 반환, 폐기
+
+// 반품 / 보증 수리 접수
+export interface Rma {
+  id: string;
+  itemId: string; // 제품 Item.id
+  serialNumber: string;
+  customerId?: string;
+  customerName: string;
+  receivedAt: string; // 접수일
+  reason: string; // 반품 사유
+  releasedAt?: string; // 원 출고일
+  warrantyExpiresAt?: string; // 보증 만료일
+  underWarranty: boolean;
+  status: RmaStatus;
+  outcome?: RmaOutcome; // 검사 결과
+  inspectionNotes: string;
+  closedAt?: string;
+  updatedAt?: string;
+}
+
+export type StocktakeStatus = 'draft' | 'approved' | 'cancelled'; // 실사 중, 승인(조정 반영), 취소
+
+// 재고 실사: 실사 수량을 입력한 품목만 기록
+export interface StocktakeLine {
+  itemId: string;
+  counted: number; // 실사 수량
+  expected?: number; // 승인 시점의 전산 재고
+}
+
+export interface Stocktake {
+  id: string;
+  reference: string; // 실사 번호 (ST-YYYYMMDD-NN, 조정 기록 비고에 남음)
+  itemType: Item['type'] | ''; // 대상 구분 ('' 이면 전체)
+  location: string; // 실사 위치 ID
+  status: StocktakeStatus;
+  lines: StocktakeLine[];
   remarks: string;
-}
\ No newline at end of file
+  createdAt: string;
+  createdBy: string;
+  approvedAt?: string;
+  approvedBy?: string;
+  updatedAt?: string;
+}
+
+export type ReservationStatus = 'active' | 'released' | 'cancelled'; // 예약 중, 출고 전환, 취소
+
+// 재고 예약: 가용 재고에서만 빠지고 양품 재고는 출고로 전환할 때 줄어듦
+export interface Reservation {
+  id: string;
+  itemId: string;
+  location: string; // 예약 위치 ID
+  quantity: number;
+  holder: string; // 고객명 또는 작업명
+  customerId?: string; // 고객 목록과 연결된 경우
+  expiresAt: string; // 예약 만료일 (YYYY-MM-DD, 당일까지 유효)
+  status: ReservationStatus;
+  remarks: string;
+  createdAt: string;
+  createdBy: string;
+  closedAt?: string; // 출고 전환 / 취소 시각
+  closedBy?: string;
+  updatedAt?: string;
+}
+
+export type ReleaseOrderStatus = 'draft' | 'picked' | 'shipped' | 'cancelled'; // 작성 중, 피킹 완료, 출하 완료, 취소
+
+export interface ReleaseOrderLine {
+  itemId: string;
+  quantity: number;
+  serials?: string[]; // 재고 일련번호가 있는 제품은 수량만큼 고른 번호
+  unitPrice?: number; // 판매 단가 (거래명세서 금액)
+}
+
+// 출고 주문: 한 고객에게 나가는 여러 품목 / 일련번호를 묶어 한 번에 출하
+export interface ReleaseOrder {
+  id: string;
+  orderNumber: string; // 주문 번호 (RO-YYYYMMDD-NN, 출고 기록 비고에 남음)
+  customerId?: string;
+  customerName: string;
+  phoneNumber: string;
+  address: string; // 배송 주소
+  location: string; // 출고 위치 ID
+  lines: ReleaseOrderLine[];
+  status: ReleaseOrderStatus;
+  remarks: string;
+  createdAt: string;
+  createdBy: string;
+  pickedAt?: string;
+  pickedBy?: string;
+  shippedAt?: string;
+  shippedBy?: string;
+  updatedAt?: string;
+}
+
+// 권한 항목 (역할별로 조합해서 사용)
+export type Permission =
+  | 'view_parts' // 부품 조회
+  | 'view_products' // 제품 조회
+  | 'purchase' // 입고 등록
+  | 'release' // 출고 등록
+  | 'transfer' // 위치 이동
+  | 'edit_master' // 품목 등록 / 기본정보 수정
+  | 'edit_transactions' // 입출고 기록 수정
+  | 'delete' // 품목 / 기록 삭제
+  | 'manage_orders' // 발주 관리
+  | 'manage_rma' // 반품(RMA) 처리
+  | 'stocktake' // 재고 실사 입력
+  | 'approve_stocktake' // 재고 실사 승인 (조정 기록 생성)
+  | 'backup' // 백업 / 복구
+  | 'view_audit' // 감사 로그 조회
+  | 'view_costs' // 단가 / 재고 금액 조회
+  | 'manage_users'; // 사용자 / 권한 관리
+
+export interface Role {
+  id: string;
+  name: string; // 역할명
+  permissions: Permission[];
+  updatedAt?: string;
+}
+
+export interface User {
+  id: string;
+  username: string; // 로그인 아이디 (Transaction.userId 로 기록됨)
+  displayName: string; // 이름
+  roleId: string;
+  passwordHash: string; // PBKDF2-SHA256 해시 (hex)
+  salt: string;
+  active: boolean; // 비활성 사용자는 로그인 불가
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'import' | 'undo' | 'redo';
+export type AuditEntity = 'item' | 'transaction' | 'orderedPart' | 'customer' | 'supplier' | 'rma' | 'stocktake' | 'reservation' | 'releaseOrder' | 'backup' | 'history';
+
+// 감사 로그 (추가만 가능, 수정/삭제 불가)
+export interface AuditEntry {
+  id: string;
+  at: string; // 기록 시각
+  userId: string; // 작업자 아이디
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId: string;
+  itemId?: string; // transaction 인 경우 상위 품목 ID
+  label: string; // 대상 요약 (코드, 품명 등)
+  before: Record<string, any> | null; // 변경 전 값 (변경된 필드만)
+  after: Record<string, any> | null; // 변경 후 값
+  reason: string; // 사유
+}
+
+// 휴지통으로 이동한 품목 (복구 가능)
+export interface TrashedItem {
+  id: string;
+  item: Item;
+  deletedAt: string;
+  deletedBy: string;
+  reason: string;
+  updatedAt?: string;
+}
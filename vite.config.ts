@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.KV_REST_API_URL': JSON.stringify(env.KV_REST_API_URL),
+        'process.env.KV_REST_API_TOKEN': JSON.stringify(env.KV_REST_API_TOKEN)
       },
       resolve: {
         alias: {